@@ -31,8 +31,8 @@ module.exports = {
     "^.+\\.(ts|tsx)$": "ts-jest",
   },
 
+  // Resolve the ".js" extensions used by relative ESM imports to their TypeScript sources
   moduleNameMapper: {
-    "^(.+)/version\\.js$": "$1/version.ts",
-    "^(.+)/utils\\.js$": "$1/utils.ts",
+    "^(\\.{1,2}/.*)\\.js$": "$1",
   },
 };
@@ -0,0 +1,174 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AccessToken, ClientSecretCredential, DefaultAzureCredential, ManagedIdentityCredential, TokenCredential } from "@azure/identity";
+import * as azdev from "azure-devops-node-api";
+import { IRequestHandler } from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces.js";
+
+// Well-known Entra application ID of Azure DevOps
+const AZURE_DEVOPS_SCOPE = "499b84ac-1321-427f-aa17-267ca6975798/.default";
+
+// Tokens are refreshed this long before they expire so in-flight requests never carry a stale token
+const TOKEN_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+const AUTH_TYPES = ["pat", "entra", "managed-identity", "service-principal"] as const;
+
+type AuthType = (typeof AUTH_TYPES)[number];
+
+interface AuthProvider {
+  readonly type: AuthType;
+  /** Returns the value of the Authorization header for raw REST calls, e.g. "Basic ..." or "Bearer ...". */
+  getAuthorizationHeader(): Promise<string>;
+  /** Returns a request handler for azure-devops-node-api clients. */
+  getRequestHandler(): Promise<IRequestHandler>;
+}
+
+interface AuthOptions {
+  type?: AuthType;
+  pat?: string;
+  tenantId?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/*
+  Wraps a credential with a token cache that refreshes the token shortly before it expires
+  and shares a single in-flight request between concurrent callers.
+*/
+function createCachedTokenProvider(credential: TokenCredential, scope: string = AZURE_DEVOPS_SCOPE, now: () => number = Date.now): () => Promise<AccessToken> {
+  let cached: AccessToken | undefined;
+  let pending: Promise<AccessToken> | undefined;
+
+  const needsRefresh = (token: AccessToken) => {
+    const refreshAt = token.refreshAfterTimestamp ?? token.expiresOnTimestamp - TOKEN_REFRESH_WINDOW_MS;
+    return now() >= refreshAt;
+  };
+
+  return async () => {
+    if (cached && !needsRefresh(cached)) {
+      return cached;
+    }
+
+    if (!pending) {
+      pending = credential
+        .getToken(scope)
+        .then((token) => {
+          if (!token) {
+            throw new Error("Failed to acquire an access token for Azure DevOps");
+          }
+          cached = token;
+          return token;
+        })
+        .finally(() => {
+          pending = undefined;
+        });
+    }
+
+    // Keep using a token that is about to expire if the refresh fails
+    if (cached && now() < cached.expiresOnTimestamp) {
+      return pending.catch(() => cached as AccessToken);
+    }
+    return pending;
+  };
+}
+
+function createPatAuthProvider(pat: string): AuthProvider {
+  const encoded = Buffer.from(`:${pat}`).toString("base64");
+  return {
+    type: "pat",
+    getAuthorizationHeader: async () => `Basic ${encoded}`,
+    getRequestHandler: async () => azdev.getPersonalAccessTokenHandler(pat),
+  };
+}
+
+function createTokenAuthProvider(type: AuthType, credential: TokenCredential): AuthProvider {
+  const getToken = createCachedTokenProvider(credential);
+  return {
+    type,
+    getAuthorizationHeader: async () => `Bearer ${(await getToken()).token}`,
+    getRequestHandler: async () => azdev.getBearerHandler((await getToken()).token),
+  };
+}
+
+function resolveAuthType(options: AuthOptions): AuthType {
+  if (options.type) {
+    return options.type;
+  }
+  if (options.pat) {
+    return "pat";
+  }
+  if (options.tenantId && options.clientId && options.clientSecret) {
+    return "service-principal";
+  }
+  return "entra";
+}
+
+function createAuthProvider(options: AuthOptions): AuthProvider {
+  const type = resolveAuthType(options);
+
+  switch (type) {
+    case "pat": {
+      if (!options.pat) {
+        throw new Error("A personal access token is required for 'pat' authentication. Pass it as an argument or set AZURE_DEVOPS_PAT.");
+      }
+      return createPatAuthProvider(options.pat);
+    }
+    case "service-principal": {
+      const { tenantId, clientId, clientSecret } = options;
+      if (!tenantId || !clientId || !clientSecret) {
+        throw new Error("Service principal authentication requires AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET.");
+      }
+      return createTokenAuthProvider(type, new ClientSecretCredential(tenantId, clientId, clientSecret));
+    }
+    case "managed-identity": {
+      // A client ID selects a user-assigned identity; without it the system-assigned identity is used
+      const credential = options.clientId ? new ManagedIdentityCredential({ clientId: options.clientId }) : new ManagedIdentityCredential();
+      return createTokenAuthProvider(type, credential);
+    }
+    case "entra": {
+      process.env.AZURE_TOKEN_CREDENTIALS = "dev";
+      const credential = new DefaultAzureCredential(); // CodeQL [SM05138] resolved by explicitly setting AZURE_TOKEN_CREDENTIALS
+      return createTokenAuthProvider(type, credential);
+    }
+  }
+}
+
+const CREDENTIAL_VARIABLES = ["AZURE_DEVOPS_AUTH_TYPE", "AZURE_DEVOPS_PAT", "AZURE_TENANT_ID", "AZURE_CLIENT_ID", "AZURE_CLIENT_SECRET"];
+
+/*
+  Environment variable suffix for an organization's own credentials, e.g. "CONTOSO" for AZURE_DEVOPS_PAT_CONTOSO.
+*/
+function getOrganizationEnvSuffix(organization: string): string {
+  return organization.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/*
+  Reads authentication settings from the environment:
+  AZURE_DEVOPS_AUTH_TYPE (pat | entra | managed-identity | service-principal), AZURE_DEVOPS_PAT,
+  and the standard AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET variables.
+  With an organization, each variable can be overridden per organization by appending its suffix,
+  e.g. AZURE_DEVOPS_PAT_CONTOSO or AZURE_DEVOPS_AUTH_TYPE_FABRIKAM.
+  `fallbackPat`, the PAT given on the command line, replaces AZURE_DEVOPS_PAT for organizations without any
+  credential variables of their own.
+*/
+function getAuthOptionsFromEnv(env: NodeJS.ProcessEnv = process.env, organization?: string, fallbackPat?: string): AuthOptions {
+  const suffix = organization ? `_${getOrganizationEnvSuffix(organization)}` : "";
+  const read = (name: string) => (suffix ? (env[`${name}${suffix}`] ?? env[name]) : env[name]);
+  const hasOwnCredentials = suffix !== "" && CREDENTIAL_VARIABLES.some((name) => env[`${name}${suffix}`] !== undefined);
+
+  const type = read("AZURE_DEVOPS_AUTH_TYPE")?.trim().toLowerCase();
+  if (type && !(AUTH_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`Unsupported AZURE_DEVOPS_AUTH_TYPE${suffix} '${type}'. Supported values: ${AUTH_TYPES.join(", ")}`);
+  }
+
+  return {
+    type: type as AuthType | undefined,
+    pat: hasOwnCredentials ? read("AZURE_DEVOPS_PAT") : (fallbackPat ?? read("AZURE_DEVOPS_PAT")),
+    tenantId: read("AZURE_TENANT_ID"),
+    clientId: read("AZURE_CLIENT_ID"),
+    clientSecret: read("AZURE_CLIENT_SECRET"),
+  };
+}
+
+export { AUTH_TYPES, createAuthProvider, createCachedTokenProvider, getAuthOptionsFromEnv, getOrganizationEnvSuffix };
+export type { AuthOptions, AuthProvider, AuthType };
@@ -0,0 +1,164 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, ZodTypeAny } from "zod";
+
+const CONFIG_FILE_NAME = "ado-mcp.config.json";
+
+const defaultValue = z.string().trim().min(1, "must not be empty");
+
+const defaultsSchema = z
+  .object({
+    project: defaultValue.optional(),
+    team: defaultValue.optional(),
+    repository: defaultValue.optional(),
+    areaPath: defaultValue.optional(),
+    iteration: defaultValue.optional(),
+  })
+  .strict();
+
+const configFileSchema = z
+  .object({
+    $schema: z.string().optional(),
+    defaults: defaultsSchema.optional(),
+  })
+  .strict();
+
+type ToolDefaults = z.infer<typeof defaultsSchema>;
+type DefaultName = keyof ToolDefaults;
+
+interface ServerConfig {
+  /** The config file that was loaded, if any. */
+  path?: string;
+  defaults: ToolDefaults;
+}
+
+const DEFAULT_ENV_VARS: Record<DefaultName, string> = {
+  project: "AZURE_DEVOPS_MCP_DEFAULT_PROJECT",
+  team: "AZURE_DEVOPS_MCP_DEFAULT_TEAM",
+  repository: "AZURE_DEVOPS_MCP_DEFAULT_REPOSITORY",
+  areaPath: "AZURE_DEVOPS_MCP_DEFAULT_AREA_PATH",
+  iteration: "AZURE_DEVOPS_MCP_DEFAULT_ITERATION",
+};
+
+/*
+  Tool parameters that take a configured default. Parameters with `optionalToo` also get the default when the tool
+  declares them optional, because omitting them means "the Azure DevOps default"; an omitted optional project or
+  repository usually widens the call to the whole organization instead, so those are only defaulted when required.
+*/
+const DEFAULTED_PARAMETERS: Record<string, { name: DefaultName; optionalToo: boolean }> = {
+  project: { name: "project", optionalToo: false },
+  team: { name: "team", optionalToo: true },
+  repositoryId: { name: "repository", optionalToo: false },
+  repositoryNameOrId: { name: "repository", optionalToo: false },
+  areaPath: { name: "areaPath", optionalToo: true },
+  iteration: { name: "iteration", optionalToo: true },
+  iterationPath: { name: "iteration", optionalToo: true },
+};
+
+/*
+  Optional parameters that get the default anyway because the tool falls back to "the default project" when they are omitted.
+*/
+const OPTIONAL_DEFAULTS_BY_TOOL: Record<string, string[]> = {
+  wit_get_query_results_by_id: ["project"],
+  wiki_get_wiki: ["project"],
+};
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `  - ${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`).join("\n");
+}
+
+function readConfigFile(path: string): ToolDefaults {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read configuration file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid configuration file ${path}:\n${formatIssues(result.error)}`);
+  }
+  return result.data.defaults ?? {};
+}
+
+function readDefaultsFromEnv(env: NodeJS.ProcessEnv): ToolDefaults {
+  const defaults: Record<string, string> = {};
+  for (const [name, variable] of Object.entries(DEFAULT_ENV_VARS)) {
+    const value = env[variable]?.trim();
+    if (value) {
+      defaults[name] = value;
+    }
+  }
+  return defaults;
+}
+
+/*
+  Loads the tool defaults from the config file and the environment, the environment taking precedence.
+  An explicitly given config path must exist; otherwise `ado-mcp.config.json` in the working directory is used when present.
+*/
+function loadConfig(configPath?: string, env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): ServerConfig {
+  let path: string | undefined;
+  if (configPath) {
+    path = resolve(cwd, configPath);
+    if (!existsSync(path)) {
+      throw new Error(`Configuration file ${path} does not exist`);
+    }
+  } else if (existsSync(resolve(cwd, CONFIG_FILE_NAME))) {
+    path = resolve(cwd, CONFIG_FILE_NAME);
+  }
+
+  const fileDefaults = path ? readConfigFile(path) : {};
+  return { path, defaults: { ...fileDefaults, ...readDefaultsFromEnv(env) } };
+}
+
+function isStringParameter(schema: ZodTypeAny): boolean {
+  const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+  return inner instanceof z.ZodString;
+}
+
+function applyDefaults(paramsSchema: Record<string, ZodTypeAny>, defaults: ToolDefaults, optionalDefaults: string[] = []): Record<string, ZodTypeAny> {
+  const result: Record<string, ZodTypeAny> = {};
+  for (const [key, schema] of Object.entries(paramsSchema)) {
+    const parameter = DEFAULTED_PARAMETERS[key];
+    const value = parameter ? defaults[parameter.name] : undefined;
+    if (!value || !isStringParameter(schema) || (schema.isOptional() && !parameter.optionalToo && !optionalDefaults.includes(key))) {
+      result[key] = schema;
+      continue;
+    }
+    const description = schema.description ? `${schema.description.trim()} ` : "";
+    result[key] = schema.default(value).describe(`${description}Defaults to '${value}'.`);
+  }
+  return result;
+}
+
+/*
+  Wraps the server so that project, team, repository, area path and iteration parameters become optional
+  when a default is configured; zod fills in the default before the tool handler runs.
+*/
+function createDefaultsServer(server: McpServer, defaults: ToolDefaults): McpServer {
+  if (Object.values(defaults).every((value) => !value)) {
+    return server;
+  }
+
+  const tool = (name: string, ...rest: unknown[]) => {
+    // server.tool(name, description, paramsSchema, [annotations], callback)
+    if (rest.length < 3 || typeof rest[rest.length - 1] !== "function") {
+      return (server.tool as (...args: unknown[]) => unknown)(name, ...rest);
+    }
+    const [description, paramsSchema, ...others] = rest;
+    return (server.tool as (...args: unknown[]) => unknown)(name, description, applyDefaults(paramsSchema as Record<string, ZodTypeAny>, defaults, OPTIONAL_DEFAULTS_BY_TOOL[name]), ...others);
+  };
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      return property === "tool" ? tool : Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+export { CONFIG_FILE_NAME, createDefaultsServer, DEFAULT_ENV_VARS, loadConfig };
+export type { ServerConfig, ToolDefaults };
@@ -0,0 +1,160 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describeThrottling, getRetryAfterMs, ThrottlingEvent, trackThrottling } from "./http.js";
+import { logger } from "./logger.js";
+
+type ToolErrorCode = "unauthorized" | "forbidden" | "not_found" | "conflict" | "precondition_failed" | "rate_limited" | "bad_request" | "server_error" | "unknown";
+
+interface ToolErrorEnvelope {
+  error: {
+    code: ToolErrorCode;
+    /** HTTP status returned by Azure DevOps, when the failure came from a REST call. */
+    status?: number;
+    message: string;
+    /** What the user can do about the failure. */
+    hint?: string;
+    /** Seconds to wait before retrying, from the Retry-After header. */
+    retryAfterSeconds?: number;
+  };
+}
+
+/*
+  Error thrown for failed raw `fetch` calls to the Azure DevOps REST API, so the status code
+  survives until the tool-handler wrapper maps it. `azure-devops-node-api` errors already carry `statusCode`.
+*/
+class AzureDevOpsRequestError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "AzureDevOpsRequestError";
+  }
+
+  static async fromResponse(response: Response, message: string): Promise<AzureDevOpsRequestError> {
+    const body = await response.text().catch(() => "");
+    const detail = extractErrorDetail(body) ?? response.statusText;
+    const retryAfterMs = getRetryAfterMs(response);
+    return new AzureDevOpsRequestError(`${message}: ${response.status} ${detail}`.trim(), response.status, retryAfterMs ? Math.ceil(retryAfterMs / 1000) : undefined);
+  }
+}
+
+/*
+  Error thrown for tool input that cannot be used, before anything is sent to Azure DevOps.
+  Carries status 400 so the tool error envelope reports it as a bad request.
+*/
+class BadRequestError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+const STATUS_CODES: Record<number, ToolErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  412: "precondition_failed",
+  429: "rate_limited",
+};
+
+const HINTS: Record<ToolErrorCode, string | undefined> = {
+  unauthorized: "Authentication failed. Check that the personal access token or Azure credentials are valid, not expired, and belong to this organization.",
+  forbidden: "The signed-in identity lacks permission for this operation. Check the token scopes and the project, area or repository permissions.",
+  not_found: "The resource was not found. Check the organization, project and identifier values; the identity may also lack read access to it.",
+  conflict: "The request conflicts with the current state of the resource, for example it already exists or was changed concurrently. Refresh it and retry.",
+  precondition_failed: "The resource was modified since it was read (revision mismatch). Fetch the latest version and retry the update.",
+  rate_limited: "Azure DevOps is throttling requests. Wait before retrying and reduce the number of parallel calls.",
+  bad_request: "Azure DevOps rejected the request. Check the parameter values and field names.",
+  server_error: "Azure DevOps returned a server error. Retry later.",
+  unknown: undefined,
+};
+
+function extractErrorDetail(body: string): string | undefined {
+  if (!body) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(body) as { message?: unknown };
+    return typeof parsed.message === "string" ? parsed.message : body;
+  } catch {
+    return body;
+  }
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const candidate = error as { statusCode?: unknown; status?: unknown };
+  const status = candidate.statusCode ?? candidate.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function toErrorCode(status: number | undefined): ToolErrorCode {
+  if (status === undefined) {
+    return "unknown";
+  }
+  if (STATUS_CODES[status]) {
+    return STATUS_CODES[status];
+  }
+  return status >= 500 ? "server_error" : "unknown";
+}
+
+function toErrorEnvelope(error: unknown, action: string): ToolErrorEnvelope {
+  const status = getStatusCode(error);
+  const code = toErrorCode(status);
+  const errorMessage = error instanceof Error ? error.message : typeof error === "string" ? error : "Unknown error occurred";
+  const retryAfterSeconds = error instanceof AzureDevOpsRequestError ? error.retryAfterSeconds : undefined;
+
+  return {
+    error: {
+      code,
+      status,
+      message: `Error ${action}: ${errorMessage}`,
+      hint: HINTS[code],
+      retryAfterSeconds,
+    },
+  };
+}
+
+function createErrorResult(error: unknown, action: string): CallToolResult {
+  const envelope = toErrorEnvelope(error, action);
+  return {
+    content: [{ type: "text", text: JSON.stringify(envelope, null, 2) }],
+    isError: true,
+  };
+}
+
+/*
+  Wraps a tool handler so that every failure becomes an `isError` result carrying a typed error envelope
+  instead of an exception escaping to the client. `action` completes the sentence "Error ...", e.g. "fetching projects".
+  When Azure DevOps throttled any request made by the handler, the result also says so.
+*/
+function withErrorHandling<TArgs extends unknown[]>(action: string, handler: (...args: TArgs) => Promise<CallToolResult>): (...args: TArgs) => Promise<CallToolResult> {
+  return async (...args: TArgs) => {
+    const throttling: ThrottlingEvent[] = [];
+    let result: CallToolResult;
+    try {
+      result = await trackThrottling(throttling, () => handler(...args));
+    } catch (error) {
+      logger.error(`Error ${action}`, error);
+      result = createErrorResult(error, action);
+    }
+
+    if (throttling.length === 0) {
+      return result;
+    }
+    return { ...result, content: [...result.content, { type: "text", text: describeThrottling(throttling) }] };
+  };
+}
+
+export { AzureDevOpsRequestError, BadRequestError, createErrorResult, getStatusCode, toErrorEnvelope, withErrorHandling };
+export type { ToolErrorCode, ToolErrorEnvelope };
@@ -0,0 +1,289 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { WebApi } from "azure-devops-node-api";
+import { ClientApiBase } from "azure-devops-node-api/ClientApiBases.js";
+import { IRequestOptions } from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces.js";
+import { logger } from "./logger.js";
+import { getOrganizationKey } from "./org.js";
+
+interface HttpClientOptions {
+  /** Number of retries after the first attempt. */
+  maxRetries: number;
+  /** Maximum number of requests in flight per organization. */
+  maxConcurrency: number;
+  /** First backoff delay; doubled on every retry and randomized by up to 50%. */
+  baseDelayMs: number;
+  /** Upper bound for backoff delays and for waiting on Retry-After. */
+  maxDelayMs: number;
+}
+
+interface ThrottlingEvent {
+  url: string;
+  status: number;
+  /** How long the client waited before retrying, or how long Azure DevOps delayed the request. */
+  delayMs: number;
+  /** Whether the request was retried, or only delayed by Azure DevOps (X-RateLimit-Delay). */
+  retried: boolean;
+  /** The throttled resource reported by Azure DevOps in X-RateLimit-Resource. */
+  resource?: string;
+}
+
+// 429 means the request was rejected before being processed, so it is safe to retry for every method
+const THROTTLED_STATUS = 429;
+const TRANSIENT_STATUSES = [502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+const DEFAULT_OPTIONS: HttpClientOptions = {
+  maxRetries: 3,
+  maxConcurrency: 8,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+let options: HttpClientOptions = { ...DEFAULT_OPTIONS };
+const limiters = new Map<string, ConcurrencyLimiter>();
+const throttlingStorage = new AsyncLocalStorage<ThrottlingEvent[]>();
+
+class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over, so `active` already counts this one
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+function configureHttpClient(overrides: Partial<HttpClientOptions>) {
+  options = { ...options, ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)) };
+  limiters.clear();
+}
+
+/*
+  Request options for `WebApi`. The node API client only retries 502/503/504 for idempotent verbs;
+  429 handling and the concurrency limit come from `applyWebApiRequestPolicy`.
+*/
+function getWebApiRequestOptions(): IRequestOptions {
+  return { allowRetries: options.maxRetries > 0, maxRetries: options.maxRetries };
+}
+
+function getLimiter(url: string): ConcurrencyLimiter {
+  let key: string;
+  try {
+    key = getOrganizationKey(url);
+  } catch {
+    key = url;
+  }
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(options.maxConcurrency);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+function parseSeconds(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/*
+  Retry-After is either a number of seconds or an HTTP date.
+*/
+function getRetryAfterMs(response: Pick<Response, "headers" | "status">, now = Date.now()): number | undefined {
+  const value = response.headers.get("Retry-After");
+  const seconds = parseSeconds(value);
+  if (seconds !== undefined) {
+    return seconds * 1000;
+  }
+  const date = value ? Date.parse(value) : NaN;
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  // X-RateLimit-Reset is the epoch second at which the throttled resource is available again
+  const reset = parseSeconds(response.headers.get("X-RateLimit-Reset"));
+  return reset !== undefined && response.status === THROTTLED_STATUS ? Math.max(0, reset * 1000 - now) : undefined;
+}
+
+function getBackoffMs(attempt: number): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function isRetryable(status: number, method: string): boolean {
+  return status === THROTTLED_STATUS || (TRANSIENT_STATUSES.includes(status) && IDEMPOTENT_METHODS.includes(method));
+}
+
+function recordThrottling(event: ThrottlingEvent) {
+  logger.warning(event.retried ? "Azure DevOps request throttled, retrying" : "Azure DevOps request delayed by rate limiting", event);
+  throttlingStorage.getStore()?.push(event);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/*
+  Sends a request through the organization's limiter, retrying throttled (429) requests and transient failures of
+  idempotent requests with exponential backoff and jitter, and honoring Retry-After. Waiting between attempts
+  does not hold a slot of the limiter.
+*/
+async function sendWithPolicy<TResponse>(
+  url: string,
+  method: string,
+  send: () => Promise<TResponse>,
+  inspect: (response: TResponse) => { status: number; headers: Headers },
+  discard: (response: TResponse) => Promise<unknown>,
+  retryable: (status: number, method: string) => boolean = isRetryable
+): Promise<TResponse> {
+  const limiter = getLimiter(url);
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await limiter.run(send);
+    const { status, headers } = inspect(response);
+    const resource = headers.get("X-RateLimit-Resource") ?? undefined;
+
+    if (status >= 200 && status < 300) {
+      const delaySeconds = parseSeconds(headers.get("X-RateLimit-Delay"));
+      if (delaySeconds) {
+        recordThrottling({ url, status, delayMs: delaySeconds * 1000, retried: false, resource });
+      }
+      return response;
+    }
+
+    if (attempt >= options.maxRetries || !retryable(status, method)) {
+      return response;
+    }
+
+    const retryAfterMs = getRetryAfterMs({ status, headers });
+    if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+      // Waiting this long would stall the tool call; let the caller report the Retry-After instead
+      return response;
+    }
+
+    const delayMs = retryAfterMs ?? getBackoffMs(attempt);
+    recordThrottling({ url, status, delayMs, retried: true, resource });
+    await discard(response).catch(() => undefined);
+    await sleep(delayMs);
+  }
+}
+
+/*
+  Drop-in replacement for `fetch` used for every raw Azure DevOps REST call. Applies the per-organization
+  concurrency limit and retry policy of `sendWithPolicy`. Pass `idempotent: true` for POST requests that only read data.
+*/
+async function fetchWithRetry(url: string, init: RequestInit = {}, requestOptions: { idempotent?: boolean } = {}): Promise<Response> {
+  const method = requestOptions.idempotent ? "GET" : (init.method ?? "GET").toUpperCase();
+  return sendWithPolicy(
+    url,
+    method,
+    () => fetch(url, init),
+    (response) => response,
+    async (response) => response.body?.cancel()
+  );
+}
+
+function toHeaders(headers: Record<string, string | string[] | undefined>): Headers {
+  const result = new Headers();
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result.set(name, Array.isArray(value) ? value.join(", ") : value);
+    }
+  }
+  return result;
+}
+
+function applyRequestPolicy(client: ClientApiBase["http"]) {
+  const request = client.request.bind(client);
+  client.request = (verb, requestUrl, data, headers) => {
+    if (data !== null && typeof data === "object") {
+      // A stream body is consumed by the first attempt, so uploads are only limited, never retried
+      return getLimiter(requestUrl).run(() => request(verb, requestUrl, data, headers));
+    }
+    return sendWithPolicy(
+      requestUrl,
+      verb.toUpperCase(),
+      () => request(verb, requestUrl, data, headers),
+      (response) => ({ status: response.message.statusCode ?? 0, headers: toHeaders(response.message.headers) }),
+      (response) => response.readBody(),
+      // The client already retries 502/503/504 and network errors of idempotent requests itself
+      (status) => status === THROTTLED_STATUS
+    );
+  };
+}
+
+/*
+  Routes every request of a `WebApi` connection, and of the clients its get*Api methods create, through the same
+  per-organization concurrency limit and 429 handling as `fetchWithRetry`.
+*/
+function applyWebApiRequestPolicy(connection: WebApi): WebApi {
+  applyRequestPolicy(connection.rest.client);
+  return new Proxy(connection, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== "string" || !/^get\w+Api$/.test(property) || typeof value !== "function") {
+        return value;
+      }
+      return async (...args: unknown[]) => {
+        const api = await value.apply(target, args);
+        applyRequestPolicy(api.http);
+        applyRequestPolicy(api.rest.client);
+        return api;
+      };
+    },
+  });
+}
+
+/*
+  Runs a tool handler while collecting the throttling events of every request it makes.
+*/
+async function trackThrottling<T>(events: ThrottlingEvent[], task: () => Promise<T>): Promise<T> {
+  return throttlingStorage.run(events, task);
+}
+
+function describeThrottling(events: ThrottlingEvent[]): string {
+  const retries = events.filter((event) => event.retried).length;
+  const waitedSeconds = events.reduce((total, event) => total + event.delayMs, 0) / 1000;
+  const resources = Array.from(new Set(events.map((event) => event.resource).filter(Boolean)));
+  const parts = [
+    `Azure DevOps rate limiting affected ${events.length} request(s)`,
+    retries > 0 ? `${retries} retried` : undefined,
+    `${waitedSeconds.toFixed(1)}s spent waiting`,
+    resources.length > 0 ? `throttled resources: ${resources.join(", ")}` : undefined,
+  ];
+  return `${parts.filter(Boolean).join("; ")}. Consider smaller batches or fewer parallel calls.`;
+}
+
+export {
+  applyWebApiRequestPolicy,
+  ConcurrencyLimiter,
+  configureHttpClient,
+  DEFAULT_OPTIONS as DEFAULT_HTTP_CLIENT_OPTIONS,
+  describeThrottling,
+  fetchWithRetry,
+  getRetryAfterMs,
+  getWebApiRequestOptions,
+  trackThrottling,
+};
+export type { HttpClientOptions, ThrottlingEvent };
@@ -0,0 +1,267 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { packageVersion } from "./version.js";
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Browser origins allowed besides loopback ones, e.g. "https://tools.contoso.com". */
+  allowedOrigins?: string[];
+  /** Sessions without a request for this long are closed. Defaults to 30 minutes. */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface HttpTransportHandle {
+  /** The port the server is listening on, useful when started on port 0. */
+  port: number;
+  /** Closes every open session and stops accepting connections. */
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivity: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        const text = Buffer.concat(chunks).toString("utf8");
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function isLoopbackHostname(hostname: string): boolean {
+  return LOOPBACK_HOSTNAMES.includes(hostname.toLowerCase());
+}
+
+/*
+  Guards against DNS rebinding, as the Streamable HTTP spec requires: browsers always send Origin, so a request
+  carrying one must come from a loopback page or an allowed origin. When listening on loopback only, the Host header
+  must name loopback too, or a rebound public name could still reach the server.
+*/
+function checkRequestOrigin(req: IncomingMessage, options: HttpTransportOptions) {
+  const origin = req.headers.origin;
+  if (origin) {
+    let hostname: string;
+    try {
+      hostname = new URL(origin).hostname;
+    } catch {
+      throw new HttpError(403, `Origin '${origin}' is not allowed`);
+    }
+    if (!isLoopbackHostname(hostname) && !(options.allowedOrigins ?? []).includes(origin)) {
+      throw new HttpError(403, `Origin '${origin}' is not allowed`);
+    }
+  }
+
+  if (isLoopbackHostname(options.host) || options.host === "::1") {
+    const hostname = new URL(`http://${req.headers.host ?? ""}`).hostname;
+    if (!isLoopbackHostname(hostname)) {
+      throw new HttpError(403, `Host '${req.headers.host}' is not allowed`);
+    }
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, statusCode: number, message: string) {
+  sendJson(res, statusCode, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/*
+  Serves the MCP Streamable HTTP transport on /mcp and the legacy SSE transport on /sse and /messages.
+  Every session gets its own McpServer instance from the factory so per-session state never leaks between clients.
+*/
+async function startHttpTransport(createMcpServer: () => McpServer, options: HttpTransportOptions): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await session.server.close();
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionIdHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastActivity: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+      await server.close().catch(() => undefined);
+      throw error;
+    }
+  };
+
+  const handleSseConnection = async (res: ServerResponse) => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { server, transport, lastActivity: Date.now() });
+    res.on("close", () => {
+      void closeSession(transport.sessionId);
+    });
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    session.lastActivity = Date.now();
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    const handle = async () => {
+      checkRequestOrigin(req, options);
+      if (url.pathname === HEALTH_PATH && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", version: packageVersion, sessions: sessions.size });
+      } else if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseConnection(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    };
+
+    handle().catch((error) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.statusCode, error.message);
+      } else {
+        sendJsonRpcError(res, 500, error instanceof Error ? error.message : "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Clients that go away without ending their session would otherwise keep their server forever
+  const sweep = setInterval(
+    () => {
+      const idleSince = Date.now() - sessionIdleTimeoutMs;
+      for (const [sessionId, session] of sessions) {
+        if (session.lastActivity < idleSince) {
+          void closeSession(sessionId);
+        }
+      }
+    },
+    Math.min(sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+  );
+  sweep.unref();
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.allSettled(Array.from(sessions.keys()).map((sessionId) => closeSession(sessionId)));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+export { startHttpTransport };
+export type { HttpTransportHandle, HttpTransportOptions };
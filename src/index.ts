@@ -5,86 +5,173 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import * as azdev from "azure-devops-node-api";
-import { AccessToken, DefaultAzureCredential } from "@azure/identity";
+import { parseArgs } from "node:util";
+import { createAuthProvider, getAuthOptionsFromEnv } from "./auth.js";
+import { loadConfig, ServerConfig } from "./config.js";
+import { configureHttpClient, DEFAULT_HTTP_CLIENT_OPTIONS } from "./http.js";
+import { startHttpTransport } from "./httpTransport.js";
+import { addSecret, attachServer, configureLogger, isLogLevel, LOG_LEVELS, logger } from "./logger.js";
 import { configurePrompts } from "./prompts.js";
-import { configureAllTools } from "./tools.js";
-import { userAgent } from "./utils.js";
+import { createOrganizationRegistry, OrganizationRegistry, parseOrganizationList } from "./organizations.js";
+import { configureResources } from "./resources.js";
+import { ALL_TOOLSETS, configureAllTools } from "./tools.js";
+import { configureAttachments } from "./tools/attachments.js";
+import { createToolFilter, parseListOption, ToolFilterOptions } from "./toolsets.js";
 import { packageVersion } from "./version.js";
-const args = process.argv.slice(2);
-if (args.length === 0) {  console.error(
-    "Usage: mcp-server-azuredevops <organization_name> [personal_access_token]"
+
+const TRANSPORTS = ["stdio", "http"];
+
+const { values: options, positionals: args } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    "transport": { type: "string", default: process.env.AZURE_DEVOPS_MCP_TRANSPORT ?? "stdio" },
+    "port": { type: "string", default: process.env.PORT ?? "3000" },
+    "host": { type: "string", default: "127.0.0.1" },
+    "allowed-origins": { type: "string", default: process.env.AZURE_DEVOPS_MCP_ALLOWED_ORIGINS },
+    "log-level": { type: "string", default: process.env.AZURE_DEVOPS_MCP_LOG_LEVEL ?? "info" },
+    "log-file": { type: "string", default: process.env.AZURE_DEVOPS_MCP_LOG_FILE },
+    "toolsets": { type: "string", default: process.env.AZURE_DEVOPS_MCP_TOOLSETS },
+    "tools": { type: "string", default: process.env.AZURE_DEVOPS_MCP_TOOLS },
+    "exclude-tools": { type: "string", default: process.env.AZURE_DEVOPS_MCP_EXCLUDE_TOOLS },
+    "read-only": { type: "boolean", default: process.env.AZURE_DEVOPS_MCP_READ_ONLY === "true" },
+    "max-retries": { type: "string", default: process.env.AZURE_DEVOPS_MCP_MAX_RETRIES ?? String(DEFAULT_HTTP_CLIENT_OPTIONS.maxRetries) },
+    "max-concurrency": { type: "string", default: process.env.AZURE_DEVOPS_MCP_MAX_CONCURRENCY ?? String(DEFAULT_HTTP_CLIENT_OPTIONS.maxConcurrency) },
+    "config": { type: "string", default: process.env.AZURE_DEVOPS_MCP_CONFIG },
+    "attachment-dir": { type: "string", default: process.env.AZURE_DEVOPS_MCP_ATTACHMENT_DIR },
+  },
+});
+
+if (args.length === 0) {
+  console.error(
+    "Usage: mcp-server-azuredevops <organization_name> [personal_access_token] [--transport stdio|http] [--port 3000] [--host 127.0.0.1] [--allowed-origins <origin,...>] [--log-level debug|info|warning|error] [--log-file <path>]\n" +
+      "  [--toolsets core,wit,...] [--tools <glob,...>] [--exclude-tools <glob,...>] [--read-only]\n" +
+      "  [--max-retries 3] [--max-concurrency 8] [--config ado-mcp.config.json] [--attachment-dir <path>]\n" +
+      "  <organization_name> can also be a full organization or collection URL, e.g. https://tfs.contoso.local/DefaultCollection,\n" +
+      "  or a comma-separated list of organizations; tools then accept an 'organization' argument"
   );
   process.exit(1);
 }
 
-export const orgName = args[0];
+if (!TRANSPORTS.includes(options.transport)) {
+  console.error(`Unsupported transport '${options.transport}'. Supported transports: ${TRANSPORTS.join(", ")}`);
+  process.exit(1);
+}
+
+const port = Number(options.port);
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`Invalid port '${options.port}'`);
+  process.exit(1);
+}
+
+const logLevel = options["log-level"];
+if (!isLogLevel(logLevel)) {
+  console.error(`Unsupported log level '${logLevel}'. Supported levels: ${LOG_LEVELS.join(", ")}`);
+  process.exit(1);
+}
+configureLogger({ level: logLevel, file: options["log-file"] });
+
+const maxRetries = Number(options["max-retries"]);
+const maxConcurrency = Number(options["max-concurrency"]);
+if (!Number.isInteger(maxRetries) || maxRetries < 0 || !Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+  console.error(`Invalid retry settings: --max-retries must be 0 or more and --max-concurrency 1 or more`);
+  process.exit(1);
+}
+configureHttpClient({ maxRetries, maxConcurrency });
+
+// Over HTTP, remote clients must not read arbitrary files of the server through attachment uploads
+configureAttachments({ directory: options["attachment-dir"], allowAnyPath: options.transport !== "http" });
+
+const toolFilterOptions: ToolFilterOptions = {
+  toolsets: parseListOption(options.toolsets),
+  tools: parseListOption(options.tools),
+  excludeTools: parseListOption(options["exclude-tools"]),
+  readOnly: options["read-only"],
+};
+try {
+  createToolFilter(ALL_TOOLSETS, toolFilterOptions);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+let config: ServerConfig;
+try {
+  config = loadConfig(options.config);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
 const patFromArgs = args[1]; // Optional PAT from command line
-const orgUrl = "https://dev.azure.com/" + orgName;
-
-async function getAzureDevOpsToken(): Promise<AccessToken> {
-  // Check if a Personal Access Token is provided via command line argument
-  const pat = patFromArgs || process.env.AZURE_DEVOPS_PAT;
-  if (pat) {
-    console.log("Using Personal Access Token for authentication");
-    // Return a mock AccessToken structure with the PAT
-    return {
-      token: pat,
-      expiresOnTimestamp: Date.now() + 3600000 // 1 hour from now
-    };
-  }
 
-  console.log("Using DefaultAzureCredential for authentication");
-  // Fall back to DefaultAzureCredential
-  process.env.AZURE_TOKEN_CREDENTIALS = "dev";
-  const credential = new DefaultAzureCredential(); // CodeQL [SM05138] resolved by explicitly setting AZURE_TOKEN_CREDENTIALS
-  const token = await credential.getToken("499b84ac-1321-427f-aa17-267ca6975798/.default");
-  return token;
+let organizations: OrganizationRegistry;
+try {
+  organizations = createOrganizationRegistry(
+    parseOrganizationList(args[0]).map((info) => {
+      const authOptions = getAuthOptionsFromEnv(process.env, info.name, patFromArgs);
+      addSecret(authOptions.pat);
+      addSecret(authOptions.clientSecret);
+      return { info, authProvider: createAuthProvider(authOptions) };
+    })
+  );
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
 }
 
-async function getAzureDevOpsClient() : Promise<azdev.WebApi> {
-  const token = await getAzureDevOpsToken();
-  
-  // Check if this is a PAT or OAuth token
-  const pat = patFromArgs || process.env.AZURE_DEVOPS_PAT;
-  const authHandler = pat 
-    ? azdev.getPersonalAccessTokenHandler(pat)
-    : azdev.getBearerHandler(token.token);
-  
-  const connection = new azdev.WebApi(orgUrl, authHandler, undefined, {
-    productName: "AzureDevOps.MCP",
-    productVersion: packageVersion,
-    userAgent: userAgent
-  });
-  return connection;
+function createMcpServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "Azure DevOps MCP Server",
+      version: packageVersion,
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  attachServer(server);
+  configurePrompts(server);
+
+  configureAllTools(server, organizations, toolFilterOptions, config.defaults);
+  configureResources(server, () => organizations.getConnection(), config.defaults);
+
+  return server;
 }
 
 async function main() {
-  console.log("Starting Azure DevOps MCP Server...");
-  console.log("Organization:", orgName);
-  console.log("Organization URL:", orgUrl);
-  console.log("PAT from args:", patFromArgs ? "PROVIDED" : "NOT PROVIDED");
-  console.log("PAT from env:", process.env.AZURE_DEVOPS_PAT ? "PROVIDED" : "NOT PROVIDED");
-  
-  const server = new McpServer({
-    name: "Azure DevOps MCP Server",
+  logger.info("Starting Azure DevOps MCP Server", {
     version: packageVersion,
+    organizations: organizations.list().map(({ name, url, searchUrl, authentication }) => ({ name, url, searchUrl, authentication })),
+    transport: options.transport,
+    toolFilter: toolFilterOptions,
+    configFile: config.path,
+    defaults: config.defaults,
   });
 
-  configurePrompts(server);
-  
-  configureAllTools(
-    server,
-    getAzureDevOpsToken,
-    getAzureDevOpsClient
-  );
+  if (options.transport === "http") {
+    const handle = await startHttpTransport(createMcpServer, { port, host: options.host, allowedOrigins: parseListOption(options["allowed-origins"]) });
+    logger.info(`Listening on http://${options.host}:${handle.port} (Streamable HTTP: /mcp, SSE: /sse, health: /health)`);
+
+    const shutdown = () => {
+      handle
+        .close()
+        .then(() => process.exit(0))
+        .catch((error) => {
+          logger.error("Error during shutdown", error);
+          process.exit(1);
+        });
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+    return;
+  }
 
+  const server = createMcpServer();
   const transport = new StdioServerTransport();
-  console.log("Azure DevOps MCP Server version : " + packageVersion);
   await server.connect(transport);
 }
 
 main().catch((error) => {
-  console.error("Fatal error in main():", error);
+  logger.error("Fatal error in main()", error);
   process.exit(1);
 });
@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync } from "node:fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+const LOG_LEVELS = ["debug", "info", "warning", "error"] as const;
+
+type LogLevel = (typeof LOG_LEVELS)[number];
+
+interface LoggerOptions {
+  level?: LogLevel;
+  /** Appends JSON lines to this file instead of stderr. Never stdout: it carries the stdio JSON-RPC stream. */
+  file?: string;
+}
+
+const LOGGER_NAME = "azure-devops-mcp";
+const REDACTED = "[REDACTED]";
+
+// Object keys whose values are always credentials
+const SENSITIVE_KEY_PATTERN = /(authorization|token|pat$|password|secret|cookie|api[-_]?key)/i;
+
+// Credentials that can appear inside free-form strings
+const SENSITIVE_VALUE_PATTERNS = [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi, /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g];
+
+// RFC 5424 severities in the order the MCP logging levels use
+const MCP_LEVEL_ORDER: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+let minimumLevel: LogLevel = "info";
+let logFile: string | undefined;
+const secrets = new Set<string>();
+const attachedServers = new Map<McpServer, LoggingLevel>();
+// The server whose client sent the request being handled; entries are only forwarded to that client
+const serverStorage = new AsyncLocalStorage<McpServer>();
+
+function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function configureLogger(options: LoggerOptions) {
+  if (options.level) {
+    minimumLevel = options.level;
+  }
+  logFile = options.file;
+}
+
+/*
+  Registers a value (such as a PAT or client secret) that must never appear in log output.
+*/
+function addSecret(value: string | undefined) {
+  if (value && value.length >= 4) {
+    secrets.add(value);
+  }
+}
+
+function redactString(value: string): string {
+  let result = value;
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  for (const pattern of SENSITIVE_VALUE_PATTERNS) {
+    result = result.replace(pattern, (match, scheme?: string) => (typeof scheme === "string" && /^(bearer|basic)$/i.test(scheme) ? `${scheme} ${REDACTED}` : REDACTED));
+  }
+  return result;
+}
+
+function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack ? redactString(value.stack) : undefined };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redact(item, seen)]));
+}
+
+function writeEntry(line: string) {
+  if (logFile) {
+    try {
+      appendFileSync(logFile, line + "\n");
+      return;
+    } catch {
+      // Fall back to stderr when the log file cannot be written
+    }
+  }
+  process.stderr.write(line + "\n");
+}
+
+function forwardToClient(level: LogLevel, data: Record<string, unknown>) {
+  const server = serverStorage.getStore();
+  const clientLevel = server ? attachedServers.get(server) : undefined;
+  if (!server || !clientLevel || !server.isConnected() || MCP_LEVEL_ORDER.indexOf(level) < MCP_LEVEL_ORDER.indexOf(clientLevel)) {
+    return;
+  }
+  server.server.sendLoggingMessage({ level, logger: LOGGER_NAME, data }).catch(() => {
+    // The client may have disconnected; logging must never fail the caller
+  });
+}
+
+function log(level: LogLevel, message: string, data?: unknown) {
+  const entry: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redactString(message),
+  };
+  if (data !== undefined) {
+    entry.data = redact(data);
+  }
+
+  if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel)) {
+    writeEntry(JSON.stringify(entry));
+  }
+  forwardToClient(level, entry);
+}
+
+/*
+  Forwards log entries written while the server handles a request to its client as MCP `notifications/message`,
+  and honors the client's `logging/setLevel` requests. Entries written outside a request go to no client, so
+  sessions of the HTTP transport never see each other's entries. Attach before registering tools, prompts and
+  resources: only request handlers registered afterwards run in the server's logging context.
+  The server must declare the `logging` capability.
+*/
+function attachServer(server: McpServer) {
+  attachedServers.set(server, minimumLevel);
+  const setRequestHandler = server.server.setRequestHandler.bind(server.server);
+  server.server.setRequestHandler = ((schema: Parameters<typeof setRequestHandler>[0], handler: (...args: unknown[]) => unknown) =>
+    setRequestHandler(schema, (...args: unknown[]) => serverStorage.run(server, () => handler(...args)) as never)) as typeof setRequestHandler;
+
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    attachedServers.set(server, request.params.level);
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    attachedServers.delete(server);
+    previousOnClose?.();
+  };
+}
+
+const logger = {
+  debug: (message: string, data?: unknown) => log("debug", message, data),
+  info: (message: string, data?: unknown) => log("info", message, data),
+  warning: (message: string, data?: unknown) => log("warning", message, data),
+  error: (message: string, data?: unknown) => log("error", message, data),
+};
+
+export { LOG_LEVELS, addSecret, attachServer, configureLogger, isLogLevel, logger, redact };
+export type { LoggerOptions, LogLevel };
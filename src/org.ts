@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+const HOSTED_DOMAIN = "dev.azure.com";
+const LEGACY_HOSTED_SUFFIX = ".visualstudio.com";
+const HOSTED_SEARCH_DOMAIN = "almsearch.dev.azure.com";
+const HOSTED_IDENTITY_DOMAIN = "vssps.dev.azure.com";
+
+interface OrganizationInfo {
+  /** Organization name for Azure DevOps Services, or the collection name for Azure DevOps Server. */
+  name: string;
+  /** Base URL every REST call is made against, without a trailing slash. */
+  url: string;
+  /** Base URL for the search APIs, without a trailing slash. */
+  searchUrl: string;
+  /** True for Azure DevOps Services, false for an on-premises Azure DevOps Server collection. */
+  isHosted: boolean;
+}
+
+function trimTrailingSlashes(value: string): string {
+  return value.replace(/\/+$/, "");
+}
+
+/*
+  Returns the hosted organization name for a dev.azure.com or *.visualstudio.com URL,
+  or undefined when the URL points at an Azure DevOps Server collection.
+*/
+function getHostedOrganizationName(url: URL): string | undefined {
+  const host = url.hostname.toLowerCase();
+  if (host === HOSTED_DOMAIN) {
+    return url.pathname.split("/").filter(Boolean)[0] ?? "";
+  }
+  if (host.endsWith(LEGACY_HOSTED_SUFFIX)) {
+    return host.slice(0, -LEGACY_HOSTED_SUFFIX.length);
+  }
+  return undefined;
+}
+
+/*
+  Azure DevOps Services serves search from a dedicated host, while Azure DevOps Server
+  exposes the search APIs on the collection URL itself.
+*/
+function getSearchBaseUrl(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  const hostedName = getHostedOrganizationName(url);
+  return hostedName ? `https://${HOSTED_SEARCH_DOMAIN}/${hostedName}` : trimTrailingSlashes(serverUrl);
+}
+
+/*
+  Azure DevOps Services serves identities from the vssps host, while Azure DevOps Server
+  exposes the identity APIs on the collection URL itself.
+*/
+function getIdentityBaseUrl(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  const hostedName = getHostedOrganizationName(url);
+  return hostedName ? `https://${HOSTED_IDENTITY_DOMAIN}/${hostedName}` : trimTrailingSlashes(serverUrl);
+}
+
+/*
+  Returns a stable key identifying the organization or collection a request URL belongs to,
+  so REST, search and identity calls to the same organization share limits.
+*/
+function getOrganizationKey(requestUrl: string): string {
+  const url = new URL(requestUrl);
+  const host = url.hostname.toLowerCase();
+  const firstSegment = (url.pathname.split("/").filter(Boolean)[0] ?? "").toLowerCase();
+  if (host === HOSTED_DOMAIN || host === HOSTED_SEARCH_DOMAIN || host === HOSTED_IDENTITY_DOMAIN) {
+    return firstSegment;
+  }
+  if (host.endsWith(LEGACY_HOSTED_SUFFIX)) {
+    return host.slice(0, -LEGACY_HOSTED_SUFFIX.length);
+  }
+  return `${url.origin.toLowerCase()}/${firstSegment}`;
+}
+
+/*
+  Accepts either an organization name (e.g. "contoso") or a full organization/collection URL
+  (e.g. "https://dev.azure.com/contoso" or "https://tfs.contoso.local/DefaultCollection").
+*/
+function resolveOrganization(nameOrUrl: string): OrganizationInfo {
+  const value = nameOrUrl.trim();
+  if (!value) {
+    throw new Error("Organization name or URL must not be empty");
+  }
+
+  if (!/^https?:\/\//i.test(value)) {
+    if (value.includes("/")) {
+      throw new Error(`Invalid organization '${value}'. Provide an organization name or a full URL starting with http:// or https://`);
+    }
+    const url = `https://${HOSTED_DOMAIN}/${value}`;
+    return { name: value, url, searchUrl: getSearchBaseUrl(url), isHosted: true };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw new Error(`Invalid organization URL '${value}'`);
+  }
+
+  const url = trimTrailingSlashes(`${parsed.origin}${parsed.pathname}`);
+  const hostedName = getHostedOrganizationName(parsed);
+  if (hostedName !== undefined) {
+    if (!hostedName) {
+      throw new Error(`Organization URL '${value}' is missing the organization name`);
+    }
+    return { name: hostedName, url, searchUrl: getSearchBaseUrl(url), isHosted: true };
+  }
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error(`Collection URL '${value}' is missing the collection name (e.g. https://server/DefaultCollection)`);
+  }
+
+  return { name: decodeURIComponent(segments[segments.length - 1]), url, searchUrl: url, isHosted: false };
+}
+
+export { getIdentityBaseUrl, getOrganizationKey, getSearchBaseUrl, resolveOrganization };
+export type { OrganizationInfo };
@@ -0,0 +1,150 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as azdev from "azure-devops-node-api";
+import { IRequestHandler } from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces.js";
+import { z } from "zod";
+import { AuthProvider, AuthType } from "./auth.js";
+import { BadRequestError } from "./errors.js";
+import { applyWebApiRequestPolicy, getWebApiRequestOptions } from "./http.js";
+import { OrganizationInfo, resolveOrganization } from "./org.js";
+import { userAgent } from "./utils.js";
+import { packageVersion } from "./version.js";
+
+interface OrganizationEntry {
+  info: OrganizationInfo;
+  authProvider: AuthProvider;
+}
+
+interface OrganizationSummary extends OrganizationInfo {
+  authentication: AuthType;
+  /** True for the organization tools use when no `organization` argument is given. */
+  isDefault: boolean;
+}
+
+interface OrganizationRegistry {
+  /** Configured organizations, the default one first. */
+  list(): OrganizationSummary[];
+  /** Finds a configured organization by name or URL. Without a value, uses the organization of the current tool call. */
+  resolve(organization?: string): OrganizationEntry;
+  getAuthorizationHeader(organization?: string): Promise<string>;
+  /** Returns the cached `WebApi` connection of an organization, recreated when its credentials change. */
+  getConnection(organization?: string): Promise<azdev.WebApi>;
+}
+
+type ConnectionFactory = (url: string, handler: IRequestHandler) => azdev.WebApi;
+
+// The organization named by the `organization` argument of the tool call being handled
+const organizationStorage = new AsyncLocalStorage<string | undefined>();
+
+function createWebApiConnection(url: string, handler: IRequestHandler): azdev.WebApi {
+  return applyWebApiRequestPolicy(
+    new azdev.WebApi(url, handler, getWebApiRequestOptions(), {
+      productName: "AzureDevOps.MCP",
+      productVersion: packageVersion,
+      userAgent: userAgent,
+    })
+  );
+}
+
+function normalizeOrganizationKey(value: string): string {
+  return value.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+function createOrganizationRegistry(entries: OrganizationEntry[], createConnection: ConnectionFactory = createWebApiConnection): OrganizationRegistry {
+  if (entries.length === 0) {
+    throw new Error("At least one organization must be configured");
+  }
+
+  const byKey = new Map<string, OrganizationEntry>();
+  for (const entry of entries) {
+    for (const key of [entry.info.name, entry.info.url]) {
+      const normalized = normalizeOrganizationKey(key);
+      if (byKey.has(normalized) && byKey.get(normalized) !== entry) {
+        throw new Error(`Organization '${entry.info.name}' is configured more than once`);
+      }
+      byKey.set(normalized, entry);
+    }
+  }
+
+  const connections = new Map<OrganizationEntry, { authorization: string; connection: azdev.WebApi }>();
+
+  const resolve = (organization?: string): OrganizationEntry => {
+    const requested = organization ?? organizationStorage.getStore();
+    if (!requested) {
+      return entries[0];
+    }
+    let entry = byKey.get(normalizeOrganizationKey(requested));
+    if (!entry && /^https?:\/\//i.test(requested)) {
+      entry = byKey.get(normalizeOrganizationKey(resolveOrganization(requested).url));
+    }
+    if (!entry) {
+      throw new BadRequestError(`Unknown organization '${requested}'. Configured organizations: ${entries.map((item) => item.info.name).join(", ")}`);
+    }
+    return entry;
+  };
+
+  return {
+    list: () => entries.map((entry, index) => ({ ...entry.info, authentication: entry.authProvider.type, isDefault: index === 0 })),
+    resolve,
+    getAuthorizationHeader: (organization?: string) => resolve(organization).authProvider.getAuthorizationHeader(),
+    getConnection: async (organization?: string) => {
+      const entry = resolve(organization);
+      // Bearer tokens are refreshed by the auth provider; a new header means the cached connection holds a stale token
+      const authorization = await entry.authProvider.getAuthorizationHeader();
+      const cached = connections.get(entry);
+      if (cached && cached.authorization === authorization) {
+        return cached.connection;
+      }
+      const connection = createConnection(entry.info.url, await entry.authProvider.getRequestHandler());
+      connections.set(entry, { authorization, connection });
+      return connection;
+    },
+  };
+}
+
+/*
+  Wraps the server so that every tool gets an optional `organization` argument. The tool handler runs with that
+  organization as the current one, so the connection and auth header providers pick it up without extra plumbing.
+*/
+function createOrganizationScopedServer(server: McpServer, organizations: OrganizationRegistry, unscopedTools: string[] = []): McpServer {
+  const names = organizations.list().map((organization) => organization.name);
+  const organizationParameter = z
+    .string()
+    .optional()
+    .describe(`The Azure DevOps organization name or URL to run against. Defaults to '${names[0]}'. Configured organizations: ${names.join(", ")}.`);
+
+  const tool = (name: string, ...rest: unknown[]) => {
+    // server.tool(name, description, paramsSchema, [annotations], callback)
+    if (unscopedTools.includes(name) || rest.length < 3 || typeof rest[rest.length - 1] !== "function") {
+      return (server.tool as (...args: unknown[]) => unknown)(name, ...rest);
+    }
+    const [description, paramsSchema, ...others] = rest;
+    const callback = others.pop() as (args: Record<string, unknown>, extra: unknown) => unknown;
+    const scopedCallback = (args: Record<string, unknown>, extra: unknown) => organizationStorage.run(args.organization as string | undefined, () => callback(args, extra));
+    const scopedSchema = { ...(paramsSchema as Record<string, unknown>), organization: organizationParameter };
+    return (server.tool as (...args: unknown[]) => unknown)(name, description, scopedSchema, ...others, scopedCallback);
+  };
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      return property === "tool" ? tool : Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/*
+  Parses the organization argument: a comma-separated list of organization names or organization/collection URLs.
+*/
+function parseOrganizationList(value: string): OrganizationInfo[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => resolveOrganization(item));
+}
+
+export { createOrganizationRegistry, createOrganizationScopedServer, createWebApiConnection, parseOrganizationList };
+export type { ConnectionFactory, OrganizationEntry, OrganizationRegistry, OrganizationSummary };
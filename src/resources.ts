@@ -0,0 +1,222 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { WebApi } from "azure-devops-node-api";
+import { GitVersionDescriptor, GitVersionType, PullRequestStatus } from "azure-devops-node-api/interfaces/GitInterfaces.js";
+import { WorkItemExpand } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { ToolDefaults } from "./config.js";
+import { toErrorEnvelope } from "./errors.js";
+import { logger } from "./logger.js";
+import { isBinary, streamToBuffer } from "./utils.js";
+
+const RESOURCE_TEMPLATES = {
+  work_item: "ado://{project}/workitems/{id}",
+  // The SDK only matches `{?ref}` when the query is present, so files at the default branch need their own template
+  repository_file_at_ref: "ado://{project}/repos/{repo}/files/{+path}{?ref}",
+  repository_file: "ado://{project}/repos/{repo}/files/{+path}",
+  wiki_page: "ado://{project}/wikis/{wiki}/pages/{+path}",
+  build_log: "ado://{project}/builds/{id}/logs/{logId}",
+  pull_request: "ado://{project}/pullrequests/{repo}/{id}",
+};
+
+// Number of work items and pull requests listed for the default project
+const LIST_LIMIT = 50;
+
+type Variables = Record<string, string | string[]>;
+
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function getNumberVariable(variables: Variables, name: string): number {
+  const value = Number(getVariable(variables, name));
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`'${name}' must be a number, got '${getVariable(variables, name)}'`);
+  }
+  return value;
+}
+
+function getPathVariable(variables: Variables): string {
+  const path = getVariable(variables, "path");
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+/*
+  Maps a `ref` query value to a version descriptor: full ref names and commit SHAs keep their kind,
+  anything else is taken as a branch name.
+*/
+function toVersionDescriptor(ref: string | undefined): GitVersionDescriptor | undefined {
+  if (!ref) {
+    return undefined;
+  }
+  if (ref.startsWith("refs/heads/")) {
+    return { version: ref.substring("refs/heads/".length), versionType: GitVersionType.Branch };
+  }
+  if (ref.startsWith("refs/tags/")) {
+    return { version: ref.substring("refs/tags/".length), versionType: GitVersionType.Tag };
+  }
+  if (/^[0-9a-f]{40}$/i.test(ref)) {
+    return { version: ref, versionType: GitVersionType.Commit };
+  }
+  return { version: ref, versionType: GitVersionType.Branch };
+}
+
+function jsonResource(uri: URL, value: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }] };
+}
+
+/*
+  Wraps a resource read callback so failures are logged and reported with the same message as tool errors.
+*/
+function withResourceErrorHandling(action: string, read: (uri: URL, variables: Variables) => Promise<ReadResourceResult>) {
+  return async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+    try {
+      return await read(uri, variables);
+    } catch (error) {
+      logger.error(`Error ${action}`, error);
+      throw new Error(toErrorEnvelope(error, action).error.message);
+    }
+  };
+}
+
+function configureResources(server: McpServer, connectionProvider: () => Promise<WebApi>, defaults: ToolDefaults = {}) {
+  const completeProject = async (value: string) => {
+    const connection = await connectionProvider();
+    const coreApi = await connection.getCoreApi();
+    const projects = await coreApi.getProjects();
+    return projects.map((project) => project.name ?? "").filter((name) => name.toLowerCase().startsWith(value.toLowerCase()));
+  };
+
+  const completeRepository = async (value: string, context?: { arguments?: Record<string, string> }) => {
+    const project = context?.arguments?.project ?? defaults.project;
+    if (!project) {
+      return [];
+    }
+    const connection = await connectionProvider();
+    const gitApi = await connection.getGitApi();
+    const repositories = await gitApi.getRepositories(project);
+    return repositories.map((repository) => repository.name ?? "").filter((name) => name.toLowerCase().startsWith(value.toLowerCase()));
+  };
+
+  server.resource(
+    "work_item",
+    new ResourceTemplate(RESOURCE_TEMPLATES.work_item, {
+      // Without a default project there is nothing sensible to list
+      list: async () => {
+        if (!defaults.project) {
+          return { resources: [] };
+        }
+        const connection = await connectionProvider();
+        const workApi = await connection.getWorkApi();
+        const query = await workApi.getPredefinedQueryResults(defaults.project, "assignedtome", LIST_LIMIT);
+        const resources: Resource[] = (query.results ?? []).map((workItem) => ({
+          uri: `ado://${encodeURIComponent(defaults.project as string)}/workitems/${workItem.id}`,
+          name: `${workItem.fields?.["System.WorkItemType"] ?? "Work item"} ${workItem.id}: ${workItem.fields?.["System.Title"] ?? ""}`.trim(),
+          mimeType: "application/json",
+        }));
+        return { resources };
+      },
+      complete: { project: completeProject },
+    }),
+    { description: "A work item with its fields and relations. Lists the work items assigned to you in the default project.", mimeType: "application/json" },
+    withResourceErrorHandling("reading work item", async (uri, variables) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const workItem = await workItemApi.getWorkItem(getNumberVariable(variables, "id"), undefined, undefined, WorkItemExpand.Relations, getVariable(variables, "project"));
+      return jsonResource(uri, workItem);
+    })
+  );
+
+  const readRepositoryFile = withResourceErrorHandling("reading repository file", async (uri, variables) => {
+    const connection = await connectionProvider();
+    const gitApi = await connection.getGitApi();
+    const stream = await gitApi.getItemContent(
+      getVariable(variables, "repo"),
+      getPathVariable(variables),
+      getVariable(variables, "project"),
+      undefined,
+      undefined,
+      false,
+      false,
+      false,
+      toVersionDescriptor(variables.ref !== undefined ? getVariable(variables, "ref") : undefined)
+    );
+    const content = await streamToBuffer(stream);
+    if (isBinary(content)) {
+      return { contents: [{ uri: uri.href, mimeType: "application/octet-stream", blob: content.toString("base64") }] };
+    }
+    return { contents: [{ uri: uri.href, mimeType: "text/plain", text: content.toString("utf8") }] };
+  });
+
+  server.resource(
+    "repository_file_at_ref",
+    new ResourceTemplate(RESOURCE_TEMPLATES.repository_file_at_ref, { list: undefined, complete: { project: completeProject, repo: completeRepository } }),
+    { description: "A file in a Git repository, at the branch, tag or commit given by 'ref'." },
+    readRepositoryFile
+  );
+
+  server.resource(
+    "repository_file",
+    new ResourceTemplate(RESOURCE_TEMPLATES.repository_file, { list: undefined, complete: { project: completeProject, repo: completeRepository } }),
+    { description: "A file in a Git repository, at the default branch." },
+    readRepositoryFile
+  );
+
+  server.resource(
+    "wiki_page",
+    new ResourceTemplate(RESOURCE_TEMPLATES.wiki_page, { list: undefined, complete: { project: completeProject } }),
+    { description: "The markdown content of a wiki page.", mimeType: "text/markdown" },
+    withResourceErrorHandling("reading wiki page", async (uri, variables) => {
+      const connection = await connectionProvider();
+      const wikiApi = await connection.getWikiApi();
+      const stream = await wikiApi.getPageText(getVariable(variables, "project"), getVariable(variables, "wiki"), getPathVariable(variables), undefined, undefined, true);
+      const content = await streamToBuffer(stream);
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: content.toString("utf8") }] };
+    })
+  );
+
+  server.resource(
+    "build_log",
+    new ResourceTemplate(RESOURCE_TEMPLATES.build_log, { list: undefined, complete: { project: completeProject } }),
+    { description: "A log of a build, such as the output of one pipeline step.", mimeType: "text/plain" },
+    withResourceErrorHandling("reading build log", async (uri, variables) => {
+      const connection = await connectionProvider();
+      const buildApi = await connection.getBuildApi();
+      const lines = await buildApi.getBuildLogLines(getVariable(variables, "project"), getNumberVariable(variables, "id"), getNumberVariable(variables, "logId"));
+      return { contents: [{ uri: uri.href, mimeType: "text/plain", text: lines.join("\n") }] };
+    })
+  );
+
+  server.resource(
+    "pull_request",
+    new ResourceTemplate(RESOURCE_TEMPLATES.pull_request, {
+      list: async () => {
+        if (!defaults.project) {
+          return { resources: [] };
+        }
+        const connection = await connectionProvider();
+        const gitApi = await connection.getGitApi();
+        const pullRequests = await gitApi.getPullRequestsByProject(defaults.project, { status: PullRequestStatus.Active }, undefined, undefined, LIST_LIMIT);
+        const resources: Resource[] = pullRequests.map((pullRequest) => ({
+          uri: `ado://${encodeURIComponent(defaults.project as string)}/pullrequests/${encodeURIComponent(pullRequest.repository?.name ?? "")}/${pullRequest.pullRequestId}`,
+          name: `PR ${pullRequest.pullRequestId}: ${pullRequest.title ?? ""}`.trim(),
+          mimeType: "application/json",
+        }));
+        return { resources };
+      },
+      complete: { project: completeProject, repo: completeRepository },
+    }),
+    { description: "A pull request with its status, reviewers and branches. Lists the active pull requests in the default project.", mimeType: "application/json" },
+    withResourceErrorHandling("reading pull request", async (uri, variables) => {
+      const connection = await connectionProvider();
+      const gitApi = await connection.getGitApi();
+      const pullRequest = await gitApi.getPullRequest(getVariable(variables, "repo"), getNumberVariable(variables, "id"), getVariable(variables, "project"));
+      return jsonResource(uri, pullRequest);
+    })
+  );
+}
+
+export { configureResources, RESOURCE_TEMPLATES };
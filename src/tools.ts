@@ -2,29 +2,39 @@
 // Licensed under the MIT License.
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { AccessToken } from "@azure/identity";
-import { WebApi } from "azure-devops-node-api";
 
-import { configureCoreTools } from "./tools/core.js";
-import { configureWorkTools } from "./tools/work.js";
-import { configureBuildTools } from "./tools/builds.js";
-import { configureRepoTools } from "./tools/repos.js";
-import { configureWorkItemTools } from "./tools/workitems.js";
-import { configureReleaseTools } from "./tools/releases.js";
-import { configureWikiTools } from "./tools/wiki.js";
-import { configureTestPlanTools } from "./tools/testplans.js";
-import { configureSearchTools } from "./tools/search.js";
+import { CORE_TOOLS, CORE_TOOLSET, configureCoreTools } from "./tools/core.js";
+import { WORK_TOOLSET, configureWorkTools } from "./tools/work.js";
+import { BUILD_TOOLSET, configureBuildTools } from "./tools/builds.js";
+import { REPO_TOOLSET, configureRepoTools } from "./tools/repos.js";
+import { WORKITEM_TOOLSET, configureWorkItemTools } from "./tools/workitems.js";
+import { RELEASE_TOOLSET, configureReleaseTools } from "./tools/releases.js";
+import { WIKI_TOOLSET, configureWikiTools } from "./tools/wiki.js";
+import { TEST_PLAN_TOOLSET, configureTestPlanTools } from "./tools/testplans.js";
+import { SEARCH_TOOLSET, configureSearchTools } from "./tools/search.js";
+import { createDefaultsServer, ToolDefaults } from "./config.js";
+import { createOrganizationScopedServer, OrganizationRegistry } from "./organizations.js";
+import { createFilteredServer, ToolFilterOptions } from "./toolsets.js";
 
-function configureAllTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
-  configureCoreTools(server, tokenProvider, connectionProvider);
-  configureWorkTools(server, tokenProvider, connectionProvider);
-  configureBuildTools(server, tokenProvider, connectionProvider);
-  configureRepoTools(server, tokenProvider, connectionProvider);
-  configureWorkItemTools(server, tokenProvider, connectionProvider);
-  configureReleaseTools(server, tokenProvider, connectionProvider);
-  configureWikiTools(server, tokenProvider, connectionProvider);
-  configureTestPlanTools(server, tokenProvider, connectionProvider);
-  configureSearchTools(server, tokenProvider, connectionProvider);
+const ALL_TOOLSETS = [CORE_TOOLSET, WORK_TOOLSET, BUILD_TOOLSET, REPO_TOOLSET, WORKITEM_TOOLSET, RELEASE_TOOLSET, WIKI_TOOLSET, TEST_PLAN_TOOLSET, SEARCH_TOOLSET];
+
+function configureAllTools(server: McpServer, organizations: OrganizationRegistry, filterOptions: ToolFilterOptions = {}, defaults: ToolDefaults = {}) {
+  const scopedServer = createOrganizationScopedServer(createDefaultsServer(server, defaults), organizations, [CORE_TOOLS.list_organizations]);
+  const filteredServer = createFilteredServer(scopedServer, ALL_TOOLSETS, filterOptions);
+
+  // Both providers follow the `organization` argument of the tool call being handled
+  const authHeaderProvider = () => organizations.getAuthorizationHeader();
+  const connectionProvider = () => organizations.getConnection();
+
+  configureCoreTools(filteredServer, authHeaderProvider, connectionProvider, organizations.list);
+  configureWorkTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureBuildTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureRepoTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureWorkItemTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureReleaseTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureWikiTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureTestPlanTools(filteredServer, authHeaderProvider, connectionProvider);
+  configureSearchTools(filteredServer, authHeaderProvider, connectionProvider);
 }
 
-export { configureAllTools };
+export { ALL_TOOLSETS, configureAllTools };
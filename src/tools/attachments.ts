@@ -0,0 +1,155 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { WorkItemRelation } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { readFile, realpath } from "node:fs/promises";
+import { basename, extname, isAbsolute, relative, resolve, sep } from "node:path";
+import { BadRequestError } from "../errors.js";
+import { isBinary } from "../utils.js";
+
+const ATTACHMENT_RELATION = "AttachedFile";
+
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".log": "text/plain",
+  ".md": "text/markdown",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".webp": "image/webp",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+interface AttachmentOptions {
+  /** Local files can only be uploaded from under this directory; relative paths are resolved against it. */
+  directory?: string;
+  /** Whether, without a directory, filePath may name any file the server can read. Off for the HTTP transport. */
+  allowAnyPath: boolean;
+}
+
+interface AttachmentSource {
+  fileName: string;
+  content: Buffer;
+}
+
+interface AttachmentInfo {
+  id: string;
+  name?: string;
+  size?: number;
+  comment?: string;
+  createdDate?: string;
+  url: string;
+}
+
+let attachmentOptions: AttachmentOptions = { allowAnyPath: true };
+
+function configureAttachments(options: AttachmentOptions) {
+  attachmentOptions = options;
+}
+
+/*
+  Resolves the path of a local file to upload, refusing files outside the configured directory, including through symbolic links.
+*/
+async function resolveAttachmentPath(filePath: string): Promise<string> {
+  const { directory, allowAnyPath } = attachmentOptions;
+  if (!directory) {
+    if (!allowAnyPath) {
+      throw new BadRequestError("Uploading local files is disabled on this server unless an attachment directory is configured; pass the file as base64 content instead");
+    }
+    return filePath;
+  }
+  const root = await realpath(directory);
+  let target: string;
+  try {
+    target = await realpath(resolve(root, filePath));
+  } catch {
+    throw new BadRequestError(`File '${filePath}' does not exist in the attachment directory`);
+  }
+  const path = relative(root, target);
+  if (path === "" || path === ".." || path.startsWith(`..${sep}`) || isAbsolute(path)) {
+    throw new BadRequestError(`File '${filePath}' is outside the attachment directory`);
+  }
+  return target;
+}
+
+function getMimeType(fileName: string): string {
+  return MIME_TYPES[extname(fileName).toLowerCase()] ?? "application/octet-stream";
+}
+
+/*
+  Reads the file to upload from a local path or from base64 content. Exactly one of the two must be given.
+*/
+async function readAttachmentSource(filePath: string | undefined, content: string | undefined, fileName: string | undefined): Promise<AttachmentSource> {
+  if ((filePath === undefined) === (content === undefined)) {
+    throw new BadRequestError("Provide either filePath or content, but not both");
+  }
+  if (filePath !== undefined) {
+    return { fileName: fileName ?? basename(filePath), content: await readFile(await resolveAttachmentPath(filePath)) };
+  }
+  if (!fileName) {
+    throw new BadRequestError("fileName is required when uploading content");
+  }
+  const normalized = (content as string).replace(/\s/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+    throw new BadRequestError("content must be base64 encoded");
+  }
+  return { fileName, content: Buffer.from(normalized, "base64") };
+}
+
+/*
+  Accepts an attachment ID or its URL, e.g. https://dev.azure.com/org/_apis/wit/attachments/{id}?fileName=log.txt.
+*/
+function getAttachmentId(idOrUrl: string): string {
+  const match = /\/_apis\/wit\/attachments\/([^/?#]+)/i.exec(idOrUrl);
+  return match ? decodeURIComponent(match[1]) : idOrUrl;
+}
+
+function getAttachmentFileName(url: string): string | undefined {
+  const match = /[?&]fileName=([^&#]+)/i.exec(url);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+function isAttachmentRelation(relation: WorkItemRelation): boolean {
+  return relation.rel === ATTACHMENT_RELATION;
+}
+
+function toAttachmentInfo(relation: WorkItemRelation): AttachmentInfo {
+  const attributes = relation.attributes ?? {};
+  return {
+    id: getAttachmentId(relation.url ?? ""),
+    name: attributes.name,
+    size: attributes.resourceSize,
+    comment: attributes.comment || undefined,
+    createdDate: attributes.resourceCreatedDate,
+    url: relation.url ?? "",
+  };
+}
+
+/*
+  Returns text attachments inline and anything else as an embedded resource holding the base64 content.
+*/
+function createAttachmentContentResult(uri: string, fileName: string, content: Buffer): CallToolResult {
+  const mimeType = getMimeType(fileName);
+  const isText = !isBinary(content) && (mimeType === "application/octet-stream" || mimeType.startsWith("text/") || mimeType === "application/json" || mimeType === "application/xml");
+  if (isText) {
+    return { content: [{ type: "text", text: content.toString("utf8") }] };
+  }
+  return {
+    content: [
+      { type: "text", text: `${fileName} (${mimeType}, ${content.length} bytes)` },
+      { type: "resource", resource: { uri, mimeType, blob: content.toString("base64") } },
+    ],
+  };
+}
+
+export { ATTACHMENT_RELATION, configureAttachments, createAttachmentContentResult, getAttachmentFileName, getAttachmentId, getMimeType, isAttachmentRelation, readAttachmentSource, toAttachmentInfo };
+export type { AttachmentInfo, AttachmentOptions, AttachmentSource };
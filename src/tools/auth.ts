@@ -1,25 +1,25 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { WebApi } from "azure-devops-node-api";
+import { AzureDevOpsRequestError } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
 
-async function getCurrentUserDetails(tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+async function getCurrentUserDetails(authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   const connection = await connectionProvider();
   const url = `${connection.serverUrl}/_apis/connectionData`;
-  const token = (await tokenProvider()).token;
-  const response = await fetch(url, {
+  const authHeader = await authHeaderProvider();
+  const response = await fetchWithRetry(url, {
     method: "GET",
     headers: {
-      "Authorization": `Bearer ${token}`,
+      "Authorization": authHeader,
       "Content-Type": "application/json",
     },
   });
-  const data = await response.json();
   if (!response.ok) {
-    throw new Error(`Error fetching user details: ${data.message}`);
+    throw await AzureDevOpsRequestError.fromResponse(response, "Error fetching user details");
   }
-  return data;
+  return response.json();
 }
 
 export { getCurrentUserDetails };
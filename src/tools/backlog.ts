@@ -0,0 +1,164 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { TeamContext } from "azure-devops-node-api/interfaces/CoreInterfaces.js";
+import { BacklogLevelWorkItems } from "azure-devops-node-api/interfaces/WorkInterfaces.js";
+import { WorkItem, WorkItemErrorPolicy, WorkItemExpand } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { IWorkApi } from "azure-devops-node-api/WorkApi.js";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { BadRequestError } from "../errors.js";
+import { toDisplayValue } from "./preview.js";
+
+const BACKLOG_POSITIONS = ["top", "bottom", "above", "below"] as const;
+
+type BacklogPosition = (typeof BACKLOG_POSITIONS)[number];
+
+// Agile and CMMI order the backlog by StackRank, Scrum and Basic by BacklogPriority
+const ORDER_FIELDS = ["Microsoft.VSTS.Common.StackRank", "Microsoft.VSTS.Common.BacklogPriority"];
+const PARENT_RELATION = "System.LinkTypes.Hierarchy-Reverse";
+
+// getWorkItemsBatch accepts at most 200 IDs per call
+const BATCH_SIZE = 200;
+
+interface RankedBacklogItem {
+  /** 1-based position on the backlog. */
+  rank: number;
+  id: number;
+  workItemType?: string;
+  title?: string;
+  state?: string;
+  assignedTo?: string;
+  /** The StackRank or BacklogPriority value behind the rank. */
+  order?: number;
+  parent?: { id: number; workItemType?: string; title?: string };
+}
+
+interface ReorderPlan {
+  /** The item the moved items go after, or 0 for the top. */
+  previousId: number;
+  /** The item the moved items go before, or 0 for the bottom. */
+  nextId: number;
+  /** The backlog order after the move. */
+  order: number[];
+}
+
+/*
+  The IDs of the work items of a backlog level, in backlog order, or only the children of `parentId` (0 for items
+  without a parent) when it is given.
+*/
+function getBacklogOrder(backlog: BacklogLevelWorkItems, parentId?: number): number[] {
+  const ids = (backlog.workItems ?? [])
+    .filter((link) => parentId === undefined || (link.source?.id ?? 0) === parentId)
+    .map((link) => link.target?.id)
+    .filter((id): id is number => id !== undefined);
+  return Array.from(new Set(ids));
+}
+
+/*
+  The parent that `ids` share on a backlog level, or 0 for items without one. The reorder API moves the children
+  of one parent at a time, so `relativeTo` has to be one of them too.
+*/
+function getBacklogParentId(backlog: BacklogLevelWorkItems, ids: number[], relativeTo?: number): number {
+  const parentIds = new Map((backlog.workItems ?? []).filter((link) => link.target?.id !== undefined).map((link) => [link.target?.id as number, link.source?.id ?? 0]));
+  const missing = ids.filter((id) => !parentIds.has(id));
+  if (missing.length > 0) {
+    throw new BadRequestError(`Work items ${missing.join(", ")} are not on this backlog`);
+  }
+  const parents = Array.from(new Set(ids.map((id) => parentIds.get(id) as number)));
+  if (parents.length > 1) {
+    throw new BadRequestError(`Work items ${ids.join(", ")} have different parents (${parents.join(", ")}); move the children of one parent at a time`);
+  }
+  if (relativeTo !== undefined && parentIds.has(relativeTo) && parentIds.get(relativeTo) !== parents[0]) {
+    throw new BadRequestError(`Work item ${relativeTo} has a different parent (${parentIds.get(relativeTo)}) than the moved work items (${parents[0]})`);
+  }
+  return parents[0];
+}
+
+/*
+  Works out the neighbours the reorder API needs to put `ids`, in the given order, at a position on the backlog,
+  and the order that results.
+*/
+function planReorder(order: number[], ids: number[], position: BacklogPosition, relativeTo?: number): ReorderPlan {
+  const missing = ids.filter((id) => !order.includes(id));
+  if (missing.length > 0) {
+    throw new BadRequestError(`Work items ${missing.join(", ")} are not on this backlog`);
+  }
+  const rest = order.filter((id) => !ids.includes(id));
+
+  let index: number;
+  if (position === "top") {
+    index = 0;
+  } else if (position === "bottom") {
+    index = rest.length;
+  } else {
+    if (relativeTo === undefined) {
+      throw new BadRequestError(`relativeTo is required to move work items ${position} another one`);
+    }
+    if (ids.includes(relativeTo)) {
+      throw new BadRequestError(`Work item ${relativeTo} cannot be moved ${position} itself`);
+    }
+    const relativeIndex = rest.indexOf(relativeTo);
+    if (relativeIndex < 0) {
+      throw new BadRequestError(`Work item ${relativeTo} is not on this backlog`);
+    }
+    index = position === "above" ? relativeIndex : relativeIndex + 1;
+  }
+
+  return {
+    previousId: rest[index - 1] ?? 0,
+    nextId: rest[index] ?? 0,
+    order: [...rest.slice(0, index), ...ids, ...rest.slice(index)],
+  };
+}
+
+async function getWorkItems(workItemApi: IWorkItemTrackingApi, project: string | undefined, ids: number[]): Promise<Map<number, WorkItem>> {
+  const workItems = new Map<number, WorkItem>();
+  for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+    // Relations cannot be expanded together with a field list, and the order field differs between processes
+    const batch = await workItemApi.getWorkItemsBatch({ ids: ids.slice(index, index + BATCH_SIZE), $expand: WorkItemExpand.Relations, errorPolicy: WorkItemErrorPolicy.Omit }, project);
+    for (const workItem of batch.filter((item) => item?.id !== undefined)) {
+      workItems.set(workItem.id as number, workItem);
+    }
+  }
+  return workItems;
+}
+
+function getParentId(workItem: WorkItem): number | undefined {
+  const relation = workItem.relations?.find((candidate) => candidate.rel === PARENT_RELATION);
+  const match = /\/workItems\/(\d+)$/i.exec(relation?.url ?? "");
+  return match ? Number(match[1]) : undefined;
+}
+
+/*
+  The first `top` work items of a backlog level in rank order, each with its parent, wherever that parent is.
+*/
+async function getRankedBacklog(workApi: IWorkApi, workItemApi: IWorkItemTrackingApi, teamContext: TeamContext, backlogId: string, top: number): Promise<RankedBacklogItem[]> {
+  const order = getBacklogOrder(await workApi.getBacklogLevelWorkItems(teamContext, backlogId)).slice(0, top);
+  const workItems = await getWorkItems(workItemApi, teamContext.project, order);
+
+  const parentIds = Array.from(new Set(Array.from(workItems.values(), getParentId).filter((id): id is number => id !== undefined)));
+  const parents = new Map(Array.from(workItems).filter(([id]) => parentIds.includes(id)));
+  const missingParents = parentIds.filter((id) => !parents.has(id));
+  for (const [id, parent] of await getWorkItems(workItemApi, teamContext.project, missingParents)) {
+    parents.set(id, parent);
+  }
+
+  return order.map((id, index): RankedBacklogItem => {
+    const fields = workItems.get(id)?.fields ?? {};
+    const parentId = workItems.has(id) ? getParentId(workItems.get(id) as WorkItem) : undefined;
+    const parentFields = parentId !== undefined ? parents.get(parentId)?.fields : undefined;
+    return {
+      rank: index + 1,
+      id,
+      workItemType: fields["System.WorkItemType"],
+      title: fields["System.Title"],
+      state: fields["System.State"],
+      assignedTo: toDisplayValue(fields["System.AssignedTo"]) as string | undefined,
+      order: ORDER_FIELDS.map((field) => fields[field]).find((value) => value !== undefined),
+      parent: parentId !== undefined ? { id: parentId, workItemType: parentFields?.["System.WorkItemType"], title: parentFields?.["System.Title"] } : undefined,
+    };
+  });
+}
+
+export { BACKLOG_POSITIONS, getBacklogOrder, getBacklogParentId, getRankedBacklog, planReorder };
+export type { BacklogPosition, RankedBacklogItem, ReorderPlan };
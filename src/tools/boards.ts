@@ -0,0 +1,132 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Board, BoardColumnType } from "azure-devops-node-api/interfaces/WorkInterfaces.js";
+import { WorkItem } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { BadRequestError } from "../errors.js";
+import { PatchOperation } from "./preview.js";
+
+// The default lane has no name; this is how the tools show and accept it
+const DEFAULT_LANE = "(default lane)";
+
+interface BoardColumnSummary {
+  name: string;
+  type: "incoming" | "inProgress" | "outgoing";
+  /** Maximum number of cards in the column, or undefined when there is no limit. */
+  wipLimit?: number;
+  /** Whether the column is split into Doing and Done. */
+  isSplit: boolean;
+  /** The state a work item of each type has in the column. */
+  stateMappings: Record<string, string>;
+}
+
+interface BoardSummary {
+  id?: string;
+  name?: string;
+  columns: BoardColumnSummary[];
+  lanes: string[];
+  /** The WEF_*_Kanban fields that hold the position of a card on this board. */
+  fields: { column?: string; done?: string; lane?: string };
+}
+
+interface CardPosition {
+  id: number;
+  workItemType?: string;
+  title?: string;
+  state?: string;
+  column?: string;
+  /** Doing or Done, in a split column. */
+  split?: "Doing" | "Done";
+  lane?: string;
+}
+
+interface CardMove {
+  column: string;
+  lane?: string;
+  done?: boolean;
+}
+
+const COLUMN_TYPES: Record<BoardColumnType, BoardColumnSummary["type"]> = {
+  [BoardColumnType.Incoming]: "incoming",
+  [BoardColumnType.InProgress]: "inProgress",
+  [BoardColumnType.Outgoing]: "outgoing",
+};
+
+function getLaneName(name: string | undefined): string {
+  return name ? name : DEFAULT_LANE;
+}
+
+function summarizeBoard(board: Board): BoardSummary {
+  return {
+    id: board.id,
+    name: board.name,
+    columns: (board.columns ?? []).map((column) => ({
+      name: column.name ?? "",
+      type: COLUMN_TYPES[column.columnType ?? BoardColumnType.InProgress],
+      // 0 means no limit
+      wipLimit: column.itemLimit ? column.itemLimit : undefined,
+      isSplit: column.isSplit === true,
+      stateMappings: column.stateMappings ?? {},
+    })),
+    lanes: (board.rows ?? []).map((row) => getLaneName(row.name)),
+    fields: { column: board.fields?.columnField?.referenceName, done: board.fields?.doneField?.referenceName, lane: board.fields?.rowField?.referenceName },
+  };
+}
+
+function getCardPosition(board: Board, workItem: WorkItem): CardPosition {
+  const fields = workItem.fields ?? {};
+  const { column: columnField, done: doneField, lane: laneField } = summarizeBoard(board).fields;
+  const column = columnField ? fields[columnField] : undefined;
+  const isSplit = board.columns?.find((boardColumn) => boardColumn.name === column)?.isSplit === true;
+  return {
+    id: workItem.id as number,
+    workItemType: fields["System.WorkItemType"],
+    title: fields["System.Title"],
+    state: fields["System.State"],
+    column,
+    split: isSplit && doneField ? (fields[doneField] === true ? "Done" : "Doing") : undefined,
+    lane: column !== undefined && laneField ? getLaneName(fields[laneField]) : undefined,
+  };
+}
+
+/*
+  The field updates that put a card in a column, and lane if given. The state is set to the one the column maps
+  the work item type to, since Azure DevOps moves a card back to the column of its state otherwise.
+*/
+function getCardMovePatch(board: Board, workItemType: string, currentState: string | undefined, { column, lane, done }: CardMove): PatchOperation[] {
+  const { columns, lanes, fields } = summarizeBoard(board);
+  if (!fields.column) {
+    throw new BadRequestError(`The board '${board.name}' does not report its column field`);
+  }
+  const target = columns.find((candidate) => candidate.name.toLowerCase() === column.trim().toLowerCase());
+  if (!target) {
+    throw new BadRequestError(`The board '${board.name}' has no column '${column}'. Columns: ${columns.map((candidate) => candidate.name).join(", ")}`);
+  }
+  const state = target.stateMappings[workItemType];
+  if (!state) {
+    throw new BadRequestError(`Work items of type '${workItemType}' are not on the board '${board.name}'`);
+  }
+  if (done !== undefined && !target.isSplit) {
+    throw new BadRequestError(`The column '${target.name}' is not split into Doing and Done`);
+  }
+
+  const patch: PatchOperation[] = [];
+  if (state !== currentState) {
+    patch.push({ op: "add", path: "/fields/System.State", value: state });
+  }
+  patch.push({ op: "add", path: `/fields/${fields.column}`, value: target.name });
+  if (target.isSplit && fields.done) {
+    patch.push({ op: "add", path: `/fields/${fields.done}`, value: done === true });
+  }
+  if (lane !== undefined) {
+    const laneName = lanes.find((candidate) => candidate.toLowerCase() === (lane.trim() || DEFAULT_LANE).toLowerCase());
+    if (!laneName || !fields.lane) {
+      throw new BadRequestError(`The board '${board.name}' has no lane '${lane}'. Lanes: ${lanes.join(", ")}`);
+    }
+    patch.push({ op: "add", path: `/fields/${fields.lane}`, value: laneName === DEFAULT_LANE ? "" : laneName });
+  }
+  return patch;
+}
+
+export { DEFAULT_LANE, getCardMovePatch, getCardPosition, summarizeBoard };
+export type { BoardColumnSummary, BoardSummary, CardMove, CardPosition };
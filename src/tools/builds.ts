@@ -1,12 +1,14 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { apiVersion } from "../utils.js";
 import { WebApi } from "azure-devops-node-api";
 import { BuildQueryOrder, DefinitionQueryOrder } from "azure-devops-node-api/interfaces/BuildInterfaces.js";
 import { z } from "zod";
+import { AzureDevOpsRequestError, withErrorHandling } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
+import { Toolset } from "../toolsets.js";
 import { StageUpdateType } from "azure-devops-node-api/interfaces/BuildInterfaces.js";
 
 const BUILD_TOOLS = {
@@ -21,7 +23,22 @@ const BUILD_TOOLS = {
   update_build_stage: "build_update_build_stage",
 };
 
-function configureBuildTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const BUILD_TOOLSET: Toolset = {
+  name: "builds",
+  tools: {
+    [BUILD_TOOLS.get_definitions]: { readOnly: true },
+    [BUILD_TOOLS.get_definition_revisions]: { readOnly: true },
+    [BUILD_TOOLS.get_builds]: { readOnly: true },
+    [BUILD_TOOLS.get_log]: { readOnly: true },
+    [BUILD_TOOLS.get_log_by_id]: { readOnly: true },
+    [BUILD_TOOLS.get_changes]: { readOnly: true },
+    [BUILD_TOOLS.run_build]: { readOnly: false },
+    [BUILD_TOOLS.get_status]: { readOnly: true },
+    [BUILD_TOOLS.update_build_stage]: { readOnly: false, destructive: true },
+  },
+};
+
+function configureBuildTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   server.tool(
     BUILD_TOOLS.get_definitions,
     "Retrieves a list of build definitions for a given project.",
@@ -44,51 +61,54 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       processType: z.number().optional().describe("Process type to filter build definitions"),
       yamlFilename: z.string().optional().describe("YAML filename to filter build definitions"),
     },
-    async ({
-      project,
-      repositoryId,
-      repositoryType,
-      name,
-      path,
-      queryOrder,
-      top,
-      continuationToken,
-      minMetricsTime,
-      definitionIds,
-      builtAfter,
-      notBuiltAfter,
-      includeAllProperties,
-      includeLatestBuilds,
-      taskIdFilter,
-      processType,
-      yamlFilename,
-    }) => {
-      const connection = await connectionProvider();
-      const buildApi = await connection.getBuildApi();
-      const buildDefinitions = await buildApi.getDefinitions(
+    withErrorHandling(
+      "fetching build definitions",
+      async ({
         project,
-        name,
         repositoryId,
         repositoryType,
+        name,
+        path,
         queryOrder,
         top,
         continuationToken,
         minMetricsTime,
         definitionIds,
-        path,
         builtAfter,
         notBuiltAfter,
         includeAllProperties,
         includeLatestBuilds,
         taskIdFilter,
         processType,
-        yamlFilename
-      );
+        yamlFilename,
+      }) => {
+        const connection = await connectionProvider();
+        const buildApi = await connection.getBuildApi();
+        const buildDefinitions = await buildApi.getDefinitions(
+          project,
+          name,
+          repositoryId,
+          repositoryType,
+          queryOrder,
+          top,
+          continuationToken,
+          minMetricsTime,
+          definitionIds,
+          path,
+          builtAfter,
+          notBuiltAfter,
+          includeAllProperties,
+          includeLatestBuilds,
+          taskIdFilter,
+          processType,
+          yamlFilename
+        );
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(buildDefinitions, null, 2) }],
-      };
-    }
+        return {
+          content: [{ type: "text", text: JSON.stringify(buildDefinitions, null, 2) }],
+        };
+      }
+    )
   );
 
   server.tool(
@@ -98,7 +118,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       project: z.string().describe("Project ID or name to get the build definition revisions for"),
       definitionId: z.number().describe("ID of the build definition to get revisions for"),
     },
-    async ({ project, definitionId }) => {
+    withErrorHandling("fetching build definition revisions", async ({ project, definitionId }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const revisions = await buildApi.getDefinitionRevisions(project, definitionId);
@@ -106,7 +126,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(revisions, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -135,32 +155,9 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       repositoryId: z.string().optional().describe("Repository ID to filter builds"),
       repositoryType: z.enum(["TfsGit", "GitHub", "BitbucketCloud"]).optional().describe("Type of repository to filter builds"),
     },
-    async ({
-      project,
-      definitions,
-      queues,
-      buildNumber,
-      minTime,
-      maxTime,
-      requestedFor,
-      reasonFilter,
-      statusFilter,
-      resultFilter,
-      tagFilters,
-      properties,
-      top,
-      continuationToken,
-      maxBuildsPerDefinition,
-      deletedFilter,
-      queryOrder,
-      branchName,
-      buildIds,
-      repositoryId,
-      repositoryType,
-    }) => {
-      const connection = await connectionProvider();
-      const buildApi = await connection.getBuildApi();
-      const builds = await buildApi.getBuilds(
+    withErrorHandling(
+      "fetching builds",
+      async ({
         project,
         definitions,
         queues,
@@ -181,13 +178,39 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
         branchName,
         buildIds,
         repositoryId,
-        repositoryType
-      );
+        repositoryType,
+      }) => {
+        const connection = await connectionProvider();
+        const buildApi = await connection.getBuildApi();
+        const builds = await buildApi.getBuilds(
+          project,
+          definitions,
+          queues,
+          buildNumber,
+          minTime,
+          maxTime,
+          requestedFor,
+          reasonFilter,
+          statusFilter,
+          resultFilter,
+          tagFilters,
+          properties,
+          top,
+          continuationToken,
+          maxBuildsPerDefinition,
+          deletedFilter,
+          queryOrder,
+          branchName,
+          buildIds,
+          repositoryId,
+          repositoryType
+        );
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(builds, null, 2) }],
-      };
-    }
+        return {
+          content: [{ type: "text", text: JSON.stringify(builds, null, 2) }],
+        };
+      }
+    )
   );
 
   server.tool(
@@ -197,7 +220,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       project: z.string().describe("Project ID or name to get the build log for"),
       buildId: z.number().describe("ID of the build to get the log for"),
     },
-    async ({ project, buildId }) => {
+    withErrorHandling("fetching build logs", async ({ project, buildId }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const logs = await buildApi.getBuildLogs(project, buildId);
@@ -205,7 +228,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(logs, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -218,7 +241,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       startLine: z.number().optional().describe("Starting line number for the log content, defaults to 0"),
       endLine: z.number().optional().describe("Ending line number for the log content, defaults to the end of the log"),
     },
-    async ({ project, buildId, logId, startLine, endLine }) => {
+    withErrorHandling("fetching build log", async ({ project, buildId, logId, startLine, endLine }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const logLines = await buildApi.getBuildLogLines(project, buildId, logId, startLine, endLine);
@@ -226,7 +249,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(logLines, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -239,7 +262,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       top: z.number().default(100).describe("Number of changes to retrieve, defaults to 100"),
       includeSourceChange: z.boolean().optional().describe("Whether to include source changes in the results, defaults to false"),
     },
-    async ({ project, buildId, continuationToken, top, includeSourceChange }) => {
+    withErrorHandling("fetching build changes", async ({ project, buildId, continuationToken, top, includeSourceChange }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const changes = await buildApi.getBuildChanges(project, buildId, continuationToken, top, includeSourceChange);
@@ -247,7 +270,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(changes, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -259,7 +282,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       sourceBranch: z.string().optional().describe("Source branch to run the build from. If not provided, the default branch will be used."),
       parameters: z.record(z.string(), z.string()).optional().describe("Custom build parameters as key-value pairs"),
     },
-    async ({ project, definitionId, sourceBranch, parameters }) => {
+    withErrorHandling("running build", async ({ project, definitionId, sourceBranch, parameters }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const pipelinesApi = await connection.getPipelinesApi();
@@ -286,7 +309,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(buildReport, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -296,7 +319,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       project: z.string().describe("Project ID or name to get the build status for"),
       buildId: z.number().describe("ID of the build to get the status for"),
     },
-    async ({ project, buildId }) => {
+    withErrorHandling("fetching build status", async ({ project, buildId }) => {
       const connection = await connectionProvider();
       const buildApi = await connection.getBuildApi();
       const build = await buildApi.getBuildReport(project, buildId);
@@ -304,7 +327,7 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(build, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -317,29 +340,28 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       status: z.nativeEnum(StageUpdateType).describe("New status for the stage"),
       forceRetryAllJobs: z.boolean().default(false).describe("Whether to force retry all jobs in the stage."),
     },
-    async ({ project, buildId, stageName, status, forceRetryAllJobs }) => {
+    withErrorHandling("updating build stage", async ({ project, buildId, stageName, status, forceRetryAllJobs }) => {
       const connection = await connectionProvider();
       const orgUrl = connection.serverUrl;
       const endpoint = `${orgUrl}/${project}/_apis/build/builds/${buildId}/stages/${stageName}?api-version=${apiVersion}`;
-      const token = await tokenProvider();
+      const authHeader = await authHeaderProvider();
 
       const body = {
         forceRetryAllJobs: forceRetryAllJobs,
         state: status.valueOf(),
       };
 
-      const response = await fetch(endpoint, {
+      const response = await fetchWithRetry(endpoint, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          "Authorization": `Bearer ${token.token}`,
+          "Authorization": authHeader,
         },
         body: JSON.stringify(body),
       });
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to update build stage: ${response.status} ${errorText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Failed to update build stage");
       }
 
       const updatedBuild = await response.text();
@@ -347,8 +369,8 @@ function configureBuildTools(server: McpServer, tokenProvider: () => Promise<Acc
       return {
         content: [{ type: "text", text: JSON.stringify(updatedBuild, null, 2) }],
       };
-    }
+    })
   );
 }
 
-export { BUILD_TOOLS, configureBuildTools };
+export { BUILD_TOOLS, BUILD_TOOLSET, configureBuildTools };
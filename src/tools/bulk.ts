@@ -0,0 +1,273 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { BadRequestError } from "../errors.js";
+import { FieldValue } from "./fields.js";
+
+const BULK_INPUT_FORMATS = ["json", "csv", "markdown"] as const;
+
+type BulkInputFormat = (typeof BULK_INPUT_FORMATS)[number];
+
+interface BulkItem {
+  /** Caller-chosen key, or the item's 1-based position in the input. */
+  key: string;
+  /** Key of another item in the input, or the ID of an existing work item. */
+  parent?: string | number;
+  workItemType: string;
+  title: string;
+  fields: Record<string, FieldValue>;
+  /** Nesting level, 0 for items without a parent in the input. */
+  level: number;
+}
+
+interface RawItem {
+  key?: string;
+  parent?: string | number;
+  workItemType?: string;
+  title?: string;
+  fields: Record<string, FieldValue>;
+  /** Index of the enclosing item, for nested JSON and markdown outlines. */
+  enclosing?: number;
+}
+
+const jsonItemKeys = ["key", "parent", "type", "workItemType", "title", "fields", "children"];
+
+function parseJson(input: string): RawItem[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error) {
+    throw new BadRequestError(`Input is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new BadRequestError("JSON input must be an array of work items");
+  }
+
+  const items: RawItem[] = [];
+  const visit = (value: unknown, enclosing: number | undefined, location: string) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new BadRequestError(`${location} must be an object`);
+    }
+    const item = value as Record<string, unknown>;
+    const unknownKeys = Object.keys(item).filter((key) => !jsonItemKeys.includes(key));
+    if (unknownKeys.length > 0) {
+      throw new BadRequestError(`${location} has unknown properties: ${unknownKeys.join(", ")}. Put field values under 'fields'.`);
+    }
+    if (item.parent !== undefined && typeof item.parent !== "string" && typeof item.parent !== "number") {
+      throw new BadRequestError(`${location}.parent must be an item key or a work item ID`);
+    }
+    const index = items.length;
+    items.push({
+      key: item.key === undefined ? undefined : String(item.key),
+      parent: item.parent as string | number | undefined,
+      workItemType: (item.workItemType ?? item.type) as string | undefined,
+      title: item.title as string | undefined,
+      fields: (item.fields ?? {}) as Record<string, FieldValue>,
+      enclosing,
+    });
+    if (item.children !== undefined) {
+      if (!Array.isArray(item.children)) {
+        throw new BadRequestError(`${location}.children must be an array`);
+      }
+      item.children.forEach((child, childIndex) => visit(child, index, `${location}.children[${childIndex}]`));
+    }
+  };
+  parsed.forEach((item, index) => visit(item, undefined, `[${index}]`));
+  return items;
+}
+
+function parseCsvRows(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new BadRequestError("CSV input has an unterminated quoted value");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/*
+  The header row names the columns: 'key', 'parent', 'type' (or 'Work Item Type') and 'title' are special,
+  any other column is a field, by reference or display name. Empty cells are left out.
+*/
+function parseCsv(input: string): RawItem[] {
+  const [header, ...rows] = parseCsvRows(input);
+  if (!header) {
+    throw new BadRequestError("CSV input needs a header row");
+  }
+  const columns = header.map((column) => column.trim());
+  const special = (column: string) => {
+    const lower = column.toLowerCase();
+    return lower === "work item type" || lower === "system.workitemtype" ? "type" : lower === "system.title" ? "title" : lower;
+  };
+
+  return rows.map((cells, rowIndex) => {
+    if (cells.length > columns.length) {
+      throw new BadRequestError(`CSV row ${rowIndex + 2} has ${cells.length} values but the header has ${columns.length} columns`);
+    }
+    const item: RawItem = { fields: {} };
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? "";
+      if (value === "") {
+        return;
+      }
+      switch (special(column)) {
+        case "key":
+          item.key = value;
+          break;
+        case "parent":
+          item.parent = /^\d+$/.test(value) ? Number(value) : value;
+          break;
+        case "type":
+          item.workItemType = value;
+          break;
+        case "title":
+          item.title = value;
+          break;
+        default:
+          item.fields[column] = value;
+      }
+    });
+    return item;
+  });
+}
+
+/*
+  Each list item is a work item, nested by indentation: "- [Type] Title {Field: value, Other field: value}".
+  The [Type] prefix and the {fields} suffix are optional.
+*/
+function parseMarkdown(input: string): RawItem[] {
+  const items: RawItem[] = [];
+  const stack: { indent: number; index: number }[] = [];
+
+  input.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (line.trim() === "") {
+      return;
+    }
+    const match = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([^\]]+)\]\s*)?(.*?)\s*(?:\{([^}]*)\})?\s*$/.exec(line.replace(/\t/g, "  "));
+    if (!match) {
+      // Headings and prose around the outline are ignored
+      return;
+    }
+    const [, indentation, workItemType, title, fieldList] = match;
+    const fields: Record<string, FieldValue> = {};
+    for (const entry of fieldList ? fieldList.split(",") : []) {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        throw new BadRequestError(`Line ${lineIndex + 1}: expected 'Field: value' in {${fieldList}}`);
+      }
+      fields[entry.substring(0, separator).trim()] = entry.substring(separator + 1).trim();
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indentation.length) {
+      stack.pop();
+    }
+    items.push({ workItemType: workItemType?.trim(), title, fields, enclosing: stack[stack.length - 1]?.index });
+    stack.push({ indent: indentation.length, index: items.length - 1 });
+  });
+  return items;
+}
+
+/*
+  Parses work items from JSON, CSV or a markdown outline and orders them so every parent comes before its children.
+  Items without a type take it from `levelTypes` by nesting level, e.g. ["Epic", "Feature", "User Story", "Task"].
+*/
+function parseBulkInput(format: BulkInputFormat, input: string, levelTypes: string[] = []): BulkItem[] {
+  const raw = format === "json" ? parseJson(input) : format === "csv" ? parseCsv(input) : parseMarkdown(input);
+  if (raw.length === 0) {
+    throw new BadRequestError("The input does not describe any work items");
+  }
+
+  const keys = raw.map((item, index) => item.key ?? String(index + 1));
+  const indexByKey = new Map<string, number>();
+  keys.forEach((key, index) => {
+    if (indexByKey.has(key)) {
+      throw new BadRequestError(`Duplicate key '${key}'`);
+    }
+    indexByKey.set(key, index);
+  });
+
+  const parentIndexes = raw.map((item, index) => {
+    if (item.enclosing !== undefined) {
+      if (item.parent !== undefined) {
+        throw new BadRequestError(`Item '${keys[index]}' is nested under '${keys[item.enclosing]}' and also names a parent`);
+      }
+      return item.enclosing;
+    }
+    if (typeof item.parent === "string") {
+      const parentIndex = indexByKey.get(item.parent);
+      if (parentIndex === undefined) {
+        throw new BadRequestError(`Item '${keys[index]}' has an unknown parent '${item.parent}'`);
+      }
+      return parentIndex;
+    }
+    return undefined;
+  });
+
+  const levels: number[] = [];
+  const getLevel = (index: number, path: Set<number>): number => {
+    if (levels[index] !== undefined) {
+      return levels[index];
+    }
+    if (path.has(index)) {
+      throw new BadRequestError(`Item '${keys[index]}' is its own ancestor`);
+    }
+    path.add(index);
+    const parentIndex = parentIndexes[index];
+    levels[index] = parentIndex === undefined ? 0 : getLevel(parentIndex, path) + 1;
+    return levels[index];
+  };
+
+  const items = raw.map((item, index): BulkItem => {
+    const level = getLevel(index, new Set());
+    const title = item.title ?? (item.fields["System.Title"] as string | undefined);
+    if (!title) {
+      throw new BadRequestError(`Item '${keys[index]}' has no title`);
+    }
+    const workItemType = item.workItemType ?? levelTypes[level];
+    if (!workItemType) {
+      throw new BadRequestError(`Item '${keys[index]}' has no work item type; give it one or pass the types by level`);
+    }
+    const parentIndex = parentIndexes[index];
+    return { key: keys[index], parent: parentIndex !== undefined ? keys[parentIndex] : item.parent, workItemType, title, fields: item.fields, level };
+  });
+
+  // Stable, so items keep their input order within a level
+  return items.sort((a, b) => a.level - b.level);
+}
+
+export { BULK_INPUT_FORMATS, parseBulkInput };
+export type { BulkInputFormat, BulkItem };
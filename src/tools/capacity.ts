@@ -0,0 +1,259 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { TeamContext } from "azure-devops-node-api/interfaces/CoreInterfaces.js";
+import { DayOfWeek } from "azure-devops-node-api/interfaces/common/System.js";
+import { IdentityRef } from "azure-devops-node-api/interfaces/common/VSSInterfaces.js";
+import { DateRange, TeamMemberCapacityIdentityRef, TeamSettingsIteration } from "azure-devops-node-api/interfaces/WorkInterfaces.js";
+import { WorkItem, WorkItemErrorPolicy } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { IWorkApi } from "azure-devops-node-api/WorkApi.js";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { BadRequestError } from "../errors.js";
+
+const REMAINING_WORK_FIELD = "Microsoft.VSTS.Scheduling.RemainingWork";
+const ACTIVITY_FIELD = "Microsoft.VSTS.Common.Activity";
+// The name Azure DevOps shows for capacity and work without an activity
+const UNASSIGNED_ACTIVITY = "Unassigned";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// getWorkItemsBatch accepts at most 200 IDs per call
+const BATCH_SIZE = 200;
+
+interface MemberCapacitySummary {
+  id?: string;
+  displayName: string;
+  uniqueName?: string;
+  /** Hours per day over all activities. */
+  capacityPerDay: number;
+  /** Working days the member is off, besides the team's days off. */
+  daysOff: number;
+  availableDays: number;
+  /** Hours available, capacityPerDay times availableDays. */
+  capacity: number;
+  /** Remaining work of the work items assigned to the member, in hours. */
+  remainingWork: number;
+  workItems: number;
+  overcommitted: boolean;
+}
+
+interface CapacitySummary {
+  iteration: { id?: string; name?: string; path?: string; startDate: string; finishDate: string };
+  /** Capacity is counted from this day, or from the start of the iteration if that is later. */
+  asOf: string;
+  /** Working days left in the iteration, without the team's days off. */
+  workingDays: number;
+  team: { capacity: number; remainingWork: number; overcommitted: boolean };
+  members: MemberCapacitySummary[];
+  unassigned: { remainingWork: number; workItems: number };
+  byActivity: Record<string, { capacity: number; remainingWork: number }>;
+}
+
+interface CapacitySummaryInput {
+  iteration: TeamSettingsIteration;
+  workingDays: DayOfWeek[];
+  teamDaysOff: DateRange[];
+  capacities: TeamMemberCapacityIdentityRef[];
+  workItems: WorkItem[];
+  asOf: Date;
+}
+
+function toDay(date: Date | string): number {
+  return Math.floor(new Date(date).getTime() / DAY_MS);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().substring(0, 10);
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/*
+  Parses day-off ranges given as ISO dates; both ends are included.
+*/
+function toDateRanges(ranges: { start: string; end: string }[]): DateRange[] {
+  return ranges.map(({ start, end }) => {
+    const range = { start: new Date(start), end: new Date(end) };
+    if (isNaN(range.start.getTime()) || isNaN(range.end.getTime())) {
+      throw new BadRequestError(`Invalid day-off range ${start} - ${end}; use ISO dates such as 2025-06-02`);
+    }
+    if (range.end < range.start) {
+      throw new BadRequestError(`The day-off range ${start} - ${end} ends before it starts`);
+    }
+    return range;
+  });
+}
+
+function getDaysOff(ranges: DateRange[] = []): Set<number> {
+  const days = new Set<number>();
+  for (const { start, end } of ranges) {
+    if (start && end) {
+      for (let day = toDay(start); day <= toDay(end); day++) {
+        days.add(day);
+      }
+    }
+  }
+  return days;
+}
+
+/*
+  The working days from `from` to `to`, both included, that are not days off. Days are counted since the Unix epoch.
+*/
+function getWorkingDays(from: number, to: number, workingDays: DayOfWeek[], daysOff: Set<number>): number[] {
+  const days: number[] = [];
+  for (let day = from; day <= to; day++) {
+    // Day 0 of the Unix epoch was a Thursday
+    if (workingDays.includes((day + 4) % 7) && !daysOff.has(day)) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+function isSameIdentity(identity: IdentityRef | undefined, other: IdentityRef | undefined): boolean {
+  if (!identity || !other) {
+    return false;
+  }
+  if (identity.id && other.id) {
+    return identity.id === other.id;
+  }
+  return !!identity.uniqueName && identity.uniqueName.toLowerCase() === other.uniqueName?.toLowerCase();
+}
+
+/*
+  Compares what each team member can still do in an iteration with the remaining work assigned to them.
+  Capacity counts the working days from `asOf` to the end of the iteration, less team and personal days off.
+  People with work but no capacity set up are listed with a capacity of 0.
+*/
+function summarizeCapacity({ iteration, workingDays, teamDaysOff, capacities, workItems, asOf }: CapacitySummaryInput): CapacitySummary {
+  const { startDate, finishDate } = iteration.attributes ?? {};
+  if (!startDate || !finishDate) {
+    throw new BadRequestError(`The iteration '${iteration.path ?? iteration.name}' has no start and finish dates`);
+  }
+  if (isNaN(asOf.getTime())) {
+    throw new BadRequestError("Invalid asOf date; use an ISO date such as 2025-06-02");
+  }
+  const from = Math.max(toDay(startDate), toDay(asOf));
+  const to = toDay(finishDate);
+  const teamOff = getDaysOff(teamDaysOff);
+  const teamWorkingDays = getWorkingDays(from, to, workingDays, teamOff).length;
+
+  const byActivity: CapacitySummary["byActivity"] = {};
+  const addToActivity = (activity: string | undefined, key: "capacity" | "remainingWork", hours: number) => {
+    const name = activity || UNASSIGNED_ACTIVITY;
+    byActivity[name] = byActivity[name] ?? { capacity: 0, remainingWork: 0 };
+    byActivity[name][key] += hours;
+  };
+
+  const members: { identity?: IdentityRef; summary: MemberCapacitySummary }[] = capacities.map(({ teamMember, activities = [], daysOff }) => {
+    const memberOff = new Set([...teamOff, ...getDaysOff(daysOff)]);
+    const availableDays = getWorkingDays(from, to, workingDays, memberOff).length;
+    for (const activity of activities) {
+      addToActivity(activity.name, "capacity", (activity.capacityPerDay ?? 0) * availableDays);
+    }
+    const capacityPerDay = activities.reduce((total, activity) => total + (activity.capacityPerDay ?? 0), 0);
+    return {
+      identity: teamMember,
+      summary: {
+        id: teamMember?.id,
+        displayName: teamMember?.displayName ?? teamMember?.uniqueName ?? "(unknown)",
+        uniqueName: teamMember?.uniqueName,
+        capacityPerDay,
+        daysOff: teamWorkingDays - availableDays,
+        availableDays,
+        capacity: capacityPerDay * availableDays,
+        remainingWork: 0,
+        workItems: 0,
+        overcommitted: false,
+      },
+    };
+  });
+
+  const unassigned = { remainingWork: 0, workItems: 0 };
+  for (const workItem of workItems) {
+    const fields = workItem.fields ?? {};
+    const remainingWork = Number(fields[REMAINING_WORK_FIELD] ?? 0) || 0;
+    const assignedTo: IdentityRef | undefined = fields["System.AssignedTo"];
+    addToActivity(fields[ACTIVITY_FIELD], "remainingWork", remainingWork);
+    if (!assignedTo) {
+      unassigned.remainingWork += remainingWork;
+      unassigned.workItems++;
+      continue;
+    }
+    let member = members.find(({ identity }) => isSameIdentity(identity, assignedTo));
+    if (!member) {
+      member = {
+        identity: assignedTo,
+        summary: {
+          id: assignedTo.id,
+          displayName: assignedTo.displayName ?? assignedTo.uniqueName ?? "(unknown)",
+          uniqueName: assignedTo.uniqueName,
+          capacityPerDay: 0,
+          daysOff: 0,
+          availableDays: teamWorkingDays,
+          capacity: 0,
+          remainingWork: 0,
+          workItems: 0,
+          overcommitted: false,
+        },
+      };
+      members.push(member);
+    }
+    member.summary.remainingWork += remainingWork;
+    member.summary.workItems++;
+  }
+
+  const summaries = members.map(({ summary }) => ({
+    ...summary,
+    capacity: round(summary.capacity),
+    remainingWork: round(summary.remainingWork),
+    overcommitted: summary.remainingWork > summary.capacity,
+  }));
+  const capacity = round(summaries.reduce((total, member) => total + member.capacity, 0));
+  const remainingWork = round(summaries.reduce((total, member) => total + member.remainingWork, 0) + unassigned.remainingWork);
+
+  return {
+    iteration: { id: iteration.id, name: iteration.name, path: iteration.path, startDate: formatDay(toDay(startDate)), finishDate: formatDay(to) },
+    asOf: formatDay(from),
+    workingDays: teamWorkingDays,
+    team: { capacity, remainingWork, overcommitted: remainingWork > capacity },
+    members: summaries,
+    unassigned: { remainingWork: round(unassigned.remainingWork), workItems: unassigned.workItems },
+    byActivity: Object.fromEntries(Object.entries(byActivity).map(([name, hours]) => [name, { capacity: round(hours.capacity), remainingWork: round(hours.remainingWork) }])),
+  };
+}
+
+/*
+  Fetches the iteration, the team's working days, days off and capacity, and the work items
+  wit_get_work_items_for_iteration returns, then summarizes them.
+*/
+async function getCapacitySummary(workApi: IWorkApi, workItemApi: IWorkItemTrackingApi, teamContext: TeamContext, iterationId: string, asOf: Date): Promise<CapacitySummary> {
+  const [iteration, settings, teamDaysOff, capacity, iterationWorkItems] = await Promise.all([
+    workApi.getTeamIteration(teamContext, iterationId),
+    workApi.getTeamSettings(teamContext),
+    workApi.getTeamDaysOff(teamContext, iterationId),
+    workApi.getCapacitiesWithIdentityRefAndTotals(teamContext, iterationId),
+    workApi.getIterationWorkItems(teamContext, iterationId),
+  ]);
+
+  const ids = Array.from(new Set((iterationWorkItems.workItemRelations ?? []).map((relation) => relation.target?.id).filter((id): id is number => id !== undefined)));
+  const workItems: WorkItem[] = [];
+  for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+    // Whole work items, since a field list naming a field the process lacks, such as Activity, fails the batch
+    const batch = await workItemApi.getWorkItemsBatch({ ids: ids.slice(index, index + BATCH_SIZE), errorPolicy: WorkItemErrorPolicy.Omit }, teamContext.project);
+    workItems.push(...batch.filter((item) => item?.id !== undefined));
+  }
+
+  return summarizeCapacity({
+    iteration,
+    workingDays: settings.workingDays ?? [],
+    teamDaysOff: teamDaysOff.daysOff ?? [],
+    capacities: capacity.teamMembers ?? [],
+    workItems,
+    asOf,
+  });
+}
+
+export { formatDay, getCapacitySummary, getDaysOff, getWorkingDays, summarizeCapacity, toDateRanges, toDay };
+export type { CapacitySummary, CapacitySummaryInput, MemberCapacitySummary };
@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { TreeStructureGroup, WorkItemClassificationNode } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { BadRequestError } from "../errors.js";
+
+const CLASSIFICATION_STRUCTURES = ["areas", "iterations"] as const;
+
+type ClassificationStructure = (typeof CLASSIFICATION_STRUCTURES)[number];
+
+interface ClassificationTreeNode {
+  id?: number;
+  identifier?: string;
+  name?: string;
+  /** The path as work items hold it in System.AreaPath or System.IterationPath, e.g. "Fabrikam\\Web". */
+  path?: string;
+  startDate?: Date;
+  finishDate?: Date;
+  /** Absent on nodes without children and on nodes below the requested depth. */
+  children?: ClassificationTreeNode[];
+  /** Set when the node has children below the requested depth that were not fetched. */
+  hasMoreChildren?: boolean;
+}
+
+function getStructureGroup(structure: ClassificationStructure): TreeStructureGroup {
+  return structure === "areas" ? TreeStructureGroup.Areas : TreeStructureGroup.Iterations;
+}
+
+/*
+  Turns a path as users write it, with or without the project name, e.g. "Fabrikam\\Web\\Checkout" or "Web/Checkout",
+  into the path below the root node the classification node API takes. The root itself is "".
+*/
+function toNodePath(project: string, structure: ClassificationStructure, path: string | undefined): string {
+  const segments = (path ?? "").split(/[\\/]+/).filter((segment) => segment.trim() !== "");
+  if (segments[0]?.toLowerCase() === project.toLowerCase()) {
+    segments.shift();
+    // Paths copied from the API include the structure, e.g. "\\Fabrikam\\Area\\Web"
+    if (segments[0]?.toLowerCase() === (structure === "areas" ? "area" : "iteration")) {
+      segments.shift();
+    }
+  }
+  return segments.join("/");
+}
+
+/*
+  The API reports node paths as "\\Fabrikam\\Area\\Web"; work items and team settings use "Fabrikam\\Web".
+*/
+function toItemPath(nodePath: string | undefined): string | undefined {
+  if (nodePath === undefined) {
+    return undefined;
+  }
+  const [project, , ...rest] = nodePath.split("\\").filter((segment) => segment !== "");
+  return [project, ...rest].join("\\");
+}
+
+function toClassificationTree(node: WorkItemClassificationNode): ClassificationTreeNode {
+  const children = node.children?.map(toClassificationTree);
+  return {
+    id: node.id,
+    identifier: node.identifier,
+    name: node.name,
+    path: toItemPath(node.path),
+    startDate: node.attributes?.startDate,
+    finishDate: node.attributes?.finishDate,
+    children: children && children.length > 0 ? children : undefined,
+    hasMoreChildren: node.hasChildren && !children ? true : undefined,
+  };
+}
+
+/*
+  The dates to set on an iteration from the ones given, keeping the `current` date of any left out. An iteration
+  takes both dates or none, so a date that is neither given nor current is an error.
+*/
+function toIterationDates(startDate: string | undefined, finishDate: string | undefined, current: { startDate?: Date; finishDate?: Date } = {}): { startDate: Date; finishDate: Date } | undefined {
+  if (!startDate && !finishDate) {
+    return undefined;
+  }
+  const parse = (field: string, value: string | undefined, fallback: Date | undefined): Date => {
+    if (!value) {
+      if (!fallback) {
+        throw new BadRequestError(`${field} is required along with ${field === "startDate" ? "finishDate" : "startDate"}`);
+      }
+      return new Date(fallback);
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestError(`Invalid ${field} '${value}'; use an ISO date such as 2025-06-02`);
+    }
+    return date;
+  };
+  const dates = { startDate: parse("startDate", startDate, current.startDate), finishDate: parse("finishDate", finishDate, current.finishDate) };
+  if (dates.finishDate < dates.startDate) {
+    throw new BadRequestError(`The iteration finishes (${dates.finishDate.toISOString()}) before it starts (${dates.startDate.toISOString()})`);
+  }
+  return dates;
+}
+
+function countDescendants(node: WorkItemClassificationNode): number {
+  return (node.children ?? []).reduce((total, child) => total + 1 + countDescendants(child), 0);
+}
+
+export { CLASSIFICATION_STRUCTURES, countDescendants, getStructureGroup, toClassificationTree, toItemPath, toIterationDates, toNodePath };
+export type { ClassificationStructure, ClassificationTreeNode };
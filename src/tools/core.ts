@@ -1,16 +1,28 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { z } from "zod";
+import { withErrorHandling } from "../errors.js";
+import { OrganizationSummary } from "../organizations.js";
+import { Toolset } from "../toolsets.js";
 
 import type { ProjectInfo } from "azure-devops-node-api/interfaces/CoreInterfaces.js";
 
 const CORE_TOOLS = {
   list_project_teams: "core_list_project_teams",
   list_projects: "core_list_projects",
+  list_organizations: "core_list_organizations",
+};
+
+const CORE_TOOLSET: Toolset = {
+  name: "core",
+  tools: {
+    [CORE_TOOLS.list_project_teams]: { readOnly: true },
+    [CORE_TOOLS.list_projects]: { readOnly: true },
+    [CORE_TOOLS.list_organizations]: { readOnly: true },
+  },
 };
 
 function filterProjectsByName(projects: ProjectInfo[], projectNameFilter: string): ProjectInfo[] {
@@ -18,7 +30,7 @@ function filterProjectsByName(projects: ProjectInfo[], projectNameFilter: string
   return projects.filter((project) => project.name?.toLowerCase().includes(lowerCaseFilter));
 }
 
-function configureCoreTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+function configureCoreTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>, organizationsProvider?: () => OrganizationSummary[]) {
   server.tool(
     CORE_TOOLS.list_project_teams,
     "Retrieve a list of teams for the specified Azure DevOps project.",
@@ -28,28 +40,19 @@ function configureCoreTools(server: McpServer, tokenProvider: () => Promise<Acce
       top: z.number().optional().describe("The maximum number of teams to return. Defaults to 100."),
       skip: z.number().optional().describe("The number of teams to skip for pagination. Defaults to 0."),
     },
-    async ({ project, mine, top, skip }) => {
-      try {
-        const connection = await connectionProvider();
-        const coreApi = await connection.getCoreApi();
-        const teams = await coreApi.getTeams(project, mine, top, skip, false);
-
-        if (!teams) {
-          return { content: [{ type: "text", text: "No teams found" }], isError: true };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(teams, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    withErrorHandling("fetching project teams", async ({ project, mine, top, skip }) => {
+      const connection = await connectionProvider();
+      const coreApi = await connection.getCoreApi();
+      const teams = await coreApi.getTeams(project, mine, top, skip, false);
 
-        return {
-          content: [{ type: "text", text: `Error fetching project teams: ${errorMessage}` }],
-          isError: true,
-        };
+      if (!teams) {
+        return { content: [{ type: "text", text: "No teams found" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(teams, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -62,31 +65,35 @@ function configureCoreTools(server: McpServer, tokenProvider: () => Promise<Acce
       continuationToken: z.number().optional().describe("Continuation token for pagination. Used to fetch the next set of results if available."),
       projectNameFilter: z.string().optional().describe("Filter projects by name. Supports partial matches."),
     },
-    async ({ stateFilter, top, skip, continuationToken, projectNameFilter }) => {
-      try {
-        const connection = await connectionProvider();
-        const coreApi = await connection.getCoreApi();
-        const projects = await coreApi.getProjects(stateFilter, top, skip, continuationToken, false);
+    withErrorHandling("fetching projects", async ({ stateFilter, top, skip, continuationToken, projectNameFilter }) => {
+      const connection = await connectionProvider();
+      const coreApi = await connection.getCoreApi();
+      const projects = await coreApi.getProjects(stateFilter, top, skip, continuationToken, false);
 
-        if (!projects) {
-          return { content: [{ type: "text", text: "No projects found" }], isError: true };
-        }
+      if (!projects) {
+        return { content: [{ type: "text", text: "No projects found" }], isError: true };
+      }
 
-        const filteredProject = projectNameFilter ? filterProjectsByName(projects, projectNameFilter) : projects;
+      const filteredProject = projectNameFilter ? filterProjectsByName(projects, projectNameFilter) : projects;
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(filteredProject, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      return {
+        content: [{ type: "text", text: JSON.stringify(filteredProject, null, 2) }],
+      };
+    })
+  );
 
+  if (organizationsProvider) {
+    server.tool(
+      CORE_TOOLS.list_organizations,
+      "List the Azure DevOps organizations this server is configured for. Pass one of them as the 'organization' argument of any tool to run against it.",
+      {},
+      withErrorHandling("listing organizations", async () => {
         return {
-          content: [{ type: "text", text: `Error fetching projects: ${errorMessage}` }],
-          isError: true,
+          content: [{ type: "text", text: JSON.stringify(organizationsProvider(), null, 2) }],
         };
-      }
-    }
-  );
+      })
+    );
+  }
 }
 
-export { CORE_TOOLS, configureCoreTools };
+export { CORE_TOOLS, CORE_TOOLSET, configureCoreTools };
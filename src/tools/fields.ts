@@ -0,0 +1,292 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { FieldType, WorkItemField, WorkItemTypeFieldsExpandLevel, WorkItemTypeFieldWithReferences } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { z } from "zod";
+
+// How long field definitions are reused before they are fetched again
+const FIELD_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const identityValueSchema = z
+  .object({
+    id: z.string().optional().describe("The identity ID."),
+    uniqueName: z.string().optional().describe("The unique name, usually the email address."),
+    displayName: z.string().optional().describe("The display name."),
+  })
+  .describe("An identity, for identity fields such as System.AssignedTo.");
+
+/*
+  Field values as tools accept them: numbers, booleans and identities natively, dates and everything else as strings.
+  `null` clears a field.
+*/
+const fieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null(), identityValueSchema]);
+
+type FieldValue = z.infer<typeof fieldValueSchema>;
+
+interface FieldOperation {
+  op: "add" | "replace" | "remove";
+  path: string;
+  value?: FieldValue;
+}
+
+interface FieldValidationIssue {
+  /** The work item the operation belongs to, for batch updates. */
+  id?: number;
+  /** The key of the item the operation belongs to, for bulk creation. */
+  key?: string;
+  path: string;
+  message: string;
+}
+
+interface FieldValidationResult {
+  /** The operations with paths normalized to reference names and values converted to the field types. */
+  operations: FieldOperation[];
+  issues: FieldValidationIssue[];
+}
+
+interface FieldDefinition {
+  referenceName: string;
+  name: string;
+  type: FieldType;
+  readOnly: boolean;
+  isIdentity: boolean;
+  alwaysRequired: boolean;
+  hasDefaultValue: boolean;
+  /** Values the field accepts, when it is restricted to a list. */
+  allowedValues?: string[];
+}
+
+interface FieldValidator {
+  /**
+   * Validates operations against the fields of a work item type. `creating` also checks that every required field gets a value.
+   * Operations on paths other than `/fields/...` pass through unchanged.
+   */
+  validate(workItemApi: IWorkItemTrackingApi, cacheKey: string, project: string, workItemType: string, operations: FieldOperation[], creating: boolean): Promise<FieldValidationResult>;
+}
+
+/*
+  The message of the bad-request error for failed field operations, one line per issue.
+*/
+function formatFieldIssues(issues: FieldValidationIssue[]): string {
+  return `${issues.length} field operation(s) failed validation:\n${issues.map((issue) => `- ${[issue.id !== undefined ? `#${issue.id}` : issue.key !== undefined ? `'${issue.key}'` : "", issue.path].filter(Boolean).join(" ")}: ${issue.message}`).join("\n")}`;
+}
+
+function getFieldPathName(path: string): string | undefined {
+  const match = /^\/fields\/(.+)$/.exec(path);
+  return match ? match[1] : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = Math.min(distances[j] + 1, distances[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return distances[b.length];
+}
+
+function suggestField(name: string, fields: FieldDefinition[]): string | undefined {
+  const lower = name.toLowerCase();
+  let best: { field: FieldDefinition; distance: number } | undefined;
+  for (const field of fields) {
+    const distance = Math.min(editDistance(lower, field.referenceName.toLowerCase()), editDistance(lower, field.name.toLowerCase()));
+    if (!best || distance < best.distance) {
+      best = { field, distance };
+    }
+  }
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.field.referenceName : undefined;
+}
+
+function toIdentityString(value: FieldValue): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    return value.uniqueName ?? value.id ?? value.displayName;
+  }
+  return undefined;
+}
+
+/*
+  Converts a value to what Azure DevOps expects for the field type, or returns an error message.
+*/
+function convertValue(field: FieldDefinition, value: FieldValue): { value?: FieldValue; error?: string } {
+  if (value === null) {
+    return field.alwaysRequired ? { error: `'${field.referenceName}' is required and cannot be cleared` } : { value: null };
+  }
+  if (field.isIdentity || field.type === FieldType.Identity) {
+    const identity = toIdentityString(value);
+    return identity ? { value: identity } : { error: `'${field.referenceName}' expects an identity, such as an email address` };
+  }
+  if (typeof value === "object") {
+    return { error: `'${field.referenceName}' does not take an identity` };
+  }
+
+  switch (field.type) {
+    case FieldType.Integer:
+    case FieldType.PicklistInteger:
+    case FieldType.Double:
+    case FieldType.PicklistDouble: {
+      const number = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+      const integer = field.type === FieldType.Integer || field.type === FieldType.PicklistInteger;
+      if (Number.isNaN(number) || (integer && !Number.isInteger(number))) {
+        return { error: `'${field.referenceName}' expects ${integer ? "an integer" : "a number"}, got ${JSON.stringify(value)}` };
+      }
+      return { value: number };
+    }
+    case FieldType.Boolean: {
+      if (typeof value === "boolean") {
+        return { value };
+      }
+      if (typeof value === "string" && ["true", "false"].includes(value.toLowerCase())) {
+        return { value: value.toLowerCase() === "true" };
+      }
+      return { error: `'${field.referenceName}' expects true or false, got ${JSON.stringify(value)}` };
+    }
+    case FieldType.DateTime: {
+      const date = typeof value === "string" || typeof value === "number" ? new Date(value) : undefined;
+      if (!date || Number.isNaN(date.getTime())) {
+        return { error: `'${field.referenceName}' expects a date, such as 2025-01-31 or 2025-01-31T17:00:00Z, got ${JSON.stringify(value)}` };
+      }
+      return { value: date.toISOString() };
+    }
+    default:
+      return { value: String(value) };
+  }
+}
+
+function checkAllowedValue(field: FieldDefinition, value: FieldValue): { value?: FieldValue; error?: string } {
+  if (!field.allowedValues || field.allowedValues.length === 0 || value === null || field.isIdentity) {
+    return { value };
+  }
+  const match = field.allowedValues.find((allowed) => allowed.toLowerCase() === String(value).toLowerCase());
+  if (match === undefined) {
+    return { error: `${JSON.stringify(value)} is not an allowed value of '${field.referenceName}'. Allowed values: ${field.allowedValues.join(", ")}` };
+  }
+  // Keep numbers numeric and use the exact casing of string values
+  return { value: typeof value === "string" ? match : value };
+}
+
+function createFieldValidator(): FieldValidator {
+  const projectFields = new Map<string, { expiresAt: number; fields: Promise<WorkItemField[]> }>();
+  const typeFields = new Map<string, { expiresAt: number; fields: Promise<FieldDefinition[]> }>();
+
+  const getProjectFields = (workItemApi: IWorkItemTrackingApi, cacheKey: string, project: string): Promise<WorkItemField[]> => {
+    const key = `${cacheKey}|${project}`.toLowerCase();
+    const cached = projectFields.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.fields;
+    }
+    const fields = workItemApi.getFields(project);
+    projectFields.set(key, { expiresAt: Date.now() + FIELD_CACHE_TTL_MS, fields });
+    // A failed request is not cached
+    fields.catch(() => projectFields.delete(key));
+    return fields;
+  };
+
+  const getTypeFields = (workItemApi: IWorkItemTrackingApi, cacheKey: string, project: string, workItemType: string): Promise<FieldDefinition[]> => {
+    const key = `${cacheKey}|${project}|${workItemType}`.toLowerCase();
+    const cached = typeFields.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.fields;
+    }
+    const fields = Promise.all([
+      getProjectFields(workItemApi, cacheKey, project),
+      workItemApi.getWorkItemTypeFieldsWithReferences(project, workItemType, WorkItemTypeFieldsExpandLevel.AllowedValues),
+    ]).then(([allFields, instances]) => {
+      const byReferenceName = new Map(allFields.map((field) => [field.referenceName?.toLowerCase(), field]));
+      return instances.map((instance: WorkItemTypeFieldWithReferences) => {
+        const field = byReferenceName.get(instance.referenceName?.toLowerCase());
+        return {
+          referenceName: instance.referenceName ?? "",
+          name: instance.name ?? instance.referenceName ?? "",
+          type: field?.type ?? FieldType.String,
+          readOnly: field?.readOnly ?? false,
+          isIdentity: field?.isIdentity ?? false,
+          alwaysRequired: instance.alwaysRequired ?? false,
+          hasDefaultValue: instance.defaultValue !== undefined && instance.defaultValue !== null && instance.defaultValue !== "",
+          // Suggested picklists accept values outside the list
+          allowedValues: field?.isPicklistSuggested ? undefined : instance.allowedValues?.map((value) => String(value)),
+        };
+      });
+    });
+    typeFields.set(key, { expiresAt: Date.now() + FIELD_CACHE_TTL_MS, fields });
+    fields.catch(() => typeFields.delete(key));
+    return fields;
+  };
+
+  return {
+    async validate(workItemApi, cacheKey, project, workItemType, operations, creating) {
+      const fields = await getTypeFields(workItemApi, cacheKey, project, workItemType);
+      const byName = new Map<string, FieldDefinition>();
+      for (const field of fields) {
+        byName.set(field.name.toLowerCase(), field);
+        byName.set(field.referenceName.toLowerCase(), field);
+      }
+
+      const issues: FieldValidationIssue[] = [];
+      const validated: FieldOperation[] = [];
+      const setFields = new Set<string>();
+
+      for (const operation of operations) {
+        const fieldName = getFieldPathName(operation.path);
+        if (fieldName === undefined) {
+          validated.push(operation);
+          continue;
+        }
+
+        const field = byName.get(fieldName.toLowerCase());
+        if (!field) {
+          const suggestion = suggestField(fieldName, fields);
+          issues.push({ path: operation.path, message: `'${fieldName}' is not a field of work item type '${workItemType}'.${suggestion ? ` Did you mean '${suggestion}'?` : ""}` });
+          continue;
+        }
+        const path = `/fields/${field.referenceName}`;
+        if (field.readOnly) {
+          issues.push({ path, message: `'${field.referenceName}' is read-only` });
+          continue;
+        }
+        if (operation.op === "remove") {
+          if (field.alwaysRequired) {
+            issues.push({ path, message: `'${field.referenceName}' is required and cannot be removed` });
+            continue;
+          }
+          validated.push({ op: "remove", path });
+          continue;
+        }
+        if (operation.value === undefined) {
+          issues.push({ path, message: `A value is required for '${operation.op}' operations` });
+          continue;
+        }
+
+        const converted = convertValue(field, operation.value);
+        const checked = converted.error ? converted : checkAllowedValue(field, converted.value as FieldValue);
+        if (checked.error) {
+          issues.push({ path, message: checked.error });
+          continue;
+        }
+        setFields.add(field.referenceName);
+        validated.push({ op: operation.op, path, value: checked.value });
+      }
+
+      if (creating) {
+        for (const field of fields) {
+          if (field.alwaysRequired && !field.hasDefaultValue && !field.readOnly && !setFields.has(field.referenceName)) {
+            issues.push({ path: `/fields/${field.referenceName}`, message: `'${field.referenceName}' is required for work item type '${workItemType}'` });
+          }
+        }
+      }
+
+      return { operations: validated, issues };
+    },
+  };
+}
+
+export { createFieldValidator, fieldValueSchema, formatFieldIssues };
+export type { FieldOperation, FieldValidationIssue, FieldValidationResult, FieldValidator, FieldValue };
@@ -0,0 +1,174 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { WorkItem, WorkItemErrorPolicy, WorkItemExpand } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { AzureDevOpsRequestError } from "../errors.js";
+import { toDisplayValue } from "./preview.js";
+
+const CHILD_RELATION = "System.LinkTypes.Hierarchy-Forward";
+const PARENT_RELATION = "System.LinkTypes.Hierarchy-Reverse";
+
+// getWorkItemsBatch accepts at most 200 IDs per call
+const BATCH_SIZE = 200;
+// Guards against parent links that loop back on themselves
+const MAX_ANCESTORS = 20;
+
+interface WorkItemSummary {
+  id: number;
+  workItemType?: string;
+  title?: string;
+  state?: string;
+  assignedTo?: string;
+  remainingWork?: number;
+  /** Further fields asked for by the caller. */
+  fields?: Record<string, unknown>;
+}
+
+interface WorkItemRollup {
+  /** Number of descendants within the requested depth. */
+  descendants: number;
+  byState: Record<string, number>;
+  byAssignee: Record<string, number>;
+  /** Remaining work of the descendants, in hours. */
+  remainingWork: number;
+}
+
+interface WorkItemTreeNode extends WorkItemSummary {
+  children: WorkItemTreeNode[];
+  /** Set when the node has children below the requested depth that were not fetched. */
+  hasMoreChildren?: boolean;
+  /** Absent on nodes without fetched children. */
+  rollup?: WorkItemRollup;
+}
+
+interface WorkItemTree {
+  /** The parent chain of the root, from the top-most ancestor down to the direct parent. */
+  ancestors?: WorkItemSummary[];
+  root: WorkItemTreeNode;
+}
+
+function getRelatedIds(workItem: WorkItem, rel: string): number[] {
+  return (workItem.relations ?? [])
+    .filter((relation) => relation.rel === rel)
+    .map((relation) => Number(/\/workItems\/(\d+)$/i.exec(relation.url ?? "")?.[1]))
+    .filter((id) => Number.isInteger(id));
+}
+
+/*
+  Relations cannot be expanded together with a field list, so whole work items are fetched and trimmed afterwards.
+*/
+async function getWorkItemsWithRelations(workItemApi: IWorkItemTrackingApi, project: string | undefined, ids: number[]): Promise<Map<number, WorkItem>> {
+  const workItems = new Map<number, WorkItem>();
+  for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+    const batch = await workItemApi.getWorkItemsBatch({ ids: ids.slice(index, index + BATCH_SIZE), $expand: WorkItemExpand.Relations, errorPolicy: WorkItemErrorPolicy.Omit }, project);
+    // Work items that were deleted or are not readable come back as null
+    for (const workItem of batch.filter((item) => item?.id !== undefined)) {
+      workItems.set(workItem.id as number, workItem);
+    }
+  }
+  return workItems;
+}
+
+function toSummary(workItem: WorkItem, fields: string[]): WorkItemSummary {
+  const values = workItem.fields ?? {};
+  const extraFields = Object.fromEntries(fields.filter((field) => values[field] !== undefined).map((field) => [field, toDisplayValue(values[field])]));
+  return {
+    id: workItem.id as number,
+    workItemType: values["System.WorkItemType"],
+    title: values["System.Title"],
+    state: values["System.State"],
+    assignedTo: toDisplayValue(values["System.AssignedTo"]) as string | undefined,
+    remainingWork: values["Microsoft.VSTS.Scheduling.RemainingWork"],
+    fields: fields.length > 0 ? extraFields : undefined,
+  };
+}
+
+function addRollup(node: WorkItemTreeNode): WorkItemRollup {
+  const rollup: WorkItemRollup = { descendants: 0, byState: {}, byAssignee: {}, remainingWork: 0 };
+  for (const child of node.children) {
+    const childRollup = child.children.length > 0 ? addRollup(child) : undefined;
+    const state = child.state ?? "(none)";
+    const assignee = child.assignedTo ?? "(unassigned)";
+    rollup.descendants += 1 + (childRollup?.descendants ?? 0);
+    rollup.byState[state] = (rollup.byState[state] ?? 0) + 1;
+    rollup.byAssignee[assignee] = (rollup.byAssignee[assignee] ?? 0) + 1;
+    rollup.remainingWork += (child.remainingWork ?? 0) + (childRollup?.remainingWork ?? 0);
+    for (const [key, count] of Object.entries(childRollup?.byState ?? {})) {
+      rollup.byState[key] = (rollup.byState[key] ?? 0) + count;
+    }
+    for (const [key, count] of Object.entries(childRollup?.byAssignee ?? {})) {
+      rollup.byAssignee[key] = (rollup.byAssignee[key] ?? 0) + count;
+    }
+  }
+  node.rollup = rollup;
+  return rollup;
+}
+
+/*
+  Walks hierarchy links from a work item: down to `depth` levels of descendants, fetching one level per batch,
+  and optionally up through its parents. Every node with fetched children gets a rollup of its descendants.
+*/
+async function getWorkItemTree(workItemApi: IWorkItemTrackingApi, project: string | undefined, id: number, depth: number, includeAncestors: boolean, fields: string[] = []): Promise<WorkItemTree> {
+  const rootItem = (await getWorkItemsWithRelations(workItemApi, project, [id])).get(id);
+  if (!rootItem) {
+    throw new AzureDevOpsRequestError(`Work item ${id} does not exist or is not readable`, 404);
+  }
+
+  const root: WorkItemTreeNode = { ...toSummary(rootItem, fields), children: [] };
+  const visited = new Set([id]);
+  let level: { node: WorkItemTreeNode; workItem: WorkItem }[] = [{ node: root, workItem: rootItem }];
+
+  for (let currentDepth = 0; level.length > 0; currentDepth++) {
+    if (currentDepth === depth) {
+      for (const { node, workItem } of level) {
+        if (getRelatedIds(workItem, CHILD_RELATION).length > 0) {
+          node.hasMoreChildren = true;
+        }
+      }
+      break;
+    }
+
+    const childIds = level.flatMap(({ workItem }) => getRelatedIds(workItem, CHILD_RELATION)).filter((childId) => !visited.has(childId));
+    childIds.forEach((childId) => visited.add(childId));
+    const children = await getWorkItemsWithRelations(workItemApi, project, childIds);
+
+    const nextLevel: typeof level = [];
+    for (const { node, workItem } of level) {
+      for (const childId of getRelatedIds(workItem, CHILD_RELATION)) {
+        const child = children.get(childId);
+        if (child) {
+          const childNode: WorkItemTreeNode = { ...toSummary(child, fields), children: [] };
+          node.children.push(childNode);
+          nextLevel.push({ node: childNode, workItem: child });
+        }
+      }
+    }
+    level = nextLevel;
+  }
+
+  if (root.children.length > 0) {
+    addRollup(root);
+  }
+
+  if (!includeAncestors) {
+    return { root };
+  }
+
+  const ancestors: WorkItemSummary[] = [];
+  let parentId = getRelatedIds(rootItem, PARENT_RELATION)[0];
+  while (parentId !== undefined && !visited.has(parentId) && ancestors.length < MAX_ANCESTORS) {
+    visited.add(parentId);
+    const parent = (await getWorkItemsWithRelations(workItemApi, project, [parentId])).get(parentId);
+    if (!parent) {
+      break;
+    }
+    ancestors.unshift(toSummary(parent, fields));
+    parentId = getRelatedIds(parent, PARENT_RELATION)[0];
+  }
+
+  return { ancestors, root };
+}
+
+export { getWorkItemTree };
+export type { WorkItemRollup, WorkItemSummary, WorkItemTree, WorkItemTreeNode };
@@ -0,0 +1,160 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { WorkItemRelation } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { BadRequestError } from "../errors.js";
+
+// How long the relation types of an organization are reused before they are fetched again
+const LINK_TYPE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Names the tools have always accepted, kept working where an organization names a type differently
+const LINK_TYPE_ALIASES: Record<string, string> = {
+  "parent": "System.LinkTypes.Hierarchy-Reverse",
+  "child": "System.LinkTypes.Hierarchy-Forward",
+  "duplicate": "System.LinkTypes.Duplicate-Forward",
+  "duplicate of": "System.LinkTypes.Duplicate-Reverse",
+  "related": "System.LinkTypes.Related",
+  "successor": "System.LinkTypes.Dependency-Forward",
+  "predecessor": "System.LinkTypes.Dependency-Reverse",
+  "tested by": "Microsoft.VSTS.Common.TestedBy-Forward",
+  "tests": "Microsoft.VSTS.Common.TestedBy-Reverse",
+  "referenced by": "Microsoft.VSTS.TestCase.SharedParameterReferencedBy-Forward",
+  "references": "Microsoft.VSTS.TestCase.SharedParameterReferencedBy-Reverse",
+};
+
+const ARTIFACT_TYPES = ["commit", "branch", "pullRequest", "build", "wikiPage"] as const;
+
+type ArtifactType = (typeof ARTIFACT_TYPES)[number];
+
+// The `name` attribute Azure DevOps shows for each kind of artifact link
+const ARTIFACT_LINK_NAMES: Record<ArtifactType, string> = {
+  commit: "Fixed in Commit",
+  branch: "Branch",
+  pullRequest: "Pull Request",
+  build: "Build",
+  wikiPage: "Wiki Page",
+};
+
+interface LinkType {
+  referenceName: string;
+  name: string;
+  /** Whether the type links to work items in another organization. */
+  remote: boolean;
+  enabled: boolean;
+  /** e.g. "tree" for parent/child, "dependency" for successor/predecessor, "network" for related. */
+  topology?: string;
+}
+
+interface LinkTypeResolver {
+  /** The work item link types of the organization, including custom and remote ones. */
+  list(workItemApi: IWorkItemTrackingApi, cacheKey: string): Promise<LinkType[]>;
+  /** Finds a link type by alias, name or reference name, ignoring case. */
+  resolve(workItemApi: IWorkItemTrackingApi, cacheKey: string, name: string): Promise<LinkType>;
+}
+
+function createLinkTypeResolver(): LinkTypeResolver {
+  const linkTypes = new Map<string, { expiresAt: number; types: Promise<LinkType[]> }>();
+
+  const list = (workItemApi: IWorkItemTrackingApi, cacheKey: string): Promise<LinkType[]> => {
+    const key = cacheKey.toLowerCase();
+    const cached = linkTypes.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.types;
+    }
+    const types = workItemApi.getRelationTypes().then((relationTypes) =>
+      relationTypes
+        // Resource links are attachments, hyperlinks and artifact links rather than links between work items
+        .filter((relationType) => relationType.attributes?.usage === "workItemLink")
+        .map((relationType) => ({
+          referenceName: relationType.referenceName ?? "",
+          name: relationType.name ?? relationType.referenceName ?? "",
+          remote: relationType.attributes?.remote === true,
+          enabled: relationType.attributes?.enabled !== false,
+          topology: relationType.attributes?.topology,
+        }))
+    );
+    linkTypes.set(key, { expiresAt: Date.now() + LINK_TYPE_CACHE_TTL_MS, types });
+    // A failed request is not cached
+    types.catch(() => linkTypes.delete(key));
+    return types;
+  };
+
+  return {
+    list,
+    async resolve(workItemApi, cacheKey, name) {
+      const types = await list(workItemApi, cacheKey);
+      const lower = name.trim().toLowerCase();
+      const alias = LINK_TYPE_ALIASES[lower]?.toLowerCase();
+      const linkType = types.find((type) => type.referenceName.toLowerCase() === lower || type.name.toLowerCase() === lower) ?? types.find((type) => type.referenceName.toLowerCase() === alias);
+      if (!linkType) {
+        throw new BadRequestError(`Unknown link type: ${name}. Available link types: ${types.map((type) => type.name).join(", ")}`);
+      }
+      if (!linkType.enabled) {
+        throw new BadRequestError(`The link type '${linkType.name}' is disabled in this organization`);
+      }
+      return linkType;
+    },
+  };
+}
+
+/*
+  URL of a work item as a link target. Remote links point at a work item in another organization,
+  given by name (https://dev.azure.com/{organization}) or by URL.
+*/
+function getWorkItemLinkUrl(orgUrl: string, project: string, id: number, remoteOrganization?: string): string {
+  if (!remoteOrganization) {
+    return `${orgUrl}/${project}/_apis/wit/workItems/${id}`;
+  }
+  const remoteUrl = /^https?:\/\//i.test(remoteOrganization) ? remoteOrganization.replace(/\/+$/, "") : `https://dev.azure.com/${encodeURIComponent(remoteOrganization)}`;
+  return `${remoteUrl}/_apis/wit/workItems/${id}`;
+}
+
+function getLinkedWorkItemId(relation: WorkItemRelation): number | undefined {
+  const match = /\/workItems\/(\d+)$/i.exec(relation.url ?? "");
+  return match ? Number(match[1]) : undefined;
+}
+
+interface ArtifactLinkTarget {
+  projectId: string;
+  repositoryId?: string;
+  commitId?: string;
+  branch?: string;
+  pullRequestId?: number;
+  buildId?: number;
+  wikiId?: string;
+  pagePath?: string;
+}
+
+/*
+  Builds the vstfs:/// URI Azure DevOps uses for an artifact, e.g. vstfs:///Git/Commit/{projectId}%2F{repositoryId}%2F{commitId}.
+  Git and wiki artifacts are identified by project and repository or wiki IDs, not names.
+*/
+function getArtifactUri(artifactType: ArtifactType, target: ArtifactLinkTarget): string {
+  const required = <T>(value: T | undefined, name: string): T => {
+    if (value === undefined || value === "") {
+      throw new BadRequestError(`${name} is required for ${artifactType} links`);
+    }
+    return value;
+  };
+
+  switch (artifactType) {
+    case "commit":
+      return `vstfs:///Git/Commit/${encodeURIComponent(`${target.projectId}/${required(target.repositoryId, "repositoryId")}/${required(target.commitId, "commitId")}`)}`;
+    case "branch": {
+      const branch = required(target.branch, "branch").replace(/^refs\/heads\//, "");
+      return `vstfs:///Git/Ref/${encodeURIComponent(`${target.projectId}/${required(target.repositoryId, "repositoryId")}/GB${branch}`)}`;
+    }
+    case "pullRequest":
+      return `vstfs:///Git/PullRequestId/${encodeURIComponent(`${target.projectId}/${required(target.repositoryId, "repositoryId")}/${required(target.pullRequestId, "pullRequestId")}`)}`;
+    case "build":
+      return `vstfs:///Build/Build/${required(target.buildId, "buildId")}`;
+    case "wikiPage": {
+      const pagePath = required(target.pagePath, "pagePath");
+      return `vstfs:///Wiki/WikiPage/${encodeURIComponent(`${target.projectId}/${required(target.wikiId, "wikiId")}/${pagePath.startsWith("/") ? pagePath : `/${pagePath}`}`)}`;
+    }
+  }
+}
+
+export { ARTIFACT_LINK_NAMES, ARTIFACT_TYPES, createLinkTypeResolver, getArtifactUri, getLinkedWorkItemId, getWorkItemLinkUrl };
+export type { ArtifactLinkTarget, ArtifactType, LinkType, LinkTypeResolver };
@@ -0,0 +1,86 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AzureDevOpsRequestError, BadRequestError } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
+import { getIdentityBaseUrl } from "../org.js";
+import { apiVersion, userAgent } from "../utils.js";
+
+const COMMENT_FORMATS = ["html", "markdown"] as const;
+
+type CommentFormat = (typeof COMMENT_FORMATS)[number];
+
+// `@jane@contoso.com` or `@"Jane Doe"`, at the start of the text or after whitespace or an opening bracket
+const MENTION_PATTERN = /(^|[\s(])@(?:"([^"]+)"|([\w.+-]+@[\w-]+(?:\.[\w-]+)+))/g;
+
+interface Identity {
+  id: string;
+  displayName: string;
+  uniqueName?: string;
+}
+
+interface IdentityResponse {
+  value?: { id?: string; providerDisplayName?: string; customDisplayName?: string; properties?: { Mail?: { $value?: string }; Account?: { $value?: string } } }[];
+}
+
+async function searchIdentities(serverUrl: string, authHeader: string, query: string): Promise<Identity[]> {
+  const url = `${getIdentityBaseUrl(serverUrl)}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(query)}&queryMembership=None&api-version=${apiVersion}`;
+  const response = await fetchWithRetry(url, {
+    method: "GET",
+    headers: {
+      "Authorization": authHeader,
+      "User-Agent": `${userAgent}`,
+    },
+  });
+  if (!response.ok) {
+    throw await AzureDevOpsRequestError.fromResponse(response, `Failed to look up '${query}'`);
+  }
+  const result: IdentityResponse = await response.json();
+  return (result.value ?? [])
+    .filter((identity) => identity.id)
+    .map((identity) => ({
+      id: identity.id as string,
+      displayName: identity.customDisplayName ?? identity.providerDisplayName ?? query,
+      uniqueName: identity.properties?.Mail?.$value ?? identity.properties?.Account?.$value,
+    }));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function formatMention(identity: Identity, format: CommentFormat): string {
+  return format === "markdown" ? `@<${identity.id}>` : `<a href="#" data-vss-mention="version:2.0,${identity.id}">@${escapeHtml(identity.displayName)}</a>`;
+}
+
+/*
+  Replaces `@email` and `@"Display Name"` mentions with the identity mentions Azure DevOps notifies,
+  so the comment reads "@Jane Doe" and Jane gets an email. Each distinct mention is looked up once.
+*/
+async function resolveMentions(text: string, format: CommentFormat, serverUrl: string, authHeader: string): Promise<{ text: string; mentions: Identity[] }> {
+  const queries = Array.from(new Set(Array.from(text.matchAll(MENTION_PATTERN), (match) => match[2] ?? match[3])));
+  const identities = new Map<string, Identity>();
+  for (const query of queries) {
+    const matches = await searchIdentities(serverUrl, authHeader, query);
+    // A display name can be shared; an exact match on the email or name settles it
+    const exact = matches.filter((identity) => [identity.uniqueName, identity.displayName].some((value) => value?.toLowerCase() === query.toLowerCase()));
+    const candidates = exact.length > 0 ? exact : matches;
+    if (candidates.length === 0) {
+      throw new BadRequestError(`No user found for the mention '@${query}'`);
+    }
+    if (candidates.length > 1) {
+      throw new BadRequestError(
+        `The mention '@${query}' matches several users: ${candidates.map((identity) => `${identity.displayName} <${identity.uniqueName ?? identity.id}>`).join(", ")}. Mention them by email instead.`
+      );
+    }
+    identities.set(query, candidates[0]);
+  }
+
+  return {
+    text: text.replace(MENTION_PATTERN, (_match, prefix: string, name?: string, email?: string) => `${prefix}${formatMention(identities.get((name ?? email) as string) as Identity, format)}`),
+    mentions: Array.from(identities.values()),
+  };
+}
+
+export { COMMENT_FORMATS, resolveMentions };
+export type { CommentFormat, Identity };
@@ -0,0 +1,278 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { TeamContext } from "azure-devops-node-api/interfaces/CoreInterfaces.js";
+import { TeamSettingsIteration } from "azure-devops-node-api/interfaces/WorkInterfaces.js";
+import { WorkItemErrorPolicy } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { IWorkApi } from "azure-devops-node-api/WorkApi.js";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { BadRequestError } from "../errors.js";
+import { formatDay, getDaysOff, getWorkingDays, toDay } from "./capacity.js";
+
+const REMAINING_WORK_FIELD = "Microsoft.VSTS.Scheduling.RemainingWork";
+// Agile process; Scrum uses Microsoft.VSTS.Scheduling.Effort and CMMI Microsoft.VSTS.Scheduling.Size
+const DEFAULT_POINTS_FIELD = "Microsoft.VSTS.Scheduling.StoryPoints";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// getWorkItemsBatch accepts at most 200 IDs per call
+const BATCH_SIZE = 200;
+
+interface SnapshotItem {
+  id: number;
+  workItemType: string;
+  title?: string;
+  state: string;
+  remainingWork?: number;
+  storyPoints?: number;
+}
+
+/** The work items of an iteration as they were at the end of a day. */
+interface Snapshot {
+  date: string;
+  workItems: SnapshotItem[];
+}
+
+/** State categories by work item type and state, e.g. { "User Story": { Closed: "Completed" } }. */
+type StateCategories = Record<string, Record<string, string>>;
+
+interface BurndownPoint {
+  date: string;
+  workItems: number;
+  remainingWork: number;
+  /** Remaining work falling evenly from the first day to 0 on the last. */
+  idealRemainingWork: number;
+  storyPoints: number;
+  completedStoryPoints: number;
+  remainingStoryPoints: number;
+}
+
+interface ScopeChange {
+  date: string;
+  id: number;
+  title?: string;
+  change: "added" | "removed" | "reestimated";
+  storyPointsBefore?: number;
+  storyPointsAfter?: number;
+}
+
+interface VelocityIteration {
+  id?: string;
+  name?: string;
+  finishDate: string;
+  /** Whether the iteration had ended; the velocity only averages finished iterations. */
+  finished: boolean;
+  plannedStoryPoints: number;
+  completedStoryPoints: number;
+}
+
+interface SprintMetrics {
+  iteration: { id?: string; name?: string; path?: string; startDate: string; finishDate: string };
+  burndown: BurndownPoint[];
+  scopeChanges: ScopeChange[];
+  /** Work items still in the iteration but not completed on its last day, or today for a running iteration. */
+  carryOver: SnapshotItem[];
+  velocity: { iterations: VelocityIteration[]; average?: number };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getCategory(categories: StateCategories, item: SnapshotItem): string | undefined {
+  return categories[item.workItemType]?.[item.state];
+}
+
+function sum(items: SnapshotItem[], value: (item: SnapshotItem) => number | undefined): number {
+  return round(items.reduce((total, item) => total + (value(item) ?? 0), 0));
+}
+
+/*
+  Removed work items are not part of the scope of an iteration.
+*/
+function inScope(snapshot: Snapshot, categories: StateCategories): SnapshotItem[] {
+  return snapshot.workItems.filter((item) => getCategory(categories, item) !== "Removed");
+}
+
+function getScopeChanges(previous: Snapshot, current: Snapshot, categories: StateCategories): ScopeChange[] {
+  const before = new Map(inScope(previous, categories).map((item) => [item.id, item]));
+  const after = new Map(inScope(current, categories).map((item) => [item.id, item]));
+  const changes: ScopeChange[] = [];
+  for (const [id, item] of after) {
+    const old = before.get(id);
+    if (!old) {
+      changes.push({ date: current.date, id, title: item.title, change: "added", storyPointsAfter: item.storyPoints });
+    } else if ((old.storyPoints ?? 0) !== (item.storyPoints ?? 0)) {
+      changes.push({ date: current.date, id, title: item.title, change: "reestimated", storyPointsBefore: old.storyPoints, storyPointsAfter: item.storyPoints });
+    }
+  }
+  for (const [id, item] of before) {
+    if (!after.has(id)) {
+      changes.push({ date: current.date, id, title: item.title, change: "removed", storyPointsBefore: item.storyPoints });
+    }
+  }
+  return changes;
+}
+
+/*
+  Turns daily snapshots of an iteration, oldest first, into a burndown series, the scope changes between days
+  and the work left over at the end. Work items count as done when their state is in the Completed category.
+*/
+function computeBurndown(snapshots: Snapshot[], categories: StateCategories): Pick<SprintMetrics, "burndown" | "scopeChanges" | "carryOver"> {
+  const isCompleted = (item: SnapshotItem) => getCategory(categories, item) === "Completed";
+  const firstRemainingWork = snapshots.length > 0 ? sum(inScope(snapshots[0], categories), (item) => item.remainingWork) : 0;
+  const lastIndex = snapshots.length - 1;
+
+  const burndown = snapshots.map((snapshot, index): BurndownPoint => {
+    const items = inScope(snapshot, categories);
+    const storyPoints = sum(items, (item) => item.storyPoints);
+    const completedStoryPoints = sum(items.filter(isCompleted), (item) => item.storyPoints);
+    return {
+      date: snapshot.date,
+      workItems: items.length,
+      remainingWork: sum(items, (item) => item.remainingWork),
+      idealRemainingWork: round(lastIndex > 0 ? firstRemainingWork * (1 - index / lastIndex) : firstRemainingWork),
+      storyPoints,
+      completedStoryPoints,
+      remainingStoryPoints: round(storyPoints - completedStoryPoints),
+    };
+  });
+
+  return {
+    burndown,
+    scopeChanges: snapshots.slice(1).flatMap((snapshot, index) => getScopeChanges(snapshots[index], snapshot, categories)),
+    carryOver: lastIndex >= 0 ? inScope(snapshots[lastIndex], categories).filter((item) => !isCompleted(item)) : [],
+  };
+}
+
+function computeVelocity(
+  iterations: (Omit<VelocityIteration, "plannedStoryPoints" | "completedStoryPoints"> & { workItems: SnapshotItem[] })[],
+  categories: StateCategories
+): SprintMetrics["velocity"] {
+  const results = iterations.map(({ workItems, ...iteration }): VelocityIteration => {
+    const items = inScope({ date: iteration.finishDate, workItems }, categories);
+    return {
+      ...iteration,
+      plannedStoryPoints: sum(items, (item) => item.storyPoints),
+      completedStoryPoints: sum(
+        items.filter((item) => getCategory(categories, item) === "Completed"),
+        (item) => item.storyPoints
+      ),
+    };
+  });
+  const finished = results.filter((iteration) => iteration.finished);
+  return {
+    iterations: results,
+    average: finished.length > 0 ? round(finished.reduce((total, iteration) => total + iteration.completedStoryPoints, 0) / finished.length) : undefined,
+  };
+}
+
+function getDates(iteration: TeamSettingsIteration): { start: number; finish: number } {
+  const { startDate, finishDate } = iteration.attributes ?? {};
+  if (!startDate || !finishDate) {
+    throw new BadRequestError(`The iteration '${iteration.path ?? iteration.name}' has no start and finish dates`);
+  }
+  return { start: toDay(startDate), finish: toDay(finishDate) };
+}
+
+/*
+  Reads the work items of an iteration path as they were at `asOf`, using WIQL ASOF and an asOf work item batch.
+*/
+async function getSnapshotItems(workItemApi: IWorkItemTrackingApi, teamContext: TeamContext, iterationPath: string, asOf: Date, pointsField: string): Promise<SnapshotItem[]> {
+  const query = `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [System.IterationPath] UNDER '${iterationPath.replace(/'/g, "''")}' ASOF '${asOf.toISOString()}'`;
+  const result = await workItemApi.queryByWiql({ query }, teamContext);
+  const ids = (result.workItems ?? []).map((reference) => reference.id).filter((id): id is number => id !== undefined);
+
+  const items: SnapshotItem[] = [];
+  for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+    const batch = await workItemApi.getWorkItemsBatch(
+      {
+        ids: ids.slice(index, index + BATCH_SIZE),
+        fields: ["System.Id", "System.WorkItemType", "System.Title", "System.State", REMAINING_WORK_FIELD, pointsField],
+        asOf,
+        errorPolicy: WorkItemErrorPolicy.Omit,
+      },
+      teamContext.project
+    );
+    for (const workItem of batch.filter((item) => item?.id !== undefined)) {
+      const fields = workItem.fields ?? {};
+      items.push({
+        id: workItem.id as number,
+        workItemType: fields["System.WorkItemType"],
+        title: fields["System.Title"],
+        state: fields["System.State"],
+        remainingWork: fields[REMAINING_WORK_FIELD],
+        storyPoints: fields[pointsField],
+      });
+    }
+  }
+  return items;
+}
+
+// The last moment of a day, or now for today
+function getEndOfDay(day: number, now: Date): Date {
+  return new Date(Math.min((day + 1) * DAY_MS - 1000, now.getTime()));
+}
+
+/*
+  Reconstructs the burndown of an iteration from one snapshot per working day up to today, and the velocity
+  over the last `velocityIterations` team iterations up to and including it from a snapshot at the end of each.
+*/
+async function getSprintMetrics(
+  workApi: IWorkApi,
+  workItemApi: IWorkItemTrackingApi,
+  teamContext: TeamContext,
+  iterationId: string,
+  { velocityIterations = 3, pointsField = DEFAULT_POINTS_FIELD, now = new Date() }: { velocityIterations?: number; pointsField?: string; now?: Date } = {}
+): Promise<SprintMetrics> {
+  const [iteration, settings, teamDaysOff, teamIterations] = await Promise.all([
+    workApi.getTeamIteration(teamContext, iterationId),
+    workApi.getTeamSettings(teamContext),
+    workApi.getTeamDaysOff(teamContext, iterationId),
+    workApi.getTeamIterations(teamContext),
+  ]);
+  const { start, finish } = getDates(iteration);
+  const iterationPath = iteration.path ?? iteration.name ?? "";
+  const today = toDay(now);
+
+  let days = getWorkingDays(start, Math.min(finish, today), settings.workingDays ?? [], getDaysOff(teamDaysOff.daysOff));
+  if (days.length === 0 && start <= today) {
+    // An iteration without working days so far still gets its first day
+    days = [start];
+  }
+  // Snapshots are fetched side by side; the connection's request policy caps how many requests run at once
+  const snapshots: Snapshot[] = await Promise.all(
+    days.map(async (day) => ({ date: formatDay(day), workItems: await getSnapshotItems(workItemApi, teamContext, iterationPath, getEndOfDay(day, now), pointsField) }))
+  );
+
+  const earlier =
+    velocityIterations > 1
+      ? teamIterations
+          .filter((other) => other.attributes?.finishDate && toDay(other.attributes.finishDate) <= finish && other.id !== iteration.id)
+          .sort((a, b) => toDay(a.attributes?.finishDate as Date) - toDay(b.attributes?.finishDate as Date))
+          .slice(-(velocityIterations - 1))
+      : [];
+  const velocityInputs = await Promise.all(
+    [...earlier, iteration].map(async (other) => {
+      const otherFinish = toDay(other.attributes?.finishDate as Date);
+      const workItems =
+        other === iteration && snapshots.length > 0
+          ? snapshots[snapshots.length - 1].workItems
+          : await getSnapshotItems(workItemApi, teamContext, other.path ?? other.name ?? "", getEndOfDay(otherFinish, now), pointsField);
+      return { id: other.id, name: other.name, finishDate: formatDay(otherFinish), finished: otherFinish < today, workItems };
+    })
+  );
+
+  // State categories tell done and removed work apart across processes and custom states
+  const types = Array.from(new Set([...snapshots, ...velocityInputs].flatMap((snapshot) => snapshot.workItems.map((item) => item.workItemType))));
+  const states = await Promise.all(types.map((type) => workItemApi.getWorkItemTypeStates(teamContext.project as string, type)));
+  const categories: StateCategories = Object.fromEntries(types.map((type, index) => [type, Object.fromEntries(states[index].map((state) => [state.name ?? "", state.category ?? ""]))]));
+
+  return {
+    iteration: { id: iteration.id, name: iteration.name, path: iteration.path, startDate: formatDay(start), finishDate: formatDay(finish) },
+    ...computeBurndown(snapshots, categories),
+    velocity: computeVelocity(velocityInputs, categories),
+  };
+}
+
+export { computeBurndown, computeVelocity, DEFAULT_POINTS_FIELD, getSprintMetrics };
+export type { BurndownPoint, ScopeChange, Snapshot, SnapshotItem, SprintMetrics, StateCategories, VelocityIteration };
@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { WorkItem, WorkItemExpand, WorkItemRelation } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { z } from "zod";
+
+const dryRunParameter = z
+  .boolean()
+  .default(false)
+  .describe("Preview the change without saving anything: returns what would be sent and a before/after diff of each affected work item. Defaults to false.");
+
+interface PatchOperation {
+  op: string;
+  path: string;
+  value?: unknown;
+}
+
+interface FieldDiff {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface WorkItemPreview {
+  /** Absent for work items that would be created. */
+  id?: number;
+  workItemType?: string;
+  /** The current title, so the caller can confirm the right work item is targeted. */
+  title?: string;
+  patch: PatchOperation[];
+  changes: FieldDiff[];
+  relationsAdded?: WorkItemRelation[];
+  relationsRemoved?: WorkItemRelation[];
+  /** Outcome of Azure DevOps validating the patch with `validateOnly`. */
+  validation: { valid: boolean; message?: string };
+}
+
+// Identity fields hold objects; the display name is enough to show a change
+function toDisplayValue(value: unknown): unknown {
+  if (value && typeof value === "object" && "displayName" in value) {
+    return (value as { displayName?: string }).displayName;
+  }
+  return value;
+}
+
+function diffPatch(current: WorkItem | undefined, patch: PatchOperation[]): Pick<WorkItemPreview, "changes" | "relationsAdded" | "relationsRemoved"> {
+  const changes: FieldDiff[] = [];
+  const relationsAdded: WorkItemRelation[] = [];
+  const relationsRemoved: WorkItemRelation[] = [];
+
+  for (const operation of patch) {
+    const field = /^\/fields\/(.+)$/.exec(operation.path)?.[1];
+    if (field) {
+      changes.push({ field, before: toDisplayValue(current?.fields?.[field]), after: operation.op === "remove" ? undefined : toDisplayValue(operation.value) });
+      continue;
+    }
+    const relationIndex = /^\/relations\/(-|\d+)$/.exec(operation.path)?.[1];
+    if (relationIndex === undefined) {
+      continue;
+    }
+    if (operation.op === "remove") {
+      const removed = current?.relations?.[Number(relationIndex)];
+      if (removed) {
+        relationsRemoved.push(removed);
+      }
+    } else {
+      relationsAdded.push(operation.value as WorkItemRelation);
+    }
+  }
+
+  return {
+    changes,
+    relationsAdded: relationsAdded.length > 0 ? relationsAdded : undefined,
+    relationsRemoved: relationsRemoved.length > 0 ? relationsRemoved : undefined,
+  };
+}
+
+async function validatePatch(validate: () => Promise<unknown>): Promise<WorkItemPreview["validation"]> {
+  try {
+    await validate();
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/*
+  Previews a patch of an existing work item: reads its current values, diffs them against the patch and lets
+  Azure DevOps validate the patch without saving it.
+*/
+async function previewWorkItemUpdate(workItemApi: IWorkItemTrackingApi, id: number, patch: PatchOperation[], project?: string): Promise<WorkItemPreview> {
+  const current = await workItemApi.getWorkItem(id, undefined, undefined, WorkItemExpand.Relations, project);
+  const validation = patch.length > 0 ? await validatePatch(() => workItemApi.updateWorkItem(null, patch, id, project, true)) : { valid: true };
+  return {
+    id,
+    workItemType: current.fields?.["System.WorkItemType"],
+    title: current.fields?.["System.Title"],
+    patch,
+    ...diffPatch(current, patch),
+    validation,
+  };
+}
+
+async function previewWorkItemCreate(workItemApi: IWorkItemTrackingApi, project: string, workItemType: string, patch: PatchOperation[]): Promise<WorkItemPreview> {
+  const validation = await validatePatch(() => workItemApi.createWorkItem(null, patch, project, workItemType, true));
+  return { workItemType, patch, ...diffPatch(undefined, patch), validation };
+}
+
+function createDryRunResult(preview: object): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ dryRun: true, ...preview }, null, 2) }],
+  };
+}
+
+export { createDryRunResult, dryRunParameter, previewWorkItemCreate, previewWorkItemUpdate, toDisplayValue };
+export type { PatchOperation, WorkItemPreview };
@@ -1,18 +1,27 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { ReleaseDefinitionExpands, ReleaseDefinitionQueryOrder, ReleaseExpands, ReleaseStatus, ReleaseQueryOrder } from "azure-devops-node-api/interfaces/ReleaseInterfaces.js";
 import { z } from "zod";
+import { withErrorHandling } from "../errors.js";
+import { Toolset } from "../toolsets.js";
 
 const RELEASE_TOOLS = {
   get_release_definitions: "release_get_definitions",
   get_releases: "release_get_releases",
 };
 
-function configureReleaseTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const RELEASE_TOOLSET: Toolset = {
+  name: "releases",
+  tools: {
+    [RELEASE_TOOLS.get_release_definitions]: { readOnly: true },
+    [RELEASE_TOOLS.get_releases]: { readOnly: true },
+  },
+};
+
+function configureReleaseTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   server.tool(
     RELEASE_TOOLS.get_release_definitions,
     "Retrieves list of release definitions for a given project.",
@@ -33,26 +42,9 @@ function configureReleaseTools(server: McpServer, tokenProvider: () => Promise<A
       isDeleted: z.boolean().default(false).describe("Whether to include deleted release definitions. Default is false."),
       searchTextContainsFolderName: z.boolean().optional().describe("Whether to include folder names in the search text"),
     },
-    async ({
-      project,
-      searchText,
-      expand,
-      artifactType,
-      artifactSourceId,
-      top,
-      continuationToken,
-      queryOrder,
-      path,
-      isExactNameMatch,
-      tagFilter,
-      propertyFilters,
-      definitionIdFilter,
-      isDeleted,
-      searchTextContainsFolderName,
-    }) => {
-      const connection = await connectionProvider();
-      const releaseApi = await connection.getReleaseApi();
-      const releaseDefinitions = await releaseApi.getReleaseDefinitions(
+    withErrorHandling(
+      "fetching release definitions",
+      async ({
         project,
         searchText,
         expand,
@@ -67,13 +59,33 @@ function configureReleaseTools(server: McpServer, tokenProvider: () => Promise<A
         propertyFilters,
         definitionIdFilter,
         isDeleted,
-        searchTextContainsFolderName
-      );
+        searchTextContainsFolderName,
+      }) => {
+        const connection = await connectionProvider();
+        const releaseApi = await connection.getReleaseApi();
+        const releaseDefinitions = await releaseApi.getReleaseDefinitions(
+          project,
+          searchText,
+          expand,
+          artifactType,
+          artifactSourceId,
+          top,
+          continuationToken,
+          queryOrder,
+          path,
+          isExactNameMatch,
+          tagFilter,
+          propertyFilters,
+          definitionIdFilter,
+          isDeleted,
+          searchTextContainsFolderName
+        );
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(releaseDefinitions, null, 2) }],
-      };
-    }
+        return {
+          content: [{ type: "text", text: JSON.stringify(releaseDefinitions, null, 2) }],
+        };
+      }
+    )
   );
 
   server.tool(
@@ -115,33 +127,9 @@ function configureReleaseTools(server: McpServer, tokenProvider: () => Promise<A
       releaseIdFilter: z.array(z.number()).optional().describe("Filter by specific release IDs"),
       path: z.string().optional().describe("Path to filter releases"),
     },
-    async ({
-      project,
-      definitionId,
-      definitionEnvironmentId,
-      searchText,
-      createdBy,
-      statusFilter,
-      environmentStatusFilter,
-      minCreatedTime,
-      maxCreatedTime,
-      queryOrder,
-      top,
-      continuationToken,
-      expand,
-      artifactTypeId,
-      sourceId,
-      artifactVersionId,
-      sourceBranchFilter,
-      isDeleted,
-      tagFilter,
-      propertyFilters,
-      releaseIdFilter,
-      path,
-    }) => {
-      const connection = await connectionProvider();
-      const releaseApi = await connection.getReleaseApi();
-      const releases = await releaseApi.getReleases(
+    withErrorHandling(
+      "fetching releases",
+      async ({
         project,
         definitionId,
         definitionEnvironmentId,
@@ -163,14 +151,41 @@ function configureReleaseTools(server: McpServer, tokenProvider: () => Promise<A
         tagFilter,
         propertyFilters,
         releaseIdFilter,
-        path
-      );
+        path,
+      }) => {
+        const connection = await connectionProvider();
+        const releaseApi = await connection.getReleaseApi();
+        const releases = await releaseApi.getReleases(
+          project,
+          definitionId,
+          definitionEnvironmentId,
+          searchText,
+          createdBy,
+          statusFilter,
+          environmentStatusFilter,
+          minCreatedTime,
+          maxCreatedTime,
+          queryOrder,
+          top,
+          continuationToken,
+          expand,
+          artifactTypeId,
+          sourceId,
+          artifactVersionId,
+          sourceBranchFilter,
+          isDeleted,
+          tagFilter,
+          propertyFilters,
+          releaseIdFilter,
+          path
+        );
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(releases, null, 2) }],
-      };
-    }
+        return {
+          content: [{ type: "text", text: JSON.stringify(releases, null, 2) }],
+        };
+      }
+    )
   );
 }
 
-export { RELEASE_TOOLS, configureReleaseTools };
+export { RELEASE_TOOLS, RELEASE_TOOLSET, configureReleaseTools };
@@ -1,14 +1,16 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { GitRef, GitRefUpdate, GitCommitRef, GitPush, GitChange, VersionControlChangeType, ItemContentType } from "azure-devops-node-api/interfaces/GitInterfaces.js";
 import { z } from "zod";
+import { withErrorHandling } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
+import { Toolset } from "../toolsets.js";
 import { getCurrentUserDetails } from "./auth.js";
-import fs from 'fs';
-import path from 'path';
+import { logger } from "../logger.js";
+import { apiVersion, userAgent } from "../utils.js";
 
 // Constants for Git operations
 // Standard Git null object ID (40 zeros) - not a secret, used for Git operations
@@ -50,6 +52,31 @@ const REPO_TOOLS = {
   update_feature_switch_bulk: "repo_update_feature_switch_bulk",
 };
 
+const REPO_TOOLSET: Toolset = {
+  name: "repos",
+  tools: {
+    [REPO_TOOLS.list_repos_by_project]: { readOnly: true },
+    [REPO_TOOLS.list_pull_requests_by_repo]: { readOnly: true },
+    [REPO_TOOLS.list_pull_requests_by_project]: { readOnly: true },
+    [REPO_TOOLS.list_branches_by_repo]: { readOnly: true },
+    [REPO_TOOLS.list_my_branches_by_repo]: { readOnly: true },
+    [REPO_TOOLS.list_pull_request_threads]: { readOnly: true },
+    [REPO_TOOLS.list_pull_request_thread_comments]: { readOnly: true },
+    [REPO_TOOLS.get_repo_by_name_or_id]: { readOnly: true },
+    [REPO_TOOLS.get_branch_by_name]: { readOnly: true },
+    [REPO_TOOLS.get_pull_request_by_id]: { readOnly: true },
+    [REPO_TOOLS.create_pull_request]: { readOnly: false },
+    [REPO_TOOLS.update_pull_request_status]: { readOnly: false, destructive: true },
+    [REPO_TOOLS.reply_to_comment]: { readOnly: false },
+    [REPO_TOOLS.resolve_comment]: { readOnly: false },
+    [REPO_TOOLS.create_branch]: { readOnly: false },
+    [REPO_TOOLS.create_file]: { readOnly: false },
+    [REPO_TOOLS.create_feature_switch]: { readOnly: false },
+    [REPO_TOOLS.update_feature_switch]: { readOnly: false, destructive: true },
+    [REPO_TOOLS.update_feature_switch_bulk]: { readOnly: false, destructive: true },
+  },
+};
+
 function branchesFilterOutIrrelevantProperties(
   branches: GitRef[],
   top: number
@@ -63,7 +90,7 @@ function branchesFilterOutIrrelevantProperties(
 
 function configureRepoTools(
   server: McpServer,
-  tokenProvider: () => Promise<AccessToken>,
+  authHeaderProvider: () => Promise<string>,
   connectionProvider: () => Promise<WebApi>
 ) {
 
@@ -78,7 +105,7 @@ function configureRepoTools(
       description: z.string().optional().describe("The description of the pull request. Optional."),
       isDraft: z.boolean().optional().default(false).describe("Indicates whether the pull request is a draft. Defaults to false."),
     },
-    async ({
+    withErrorHandling("creating pull request", async ({
       repositoryId,
       sourceRefName,
       targetRefName,
@@ -102,7 +129,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(pullRequest, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -113,7 +140,7 @@ function configureRepoTools(
       pullRequestId: z.number().describe("The ID of the pull request to be published."),
       status: z.enum(["active", "abandoned"]).describe("The new status of the pull request. Can be 'active' or 'abandoned'."),
     },
-    async ({ repositoryId, pullRequestId }) => {
+    withErrorHandling("updating pull request status", async ({ repositoryId, pullRequestId }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const statusValue = status === "active" ? 3 : 2;
@@ -129,7 +156,7 @@ function configureRepoTools(
           { type: "text", text: JSON.stringify(updatedPullRequest, null, 2) },
         ],
       };
-    }
+    })
   );
 
   server.tool(
@@ -138,7 +165,7 @@ function configureRepoTools(
     {
       project: z.string().describe("The name or ID of the Azure DevOps project."),
     },
-    async ({ project }) => {
+    withErrorHandling("fetching repositories", async ({ project }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const repositories = await gitApi.getRepositories(
@@ -164,7 +191,7 @@ function configureRepoTools(
           { type: "text", text: JSON.stringify(filteredRepositories, null, 2) },
         ],
       };
-    }
+    })
   );
 
   server.tool(
@@ -175,7 +202,7 @@ function configureRepoTools(
       created_by_me: z.boolean().default(false).describe("Filter pull requests created by the current user."),
       i_am_reviewer: z.boolean().default(false).describe("Filter pull requests where the current user is a reviewer."),
     },
-    async ({ repositoryId, created_by_me, i_am_reviewer }) => {
+    withErrorHandling("fetching pull requests", async ({ repositoryId, created_by_me, i_am_reviewer }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
@@ -192,7 +219,7 @@ function configureRepoTools(
 
       if (created_by_me || i_am_reviewer) {
         const data = await getCurrentUserDetails(
-          tokenProvider,
+          authHeaderProvider,
           connectionProvider
         );
         const userId = data.authenticatedUser.id;
@@ -228,7 +255,7 @@ function configureRepoTools(
           { type: "text", text: JSON.stringify(filteredPullRequests, null, 2) },
         ],
       };
-    }
+    })
   );
 
   server.tool(
@@ -239,7 +266,7 @@ function configureRepoTools(
       created_by_me: z.boolean().default(false).describe("Filter pull requests created by the current user."),
       i_am_reviewer: z.boolean().default(false).describe("Filter pull requests where the current user is a reviewer."),
     },
-    async ({ project, created_by_me, i_am_reviewer }) => {
+    withErrorHandling("fetching pull requests", async ({ project, created_by_me, i_am_reviewer }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
@@ -254,7 +281,7 @@ function configureRepoTools(
 
       if (created_by_me || i_am_reviewer) {
         const data = await getCurrentUserDetails(
-          tokenProvider,
+          authHeaderProvider,
           connectionProvider
         );
         const userId = data.authenticatedUser.id;
@@ -291,7 +318,7 @@ function configureRepoTools(
           { type: "text", text: JSON.stringify(filteredPullRequests, null, 2) },
         ],
       };
-    }
+    })
   );
 
   server.tool(
@@ -304,7 +331,7 @@ function configureRepoTools(
       iteration: z.number().optional().describe("The iteration ID for which to retrieve threads. Optional, defaults to the latest iteration."),
       baseIteration: z.number().optional().describe("The base iteration ID for which to retrieve threads. Optional, defaults to the latest base iteration."),
     },
-    async ({
+    withErrorHandling("fetching pull request threads", async ({
       repositoryId,
       pullRequestId,
       project,
@@ -325,7 +352,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(threads, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -337,7 +364,7 @@ function configureRepoTools(
       threadId: z.number().describe("The ID of the thread for which to retrieve comments."),
       project: z.string().optional().describe("Project ID or project name (optional)"),
     },
-    async ({ repositoryId, pullRequestId, threadId, project }) => {
+    withErrorHandling("fetching pull request thread comments", async ({ repositoryId, pullRequestId, threadId, project }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
@@ -352,7 +379,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(comments, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -362,7 +389,7 @@ function configureRepoTools(
       repositoryId: z.string().describe("The ID of the repository where the branches are located."),
       top: z.number().default(100).describe("The maximum number of branches to return. Defaults to 100."),
     },
-    async ({ repositoryId, top }) => {
+    withErrorHandling("fetching branches", async ({ repositoryId, top }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const branches = await gitApi.getRefs(repositoryId, undefined);
@@ -377,7 +404,7 @@ function configureRepoTools(
           { type: "text", text: JSON.stringify(filteredBranches, null, 2) },
         ],
       };
-    }
+    })
   );
 
   server.tool(
@@ -386,7 +413,7 @@ function configureRepoTools(
     {
       repositoryId: z.string().describe("The ID of the repository where the branches are located."),
     },
-    async ({ repositoryId }) => {
+    withErrorHandling("fetching branches", async ({ repositoryId }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const branches = await gitApi.getRefs(
@@ -401,7 +428,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(branches, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -411,7 +438,7 @@ function configureRepoTools(
       project: z.string().describe("Project name or ID where the repository is located."),
       repositoryNameOrId: z.string().describe("Repository name or ID."),
     },
-    async ({ project, repositoryNameOrId }) => {
+    withErrorHandling("fetching repository", async ({ project, repositoryNameOrId }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const repositories = await gitApi.getRepositories(project);
@@ -427,7 +454,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(repository, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -437,7 +464,7 @@ function configureRepoTools(
       repositoryId: z.string().describe("The ID of the repository where the branch is located."),
       branchName: z.string().describe("The name of the branch to retrieve, e.g., 'main' or 'feature-branch'."),
     },
-    async ({ repositoryId, branchName }) => {
+    withErrorHandling("fetching branch", async ({ repositoryId, branchName }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const branches = await gitApi.getRefs(repositoryId);
@@ -457,7 +484,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(branch, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -467,7 +494,7 @@ function configureRepoTools(
       repositoryId: z.string().describe("The ID of the repository where the pull request is located."),
       pullRequestId: z.number().describe("The ID of the pull request to retrieve."),
     },
-    async ({ repositoryId, pullRequestId }) => {
+    withErrorHandling("fetching pull request", async ({ repositoryId, pullRequestId }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const pullRequest = await gitApi.getPullRequest(
@@ -477,7 +504,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(pullRequest, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -490,7 +517,7 @@ function configureRepoTools(
       content: z.string().describe("The content of the comment to be added."),
       project: z.string().optional().describe("Project ID or project name (optional)"),
     },
-    async ({ repositoryId, pullRequestId, threadId, content, project }) => {
+    withErrorHandling("replying to comment", async ({ repositoryId, pullRequestId, threadId, content, project }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const comment = await gitApi.createComment(
@@ -504,7 +531,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(comment, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -515,7 +542,7 @@ function configureRepoTools(
       pullRequestId: z.number().describe("The ID of the pull request where the comment thread exists."),
       threadId: z.number().describe("The ID of the thread to be resolved."),
     },
-    async ({ repositoryId, pullRequestId, threadId }) => {
+    withErrorHandling("resolving comment thread", async ({ repositoryId, pullRequestId, threadId }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
       const thread = await gitApi.updateThread(
@@ -528,7 +555,7 @@ function configureRepoTools(
       return {
         content: [{ type: "text", text: JSON.stringify(thread, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -539,7 +566,7 @@ function configureRepoTools(
       branchName: z.string().describe("The name of the new branch to create."),
       sourceBranch: z.string().describe("The name of the source branch to branch from (e.g., 'master', 'main')."),
     },
-    async ({ repositoryId, branchName, sourceBranch }) => {
+    withErrorHandling("creating branch", async ({ repositoryId, branchName, sourceBranch }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
@@ -566,7 +593,7 @@ function configureRepoTools(
           text: `Branch '${branchName}' created successfully from '${sourceBranch}'\n${JSON.stringify(result, null, 2)}`
         }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -579,7 +606,7 @@ function configureRepoTools(
       branchName: z.string().describe("The name of the branch where the file will be created."),
       commitMessage: z.string().describe("The commit message for creating the file."),
     },
-    async ({ repositoryId, filePath, fileContent, branchName, commitMessage }) => {
+    withErrorHandling("creating file", async ({ repositoryId, filePath, fileContent, branchName, commitMessage }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
@@ -627,7 +654,7 @@ function configureRepoTools(
           text: `File '${filePath}' created successfully on branch '${branchName}'\n${JSON.stringify(result, null, 2)}`
         }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -640,95 +667,89 @@ function configureRepoTools(
       sourceBranch: z.string().describe("The source branch to create the feature branch from.").default("master"),
       branchName: z.string().optional().describe("Custom branch name. If not provided, will use 'feature/[normalized-feature-name]' format."),
     },
-    async ({ repositoryId, featureName, description, sourceBranch, branchName }) => {
+    withErrorHandling("creating feature switch", async ({ repositoryId, featureName, description, sourceBranch, branchName }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
       // Use custom branch name if provided, otherwise use default format
       const finalBranchName = branchName || `feature/${featureName.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
 
-      try {
-        // Step 1: Create the branch
-        const sourceRef = await gitApi.getRefs(repositoryId, undefined, `heads/${sourceBranch}`);
-        if (!sourceRef || sourceRef.length === 0) {
-          throw new Error(`Source branch '${sourceBranch}' not found`);
-        }
+      // Step 1: Create the branch
+      const sourceRef = await gitApi.getRefs(repositoryId, undefined, `heads/${sourceBranch}`);
+      if (!sourceRef || sourceRef.length === 0) {
+        throw new Error(`Source branch '${sourceBranch}' not found`);
+      }
 
-        const sourceCommit = sourceRef[0].objectId;
+      const sourceCommit = sourceRef[0].objectId;
 
-        const newBranchRef: GitRefUpdate = {
-          name: `refs/heads/${finalBranchName}`,
-          oldObjectId: NULL_OBJECT_ID,
-          newObjectId: sourceCommit
-        };
+      const newBranchRef: GitRefUpdate = {
+        name: `refs/heads/${finalBranchName}`,
+        oldObjectId: NULL_OBJECT_ID,
+        newObjectId: sourceCommit
+      };
 
-        await gitApi.updateRefs([newBranchRef], repositoryId);
-
-        // Step 2: Create the feature configuration JSON file
-        const filePath = `Features/Configuration/Features/${featureName}.json`;
-        const featureConfig = {
-          "Id": featureName,
-          "Description": description,
-          "Environments": {
-            "onebox": {},
-            "test": {},
-            "cst": {},
-            "dxt": {},
-            "msit": {},
-            "prod": {},
-            "mc": {},
-            "gcc": {},
-            "gcchigh": {},
-            "dod": {},
-            "usnat": {},
-            "ussec": {}
-          }
-        };
+      await gitApi.updateRefs([newBranchRef], repositoryId);
 
-        const fileContent = JSON.stringify(featureConfig, null, 2);
+      // Step 2: Create the feature configuration JSON file
+      const filePath = `Features/Configuration/Features/${featureName}.json`;
+      const featureConfig = {
+        "Id": featureName,
+        "Description": description,
+        "Environments": {
+          "onebox": {},
+          "test": {},
+          "cst": {},
+          "dxt": {},
+          "msit": {},
+          "prod": {},
+          "mc": {},
+          "gcc": {},
+          "gcchigh": {},
+          "dod": {},
+          "usnat": {},
+          "ussec": {}
+        }
+      };
 
-        // Create the file change
-        const change: GitChange = {
-          changeType: VersionControlChangeType.Add,
-          item: {
-            path: `/${filePath}`
-          },
-          newContent: {
-            content: fileContent,
-            contentType: ItemContentType.RawText
-          }
-        };
+      const fileContent = JSON.stringify(featureConfig, null, 2);
 
-        // Create the commit
-        const commit: GitCommitRef = {
-          comment: `Add feature switch configuration for ${featureName}`,
-          changes: [change]
-        };
+      // Create the file change
+      const change: GitChange = {
+        changeType: VersionControlChangeType.Add,
+        item: {
+          path: `/${filePath}`
+        },
+        newContent: {
+          content: fileContent,
+          contentType: ItemContentType.RawText
+        }
+      };
 
-        // Create the push
-        const push: GitPush = {
-          refUpdates: [{
-            name: `refs/heads/${finalBranchName}`,
-            oldObjectId: sourceCommit
-            // Don't specify newObjectId - let the server calculate it from the commit
-          }],
-          commits: [commit]
-        };
+      // Create the commit
+      const commit: GitCommitRef = {
+        comment: `Add feature switch configuration for ${featureName}`,
+        changes: [change]
+      };
 
-        const result = await gitApi.createPush(push, repositoryId);
+      // Create the push
+      const push: GitPush = {
+        refUpdates: [{
+          name: `refs/heads/${finalBranchName}`,
+          oldObjectId: sourceCommit
+          // Don't specify newObjectId - let the server calculate it from the commit
+        }],
+        commits: [commit]
+      };
 
-        return {
-          content: [{
-            type: "text",
-            text: `Feature switch '${featureName}' created successfully!\n\nBranch: ${branchName}\nFile: ${filePath}\n\nConfiguration:\n${fileContent}\n\nCommit: ${JSON.stringify(result.commits?.[0], null, 2)}`
-          }],
-        };
+      const result = await gitApi.createPush(push, repositoryId);
 
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to create feature switch: ${errorMessage}`);
-      }
-    }
+      return {
+        content: [{
+          type: "text",
+          text: `Feature switch '${featureName}' created successfully!\n\nBranch: ${branchName}\nFile: ${filePath}\n\nConfiguration:\n${fileContent}\n\nCommit: ${JSON.stringify(result.commits?.[0], null, 2)}`
+        }],
+      };
+    })
   );
 
 server.tool(
@@ -756,144 +777,127 @@ server.tool(
       })
     }))).optional().describe("Complex targets structure with target names as keys and requirement arrays as values")
   },
-  async ({ repositoryId, branchName, featureName, stage, enabled, commitMessage, rules, targets }) => {
+  withErrorHandling("updating feature switch", async ({ repositoryId, branchName, featureName, stage, enabled, commitMessage, rules, targets }) => {
     const connection = await connectionProvider();
     const gitApi = await connection.getGitApi();
 
-    try {
-      // Get branch & commit ID
-      const branch = await gitApi.getBranch(repositoryId, branchName);
-      const latestCommitId = branch.commit?.commitId;
-      if (!latestCommitId) throw new Error(`Could not find latest commit for branch ${branchName}`);
+    // Get branch & commit ID
+    const branch = await gitApi.getBranch(repositoryId, branchName);
+    const latestCommitId = branch.commit?.commitId;
+    if (!latestCommitId) throw new Error(`Could not find latest commit for branch ${branchName}`);
 
-      const filePath = `Features/Configuration/Features/${featureName}.json`;
-
-      // Get file content directly using REST API
-      let fileContent: string | undefined;
+    const filePath = `Features/Configuration/Features/${featureName}.json`;
 
-      try {
-        const token = await tokenProvider();
-        const itemsUrl = `https://dev.azure.com/powerbi/_apis/git/repositories/${repositoryId}/items?path=${encodeURIComponent(filePath)}&versionType=Branch&version=${encodeURIComponent(branchName)}&includeContent=true&api-version=7.2-preview.1`;
-
-        const response = await fetch(itemsUrl, {
-          headers: {
-            'Authorization': `Bearer ${token.token}`,
-            'User-Agent': 'AzureDevOpsMCP/1.0',
-            'Accept': 'application/json'
-          }
-        });
+    // Get file content directly using REST API
+    let fileContent: string | undefined;
 
-        if (response.ok) {
-          const data = await response.json();
-          fileContent = data.content;
-        } else {
-          throw new Error(`Could not retrieve file via REST API: ${response.status} ${response.statusText}`);
+    try {
+      const authHeader = await authHeaderProvider();
+      const itemsUrl = `${connection.serverUrl}/_apis/git/repositories/${repositoryId}/items?path=${encodeURIComponent(filePath)}&versionType=Branch&version=${encodeURIComponent(branchName)}&includeContent=true&api-version=${apiVersion}`;
+
+      const response = await fetchWithRetry(itemsUrl, {
+        headers: {
+          'Authorization': authHeader,
+          'User-Agent': userAgent,
+          'Accept': 'application/json'
         }
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Could not find file: ${filePath} on branch: ${branchName}. Error: ${errorMessage}`);
-      }
+      });
 
-      if (!fileContent) {
-        throw new Error(`Could not find feature switch file content: ${filePath}`);
+      if (response.ok) {
+        const data = await response.json();
+        fileContent = data.content;
+      } else {
+        throw new Error(`Could not retrieve file via REST API: ${response.status} ${response.statusText}`);
       }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not find file: ${filePath} on branch: ${branchName}. Error: ${errorMessage}`);
+    }
 
-      // Strip comments before parsing JSON
-      const cleanedContent = stripJsonComments(fileContent);
-      const config = JSON.parse(cleanedContent);
+    if (!fileContent) {
+      throw new Error(`Could not find feature switch file content: ${filePath}`);
+    }
+
+    // Strip comments before parsing JSON
+    const cleanedContent = stripJsonComments(fileContent);
+    const config = JSON.parse(cleanedContent);
 
-      if (!config.Environments) throw new Error(`'Environments' section not found in feature config`);
-      if (!config.Environments[stage]) throw new Error(`Stage '${stage}' not found in Environments`);
+    if (!config.Environments) throw new Error(`'Environments' section not found in feature config`);
+    if (!config.Environments[stage]) throw new Error(`Stage '${stage}' not found in Environments`);
 
-      // Build Requires/Targets based on rules or targets
-      if (targets && Object.keys(targets).length > 0) {
-        // Use the provided targets structure directly
-        const stageConfig: Record<string, unknown> = {
-          Targets: targets
+    // Build Requires/Targets based on rules or targets
+    if (targets && Object.keys(targets).length > 0) {
+      // Use the provided targets structure directly
+      const stageConfig: Record<string, unknown> = {
+        Targets: targets
+      };
+      config.Environments[stage] = stageConfig;
+    } else if (rules && rules.length > 0) {
+      const requires: Record<string, unknown>[] = [];
+      const targetsFromRules: Record<string, Record<string, unknown>[]> = {};
+
+      for (const rule of rules) {
+        const expr = {
+          Name: `PowerBI.${rule.operator}`,
+          Parameters: {
+            Pivot: rule.pivot,
+            ...(rule.operator === "AtLeastVersion"
+              ? { Value: rule.values[0] }
+              : { Values: rule.values })
+          }
         };
-        config.Environments[stage] = stageConfig;
-      } else if (rules && rules.length > 0) {
-        const requires: Record<string, unknown>[] = [];
-        const targetsFromRules: Record<string, Record<string, unknown>[]> = {};
-
-        for (const rule of rules) {
-          const expr = {
-            Name: `PowerBI.${rule.operator}`,
-            Parameters: {
-              Pivot: rule.pivot,
-              ...(rule.operator === "AtLeastVersion"
-                ? { Value: rule.values[0] }
-                : { Values: rule.values })
-            }
-          };
 
-          if (rule.targetName) {
-            if (!targetsFromRules[rule.targetName]) {
-              targetsFromRules[rule.targetName] = [];
-            }
-            targetsFromRules[rule.targetName].push(expr);
-          } else {
-            requires.push(expr);
+        if (rule.targetName) {
+          if (!targetsFromRules[rule.targetName]) {
+            targetsFromRules[rule.targetName] = [];
           }
+          targetsFromRules[rule.targetName].push(expr);
+        } else {
+          requires.push(expr);
         }
-
-        const stageConfig: Record<string, unknown> = {};
-        if (requires.length > 0) stageConfig.Requires = requires;
-        if (Object.keys(targetsFromRules).length > 0) stageConfig.Targets = targetsFromRules;
-
-        config.Environments[stage] = stageConfig;
-      } else {
-        config.Environments[stage] = { Enabled: enabled };
       }
 
-      const updatedContent = JSON.stringify(config, null, 2);
+      const stageConfig: Record<string, unknown> = {};
+      if (requires.length > 0) stageConfig.Requires = requires;
+      if (Object.keys(targetsFromRules).length > 0) stageConfig.Targets = targetsFromRules;
 
-      const push = {
-        refUpdates: [{ name: `refs/heads/${branchName}`, oldObjectId: latestCommitId }],
-        commits: [{
-          comment: commitMessage || `Update feature switch ${featureName} for ${stage} stage`,
-          changes: [{
-            changeType: VersionControlChangeType.Edit,
-            item: { path: `/${filePath}` },
-            newContent: { content: updatedContent, contentType: ItemContentType.RawText }
-          }]
-        }]
-      };
+      config.Environments[stage] = stageConfig;
+    } else {
+      config.Environments[stage] = { Enabled: enabled };
+    }
 
-      const result = await gitApi.createPush(push, repositoryId);
+    const updatedContent = JSON.stringify(config, null, 2);
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            success: true,
-            message: `Feature switch ${featureName} updated for '${stage}'`,
-            branchName,
-            filePath,
-            commitId: result.commits?.[0]?.commitId,
-            rules,
-            enabled,
-            updatedConfig: config.Environments[stage]
-          }, null, 2)
+    const push = {
+      refUpdates: [{ name: `refs/heads/${branchName}`, oldObjectId: latestCommitId }],
+      commits: [{
+        comment: commitMessage || `Update feature switch ${featureName} for ${stage} stage`,
+        changes: [{
+          changeType: VersionControlChangeType.Edit,
+          item: { path: `/${filePath}` },
+          newContent: { content: updatedContent, contentType: ItemContentType.RawText }
         }]
-      };
-    } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            success: false,
-            error: error.message,
-            repositoryId,
-            branchName,
-            featureName,
-            stage,
-            rules
-          }, null, 2)
-        }]
-      };
-    }
-  });
+      }]
+    };
+
+    const result = await gitApi.createPush(push, repositoryId);
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          message: `Feature switch ${featureName} updated for '${stage}'`,
+          branchName,
+          filePath,
+          commitId: result.commits?.[0]?.commitId,
+          rules,
+          enabled,
+          updatedConfig: config.Environments[stage]
+        }, null, 2)
+      }]
+    };
+  }));
 
   server.tool(
     REPO_TOOLS.update_feature_switch_bulk,
@@ -910,255 +914,216 @@ server.tool(
       })).describe("Array of stage configurations to update. Each stage can have different settings."),
       commitMessage: z.string().optional().describe("The commit message for the update. Optional."),
     },
-    async ({ repositoryId, branchName, featureName, stages, commitMessage }) => {
+    withErrorHandling("updating feature switch", async ({ repositoryId, branchName, featureName, stages, commitMessage }) => {
       const connection = await connectionProvider();
       const gitApi = await connection.getGitApi();
 
-      try {
-        // Get the current branch to obtain the latest commit ID
-        const branch = await gitApi.getBranch(repositoryId, branchName);
-        const latestCommitId = branch.commit?.commitId;
-
-        if (!latestCommitId) {
-          throw new Error(`Could not find latest commit for branch ${branchName}`);
-        }
+      // Get the current branch to obtain the latest commit ID
+      const branch = await gitApi.getBranch(repositoryId, branchName);
+      const latestCommitId = branch.commit?.commitId;
 
-        // Construct the file path
-        const filePath = `Features/Configuration/Features/${featureName}.json`;
+      if (!latestCommitId) {
+        throw new Error(`Could not find latest commit for branch ${branchName}`);
+      }
 
-        // Get the current file content using getItemContent
-        console.log(`Attempting to retrieve file: ${filePath} from branch: ${branchName}`);
+      // Construct the file path
+      const filePath = `Features/Configuration/Features/${featureName}.json`;
 
-        let fileContent: string | undefined;
+      // Get the current file content using getItemContent
+      logger.debug("Retrieving feature switch file", { filePath, branchName });
 
-        try {
-          console.log(`Getting file content using getItemContent API`);
-          const contentStream = await gitApi.getItemContent(
-            repositoryId,
-            filePath,
-            undefined, // projectId
-            undefined, // scopePath
-            undefined, // recursionLevel
-            false, // includeContentMetadata
-            false, // latestProcessedChange
-            false, // download
-            {
-              versionType: 0, // 0 = Branch, 1 = Tag, 2 = Commit
-              version: branchName,
-            }
-          );
+      let fileContent: string | undefined;
 
-          console.log(`Got content stream:`, !!contentStream);
+      try {
+        const contentStream = await gitApi.getItemContent(
+          repositoryId,
+          filePath,
+          undefined, // projectId
+          undefined, // scopePath
+          undefined, // recursionLevel
+          false, // includeContentMetadata
+          false, // latestProcessedChange
+          false, // download
+          {
+            versionType: 0, // 0 = Branch, 1 = Tag, 2 = Commit
+            version: branchName,
+          }
+        );
 
-          if (contentStream) {
-            // Convert Node.js ReadableStream to string
-            const chunks: any[] = [];
+        logger.debug("Received feature switch content stream", { hasStream: !!contentStream });
 
-            contentStream.on('data', (chunk) => {
-              chunks.push(chunk);
-            });
+        if (contentStream) {
+          // Convert Node.js ReadableStream to string
+          const chunks: any[] = [];
 
-            fileContent = await new Promise<string>((resolve, reject) => {
-              contentStream.on('end', () => {
-                const buffer = Buffer.concat(chunks);
-                resolve(buffer.toString('utf-8'));
-              });
+          contentStream.on('data', (chunk) => {
+            chunks.push(chunk);
+          });
 
-              contentStream.on('error', (error) => {
-                reject(error);
-              });
+          fileContent = await new Promise<string>((resolve, reject) => {
+            contentStream.on('end', () => {
+              const buffer = Buffer.concat(chunks);
+              resolve(buffer.toString('utf-8'));
             });
 
-            console.log(`Successfully got file content, length: ${fileContent.length}`);
-            console.log(`File content preview (first 200 chars):`, fileContent.substring(0, 200));
-          } else {
-            throw new Error('No content stream returned');
-          }
-        } catch (error: any) {
-          console.log(`getItemContent failed, trying fallback method:`, error?.message || error);
-
-          // Fallback: Try using direct REST API call
-          try {
-            const token = await tokenProvider();
-            const itemsUrl = `https://dev.azure.com/powerbi/_apis/git/repositories/${repositoryId}/items?path=${encodeURIComponent(filePath)}&versionType=Branch&version=${encodeURIComponent(branchName)}&includeContent=true&api-version=7.2-preview.1`;
-
-            const response = await fetch(itemsUrl, {
-              headers: {
-                'Authorization': `Bearer ${token.token}`,
-                'User-Agent': 'AzureDevOpsMCP/1.0',
-                'Accept': 'application/json'
-              }
+            contentStream.on('error', (error) => {
+              reject(error);
             });
+          });
 
-            console.log(`REST API response status: ${response.status} ${response.statusText}`);
+          logger.debug("Retrieved feature switch file content", { length: fileContent.length });
+        } else {
+          throw new Error('No content stream returned');
+        }
+      } catch (error: any) {
+        logger.warning("getItemContent failed, falling back to the items REST API", { error: error?.message || error });
 
-            if (response.ok) {
-              const data = await response.json();
-              fileContent = data.content;
-              console.log(`Fallback method result - Has content:`, !!fileContent, `Content length:`, fileContent?.length || 0);
-            } else {
-              const errorText = await response.text();
-              console.log(`REST API failed - HTTP ${response.status}: ${response.statusText}. Error: ${errorText}`);
-              throw new Error(`Could not retrieve file via REST API: ${response.status} ${response.statusText}`);
+        // Fallback: Try using direct REST API call
+        try {
+          const authHeader = await authHeaderProvider();
+          const itemsUrl = `${connection.serverUrl}/_apis/git/repositories/${repositoryId}/items?path=${encodeURIComponent(filePath)}&versionType=Branch&version=${encodeURIComponent(branchName)}&includeContent=true&api-version=${apiVersion}`;
+
+          const response = await fetchWithRetry(itemsUrl, {
+            headers: {
+              'Authorization': authHeader,
+              'User-Agent': userAgent,
+              'Accept': 'application/json'
             }
-          } catch (fallbackError: any) {
-            console.log(`Fallback method also failed:`, fallbackError?.message || fallbackError);
-            throw new Error(`Could not find file: ${filePath} on branch: ${branchName}. Error: ${error?.message || error}`);
-          }
-        }
+          });
 
-        if (!fileContent) {
-          throw new Error(`Could not find feature switch file content: ${filePath}`);
-        }
 
-        // Parse the current JSON (strip comments first)
-        const cleanedContent = stripJsonComments(fileContent);
-        const currentConfig = JSON.parse(cleanedContent);
+          if (response.ok) {
+            const data = await response.json();
+            fileContent = data.content;
+            logger.debug("Retrieved feature switch file through the items REST API", { length: fileContent?.length || 0 });
+          } else {
+            const errorText = await response.text();
+            logger.warning("Items REST API request failed", { status: response.status, statusText: response.statusText, error: errorText });
+            throw new Error(`Could not retrieve file via REST API: ${response.status} ${response.statusText}`);
+          }
+        } catch (fallbackError: any) {
+          logger.error("Could not retrieve the feature switch file", { error: fallbackError?.message || fallbackError });
+          throw new Error(`Could not find file: ${filePath} on branch: ${branchName}. Error: ${error?.message || error}`);
+        }
+      }
 
-        console.log(`Current config structure:`, JSON.stringify(currentConfig, null, 2));
+      if (!fileContent) {
+        throw new Error(`Could not find feature switch file content: ${filePath}`);
+      }
 
-        // Ensure the Environments object exists
-        if (!currentConfig.Environments) {
-          throw new Error(`'Environments' section not found in feature switch configuration`);
-        }
+      // Parse the current JSON (strip comments first)
+      const cleanedContent = stripJsonComments(fileContent);
+      const currentConfig = JSON.parse(cleanedContent);
 
-        const updatedStages: any = {};
-        const availableStages = Object.keys(currentConfig.Environments);
+      // Ensure the Environments object exists
+      if (!currentConfig.Environments) {
+        throw new Error(`'Environments' section not found in feature switch configuration`);
+      }
 
-        // Process each stage update
-        for (const stageConfig of stages) {
-          const { stage, tenantIds, rolloutName, enabled } = stageConfig;
+      const updatedStages: any = {};
+      const availableStages = Object.keys(currentConfig.Environments);
 
-          // Validate that the stage exists
-          if (!currentConfig.Environments.hasOwnProperty(stage)) {
-            throw new Error(`Stage '${stage}' not found in Environments section. Available stages: ${availableStages.join(', ')}`);
-          }
+      // Process each stage update
+      for (const stageConfig of stages) {
+        const { stage, tenantIds, rolloutName, enabled } = stageConfig;
 
-          // Check if this is a simple enable/disable request (no rollout or tenant requirements)
-          const hasRequirements = rolloutName || (tenantIds && tenantIds.length > 0);
+        // Validate that the stage exists
+        if (!currentConfig.Environments.hasOwnProperty(stage)) {
+          throw new Error(`Stage '${stage}' not found in Environments section. Available stages: ${availableStages.join(', ')}`);
+        }
 
-          if (!hasRequirements) {
-            // Simple enable/disable request - set Enabled: true/false
-            currentConfig.Environments[stage] = {
-              Enabled: enabled
-            };
-            updatedStages[stage] = { Enabled: enabled };
-          } else {
-            // Complex requirements - use Requires array
-            const requires = [];
-
-            // Add RolloutName requirement if provided by user
-            if (rolloutName) {
-              requires.push({
-                "Name": "PowerBI.MemberOf",
-                "Parameters": {
-                  "Pivot": "RolloutName",
-                  "Values": [rolloutName]
-                }
-              });
-            }
+        // Check if this is a simple enable/disable request (no rollout or tenant requirements)
+        const hasRequirements = rolloutName || (tenantIds && tenantIds.length > 0);
 
-            // Add tenant ID requirements
-            if (tenantIds && tenantIds.length > 0) {
-              requires.push({
-                "Name": "PowerBI.MemberOf",
-                "Parameters": {
-                  "Pivot": "TenantObjectId",
-                  "Values": tenantIds
-                }
-              });
-            }
+        if (!hasRequirements) {
+          // Simple enable/disable request - set Enabled: true/false
+          currentConfig.Environments[stage] = {
+            Enabled: enabled
+          };
+          updatedStages[stage] = { Enabled: enabled };
+        } else {
+          // Complex requirements - use Requires array
+          const requires = [];
+
+          // Add RolloutName requirement if provided by user
+          if (rolloutName) {
+            requires.push({
+              "Name": "PowerBI.MemberOf",
+              "Parameters": {
+                "Pivot": "RolloutName",
+                "Values": [rolloutName]
+              }
+            });
+          }
 
-            // Update the stage configuration under Environments with requirements
-            currentConfig.Environments[stage] = {
-              Requires: requires
-            };
-            updatedStages[stage] = { Requires: requires };
+          // Add tenant ID requirements
+          if (tenantIds && tenantIds.length > 0) {
+            requires.push({
+              "Name": "PowerBI.MemberOf",
+              "Parameters": {
+                "Pivot": "TenantObjectId",
+                "Values": tenantIds
+              }
+            });
           }
+
+          // Update the stage configuration under Environments with requirements
+          currentConfig.Environments[stage] = {
+            Requires: requires
+          };
+          updatedStages[stage] = { Requires: requires };
         }
+      }
 
-        // Convert back to JSON string with proper formatting
-        const updatedContent = JSON.stringify(currentConfig, null, 2);
+      // Convert back to JSON string with proper formatting
+      const updatedContent = JSON.stringify(currentConfig, null, 2);
 
-        // Create a descriptive commit message if none provided
-        const defaultCommitMessage = `Update feature switch ${featureName} for stages: ${stages.map(s => s.stage).join(', ')}`;
+      // Create a descriptive commit message if none provided
+      const defaultCommitMessage = `Update feature switch ${featureName} for stages: ${stages.map(s => s.stage).join(', ')}`;
 
-        // Create the push with the updated file
-        const push = {
-          refUpdates: [
-            {
-              name: `refs/heads/${branchName}`,
-              oldObjectId: latestCommitId,
-            },
-          ],
-          commits: [
-            {
-              comment: commitMessage || defaultCommitMessage,
-              changes: [
-                {
-                  changeType: VersionControlChangeType.Edit,
-                  item: {
-                    path: `/${filePath}`,
-                  },
-                  newContent: {
-                    content: updatedContent,
-                    contentType: ItemContentType.RawText,
-                  },
+      // Create the push with the updated file
+      const push = {
+        refUpdates: [
+          {
+            name: `refs/heads/${branchName}`,
+            oldObjectId: latestCommitId,
+          },
+        ],
+        commits: [
+          {
+            comment: commitMessage || defaultCommitMessage,
+            changes: [
+              {
+                changeType: VersionControlChangeType.Edit,
+                item: {
+                  path: `/${filePath}`,
                 },
-              ],
-            },
-          ],
-        };
-
-        const result = await gitApi.createPush(push, repositoryId);
+                newContent: {
+                  content: updatedContent,
+                  contentType: ItemContentType.RawText,
+                },
+              },
+            ],
+          },
+        ],
+      };
 
-        return {
-          content: [{ type: "text", text: JSON.stringify({
-            success: true,
-            message: `Successfully updated feature switch ${featureName} for ${stages.length} stage(s)`,
-            branchName,
-            filePath,
-            commitId: result.commits?.[0]?.commitId,
-            stagesUpdated: stages.map(s => s.stage),
-            updatedStages,
-            totalStagesProcessed: stages.length
-          }, null, 2) }],
-        };
+      const result = await gitApi.createPush(push, repositoryId);
 
-      } catch (error: any) {
-        return {
-          content: [{ type: "text", text: JSON.stringify({
-            success: false,
-            error: error.message,
-            repositoryId,
-            branchName,
-            featureName,
-            stagesRequested: stages.map(s => s.stage),
-          }, null, 2) }],
-        };
-      }
-    }
+      return {
+        content: [{ type: "text", text: JSON.stringify({
+          success: true,
+          message: `Successfully updated feature switch ${featureName} for ${stages.length} stage(s)`,
+          branchName,
+          filePath,
+          commitId: result.commits?.[0]?.commitId,
+          stagesUpdated: stages.map(s => s.stage),
+          updatedStages,
+          totalStagesProcessed: stages.length
+        }, null, 2) }],
+      };
+    })
   );
 }
 
-// Helper function to log to both console and file
-function debugLog(message: string, data?: any) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}${data ? ': ' + JSON.stringify(data) : ''}`;
-
-  console.log(logMessage);
-
-  // Also write to a log file
-  try {
-    const logDir = path.join(process.cwd(), 'logs');
-    if (!fs.existsSync(logDir)) {
-      fs.mkdirSync(logDir, { recursive: true });
-    }
-    const logFile = path.join(logDir, 'mcp-debug.log');
-    fs.appendFileSync(logFile, logMessage + '\n');
-  } catch (error) {
-    console.error('Failed to write to log file:', error);
-  }
-}
-
-export { REPO_TOOLS, configureRepoTools };
+export { REPO_TOOLS, REPO_TOOLSET, configureRepoTools };
@@ -1,13 +1,15 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { IGitApi } from "azure-devops-node-api/GitApi.js";
 import { z } from "zod";
+import { AzureDevOpsRequestError, withErrorHandling } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
+import { Toolset } from "../toolsets.js";
 import { apiVersion, userAgent } from "../utils.js";
-import { orgName } from "../index.js";
+import { getSearchBaseUrl } from "../org.js";
 import { VersionControlRecursionType } from "azure-devops-node-api/interfaces/GitInterfaces.js";
 import { GitItem } from "azure-devops-node-api/interfaces/GitInterfaces.js";
 
@@ -17,7 +19,16 @@ const SEARCH_TOOLS = {
   search_workitem: "search_workitem",
 };
 
-function configureSearchTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const SEARCH_TOOLSET: Toolset = {
+  name: "search",
+  tools: {
+    [SEARCH_TOOLS.search_code]: { readOnly: true },
+    [SEARCH_TOOLS.search_wiki]: { readOnly: true },
+    [SEARCH_TOOLS.search_workitem]: { readOnly: true },
+  },
+};
+
+function configureSearchTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   /*
     CODE SEARCH
     Get the code search results for a given search text.
@@ -50,23 +61,27 @@ function configureSearchTools(server: McpServer, tokenProvider: () => Promise<Ac
         })
         .strict(),
     },
-    async ({ searchRequest }) => {
-      const accessToken = await tokenProvider();
+    withErrorHandling("searching code", async ({ searchRequest }) => {
+      const authHeader = await authHeaderProvider();
       const connection = await connectionProvider();
-      const url = `https://almsearch.dev.azure.com/${orgName}/_apis/search/codesearchresults?api-version=${apiVersion}`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken.token}`,
-          "User-Agent": `${userAgent}`,
+      const url = `${getSearchBaseUrl(connection.serverUrl)}/_apis/search/codesearchresults?api-version=${apiVersion}`;
+
+      const response = await fetchWithRetry(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": authHeader,
+            "User-Agent": `${userAgent}`,
+          },
+          body: JSON.stringify(searchRequest),
         },
-        body: JSON.stringify(searchRequest),
-      });
+        { idempotent: true }
+      );
 
       if (!response.ok) {
-        throw new Error(`Azure DevOps Code Search API error: ${response.status} ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Azure DevOps Code Search API error");
       }
 
       const resultText = await response.text();
@@ -80,7 +95,7 @@ function configureSearchTools(server: McpServer, tokenProvider: () => Promise<Ac
       return {
         content: [{ type: "text", text: resultText + JSON.stringify(combinedResults) }],
       };
-    }
+    })
   );
 
   /*
@@ -108,29 +123,34 @@ function configureSearchTools(server: McpServer, tokenProvider: () => Promise<Ac
         })
         .strict(),
     },
-    async ({ searchRequest }) => {
-      const accessToken = await tokenProvider();
-      const url = `https://almsearch.dev.azure.com/${orgName}/_apis/search/wikisearchresults?api-version=${apiVersion}`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken.token}`,
-          "User-Agent": `${userAgent}`,
+    withErrorHandling("searching wikis", async ({ searchRequest }) => {
+      const authHeader = await authHeaderProvider();
+      const connection = await connectionProvider();
+      const url = `${getSearchBaseUrl(connection.serverUrl)}/_apis/search/wikisearchresults?api-version=${apiVersion}`;
+
+      const response = await fetchWithRetry(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": authHeader,
+            "User-Agent": `${userAgent}`,
+          },
+          body: JSON.stringify(searchRequest),
         },
-        body: JSON.stringify(searchRequest),
-      });
+        { idempotent: true }
+      );
 
       if (!response.ok) {
-        throw new Error(`Azure DevOps Wiki Search API error: ${response.status} ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Azure DevOps Wiki Search API error");
       }
 
       const result = await response.text();
       return {
         content: [{ type: "text", text: result }],
       };
-    }
+    })
   );
 
   /*
@@ -160,29 +180,34 @@ function configureSearchTools(server: McpServer, tokenProvider: () => Promise<Ac
         })
         .strict(),
     },
-    async ({ searchRequest }) => {
-      const accessToken = await tokenProvider();
-      const url = `https://almsearch.dev.azure.com/${orgName}/_apis/search/workitemsearchresults?api-version=${apiVersion}`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken.token}`,
-          "User-Agent": `${userAgent}`,
+    withErrorHandling("searching work items", async ({ searchRequest }) => {
+      const authHeader = await authHeaderProvider();
+      const connection = await connectionProvider();
+      const url = `${getSearchBaseUrl(connection.serverUrl)}/_apis/search/workitemsearchresults?api-version=${apiVersion}`;
+
+      const response = await fetchWithRetry(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": authHeader,
+            "User-Agent": `${userAgent}`,
+          },
+          body: JSON.stringify(searchRequest),
         },
-        body: JSON.stringify(searchRequest),
-      });
+        { idempotent: true }
+      );
 
       if (!response.ok) {
-        throw new Error(`Azure DevOps Work Item Search API error: ${response.status} ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Azure DevOps Work Item Search API error");
       }
 
       const result = await response.text();
       return {
         content: [{ type: "text", text: result }],
       };
-    }
+    })
   );
 }
 
@@ -243,4 +268,4 @@ async function fetchCombinedResults(topSearchResults: SearchResult[], gitApi: IG
   return combinedResults;
 }
 
-export { SEARCH_TOOLS, configureSearchTools };
+export { SEARCH_TOOLS, SEARCH_TOOLSET, configureSearchTools };
@@ -1,11 +1,12 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { TestPlanCreateParams } from "azure-devops-node-api/interfaces/TestPlanInterfaces.js";
 import { z } from "zod";
+import { withErrorHandling } from "../errors.js";
+import { Toolset } from "../toolsets.js";
 
 const Test_Plan_Tools = {
   create_test_plan: "testplan_create_test_plan",
@@ -16,7 +17,19 @@ const Test_Plan_Tools = {
   list_test_plans: "testplan_list_test_plans",
 };
 
-function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const TEST_PLAN_TOOLSET: Toolset = {
+  name: "testplans",
+  tools: {
+    [Test_Plan_Tools.create_test_plan]: { readOnly: false },
+    [Test_Plan_Tools.create_test_case]: { readOnly: false },
+    [Test_Plan_Tools.add_test_cases_to_suite]: { readOnly: false },
+    [Test_Plan_Tools.test_results_from_build_id]: { readOnly: true },
+    [Test_Plan_Tools.list_test_cases]: { readOnly: true },
+    [Test_Plan_Tools.list_test_plans]: { readOnly: true },
+  },
+};
+
+function configureTestPlanTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   /*
     LIST OF TEST PLANS
     get list of test plans by project
@@ -30,7 +43,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       includePlanDetails: z.boolean().default(false).describe("Include detailed information about each test plan."),
       continuationToken: z.string().optional().describe("Token to continue fetching test plans from a previous request."),
     },
-    async ({ project, filterActivePlans, includePlanDetails, continuationToken }) => {
+    withErrorHandling("fetching test plans", async ({ project, filterActivePlans, includePlanDetails, continuationToken }) => {
       const owner = ""; //making owner an empty string untill we can figure out how to get owner id
       const connection = await connectionProvider();
       const testPlanApi = await connection.getTestPlanApi();
@@ -40,7 +53,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(testPlans, null, 2) }],
       };
-    }
+    })
   );
 
   /*
@@ -58,7 +71,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       endDate: z.string().optional().describe("The end date of the test plan"),
       areaPath: z.string().optional().describe("The area path for the test plan"),
     },
-    async ({ project, name, iteration, description, startDate, endDate, areaPath }) => {
+    withErrorHandling("creating test plan", async ({ project, name, iteration, description, startDate, endDate, areaPath }) => {
       const connection = await connectionProvider();
       const testPlanApi = await connection.getTestPlanApi();
 
@@ -76,7 +89,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(createdTestPlan, null, 2) }],
       };
-    }
+    })
   );
 
   /*
@@ -91,7 +104,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       suiteId: z.number().describe("The ID of the test suite."),
       testCaseIds: z.string().or(z.array(z.string())).describe("The ID(s) of the test case(s) to add. "),
     },
-    async ({ project, planId, suiteId, testCaseIds }) => {
+    withErrorHandling("adding test cases to suite", async ({ project, planId, suiteId, testCaseIds }) => {
       const connection = await connectionProvider();
       const testApi = await connection.getTestApi();
 
@@ -103,7 +116,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(addedTestCases, null, 2) }],
       };
-    }
+    })
   );
 
   /*
@@ -120,7 +133,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       areaPath: z.string().optional().describe("The area path for the test case."),
       iterationPath: z.string().optional().describe("The iteration path for the test case."),
     },
-    async ({ project, title, steps, priority, areaPath, iterationPath }) => {
+    withErrorHandling("creating test case", async ({ project, title, steps, priority, areaPath, iterationPath }) => {
       const connection = await connectionProvider();
       const witClient = await connection.getWorkItemTrackingApi();
 
@@ -175,7 +188,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workItem, null, 2) }],
       };
-    }
+    })
   );
 
   /* 
@@ -190,7 +203,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       planid: z.number().describe("The ID of the test plan."),
       suiteid: z.number().describe("The ID of the test suite."),
     },
-    async ({ project, planid, suiteid }) => {
+    withErrorHandling("fetching test cases", async ({ project, planid, suiteid }) => {
       const connection = await connectionProvider();
       const coreApi = await connection.getTestPlanApi();
       const testcases = await coreApi.getTestCaseList(project, planid, suiteid);
@@ -198,7 +211,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(testcases, null, 2) }],
       };
-    }
+    })
   );
 
   /*
@@ -211,7 +224,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The unique identifier (ID or name) of the Azure DevOps project."),
       buildid: z.number().describe("The ID of the build."),
     },
-    async ({ project, buildid }) => {
+    withErrorHandling("fetching test results", async ({ project, buildid }) => {
       const connection = await connectionProvider();
       const coreApi = await connection.getTestResultsApi();
       const testResults = await coreApi.getTestResultDetailsForBuild(project, buildid);
@@ -219,7 +232,7 @@ function configureTestPlanTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(testResults, null, 2) }],
       };
-    }
+    })
   );
 }
 
@@ -271,4 +284,4 @@ function escapeXml(unsafe: string): string {
   });
 }
 
-export { Test_Plan_Tools, configureTestPlanTools };
+export { Test_Plan_Tools, TEST_PLAN_TOOLSET, configureTestPlanTools };
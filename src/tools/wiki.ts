@@ -1,10 +1,11 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { z } from "zod";
+import { withErrorHandling } from "../errors.js";
+import { Toolset } from "../toolsets.js";
 import { WikiPagesBatchRequest } from "azure-devops-node-api/interfaces/WikiInterfaces.js";
 
 const WIKI_TOOLS = {
@@ -14,7 +15,17 @@ const WIKI_TOOLS = {
   get_wiki_page_content: "wiki_get_page_content",
 };
 
-function configureWikiTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const WIKI_TOOLSET: Toolset = {
+  name: "wiki",
+  tools: {
+    [WIKI_TOOLS.list_wikis]: { readOnly: true },
+    [WIKI_TOOLS.get_wiki]: { readOnly: true },
+    [WIKI_TOOLS.list_wiki_pages]: { readOnly: true },
+    [WIKI_TOOLS.get_wiki_page_content]: { readOnly: true },
+  },
+};
+
+function configureWikiTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   server.tool(
     WIKI_TOOLS.get_wiki,
     "Get the wiki by wikiIdentifier",
@@ -22,28 +33,19 @@ function configureWikiTools(server: McpServer, tokenProvider: () => Promise<Acce
       wikiIdentifier: z.string().describe("The unique identifier of the wiki."),
       project: z.string().optional().describe("The project name or ID where the wiki is located. If not provided, the default project will be used."),
     },
-    async ({ wikiIdentifier, project }) => {
-      try {
-        const connection = await connectionProvider();
-        const wikiApi = await connection.getWikiApi();
-        const wiki = await wikiApi.getWiki(wikiIdentifier, project);
-
-        if (!wiki) {
-          return { content: [{ type: "text", text: "No wiki found" }], isError: true };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(wiki, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
-        return {
-          content: [{ type: "text", text: `Error fetching wiki: ${errorMessage}` }],
-          isError: true,
-        };
+    withErrorHandling("fetching wiki", async ({ wikiIdentifier, project }) => {
+      const connection = await connectionProvider();
+      const wikiApi = await connection.getWikiApi();
+      const wiki = await wikiApi.getWiki(wikiIdentifier, project);
+
+      if (!wiki) {
+        return { content: [{ type: "text", text: "No wiki found" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(wiki, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -52,28 +54,19 @@ function configureWikiTools(server: McpServer, tokenProvider: () => Promise<Acce
     {
       project: z.string().optional().describe("The project name or ID to filter wikis. If not provided, all wikis in the organization will be returned."),
     },
-    async ({ project }) => {
-      try {
-        const connection = await connectionProvider();
-        const wikiApi = await connection.getWikiApi();
-        const wikis = await wikiApi.getAllWikis(project);
-
-        if (!wikis) {
-          return { content: [{ type: "text", text: "No wikis found" }], isError: true };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(wikis, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
-        return {
-          content: [{ type: "text", text: `Error fetching wikis: ${errorMessage}` }],
-          isError: true,
-        };
+    withErrorHandling("fetching wikis", async ({ project }) => {
+      const connection = await connectionProvider();
+      const wikiApi = await connection.getWikiApi();
+      const wikis = await wikiApi.getAllWikis(project);
+
+      if (!wikis) {
+        return { content: [{ type: "text", text: "No wikis found" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(wikis, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -86,35 +79,26 @@ function configureWikiTools(server: McpServer, tokenProvider: () => Promise<Acce
       continuationToken: z.string().optional().describe("Token for pagination to retrieve the next set of pages."),
       pageViewsForDays: z.number().optional().describe("Number of days to retrieve page views for. If not specified, page views are not included."),
     },
-    async ({ wikiIdentifier, project, top = 20, continuationToken, pageViewsForDays }) => {
-      try {
-        const connection = await connectionProvider();
-        const wikiApi = await connection.getWikiApi();
-
-        const pagesBatchRequest: WikiPagesBatchRequest = {
-          top,
-          continuationToken,
-          pageViewsForDays,
-        };
-
-        const pages = await wikiApi.getPagesBatch(pagesBatchRequest, project, wikiIdentifier);
-
-        if (!pages) {
-          return { content: [{ type: "text", text: "No wiki pages found" }], isError: true };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(pages, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
-        return {
-          content: [{ type: "text", text: `Error fetching wiki pages: ${errorMessage}` }],
-          isError: true,
-        };
+    withErrorHandling("fetching wiki pages", async ({ wikiIdentifier, project, top = 20, continuationToken, pageViewsForDays }) => {
+      const connection = await connectionProvider();
+      const wikiApi = await connection.getWikiApi();
+
+      const pagesBatchRequest: WikiPagesBatchRequest = {
+        top,
+        continuationToken,
+        pageViewsForDays,
+      };
+
+      const pages = await wikiApi.getPagesBatch(pagesBatchRequest, project, wikiIdentifier);
+
+      if (!pages) {
+        return { content: [{ type: "text", text: "No wiki pages found" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(pages, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -125,31 +109,22 @@ function configureWikiTools(server: McpServer, tokenProvider: () => Promise<Acce
       project: z.string().describe("The project name or ID where the wiki is located."),
       path: z.string().describe("The path of the wiki page to retrieve content for."),
     },
-    async ({ wikiIdentifier, project, path }) => {
-      try {
-        const connection = await connectionProvider();
-        const wikiApi = await connection.getWikiApi();
+    withErrorHandling("fetching wiki page content", async ({ wikiIdentifier, project, path }) => {
+      const connection = await connectionProvider();
+      const wikiApi = await connection.getWikiApi();
 
-        const stream = await wikiApi.getPageText(project, wikiIdentifier, path, undefined, undefined, true);
+      const stream = await wikiApi.getPageText(project, wikiIdentifier, path, undefined, undefined, true);
 
-        if (!stream) {
-          return { content: [{ type: "text", text: "No wiki page content found" }], isError: true };
-        }
-
-        const content = await streamToString(stream);
+      if (!stream) {
+        return { content: [{ type: "text", text: "No wiki page content found" }], isError: true };
+      }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(content, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      const content = await streamToString(stream);
 
-        return {
-          content: [{ type: "text", text: `Error fetching wiki page content: ${errorMessage}` }],
-          isError: true,
-        };
-      }
-    }
+      return {
+        content: [{ type: "text", text: JSON.stringify(content, null, 2) }],
+      };
+    })
   );
 }
 
@@ -163,4 +138,4 @@ function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
   });
 }
 
-export { WIKI_TOOLS, configureWikiTools };
+export { WIKI_TOOLS, WIKI_TOOLSET, configureWikiTools };
@@ -1,19 +1,88 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { z } from "zod";
-import { TreeStructureGroup } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { BadRequestError, withErrorHandling } from "../errors.js";
+import { Toolset } from "../toolsets.js";
+import { TreeStructureGroup, WorkItemErrorPolicy } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { CapacityPatch } from "azure-devops-node-api/interfaces/WorkInterfaces.js";
+import { getCardMovePatch, getCardPosition, summarizeBoard } from "./boards.js";
+import { getCapacitySummary, toDateRanges } from "./capacity.js";
+import { CLASSIFICATION_STRUCTURES, countDescendants, getStructureGroup, toClassificationTree, toItemPath, toIterationDates, toNodePath } from "./classification.js";
+import { DEFAULT_POINTS_FIELD, getSprintMetrics } from "./metrics.js";
+import { createDryRunResult, dryRunParameter, previewWorkItemUpdate } from "./preview.js";
+
+// Cards found by querying the board, beyond which the result is truncated
+const BOARD_CARD_LIMIT = 1000;
+
+// getWorkItemsBatch accepts at most 200 IDs per call
+const BATCH_SIZE = 200;
+
+const structureParameter = z.enum(CLASSIFICATION_STRUCTURES).describe("Whether to work on area paths or iteration paths.");
+
+const dateRangesParameter = z
+  .array(
+    z.object({
+      start: z.string().describe("The first day off, as an ISO date, e.g. '2025-06-02'."),
+      end: z.string().describe("The last day off, as an ISO date. Use the start date for a single day."),
+    })
+  )
+  .describe("Days off as date ranges; both ends are included.");
 
 const WORK_TOOLS = {
   list_team_iterations: "work_list_team_iterations",
   create_iterations: "work_create_iterations",
   assign_iterations: "work_assign_iterations",
+  get_team_capacity: "work_get_team_capacity",
+  update_team_member_capacity: "work_update_team_member_capacity",
+  get_team_days_off: "work_get_team_days_off",
+  update_team_days_off: "work_update_team_days_off",
+  get_capacity_summary: "work_get_capacity_summary",
+  get_sprint_metrics: "work_get_sprint_metrics",
+  list_boards: "work_list_boards",
+  get_board: "work_get_board",
+  get_board_cards: "work_get_board_cards",
+  move_board_card: "work_move_board_card",
+  get_taskboard: "work_get_taskboard",
+  move_taskboard_item: "work_move_taskboard_item",
+  get_classification_tree: "work_get_classification_tree",
+  create_classification_node: "work_create_classification_node",
+  update_classification_node: "work_update_classification_node",
+  delete_classification_node: "work_delete_classification_node",
+  get_team_area_settings: "work_get_team_area_settings",
+  update_team_area_settings: "work_update_team_area_settings",
 };
 
-function configureWorkTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+const WORK_TOOLSET: Toolset = {
+  name: "work",
+  tools: {
+    [WORK_TOOLS.list_team_iterations]: { readOnly: true },
+    [WORK_TOOLS.create_iterations]: { readOnly: false },
+    [WORK_TOOLS.assign_iterations]: { readOnly: false },
+    [WORK_TOOLS.get_team_capacity]: { readOnly: true },
+    [WORK_TOOLS.update_team_member_capacity]: { readOnly: false },
+    [WORK_TOOLS.get_team_days_off]: { readOnly: true },
+    [WORK_TOOLS.update_team_days_off]: { readOnly: false },
+    [WORK_TOOLS.get_capacity_summary]: { readOnly: true },
+    [WORK_TOOLS.get_sprint_metrics]: { readOnly: true },
+    [WORK_TOOLS.list_boards]: { readOnly: true },
+    [WORK_TOOLS.get_board]: { readOnly: true },
+    [WORK_TOOLS.get_board_cards]: { readOnly: true },
+    [WORK_TOOLS.move_board_card]: { readOnly: false },
+    [WORK_TOOLS.get_taskboard]: { readOnly: true },
+    [WORK_TOOLS.move_taskboard_item]: { readOnly: false },
+    [WORK_TOOLS.get_classification_tree]: { readOnly: true },
+    [WORK_TOOLS.create_classification_node]: { readOnly: false },
+    [WORK_TOOLS.update_classification_node]: { readOnly: false },
+    [WORK_TOOLS.delete_classification_node]: { readOnly: false, destructive: true },
+    [WORK_TOOLS.get_team_area_settings]: { readOnly: true },
+    [WORK_TOOLS.update_team_area_settings]: { readOnly: false },
+  },
+};
+
+function configureWorkTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
   server.tool(
     WORK_TOOLS.list_team_iterations,
     "Retrieve a list of iterations for a specific team in a project.",
@@ -22,28 +91,19 @@ function configureWorkTools(server: McpServer, tokenProvider: () => Promise<Acce
       team: z.string().describe("The name or ID of the Azure DevOps team."),
       timeframe: z.enum(["current"]).optional().describe("The timeframe for which to retrieve iterations. Currently, only 'current' is supported."),
     },
-    async ({ project, team, timeframe }) => {
-      try {
-        const connection = await connectionProvider();
-        const workApi = await connection.getWorkApi();
-        const iterations = await workApi.getTeamIterations({ project, team }, timeframe);
-
-        if (!iterations) {
-          return { content: [{ type: "text", text: "No iterations found" }], isError: true };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(iterations, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    withErrorHandling("fetching team iterations", async ({ project, team, timeframe }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const iterations = await workApi.getTeamIterations({ project, team }, timeframe);
 
-        return {
-          content: [{ type: "text", text: `Error fetching team iterations: ${errorMessage}` }],
-          isError: true,
-        };
+      if (!iterations) {
+        return { content: [{ type: "text", text: "No iterations found" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(iterations, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -61,47 +121,38 @@ function configureWorkTools(server: McpServer, tokenProvider: () => Promise<Acce
         )
         .describe("An array of iterations to create. Each iteration must have a name and can optionally have start and finish dates in ISO format."),
     },
-    async ({ project, iterations }) => {
-      try {
-        const connection = await connectionProvider();
-        const workItemTrackingApi = await connection.getWorkItemTrackingApi();
-        const results = [];
-
-        for (const { iterationName, startDate, finishDate } of iterations) {
-          // Step 1: Create the iteration
-          const iteration = await workItemTrackingApi.createOrUpdateClassificationNode(
-            {
-              name: iterationName,
-              attributes: {
-                startDate: startDate ? new Date(startDate) : undefined,
-                finishDate: finishDate ? new Date(finishDate) : undefined,
-              },
-            },
-            project,
-            TreeStructureGroup.Iterations
-          );
+    withErrorHandling("creating iterations", async ({ project, iterations }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+      const results = [];
 
-          if (iteration) {
-            results.push(iteration);
-          }
-        }
+      for (const { iterationName, startDate, finishDate } of iterations) {
+        // Step 1: Create the iteration
+        const iteration = await workItemTrackingApi.createOrUpdateClassificationNode(
+          {
+            name: iterationName,
+            attributes: {
+              startDate: startDate ? new Date(startDate) : undefined,
+              finishDate: finishDate ? new Date(finishDate) : undefined,
+            },
+          },
+          project,
+          TreeStructureGroup.Iterations
+        );
 
-        if (results.length === 0) {
-          return { content: [{ type: "text", text: "No iterations were created" }], isError: true };
+        if (iteration) {
+          results.push(iteration);
         }
+      }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
-        return {
-          content: [{ type: "text", text: `Error creating iterations: ${errorMessage}` }],
-          isError: true,
-        };
+      if (results.length === 0) {
+        return { content: [{ type: "text", text: "No iterations were created" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -119,38 +170,597 @@ function configureWorkTools(server: McpServer, tokenProvider: () => Promise<Acce
         )
         .describe("An array of iterations to assign. Each iteration must have an identifier and a path."),
     },
-    async ({ project, team, iterations }) => {
-      try {
-        const connection = await connectionProvider();
-        const workApi = await connection.getWorkApi();
-        const teamContext = { project, team };
-        const results = [];
+    withErrorHandling("assigning iterations", async ({ project, team, iterations }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const results = [];
 
-        for (const { identifier, path } of iterations) {
-          const assignment = await workApi.postTeamIteration({ path: path, id: identifier }, teamContext);
+      for (const { identifier, path } of iterations) {
+        const assignment = await workApi.postTeamIteration({ path: path, id: identifier }, teamContext);
 
-          if (assignment) {
-            results.push(assignment);
-          }
+        if (assignment) {
+          results.push(assignment);
         }
+      }
+
+      if (results.length === 0) {
+        return { content: [{ type: "text", text: "No iterations were assigned to the team" }], isError: true };
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_team_capacity,
+    "Get the capacity per activity and the days off of each team member for an iteration, with team totals.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+    },
+    withErrorHandling("fetching team capacity", async ({ project, team, iterationId }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const capacity = await workApi.getCapacitiesWithIdentityRefAndTotals({ project, team }, iterationId);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(capacity, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.update_team_member_capacity,
+    "Set the capacity per activity and/or the personal days off of a team member for an iteration. What is given replaces the current value.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+      teamMemberId: z.string().describe("The identity ID of the team member."),
+      activities: z
+        .array(
+          z.object({
+            name: z.string().describe("The activity, e.g. 'Development' or 'Testing'. Use an empty string for capacity without an activity."),
+            capacityPerDay: z.number().min(0).describe("Hours per working day."),
+          })
+        )
+        .optional()
+        .describe("The capacity of the member per activity. Leave out to keep the current capacity."),
+      daysOff: dateRangesParameter.optional().describe("The personal days off of the member as date ranges; both ends are included. Leave out to keep the current days off."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating team member capacity", async ({ project, team, iterationId, teamMemberId, activities, daysOff, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const patch: CapacityPatch = {};
+      if (activities) {
+        patch.activities = activities;
+      }
+      if (daysOff) {
+        patch.daysOff = toDateRanges(daysOff);
+      }
+
+      if (dryRun) {
+        const capacity = await workApi.getCapacitiesWithIdentityRefAndTotals(teamContext, iterationId);
+        const current = capacity.teamMembers?.find((member) => member.teamMember?.id === teamMemberId);
+        return createDryRunResult({
+          teamMember: current?.teamMember?.displayName ?? teamMemberId,
+          changes: Object.entries(patch).map(([field, after]) => ({ field, before: current?.[field as keyof CapacityPatch] ?? [], after })),
+        });
+      }
+
+      const capacity = await workApi.updateCapacityWithIdentityRef(patch, teamContext, iterationId, teamMemberId);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(capacity, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_team_days_off,
+    "Get the days off of a team for an iteration.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+    },
+    withErrorHandling("fetching team days off", async ({ project, team, iterationId }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const daysOff = await workApi.getTeamDaysOff({ project, team }, iterationId);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(daysOff, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.update_team_days_off,
+    "Set the days off of a team for an iteration, replacing the current ones. Pass an empty list to clear them.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+      daysOff: dateRangesParameter,
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating team days off", async ({ project, team, iterationId, daysOff, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const ranges = toDateRanges(daysOff);
+
+      if (dryRun) {
+        const current = await workApi.getTeamDaysOff(teamContext, iterationId);
+        return createDryRunResult({ changes: [{ field: "daysOff", before: current.daysOff ?? [], after: ranges }] });
+      }
+
+      const result = await workApi.updateTeamDaysOff({ daysOff: ranges }, teamContext, iterationId);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_capacity_summary,
+    "Compare each team member's capacity left in an iteration with the remaining work assigned to them, flagging overcommitted people. Also totals the team and each activity.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+      asOf: z.string().optional().describe("Count capacity from this ISO date instead of today. Days before the iteration starts are never counted."),
+    },
+    withErrorHandling("summarizing team capacity", async ({ project, team, iterationId, asOf }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const summary = await getCapacitySummary(workApi, workItemApi, { project, team }, iterationId, asOf ? new Date(asOf) : new Date());
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_sprint_metrics,
+    "Get the burndown of an iteration day by day (remaining work and completed story points), the scope added, removed or re-estimated during it, the work left over at its end, and the team's velocity over recent iterations. Takes a query per working day of the iteration and per velocity iteration.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration, as returned by work_list_team_iterations."),
+      velocityIterations: z.number().int().min(1).max(10).default(3).describe("How many iterations, up to and including this one, the velocity covers. Defaults to 3."),
+      storyPointsField: z
+        .string()
+        .default(DEFAULT_POINTS_FIELD)
+        .describe(`The field holding the estimate. Defaults to '${DEFAULT_POINTS_FIELD}'; Scrum projects use 'Microsoft.VSTS.Scheduling.Effort' and CMMI projects 'Microsoft.VSTS.Scheduling.Size'.`),
+    },
+    withErrorHandling("computing sprint metrics", async ({ project, team, iterationId, velocityIterations, storyPointsField }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const metrics = await getSprintMetrics(workApi, workItemApi, { project, team }, iterationId, { velocityIterations, pointsField: storyPointsField });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(metrics, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.list_boards,
+    "List the Kanban boards of a team, one per backlog level such as Stories or Features.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+    },
+    withErrorHandling("fetching boards", async ({ project, team }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const boards = await workApi.getBoards({ project, team });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(boards, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_board,
+    "Get the columns of a Kanban board with their WIP limits, splits and state mappings, and its swimlanes.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      board: z.string().describe("The name or ID of the board, e.g. 'Stories'."),
+    },
+    withErrorHandling("fetching board", async ({ project, team, board }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const result = await workApi.getBoard({ project, team }, board);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(summarizeBoard(result), null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_board_cards,
+    "Get the column, Doing/Done split and swimlane of cards on a Kanban board, and how many cards each column holds against its WIP limit. Without ids, at most 1000 cards are returned; truncated is true when the board holds more, and the column counts then cover only the cards returned.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      board: z.string().describe("The name or ID of the board, e.g. 'Stories'."),
+      ids: z.array(z.number()).max(200).optional().describe("The work items to locate. Leave out for the cards on the board, without those in the last column."),
+    },
+    withErrorHandling("fetching board cards", async ({ project, team, board, ids }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const boardResult = await workApi.getBoard({ project, team }, board);
+      const { columns, fields } = summarizeBoard(boardResult);
+      if (!fields.column) {
+        throw new BadRequestError(`The board '${boardResult.name}' does not report its column field`);
+      }
 
-        if (results.length === 0) {
-          return { content: [{ type: "text", text: "No iterations were assigned to the team" }], isError: true };
+      let cardIds = ids;
+      let truncated = false;
+      if (!cardIds) {
+        const outgoing = columns.filter((column) => column.type === "outgoing").map((column) => ` AND [${fields.column}] <> '${column.name.replace(/'/g, "''")}'`);
+        const query = `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [${fields.column}] <> ''${outgoing.join("")} AND [System.State] <> 'Removed' ORDER BY [System.Id]`;
+        // One more than the limit tells a full board from a truncated one
+        const result = await workItemApi.queryByWiql({ query }, { project, team }, undefined, BOARD_CARD_LIMIT + 1);
+        cardIds = (result.workItems ?? []).map((reference) => reference.id as number);
+        truncated = cardIds.length > BOARD_CARD_LIMIT;
+        cardIds = cardIds.slice(0, BOARD_CARD_LIMIT);
+      }
+
+      const batches: number[][] = [];
+      for (let index = 0; index < cardIds.length; index += BATCH_SIZE) {
+        batches.push(cardIds.slice(index, index + BATCH_SIZE));
+      }
+      const workItems = (
+        await Promise.all(
+          batches.map((batch) =>
+            workItemApi.getWorkItemsBatch(
+              {
+                ids: batch,
+                fields: ["System.Id", "System.WorkItemType", "System.Title", "System.State", ...[fields.column, fields.done, fields.lane].filter((field): field is string => !!field)],
+                errorPolicy: WorkItemErrorPolicy.Omit,
+              },
+              project
+            )
+          )
+        )
+      ).flat();
+      const cards = workItems.filter((workItem) => workItem?.id !== undefined).map((workItem) => getCardPosition(boardResult, workItem));
+      const counts = columns.map(({ name, wipLimit }) => {
+        const count = cards.filter((card) => card.column === name).length;
+        return { name, wipLimit, count, overLimit: wipLimit !== undefined && count > wipLimit };
+      });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ cards, columns: counts, truncated }, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.move_board_card,
+    "Move a work item to a column, and optionally a swimlane, of a Kanban board. The state changes to the one the column maps to.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      board: z.string().describe("The name or ID of the board, e.g. 'Stories'."),
+      id: z.number().describe("The ID of the work item."),
+      column: z.string().describe("The name of the column to move the card to."),
+      lane: z.string().optional().describe("The name of the swimlane to move the card to. Use '(default lane)' for the default one. Leave out to keep the current lane."),
+      done: z.boolean().optional().describe("For a column split into Doing and Done, whether the card goes to Done. Defaults to Doing."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("moving board card", async ({ project, team, board, id, column, lane, done, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const [boardResult, workItem] = await Promise.all([
+        workApi.getBoard({ project, team }, board),
+        workItemApi.getWorkItem(id, ["System.WorkItemType", "System.State"], undefined, undefined, project),
+      ]);
+      const patch = getCardMovePatch(boardResult, workItem.fields?.["System.WorkItemType"], workItem.fields?.["System.State"], { column, lane, done });
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemUpdate(workItemApi, id, patch, project)] });
+      }
+
+      const updated = await workItemApi.updateWorkItem(null, patch, id, project);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(getCardPosition(boardResult, updated), null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_taskboard,
+    "Get the columns of a team's taskboard and, for an iteration, the column each work item is in.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().optional().describe("The ID of the iteration whose work items to place in columns."),
+    },
+    withErrorHandling("fetching taskboard", async ({ project, team, iterationId }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const [columns, workItems] = await Promise.all([workApi.getColumns({ project, team }), iterationId ? workApi.getWorkItemColumns({ project, team }, iterationId) : undefined]);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ columns: columns.columns ?? [], workItems }, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.move_taskboard_item,
+    "Move a work item to a column of the taskboard of an iteration.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      iterationId: z.string().describe("The ID of the iteration."),
+      id: z.number().describe("The ID of the work item."),
+      column: z.string().describe("The name of the taskboard column to move the work item to."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("moving taskboard item", async ({ project, team, iterationId, id, column, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const columns = (await workApi.getColumns(teamContext)).columns ?? [];
+      const target = columns.find((candidate) => candidate.name?.toLowerCase() === column.trim().toLowerCase());
+      if (!target?.name) {
+        throw new BadRequestError(`The taskboard has no column '${column}'. Columns: ${columns.map((candidate) => candidate.name).join(", ")}`);
+      }
+
+      if (dryRun) {
+        const current = (await workApi.getWorkItemColumns(teamContext, iterationId)).find((item) => item.workItemId === id);
+        return createDryRunResult({ workItemId: id, changes: [{ field: "column", before: current?.column, after: target.name }] });
+      }
+
+      await workApi.updateWorkItemColumn({ newColumn: target.name }, teamContext, iterationId, id);
+
+      return {
+        content: [{ type: "text", text: `Work item ${id} moved to the '${target.name}' column` }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_classification_tree,
+    "Get the area or iteration path tree of a project, or the part of it under a path, down to a given depth.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      structure: structureParameter,
+      path: z.string().optional().describe("The path of the node to start from, e.g. 'Fabrikam\\Web'. Leave out for the whole tree."),
+      depth: z.number().int().min(0).max(10).default(2).describe("How many levels of children to include. Defaults to 2."),
+    },
+    withErrorHandling("fetching classification tree", async ({ project, structure, path, depth }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+      const node = await workItemTrackingApi.getClassificationNode(project, getStructureGroup(structure), toNodePath(project, structure, path) || undefined, depth);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(toClassificationTree(node), null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.create_classification_node,
+    "Create an area or iteration path, at the root or nested under a parent path.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      structure: structureParameter,
+      name: z.string().describe("The name of the new node."),
+      parentPath: z.string().optional().describe("The path to create the node under, e.g. 'Fabrikam\\Release 1'. Leave out to create it at the root."),
+      startDate: z.string().optional().describe("For iterations, the start date in ISO format, e.g. '2025-06-02'. Give it together with finishDate."),
+      finishDate: z.string().optional().describe("For iterations, the finish date in ISO format, e.g. '2025-06-13'. Give it together with startDate."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("creating classification node", async ({ project, structure, name, parentPath, startDate, finishDate, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+      const group = getStructureGroup(structure);
+      const parent = toNodePath(project, structure, parentPath);
+      if (structure === "areas" && (startDate || finishDate)) {
+        throw new BadRequestError("Only iterations have start and finish dates");
+      }
+      const attributes = toIterationDates(startDate, finishDate);
+
+      if (dryRun) {
+        const parentNode = await workItemTrackingApi.getClassificationNode(project, group, parent || undefined, 1);
+        const existing = parentNode.children?.find((child) => child.name?.toLowerCase() === name.toLowerCase());
+        return createDryRunResult({ create: { path: `${toItemPath(parentNode.path)}\\${name}`, ...attributes }, alreadyExists: existing !== undefined });
+      }
+
+      const node = await workItemTrackingApi.createOrUpdateClassificationNode({ name, attributes }, project, group, parent || undefined);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(toClassificationTree(node), null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.update_classification_node,
+    "Rename an area or iteration path, move it under another parent, or change the dates of an iteration. Work items follow the node.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      structure: structureParameter,
+      path: z.string().describe("The path of the node to change, e.g. 'Fabrikam\\Web'."),
+      name: z.string().optional().describe("The new name of the node."),
+      parentPath: z.string().optional().describe("The path to move the node under. Use the project name to move it to the root."),
+      startDate: z.string().optional().describe("For iterations, the new start date in ISO format."),
+      finishDate: z.string().optional().describe("For iterations, the new finish date in ISO format."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating classification node", async ({ project, structure, path, name, parentPath, startDate, finishDate, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+      const group = getStructureGroup(structure);
+      const nodePath = toNodePath(project, structure, path);
+      const newParent = parentPath !== undefined ? toNodePath(project, structure, parentPath) : undefined;
+      if (!nodePath) {
+        throw new BadRequestError("The root node cannot be renamed or moved");
+      }
+      if (newParent !== undefined && (newParent.toLowerCase() === nodePath.toLowerCase() || newParent.toLowerCase().startsWith(`${nodePath.toLowerCase()}/`))) {
+        throw new BadRequestError(`'${path}' cannot be moved under itself`);
+      }
+      if (structure === "areas" && (startDate || finishDate)) {
+        throw new BadRequestError("Only iterations have start and finish dates");
+      }
+      if (name === undefined && newParent === undefined && !startDate && !finishDate) {
+        throw new BadRequestError("Give a new name, a new parent path or new dates");
+      }
+
+      const current = await workItemTrackingApi.getClassificationNode(project, group, nodePath, 0);
+      const attributes = toIterationDates(startDate, finishDate, current.attributes);
+
+      if (dryRun) {
+        const currentPath = toItemPath(current.path) as string;
+        const parentItemPath =
+          newParent !== undefined ? [currentPath.split("\\")[0], ...newParent.split("/").filter((segment) => segment !== "")].join("\\") : currentPath.substring(0, currentPath.lastIndexOf("\\"));
+        const changes: { field: string; before: unknown; after: unknown }[] = [{ field: "path", before: currentPath, after: `${parentItemPath}\\${name ?? current.name}` }];
+        for (const field of ["startDate", "finishDate"] as const) {
+          const before = current.attributes?.[field] ? new Date(current.attributes[field]).toISOString() : undefined;
+          const after = attributes?.[field] ? new Date(attributes[field]).toISOString() : undefined;
+          changes.push({ field, before, after });
         }
+        return createDryRunResult({ node: { id: current.id, changes: changes.filter((change) => change.before !== change.after) } });
+      }
+
+      let node = current;
+      if (name !== undefined || attributes) {
+        node = await workItemTrackingApi.updateClassificationNode({ name, attributes }, project, group, nodePath);
+      }
+      if (newParent !== undefined) {
+        // Posting an existing node's ID under another parent moves it there
+        node = await workItemTrackingApi.createOrUpdateClassificationNode({ id: current.id }, project, group, newParent || undefined);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(toClassificationTree(node), null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.delete_classification_node,
+    "Delete an area or iteration path and everything under it, moving its work items to another path.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      structure: structureParameter,
+      path: z.string().describe("The path of the node to delete, e.g. 'Fabrikam\\Web'."),
+      reclassifyPath: z.string().describe("The path work items of the deleted nodes move to, e.g. 'Fabrikam'."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("deleting classification node", async ({ project, structure, path, reclassifyPath, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+      const group = getStructureGroup(structure);
+      const nodePath = toNodePath(project, structure, path);
+      const reclassifyNodePath = toNodePath(project, structure, reclassifyPath);
+      if (!nodePath) {
+        throw new BadRequestError("The root node cannot be deleted");
+      }
+      if (reclassifyNodePath.toLowerCase() === nodePath.toLowerCase() || reclassifyNodePath.toLowerCase().startsWith(`${nodePath.toLowerCase()}/`)) {
+        throw new BadRequestError(`Work items cannot be moved to '${reclassifyPath}', which is deleted along with '${path}'`);
+      }
+      const reclassifyNode = await workItemTrackingApi.getClassificationNode(project, group, reclassifyNodePath || undefined, 0);
+
+      if (dryRun) {
+        const node = await workItemTrackingApi.getClassificationNode(project, group, nodePath, 10);
+        return createDryRunResult({ delete: { id: node.id, path: toItemPath(node.path), descendants: countDescendants(node) }, reclassifyTo: toItemPath(reclassifyNode.path) });
+      }
+
+      await workItemTrackingApi.deleteClassificationNode(project, group, nodePath, reclassifyNode.id);
+
+      return {
+        content: [{ type: "text", text: `Deleted '${path}'; its work items moved to '${toItemPath(reclassifyNode.path)}'` }],
+      };
+    })
+  );
+
+  server.tool(
+    WORK_TOOLS.get_team_area_settings,
+    "Get the area paths a team owns and its default area path.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+    },
+    withErrorHandling("fetching team area settings", async ({ project, team }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const settings = await workApi.getTeamFieldValues({ project, team });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(settings, null, 2) }],
+      };
+    })
+  );
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+  server.tool(
+    WORK_TOOLS.update_team_area_settings,
+    "Set the area paths a team owns, whether each includes its sub-areas, and the team's default area path. Replaces the current settings.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      defaultArea: z.string().describe("The area path new work items of the team get, e.g. 'Fabrikam\\Web'. It must be one of the team's areas or under one that includes sub-areas."),
+      areas: z
+        .array(
+          z.object({
+            path: z.string().describe("The full area path, starting with the project name."),
+            includeSubAreas: z.boolean().default(false).describe("Whether the team also owns the areas under this path. Defaults to false."),
+          })
+        )
+        .min(1)
+        .describe("The area paths the team owns."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating team area settings", async ({ project, team, defaultArea, areas, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const values = areas.map(({ path, includeSubAreas }) => ({ value: path, includeChildren: includeSubAreas === true }));
+      const lowerDefault = defaultArea.toLowerCase();
+      if (!values.some(({ value, includeChildren }) => value.toLowerCase() === lowerDefault || (includeChildren && lowerDefault.startsWith(`${value.toLowerCase()}\\`)))) {
+        throw new BadRequestError(`The default area '${defaultArea}' is not one of the team's areas`);
+      }
 
-        return {
-          content: [{ type: "text", text: `Error assigning iterations: ${errorMessage}` }],
-          isError: true,
-        };
+      if (dryRun) {
+        const current = await workApi.getTeamFieldValues(teamContext);
+        return createDryRunResult({
+          changes: [
+            { field: "defaultArea", before: current.defaultValue, after: defaultArea },
+            { field: "areas", before: current.values ?? [], after: values },
+          ],
+        });
       }
-    }
+
+      const settings = await workApi.updateTeamFieldValues({ defaultValue: defaultArea, values }, teamContext);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(settings, null, 2) }],
+      };
+    })
   );
 }
 
-export { WORK_TOOLS, configureWorkTools };
+export { WORK_TOOLS, WORK_TOOLSET, configureWorkTools };
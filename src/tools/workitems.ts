@@ -1,18 +1,52 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AccessToken } from "@azure/identity";
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
-import { WorkItemExpand } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import {
+  CommentReactionType,
+  CommentSortOrder,
+  QueryHierarchyItem,
+  QueryType,
+  WorkItem,
+  WorkItemErrorPolicy,
+  WorkItemExpand,
+  WorkItemRelation,
+  WorkItemUpdate,
+} from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
 import { QueryExpand } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
 import { z } from "zod";
-import { batchApiVersion, userAgent } from "../utils.js";
+import { AzureDevOpsRequestError, BadRequestError, withErrorHandling } from "../errors.js";
+import { fetchWithRetry } from "../http.js";
+import { Toolset } from "../toolsets.js";
+import { batchApiVersion, streamToBuffer, userAgent } from "../utils.js";
+import {
+  ATTACHMENT_RELATION,
+  createAttachmentContentResult,
+  getAttachmentFileName,
+  getAttachmentId,
+  getMimeType,
+  isAttachmentRelation,
+  readAttachmentSource,
+  toAttachmentInfo,
+} from "./attachments.js";
+import { BACKLOG_POSITIONS, getBacklogOrder, getBacklogParentId, getRankedBacklog, planReorder } from "./backlog.js";
+import { BULK_INPUT_FORMATS, BulkItem, parseBulkInput } from "./bulk.js";
+import { createFieldValidator, FieldOperation, FieldValidationIssue, FieldValue, fieldValueSchema, formatFieldIssues } from "./fields.js";
+import { getWorkItemTree } from "./hierarchy.js";
+import { ARTIFACT_LINK_NAMES, ARTIFACT_TYPES, createLinkTypeResolver, getArtifactUri, getLinkedWorkItemId, getWorkItemLinkUrl } from "./links.js";
+import { COMMENT_FORMATS, resolveMentions } from "./mentions.js";
+import { createDryRunResult, dryRunParameter, PatchOperation, previewWorkItemCreate, previewWorkItemUpdate, toDisplayValue } from "./preview.js";
 
 const WORKITEM_TOOLS = {
   my_work_items: "wit_my_work_items",
   list_backlogs: "wit_list_backlogs",
   list_backlog_work_items: "wit_list_backlog_work_items",
+  get_ranked_backlog: "wit_get_ranked_backlog",
+  reorder_backlog: "wit_reorder_backlog",
   get_work_item: "wit_get_work_item",
   get_work_items_batch_by_ids: "wit_get_work_items_batch_by_ids",
   update_work_item: "wit_update_work_item",
@@ -28,34 +62,278 @@ const WORKITEM_TOOLS = {
   update_work_items_batch: "wit_update_work_items_batch",
   close_and_link_workitem_duplicates: "wit_close_and_link_workitem_duplicates",
   work_items_link: "wit_work_items_link",
+  query_wiql: "wit_query_wiql",
+  create_query: "wit_create_query",
+  update_query: "wit_update_query",
+  move_query: "wit_move_query",
+  delete_query: "wit_delete_query",
+  get_work_item_history: "wit_get_work_item_history",
+  add_attachment: "wit_add_attachment",
+  list_attachments: "wit_list_attachments",
+  get_attachment: "wit_get_attachment",
+  get_work_item_tree: "wit_get_work_item_tree",
+  list_link_types: "wit_list_link_types",
+  add_artifact_link: "wit_add_artifact_link",
+  remove_work_item_link: "wit_remove_work_item_link",
+  bulk_create: "wit_bulk_create",
+  update_work_item_comment: "wit_update_work_item_comment",
+  delete_work_item_comment: "wit_delete_work_item_comment",
+  add_comment_reaction: "wit_add_comment_reaction",
+  remove_comment_reaction: "wit_remove_comment_reaction",
 };
 
-function getLinkTypeFromName(name: string) {
-  switch (name.toLowerCase()) {
-    case "parent":
-      return "System.LinkTypes.Hierarchy-Reverse";
-    case "child":
-      return "System.LinkTypes.Hierarchy-Forward";
-    case "duplicate":
-      return "System.LinkTypes.Duplicate-Forward";
-    case "duplicate of":
-      return "System.LinkTypes.Duplicate-Reverse";
-    case "related":
-      return "System.LinkTypes.Related";
-    case "successor":
-      return "System.LinkTypes.Dependency-Forward";
-    case "predecessor":
-      return "System.LinkTypes.Dependency-Reverse";
-    case "tested by":
-      return "Microsoft.VSTS.Common.TestedBy-Forward";
-    case "tests":
-      return "Microsoft.VSTS.Common.TestedBy-Reverse";
-    default:
-      throw new Error(`Unknown link type: ${name}`);
+const WORKITEM_TOOLSET: Toolset = {
+  name: "wit",
+  tools: {
+    [WORKITEM_TOOLS.my_work_items]: { readOnly: true },
+    [WORKITEM_TOOLS.list_backlogs]: { readOnly: true },
+    [WORKITEM_TOOLS.list_backlog_work_items]: { readOnly: true },
+    [WORKITEM_TOOLS.get_ranked_backlog]: { readOnly: true },
+    [WORKITEM_TOOLS.reorder_backlog]: { readOnly: false },
+    [WORKITEM_TOOLS.get_work_item]: { readOnly: true },
+    [WORKITEM_TOOLS.get_work_items_batch_by_ids]: { readOnly: true },
+    [WORKITEM_TOOLS.update_work_item]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.create_work_item]: { readOnly: false },
+    [WORKITEM_TOOLS.list_work_item_comments]: { readOnly: true },
+    [WORKITEM_TOOLS.get_work_items_for_iteration]: { readOnly: true },
+    [WORKITEM_TOOLS.add_work_item_comment]: { readOnly: false },
+    [WORKITEM_TOOLS.add_child_work_item]: { readOnly: false },
+    [WORKITEM_TOOLS.link_work_item_to_pull_request]: { readOnly: false },
+    [WORKITEM_TOOLS.get_work_item_type]: { readOnly: true },
+    [WORKITEM_TOOLS.get_query]: { readOnly: true },
+    [WORKITEM_TOOLS.get_query_results_by_id]: { readOnly: true },
+    [WORKITEM_TOOLS.update_work_items_batch]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.close_and_link_workitem_duplicates]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.work_items_link]: { readOnly: false },
+    [WORKITEM_TOOLS.query_wiql]: { readOnly: true },
+    [WORKITEM_TOOLS.create_query]: { readOnly: false },
+    [WORKITEM_TOOLS.update_query]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.move_query]: { readOnly: false },
+    [WORKITEM_TOOLS.delete_query]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.get_work_item_history]: { readOnly: true },
+    [WORKITEM_TOOLS.add_attachment]: { readOnly: false },
+    [WORKITEM_TOOLS.list_attachments]: { readOnly: true },
+    [WORKITEM_TOOLS.get_attachment]: { readOnly: true },
+    [WORKITEM_TOOLS.get_work_item_tree]: { readOnly: true },
+    [WORKITEM_TOOLS.list_link_types]: { readOnly: true },
+    [WORKITEM_TOOLS.add_artifact_link]: { readOnly: false },
+    [WORKITEM_TOOLS.remove_work_item_link]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.bulk_create]: { readOnly: false },
+    [WORKITEM_TOOLS.update_work_item_comment]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.delete_work_item_comment]: { readOnly: false, destructive: true },
+    [WORKITEM_TOOLS.add_comment_reaction]: { readOnly: false },
+    [WORKITEM_TOOLS.remove_comment_reaction]: { readOnly: false },
+  },
+};
+
+// getWorkItemsBatch accepts at most 200 IDs per call
+const WORK_ITEM_BATCH_SIZE = 200;
+const DEFAULT_QUERY_FIELDS = ["System.Id", "System.WorkItemType", "System.Title", "System.State", "System.AssignedTo"];
+
+const QUERY_TYPE_NAMES: Record<number, string> = {
+  [QueryType.Flat]: "flat",
+  [QueryType.Tree]: "tree",
+  [QueryType.OneHop]: "oneHop",
+};
+
+async function getWorkItemsInBatches(workItemApi: IWorkItemTrackingApi, project: string | undefined, ids: number[], fields: string[], asOf?: Date): Promise<WorkItem[]> {
+  const workItems: WorkItem[] = [];
+  for (let index = 0; index < ids.length; index += WORK_ITEM_BATCH_SIZE) {
+    const batch = await workItemApi.getWorkItemsBatch({ ids: ids.slice(index, index + WORK_ITEM_BATCH_SIZE), fields, asOf, errorPolicy: WorkItemErrorPolicy.Omit }, project);
+    // Work items deleted or not readable since the query ran come back as null
+    workItems.push(...batch.filter((workItem) => workItem));
+  }
+  return workItems;
+}
+
+/*
+  WIQL has no server-side paging, so the continuation token records the offset into the result together with
+  a hash of the query text, which guards against a token being used with a different query.
+*/
+function hashWiql(wiql: string): string {
+  return createHash("sha256").update(wiql.trim()).digest("hex").substring(0, 16);
+}
+
+function encodeWiqlContinuationToken(wiql: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ query: hashWiql(wiql), offset })).toString("base64url");
+}
+
+function decodeWiqlContinuationToken(wiql: string, token: string): number {
+  let cursor: { query?: unknown; offset?: unknown };
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new BadRequestError("Invalid continuationToken. Pass the value returned by the previous call unchanged.");
+  }
+  if (cursor.query !== hashWiql(wiql) || typeof cursor.offset !== "number" || !Number.isInteger(cursor.offset) || cursor.offset < 0) {
+    throw new BadRequestError("The continuationToken does not belong to this query. Run the query again without a continuationToken.");
+  }
+  return cursor.offset;
+}
+
+// getUpdates returns at most 200 updates per call
+const UPDATES_PAGE_SIZE = 200;
+
+// Fields Azure DevOps changes on every revision; they only add noise to a change log
+const BOOKKEEPING_FIELDS = ["System.Rev", "System.ChangedDate", "System.ChangedBy", "System.AuthorizedDate", "System.AuthorizedAs", "System.RevisedDate", "System.Watermark", "System.PersonId"];
+
+interface WorkItemFieldChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+interface WorkItemHistoryEntry {
+  rev?: number;
+  changedBy?: string;
+  changedDate?: string;
+  changes: WorkItemFieldChange[];
+  linksAdded?: string[];
+  linksRemoved?: string[];
+}
+
+function toHistoryEntry(update: WorkItemUpdate, fields: string[] | undefined, includeSystemFields: boolean): WorkItemHistoryEntry {
+  const requested = fields?.map((field) => field.toLowerCase());
+  const changes = Object.entries(update.fields ?? {})
+    .filter(([field]) => (requested ? requested.includes(field.toLowerCase()) : includeSystemFields || !BOOKKEEPING_FIELDS.includes(field)))
+    .map(([field, change]) => ({ field, oldValue: toDisplayValue(change.oldValue), newValue: toDisplayValue(change.newValue) }));
+  // Link changes are only reported when no field filter narrows the log
+  const describeLink = (relation: { rel?: string; url?: string }) => `${relation.rel} ${relation.url}`;
+  const linksAdded = requested ? undefined : update.relations?.added?.map(describeLink);
+  const linksRemoved = requested ? undefined : update.relations?.removed?.map(describeLink);
+  const changedDate = update.fields?.["System.ChangedDate"]?.newValue;
+
+  return {
+    rev: update.rev,
+    changedBy: update.revisedBy?.displayName,
+    changedDate: changedDate ? new Date(changedDate).toISOString() : undefined,
+    changes,
+    linksAdded: linksAdded?.length ? linksAdded : undefined,
+    linksRemoved: linksRemoved?.length ? linksRemoved : undefined,
+  };
+}
+
+function formatHistoryValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "_(empty)_";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/*
+  A date-only `until`, e.g. "2025-01-05", includes the changes made during that day (UTC).
+*/
+function toUntilDate(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function formatHistoryAsMarkdown(id: number, entries: WorkItemHistoryEntry[]): string {
+  const lines = [`## Work item ${id} history`];
+  for (const entry of entries) {
+    lines.push("", `### Rev ${entry.rev} · ${entry.changedDate ?? "unknown date"} · ${entry.changedBy ?? "unknown user"}`);
+    for (const change of entry.changes) {
+      lines.push(`- **${change.field}**: ${formatHistoryValue(change.oldValue)} → ${formatHistoryValue(change.newValue)}`);
+    }
+    for (const link of entry.linksAdded ?? []) {
+      lines.push(`- Added link ${link}`);
+    }
+    for (const link of entry.linksRemoved ?? []) {
+      lines.push(`- Removed link ${link}`);
+    }
   }
+  return lines.join("\n");
 }
 
-function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<AccessToken>, connectionProvider: () => Promise<WebApi>) {
+// Posting comments as markdown needs a newer version of the comments API than azure-devops-node-api uses
+const COMMENTS_API_VERSION = "7.2-preview.4";
+
+const COMMENT_REACTIONS: Record<string, CommentReactionType> = {
+  like: CommentReactionType.Like,
+  dislike: CommentReactionType.Dislike,
+  heart: CommentReactionType.Heart,
+  hooray: CommentReactionType.Hooray,
+  smile: CommentReactionType.Smile,
+  confused: CommentReactionType.Confused,
+};
+
+const commentFormatParameter = z
+  .enum(COMMENT_FORMATS)
+  .default("html")
+  .describe("Whether the comment is HTML (plain text works too) or markdown. Mention people as @jane@contoso.com or @\"Jane Doe\"; they are notified. Defaults to 'html'.");
+
+// $batch accepts at most 200 requests
+const BATCH_REQUEST_LIMIT = 200;
+
+function hasField(fields: Record<string, FieldValue>, referenceName: string, name: string): boolean {
+  return Object.keys(fields).some((field) => [referenceName.toLowerCase(), name.toLowerCase()].includes(field.toLowerCase()));
+}
+
+// Responses to individual $batch requests carry their body as a JSON string
+function getBatchItemError(item: { code?: number; body?: string }): string {
+  try {
+    const body = JSON.parse(item.body ?? "");
+    return body.message ?? body.value?.Message ?? `Request failed with status ${item.code}`;
+  } catch {
+    return item.body || `Request failed with status ${item.code}`;
+  }
+}
+
+function getParentQueryPath(path: string | undefined): string {
+  return path ? path.substring(0, path.lastIndexOf("/")) : "";
+}
+
+function getDescendantQueryPaths(query: QueryHierarchyItem): string[] {
+  return (query.children ?? []).flatMap((child) => [child.path ?? child.name ?? "", ...getDescendantQueryPaths(child)]);
+}
+
+// Lets Azure DevOps check the WIQL of a query without saving it
+async function validateQuery(workItemApi: IWorkItemTrackingApi, project: string, folder: string, name: string, wiql: string): Promise<{ valid: boolean; message?: string }> {
+  try {
+    await workItemApi.createQuery({ name, wiql }, project, folder, true);
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function configureWorkItemTools(server: McpServer, authHeaderProvider: () => Promise<string>, connectionProvider: () => Promise<WebApi>) {
+  // Field definitions are cached per organization, project and work item type
+  const fieldValidator = createFieldValidator();
+  // Link types are cached per organization
+  const linkTypeResolver = createLinkTypeResolver();
+
+  const sendMarkdownComment = async (method: "POST" | "PATCH", project: string, workItemId: number, text: string, commentId?: number) => {
+    const connection = await connectionProvider();
+    const url = `${connection.serverUrl}/${encodeURIComponent(project)}/_apis/wit/workItems/${workItemId}/comments${commentId !== undefined ? `/${commentId}` : ""}?format=markdown&api-version=${COMMENTS_API_VERSION}`;
+    const response = await fetchWithRetry(url, {
+      method,
+      headers: {
+        "Authorization": await authHeaderProvider(),
+        "Content-Type": "application/json",
+        "User-Agent": `${userAgent}`,
+      },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) {
+      throw await AzureDevOpsRequestError.fromResponse(response, method === "POST" ? "Failed to add comment" : "Failed to update comment");
+    }
+    return response.json();
+  };
+
+  const previewWorkItemUpdates = async (patches: { id: number; patch: PatchOperation[] }[], project?: string) => {
+    const connection = await connectionProvider();
+    const workItemApi = await connection.getWorkItemTrackingApi();
+    const previews = [];
+    for (const { id, patch } of patches) {
+      previews.push(await previewWorkItemUpdate(workItemApi, id, patch, project));
+    }
+    return previews;
+  };
+
   server.tool(
     WORKITEM_TOOLS.list_backlogs,
     "Revieve a list of backlogs for a given project and team.",
@@ -63,7 +341,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       team: z.string().describe("The name or ID of the Azure DevOps team."),
     },
-    async ({ project, team }) => {
+    withErrorHandling("fetching backlogs", async ({ project, team }) => {
       const connection = await connectionProvider();
       const workApi = await connection.getWorkApi();
       const teamContext = { project, team };
@@ -72,7 +350,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(backlogs, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -83,7 +361,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       team: z.string().describe("The name or ID of the Azure DevOps team."),
       backlogId: z.string().describe("The ID of the backlog category to retrieve work items from."),
     },
-    async ({ project, team, backlogId }) => {
+    withErrorHandling("fetching backlog work items", async ({ project, team, backlogId }) => {
       const connection = await connectionProvider();
       const workApi = await connection.getWorkApi();
       const teamContext = { project, team };
@@ -93,7 +371,62 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workItems, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.get_ranked_backlog,
+    "Get the work items of a team backlog in rank order, with their state, assignee and parent.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      backlogId: z.string().describe("The ID of the backlog category, e.g. 'Microsoft.RequirementCategory'."),
+      top: z.number().int().min(1).max(1000).default(100).describe("The number of work items from the top of the backlog to return. Defaults to 100."),
+    },
+    withErrorHandling("fetching ranked backlog", async ({ project, team, backlogId, top }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const backlog = await getRankedBacklog(workApi, workItemApi, { project, team }, backlogId, top);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(backlog, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.reorder_backlog,
+    "Move one or more work items to the top or bottom of a team backlog, or above or below another work item. Moved items keep the order they are given in and must share a parent.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().describe("The name or ID of the Azure DevOps team."),
+      backlogId: z.string().describe("The ID of the backlog category, e.g. 'Microsoft.RequirementCategory'."),
+      ids: z.array(z.number()).min(1).describe("The work items to move, in the order they should end up in."),
+      position: z.enum(BACKLOG_POSITIONS).describe("Where to move the work items: 'top', 'bottom', 'above' or 'below' the relativeTo work item."),
+      relativeTo: z.number().optional().describe("The work item to move the others above or below. Required for 'above' and 'below'."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("reordering backlog", async ({ project, team, backlogId, ids, position, relativeTo, dryRun }) => {
+      const connection = await connectionProvider();
+      const workApi = await connection.getWorkApi();
+      const teamContext = { project, team };
+      const backlog = await workApi.getBacklogLevelWorkItems(teamContext, backlogId);
+      // Items are ranked among the other children of their parent
+      const parentId = getBacklogParentId(backlog, ids, position === "above" || position === "below" ? relativeTo : undefined);
+      const order = getBacklogOrder(backlog, parentId);
+      const { previousId, nextId, order: newOrder } = planReorder(order, ids, position, relativeTo);
+
+      if (dryRun) {
+        return createDryRunResult({ parentId, previousId, nextId, moves: ids.map((id) => ({ id, rankBefore: order.indexOf(id) + 1, rankAfter: newOrder.indexOf(id) + 1 })) });
+      }
+
+      const result = await workApi.reorderBacklogWorkItems({ ids, previousId, nextId, parentId }, teamContext);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -105,7 +438,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       top: z.number().default(50).describe("The maximum number of work items to return. Defaults to 50."),
       includeCompleted: z.boolean().default(false).describe("Whether to include completed work items. Defaults to false."),
     },
-    async ({ project, type, top, includeCompleted }) => {
+    withErrorHandling("fetching my work items", async ({ project, type, top, includeCompleted }) => {
       const connection = await connectionProvider();
       const workApi = await connection.getWorkApi();
 
@@ -114,7 +447,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workItems, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -124,7 +457,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       ids: z.array(z.number()).describe("The IDs of the work items to retrieve."),
     },
-    async ({ project, ids }) => {
+    withErrorHandling("fetching work items", async ({ project, ids }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
       const fields = ["System.Id", "System.WorkItemType", "System.Title", "System.State", "System.Parent", "System.Tags"];
@@ -133,7 +466,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workitems, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -150,14 +483,79 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
         .optional()
         .describe("Expand options include 'all', 'fields', 'links', 'none', and 'relations'. Defaults to 'none'."),
     },
-    async ({ id, project, fields, asOf, expand }) => {
+    withErrorHandling("fetching work item", async ({ id, project, fields, asOf, expand }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
       const workItem = await workItemApi.getWorkItem(id, fields, asOf, expand as unknown as WorkItemExpand, project);
       return {
         content: [{ type: "text", text: JSON.stringify(workItem, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.get_work_item_tree,
+    "Get the hierarchy under a work item, e.g. Epic → Feature → Story → Task, as a nested tree with its parent chain. Each node with children gets a rollup of its descendants by state and assignee and their total remaining work.",
+    {
+      id: z.number().describe("The ID of the root work item."),
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      depth: z.number().int().min(0).max(10).default(3).describe("How many levels of children to fetch below the root. Defaults to 3."),
+      includeAncestors: z.boolean().default(true).describe("Whether to include the parent chain of the root. Defaults to true."),
+      fields: z.array(z.string()).optional().describe("Reference names of further fields to return for each work item, e.g. ['Microsoft.VSTS.Scheduling.StoryPoints']."),
+    },
+    withErrorHandling("fetching work item tree", async ({ id, project, depth, includeAncestors, fields }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const tree = await getWorkItemTree(workItemApi, project, id, depth, includeAncestors, fields);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(tree, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.get_work_item_history,
+    "Get the change history of a work item: who changed which fields, from which value to which, and when.",
+    {
+      id: z.number().describe("The ID of the work item."),
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      fields: z.array(z.string()).optional().describe("Only report changes to these fields, by reference name, e.g. ['System.State', 'System.AssignedTo']."),
+      since: z.coerce.date().optional().describe("Only report changes made on or after this date."),
+      until: z
+        .string()
+        .refine((value) => !isNaN(Date.parse(value)), "must be an ISO date or date-time")
+        .optional()
+        .describe("Only report changes made on or before this date or date-time. A date without a time includes that whole day."),
+      includeSystemFields: z.boolean().default(false).describe("Whether to include fields that change on every revision, such as System.Rev and System.ChangedDate. Defaults to false."),
+      format: z.enum(["json", "markdown"]).default("json").describe("Return the history as JSON or as a markdown timeline. Defaults to 'json'."),
+    },
+    withErrorHandling("fetching work item history", async ({ id, project, fields, since, until, includeSystemFields, format }) => {
+      const untilDate = until ? toUntilDate(until) : undefined;
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      const updates: WorkItemUpdate[] = [];
+      for (let skip = 0; ; skip += UPDATES_PAGE_SIZE) {
+        const page = await workItemApi.getUpdates(id, UPDATES_PAGE_SIZE, skip, project);
+        updates.push(...page);
+        if (page.length < UPDATES_PAGE_SIZE) {
+          break;
+        }
+      }
+
+      const entries = updates
+        .map((update) => toHistoryEntry(update, fields, includeSystemFields))
+        .filter((entry) => entry.changes.length > 0 || entry.linksAdded || entry.linksRemoved)
+        .filter((entry) => {
+          const changedAt = entry.changedDate ? new Date(entry.changedDate) : undefined;
+          return !changedAt || ((!since || changedAt >= since) && (!untilDate || changedAt <= untilDate));
+        });
+
+      return {
+        content: [{ type: "text", text: format === "markdown" ? formatHistoryAsMarkdown(id, entries) : JSON.stringify(entries, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -166,17 +564,20 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
     {
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       workItemId: z.number().describe("The ID of the work item to retrieve comments for."),
-      top: z.number().default(50).describe("Optional number of comments to retrieve. Defaults to all comments."),
+      top: z.number().int().min(1).max(200).default(50).describe("The maximum number of comments per page. Defaults to 50."),
+      continuationToken: z.string().optional().describe("The continuationToken returned by a previous call, to fetch the next page."),
+      includeDeleted: z.boolean().default(false).describe("Whether to include deleted comments. Defaults to false."),
+      order: z.enum(["asc", "desc"]).default("desc").describe("Whether to list the oldest or the newest comments first. Defaults to 'desc', newest first."),
     },
-    async ({ project, workItemId, top }) => {
+    withErrorHandling("fetching work item comments", async ({ project, workItemId, top, continuationToken, includeDeleted, order }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
-      const comments = await workItemApi.getComments(project, workItemId, top);
+      const comments = await workItemApi.getComments(project, workItemId, top, continuationToken, includeDeleted, undefined, order === "asc" ? CommentSortOrder.Asc : CommentSortOrder.Desc);
 
       return {
         content: [{ type: "text", text: JSON.stringify(comments, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -186,17 +587,203 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       workItemId: z.number().describe("The ID of the work item to add a comment to."),
       comment: z.string().describe("The text of the comment to add to the work item."),
+      format: commentFormatParameter,
+      dryRun: dryRunParameter,
     },
-    async ({ project, workItemId, comment }) => {
+    withErrorHandling("adding work item comment", async ({ project, workItemId, comment, format, dryRun }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
-      const commentCreate = { text: comment };
-      const commentResponse = await workItemApi.addComment(commentCreate, project, workItemId);
+      const { text, mentions } = await resolveMentions(comment, format, connection.serverUrl, await authHeaderProvider());
+
+      if (dryRun) {
+        const workItem = await workItemApi.getWorkItem(workItemId, ["System.WorkItemType", "System.Title"], undefined, undefined, project);
+        return createDryRunResult({ workItems: [{ id: workItemId, workItemType: workItem.fields?.["System.WorkItemType"], title: workItem.fields?.["System.Title"], comment: text, mentions }] });
+      }
+
+      const commentResponse = format === "markdown" ? await sendMarkdownComment("POST", project, workItemId, text) : await workItemApi.addComment({ text }, project, workItemId);
 
       return {
         content: [{ type: "text", text: JSON.stringify(commentResponse, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.update_work_item_comment,
+    "Replace the text of a work item comment.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      workItemId: z.number().describe("The ID of the work item the comment belongs to."),
+      commentId: z.number().describe("The ID of the comment to update."),
+      comment: z.string().describe("The new text of the comment."),
+      format: commentFormatParameter,
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating work item comment", async ({ project, workItemId, commentId, comment, format, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const { text, mentions } = await resolveMentions(comment, format, connection.serverUrl, await authHeaderProvider());
+
+      if (dryRun) {
+        const current = await workItemApi.getComment(project, workItemId, commentId);
+        return createDryRunResult({ comment: { workItemId, commentId, changes: [{ field: "text", before: current.text, after: text }], mentions } });
+      }
+
+      const updatedComment =
+        format === "markdown" ? await sendMarkdownComment("PATCH", project, workItemId, text, commentId) : await workItemApi.updateComment({ text }, project, workItemId, commentId);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(updatedComment, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.delete_work_item_comment,
+    "Delete a work item comment.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      workItemId: z.number().describe("The ID of the work item the comment belongs to."),
+      commentId: z.number().describe("The ID of the comment to delete."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("deleting work item comment", async ({ project, workItemId, commentId, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      if (dryRun) {
+        const current = await workItemApi.getComment(project, workItemId, commentId);
+        return createDryRunResult({ delete: { workItemId, commentId, text: current.text, createdBy: current.createdBy?.displayName, createdDate: current.createdDate } });
+      }
+
+      await workItemApi.deleteComment(project, workItemId, commentId);
+
+      return {
+        content: [{ type: "text", text: `Comment ${commentId} deleted from work item ${workItemId}` }],
+      };
+    })
+  );
+
+  for (const [toolName, adding] of [
+    [WORKITEM_TOOLS.add_comment_reaction, true],
+    [WORKITEM_TOOLS.remove_comment_reaction, false],
+  ] as const) {
+    server.tool(
+      toolName,
+      adding ? "Add your reaction, such as like or heart, to a work item comment." : "Remove your reaction from a work item comment.",
+      {
+        project: z.string().describe("The name or ID of the Azure DevOps project."),
+        workItemId: z.number().describe("The ID of the work item the comment belongs to."),
+        commentId: z.number().describe("The ID of the comment."),
+        reaction: z
+          .enum(Object.keys(COMMENT_REACTIONS) as [string, ...string[]])
+          .default("like")
+          .describe("The reaction. Defaults to 'like'."),
+        dryRun: dryRunParameter,
+      },
+      withErrorHandling(adding ? "adding comment reaction" : "removing comment reaction", async ({ project, workItemId, commentId, reaction, dryRun }) => {
+        const connection = await connectionProvider();
+        const workItemApi = await connection.getWorkItemTrackingApi();
+
+        if (dryRun) {
+          const reactions = await workItemApi.getCommentReactions(project, workItemId, commentId);
+          return createDryRunResult({ comment: { workItemId, commentId, reactions }, [adding ? "add" : "remove"]: reaction });
+        }
+
+        const result = adding
+          ? await workItemApi.createCommentReaction(project, workItemId, commentId, COMMENT_REACTIONS[reaction])
+          : await workItemApi.deleteCommentReaction(project, workItemId, commentId, COMMENT_REACTIONS[reaction]);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      })
+    );
+  }
+
+  server.tool(
+    WORKITEM_TOOLS.add_attachment,
+    "Upload a file as an attachment and attach it to a work item, e.g. a repro log or a screenshot for a bug. The file is read from a local path or given as base64 content.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      workItemId: z.number().describe("The ID of the work item to attach the file to."),
+      filePath: z
+        .string()
+        .optional()
+        .describe("The path of a local file to upload, within the server's attachment directory when one is configured. Not available over HTTP without one. Provide either filePath or content."),
+      content: z.string().optional().describe("The base64 encoded content to upload. Provide either filePath or content."),
+      fileName: z.string().optional().describe("The name of the attachment. Required with content; defaults to the name of the file at filePath."),
+      comment: z.string().optional().describe("An optional comment shown with the attachment."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("adding work item attachment", async ({ project, workItemId, filePath, content, fileName, comment, dryRun }) => {
+      const source = await readAttachmentSource(filePath, content, fileName);
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const attachment = { fileName: source.fileName, mimeType: getMimeType(source.fileName), size: source.content.length };
+
+      // The upload itself cannot be validated without saving it, so a dry run only confirms the target
+      if (dryRun) {
+        const workItem = await workItemApi.getWorkItem(workItemId, ["System.WorkItemType", "System.Title"], undefined, undefined, project);
+        return createDryRunResult({ workItems: [{ id: workItemId, workItemType: workItem.fields?.["System.WorkItemType"], title: workItem.fields?.["System.Title"] }], attachment });
+      }
+
+      const reference = await workItemApi.createAttachment({}, Readable.from([source.content]), source.fileName, undefined, project);
+      const workItem = await workItemApi.updateWorkItem(
+        null,
+        [{ op: "add", path: "/relations/-", value: { rel: ATTACHMENT_RELATION, url: reference.url, attributes: { comment: comment ?? "" } } }],
+        workItemId,
+        project
+      );
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ workItemId: workItem.id, rev: workItem.rev, attachment: { id: reference.id, url: reference.url, ...attachment } }, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.list_attachments,
+    "List the files attached to a work item, with their IDs, names, sizes and comments.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      workItemId: z.number().describe("The ID of the work item."),
+    },
+    withErrorHandling("listing work item attachments", async ({ project, workItemId }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const workItem = await workItemApi.getWorkItem(workItemId, undefined, undefined, WorkItemExpand.Relations, project);
+      const attachments = (workItem.relations ?? []).filter(isAttachmentRelation).map(toAttachmentInfo);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(attachments, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.get_attachment,
+    "Download the content of a work item attachment. Text files are returned inline, images and other binary files as an embedded resource.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      attachment: z.string().describe("The ID or URL of the attachment, as returned by wit_list_attachments."),
+      fileName: z.string().optional().describe("The name of the attachment, used to tell its content type. Defaults to the fileName in the attachment URL."),
+    },
+    withErrorHandling("downloading work item attachment", async ({ project, attachment, fileName }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const id = getAttachmentId(attachment);
+      const name = fileName ?? getAttachmentFileName(attachment) ?? id;
+
+      const stream = await workItemApi.getAttachmentContent(id, name, project, true);
+      const content = await streamToBuffer(stream);
+
+      return createAttachmentContentResult(
+        `${connection.serverUrl}/${encodeURIComponent(project)}/_apis/wit/attachments/${encodeURIComponent(id)}?fileName=${encodeURIComponent(name)}`,
+        name,
+        content
+      );
+    })
   );
 
   server.tool(
@@ -210,8 +797,9 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       description: z.string().describe("The description of the child work item."),
       areaPath: z.string().optional().describe("Optional area path for the child work item."),
       iterationPath: z.string().optional().describe("Optional iteration path for the child work item."),
+      dryRun: dryRunParameter,
     },
-    async ({ parentId, project, workItemType, title, description, areaPath, iterationPath }) => {
+    withErrorHandling("creating child work item", async ({ parentId, project, workItemType, title, description, areaPath, iterationPath, dryRun }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
 
@@ -252,12 +840,20 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
         });
       }
 
+      if (dryRun) {
+        const parent = await workItemApi.getWorkItem(parentId, ["System.WorkItemType", "System.Title"], undefined, undefined, project);
+        return createDryRunResult({
+          parent: { id: parentId, workItemType: parent.fields?.["System.WorkItemType"], title: parent.fields?.["System.Title"] },
+          workItems: [await previewWorkItemCreate(workItemApi, project, workItemType, document)],
+        });
+      }
+
       const childWorkItem = await workItemApi.createWorkItem(null, document, project, workItemType);
 
       return {
         content: [{ type: "text", text: JSON.stringify(childWorkItem, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -268,64 +864,59 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       repositoryId: z.string().describe("The ID of the repository containing the pull request. Do not use the repository name here, use the ID instead."),
       pullRequestId: z.number().describe("The ID of the pull request to link to."),
       workItemId: z.number().describe("The ID of the work item to link to the pull request."),
+      dryRun: dryRunParameter,
     },
-    async ({ project, repositoryId, pullRequestId, workItemId }) => {
-      try {
-        const connection = await connectionProvider();
-        const workItemTrackingApi = await connection.getWorkItemTrackingApi();
+    withErrorHandling("linking work item to pull request", async ({ project, repositoryId, pullRequestId, workItemId, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemTrackingApi = await connection.getWorkItemTrackingApi();
 
-        // Create artifact link relation using vstfs format
-        // Format: vstfs:///Git/PullRequestId/{project}/{repositoryId}/{pullRequestId}
-        const artifactPathValue = `${project}/${repositoryId}/${pullRequestId}`;
-        const vstfsUrl = `vstfs:///Git/PullRequestId/${encodeURIComponent(artifactPathValue)}`;
+      // Create artifact link relation using vstfs format
+      // Format: vstfs:///Git/PullRequestId/{project}/{repositoryId}/{pullRequestId}
+      const vstfsUrl = getArtifactUri("pullRequest", { projectId: project, repositoryId, pullRequestId });
 
-        // Use the PATCH document format for adding a relation
-        const patchDocument = [
-          {
-            op: "add",
-            path: "/relations/-",
-            value: {
-              rel: "ArtifactLink",
-              url: vstfsUrl,
-              attributes: {
-                name: "Pull Request",
-              },
+      // Use the PATCH document format for adding a relation
+      const patchDocument = [
+        {
+          op: "add",
+          path: "/relations/-",
+          value: {
+            rel: "ArtifactLink",
+            url: vstfsUrl,
+            attributes: {
+              name: ARTIFACT_LINK_NAMES.pullRequest,
             },
           },
-        ];
-
-        // Use the WorkItem API to update the work item with the new relation
-        const workItem = await workItemTrackingApi.updateWorkItem({}, patchDocument, workItemId, project);
+        },
+      ];
 
-        if (!workItem) {
-          return { content: [{ type: "text", text: "Work item update failed" }], isError: true };
-        }
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemUpdate(workItemTrackingApi, workItemId, patchDocument, project)] });
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  workItemId,
-                  pullRequestId,
-                  success: true,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      // Use the WorkItem API to update the work item with the new relation
+      const workItem = await workItemTrackingApi.updateWorkItem({}, patchDocument, workItemId, project);
 
-        return {
-          content: [{ type: "text", text: `Error linking work item to pull request: ${errorMessage}` }],
-          isError: true,
-        };
+      if (!workItem) {
+        return { content: [{ type: "text", text: "Work item update failed" }], isError: true };
       }
-    }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                workItemId,
+                pullRequestId,
+                success: true,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    })
   );
 
   server.tool(
@@ -336,7 +927,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       team: z.string().optional().describe("The name or ID of the Azure DevOps team. If not provided, the default team will be used."),
       iterationId: z.string().describe("The ID of the iteration to retrieve work items for."),
     },
-    async ({ project, team, iterationId }) => {
+    withErrorHandling("fetching work items for iteration", async ({ project, team, iterationId }) => {
       const connection = await connectionProvider();
       const workApi = await connection.getWorkApi();
 
@@ -346,7 +937,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workItems, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -358,21 +949,44 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
         .array(
           z.object({
             op: z.enum(["add", "replace", "remove"]).default("add").describe("The operation to perform on the field."),
-            path: z.string().describe("The path of the field to update, e.g., '/fields/System.Title'."),
-            value: z.string().describe("The new value for the field. This is required for 'add' and 'replace' operations, and should be omitted for 'remove' operations."),
+            path: z.string().describe("The path of the field to update, e.g., '/fields/System.Title'. The field's display name also works, e.g., '/fields/Story Points'."),
+            value: fieldValueSchema
+              .optional()
+              .describe(
+                "The new value for the field, typed as the field: numbers, booleans, ISO dates, an email address or identity object for identity fields, HTML for HTML fields. Required for 'add' and 'replace' operations, omitted for 'remove' operations."
+              ),
           })
         )
-        .describe("An array of field updates to apply to the work item."),
+        .describe("An array of field updates to apply to the work item. Updates are validated against the work item type before anything is sent."),
+      dryRun: dryRunParameter,
     },
-    async ({ id, updates }) => {
+    withErrorHandling("updating work item", async ({ id, updates, dryRun }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
-      const updatedWorkItem = await workItemApi.updateWorkItem(null, updates, id);
+
+      const workItem = await workItemApi.getWorkItem(id, ["System.TeamProject", "System.WorkItemType"]);
+      const { operations, issues } = await fieldValidator.validate(
+        workItemApi,
+        connection.serverUrl,
+        workItem.fields?.["System.TeamProject"],
+        workItem.fields?.["System.WorkItemType"],
+        updates,
+        false
+      );
+      if (issues.length > 0) {
+        throw new BadRequestError(formatFieldIssues(issues));
+      }
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemUpdate(workItemApi, id, operations)] });
+      }
+
+      const updatedWorkItem = await workItemApi.updateWorkItem(null, operations, id);
 
       return {
         content: [{ type: "text", text: JSON.stringify(updatedWorkItem, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -382,7 +996,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       workItemType: z.string().describe("The name of the work item type to retrieve."),
     },
-    async ({ project, workItemType }) => {
+    withErrorHandling("fetching work item type", async ({ project, workItemType }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
 
@@ -391,7 +1005,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(workItemTypeInfo, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -401,38 +1015,42 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       workItemType: z.string().describe("The type of work item to create, e.g., 'Task', 'Bug', etc."),
       fields: z
-        .record(z.string(), z.string())
-        .describe("A record of field names and values to set on the new work item. Each key is a field name, and each value is the corresponding value to set for that field."),
+        .record(z.string(), fieldValueSchema)
+        .describe(
+          "A record of field names and values to set on the new work item. Each key is a field reference or display name, and each value is typed as the field: numbers, booleans, ISO dates, an email address or identity object for identity fields. Fields are validated against the work item type, including required fields, before anything is sent."
+        ),
+      dryRun: dryRunParameter,
     },
-    async ({ project, workItemType, fields }) => {
-      try {
-        const connection = await connectionProvider();
-        const workItemApi = await connection.getWorkItemTrackingApi();
+    withErrorHandling("creating work item", async ({ project, workItemType, fields, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
 
-        const document = Object.entries(fields).map(([key, value]) => ({
-          op: "add",
-          path: `/fields/${key}`,
-          value,
-        }));
+      const { operations, issues } = await fieldValidator.validate(
+        workItemApi,
+        connection.serverUrl,
+        project,
+        workItemType,
+        Object.entries(fields).map(([key, value]) => ({ op: "add", path: `/fields/${key}`, value })),
+        true
+      );
+      if (issues.length > 0) {
+        throw new BadRequestError(formatFieldIssues(issues));
+      }
 
-        const newWorkItem = await workItemApi.createWorkItem(null, document, project, workItemType);
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemCreate(workItemApi, project, workItemType, operations)] });
+      }
 
-        if (!newWorkItem) {
-          return { content: [{ type: "text", text: "Work item was not created" }], isError: true };
-        }
+      const newWorkItem = await workItemApi.createWorkItem(null, operations, project, workItemType);
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(newWorkItem, null, 2) }],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
-        return {
-          content: [{ type: "text", text: `Error creating work item: ${errorMessage}` }],
-          isError: true,
-        };
+      if (!newWorkItem) {
+        return { content: [{ type: "text", text: "Work item was not created" }], isError: true };
       }
-    }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(newWorkItem, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -446,7 +1064,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       includeDeleted: z.boolean().default(false).describe("Whether to include deleted items in the query results. Defaults to false."),
       useIsoDateFormat: z.boolean().default(false).describe("Whether to use ISO date format in the response. Defaults to false."),
     },
-    async ({ project, query, expand, depth, includeDeleted, useIsoDateFormat }) => {
+    withErrorHandling("fetching query", async ({ project, query, expand, depth, includeDeleted, useIsoDateFormat }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
 
@@ -455,7 +1073,128 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(queryDetails, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.create_query,
+    "Create a saved work item query, or a query folder, in a folder such as 'Shared Queries/Triage' or 'My Queries'. Queries selecting FROM WorkItemLinks with MODE (Recursive) become tree queries, other WorkItemLinks queries one-hop queries.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      folder: z.string().describe("The path or ID of the parent folder, e.g. 'Shared Queries/Triage' or 'My Queries'."),
+      name: z.string().describe("The name of the new query or folder."),
+      wiql: z.string().optional().describe("The WIQL text of the query. Required unless isFolder is true."),
+      isFolder: z.boolean().default(false).describe("Whether to create a folder instead of a query. Defaults to false."),
+      validateOnly: z.boolean().default(false).describe("Only validate the WIQL without saving the query. Defaults to false."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("creating query", async ({ project, folder, name, wiql, isFolder, validateOnly, dryRun }) => {
+      if (!isFolder && !wiql) {
+        throw new BadRequestError("wiql is required when creating a query");
+      }
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      if (dryRun) {
+        const parent = await workItemApi.getQuery(project, folder);
+        const validation = isFolder ? { valid: true } : await validateQuery(workItemApi, project, folder, name, wiql as string);
+        return createDryRunResult({ folder: { id: parent.id, path: parent.path }, query: { name, isFolder, wiql }, validation });
+      }
+
+      const query = await workItemApi.createQuery(isFolder ? { name, isFolder } : { name, wiql }, project, folder, validateOnly);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(query, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.update_query,
+    "Rename a saved work item query or folder, or replace the WIQL of a query.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      query: z.string().describe("The ID or path of the query or folder to update."),
+      name: z.string().optional().describe("The new name."),
+      wiql: z.string().optional().describe("The new WIQL text of the query."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("updating query", async ({ project, query, name, wiql, dryRun }) => {
+      if (name === undefined && wiql === undefined) {
+        throw new BadRequestError("Provide a new name, new wiql, or both");
+      }
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      if (dryRun) {
+        const current = await workItemApi.getQuery(project, query, QueryExpand.Wiql);
+        const changes = [...(name !== undefined ? [{ field: "name", before: current.name, after: name }] : []), ...(wiql !== undefined ? [{ field: "wiql", before: current.wiql, after: wiql }] : [])];
+        const validation = wiql !== undefined ? await validateQuery(workItemApi, project, getParentQueryPath(current.path), name ?? current.name ?? "", wiql) : { valid: true };
+        return createDryRunResult({ query: { id: current.id, path: current.path }, changes, validation });
+      }
+
+      const updatedQuery = await workItemApi.updateQuery({ name, wiql }, project, query);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(updatedQuery, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.move_query,
+    "Move a saved work item query or folder to another folder, for example from 'My Queries' to 'Shared Queries'.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      query: z.string().describe("The ID or path of the query or folder to move."),
+      folder: z.string().describe("The path or ID of the destination folder, e.g. 'Shared Queries/Triage'."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("moving query", async ({ project, query, folder, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      // Posting an existing query's ID to a folder moves it there
+      const existingQuery = await workItemApi.getQuery(project, query);
+      if (dryRun) {
+        const destination = await workItemApi.getQuery(project, folder);
+        return createDryRunResult({
+          query: { id: existingQuery.id, path: existingQuery.path },
+          changes: [{ field: "folder", before: getParentQueryPath(existingQuery.path), after: destination.path }],
+        });
+      }
+      const movedQuery = await workItemApi.createQuery({ id: existingQuery.id }, project, folder);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(movedQuery, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.delete_query,
+    "Delete a saved work item query or folder. Deleting a folder also deletes every query in it.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      query: z.string().describe("The ID or path of the query or folder to delete."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("deleting query", async ({ project, query, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      if (dryRun) {
+        // Depth 2 is the deepest the API returns; deeper descendants are deleted too but not listed
+        const existingQuery = await workItemApi.getQuery(project, query, QueryExpand.None, 2);
+        return createDryRunResult({ delete: { id: existingQuery.id, path: existingQuery.path, isFolder: existingQuery.isFolder ?? false }, alsoDeletes: getDescendantQueryPaths(existingQuery) });
+      }
+
+      await workItemApi.deleteQuery(project, query);
+
+      return {
+        content: [{ type: "text", text: `Query '${query}' deleted` }],
+      };
+    })
   );
 
   server.tool(
@@ -468,7 +1207,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       timePrecision: z.boolean().optional().describe("Whether to include time precision in the results. Defaults to false."),
       top: z.number().default(50).describe("The maximum number of results to return. Defaults to 50."),
     },
-    async ({ id, project, team, timePrecision, top }) => {
+    withErrorHandling("fetching query results", async ({ id, project, team, timePrecision, top }) => {
       const connection = await connectionProvider();
       const workItemApi = await connection.getWorkItemTrackingApi();
       const teamContext = { project, team };
@@ -477,7 +1216,61 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(queryResult, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.query_wiql,
+    "Run a WIQL query and return the matching work items with their fields. Supports flat, tree and one-hop link queries; large results are returned in pages with a continuation token.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      team: z.string().optional().describe("The name or ID of the Azure DevOps team, used to resolve team macros such as @CurrentIteration."),
+      wiql: z.string().describe("The WIQL query text, e.g. \"SELECT [System.Id], [System.Title] FROM WorkItems WHERE [System.State] = 'Active'\"."),
+      fields: z.array(z.string()).optional().describe("Reference names of the fields to return for each work item. Defaults to the columns selected by the query."),
+      pageSize: z.number().int().min(1).max(1000).default(200).describe("The maximum number of work items (or links, for link queries) per page. Defaults to 200."),
+      continuationToken: z.string().optional().describe("The continuationToken returned by a previous call with the same query, to fetch the next page."),
+      timePrecision: z.boolean().optional().describe("Whether date comparisons in the query use the time as well as the date. Defaults to false."),
+    },
+    withErrorHandling("running WIQL query", async ({ project, team, wiql, fields, pageSize, continuationToken, timePrecision }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const offset = continuationToken ? decodeWiqlContinuationToken(wiql, continuationToken) : 0;
+
+      const queryResult = await workItemApi.queryByWiql({ query: wiql }, { project, team }, timePrecision);
+      const queryFields = (queryResult.columns ?? []).map((column) => column.referenceName ?? "").filter((name) => name && !name.startsWith("System.Links."));
+      const selectedFields = fields && fields.length > 0 ? fields : queryFields.length > 0 ? queryFields : DEFAULT_QUERY_FIELDS;
+      const queryType = QUERY_TYPE_NAMES[queryResult.queryType ?? QueryType.Flat] ?? "flat";
+
+      // Flat queries page over work items; tree and one-hop queries page over links, hydrating both ends
+      let ids: number[];
+      let totalCount: number;
+      let relations: { sourceId?: number; targetId?: number; rel?: string }[] | undefined;
+      if (queryResult.workItemRelations) {
+        totalCount = queryResult.workItemRelations.length;
+        relations = queryResult.workItemRelations.slice(offset, offset + pageSize).map((link) => ({ sourceId: link.source?.id, targetId: link.target?.id, rel: link.rel ?? undefined }));
+        ids = [...new Set(relations.flatMap((link) => [link.sourceId, link.targetId]).filter((id): id is number => id !== undefined))];
+      } else {
+        const allIds = (queryResult.workItems ?? []).map((workItem) => workItem.id).filter((id): id is number => id !== undefined);
+        totalCount = allIds.length;
+        ids = allIds.slice(offset, offset + pageSize);
+      }
+
+      const workItems = await getWorkItemsInBatches(workItemApi, project, ids, selectedFields, queryResult.asOf);
+      const nextOffset = offset + pageSize;
+
+      const result = {
+        queryType,
+        asOf: queryResult.asOf,
+        totalCount,
+        workItems: workItems.map((workItem) => ({ id: workItem.id, rev: workItem.rev, fields: workItem.fields })),
+        relations,
+        continuationToken: nextOffset < totalCount ? encodeWiqlContinuationToken(wiql, nextOffset) : undefined,
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -489,39 +1282,69 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
           z.object({
             op: z.enum(["add", "replace", "remove"]).default("add").describe("The operation to perform on the field."),
             id: z.number().describe("The ID of the work item to update."),
-            path: z.string().describe("The path of the field to update, e.g., '/fields/System.Title'."),
-            value: z.string().describe("The new value for the field. This is required for 'add' and 'replace' operations, and should be omitted for 'remove' operations."),
+            path: z.string().describe("The path of the field to update, e.g., '/fields/System.Title'. The field's display name also works, e.g., '/fields/Story Points'."),
+            value: fieldValueSchema
+              .optional()
+              .describe(
+                "The new value for the field, typed as the field: numbers, booleans, ISO dates, an email address or identity object for identity fields. Required for 'add' and 'replace' operations, omitted for 'remove' operations."
+              ),
           })
         )
-        .describe("An array of updates to apply to work items. Each update should include the operation (op), work item ID (id), field path (path), and new value (value)."),
+        .describe(
+          "An array of updates to apply to work items. Each update should include the operation (op), work item ID (id), field path (path), and new value (value). All updates are validated against the work item types before anything is sent."
+        ),
+      dryRun: dryRunParameter,
     },
-    async ({ updates }) => {
+    withErrorHandling("updating work items", async ({ updates, dryRun }) => {
       const connection = await connectionProvider();
       const orgUrl = connection.serverUrl;
-      const accessToken = await tokenProvider();
+      const authHeader = await authHeaderProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
 
       // Extract unique IDs from the updates array
       const uniqueIds = Array.from(new Set(updates.map((update) => update.id)));
 
+      const workItems = await getWorkItemsInBatches(workItemApi, undefined, uniqueIds, ["System.TeamProject", "System.WorkItemType"]);
+      const operationsById = new Map<number, FieldOperation[]>();
+      const issues: FieldValidationIssue[] = [];
+      for (const id of uniqueIds) {
+        const workItem = workItems.find((item) => item.id === id);
+        if (!workItem) {
+          issues.push({ id, path: "", message: `Work item ${id} does not exist or is not readable` });
+          continue;
+        }
+        const result = await fieldValidator.validate(
+          workItemApi,
+          orgUrl,
+          workItem.fields?.["System.TeamProject"],
+          workItem.fields?.["System.WorkItemType"],
+          updates.filter((update) => update.id === id).map(({ op, path, value }) => ({ op, path, value })),
+          false
+        );
+        operationsById.set(id, result.operations);
+        issues.push(...result.issues.map((issue) => ({ ...issue, id })));
+      }
+      if (issues.length > 0) {
+        throw new BadRequestError(formatFieldIssues(issues));
+      }
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: await previewWorkItemUpdates(uniqueIds.map((id) => ({ id, patch: operationsById.get(id) ?? [] }))) });
+      }
+
       const body = uniqueIds.map((id) => ({
         method: "PATCH",
         uri: `/_apis/wit/workitems/${id}?api-version=${batchApiVersion}`,
         headers: {
           "Content-Type": "application/json-patch+json",
         },
-        body: updates
-          .filter((update) => update.id === id)
-          .map(({ op, path, value }) => ({
-            op: op,
-            path: path,
-            value: value,
-          })),
+        body: operationsById.get(id),
       }));
 
-      const response = await fetch(`${orgUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
+      const response = await fetchWithRetry(`${orgUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
         method: "PATCH",
         headers: {
-          "Authorization": `Bearer ${accessToken.token}`,
+          "Authorization": authHeader,
           "Content-Type": "application/json",
           "User-Agent": `${userAgent}`,
         },
@@ -529,7 +1352,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to update work items in batch: ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Failed to update work items in batch");
       }
 
       const result = await response.json();
@@ -537,7 +1360,268 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
-    }
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.bulk_create,
+    "Create many work items at once, with parent/child links, from a JSON array, CSV text or an indented markdown outline. Items and their links are created in one batch request per 200 items. Returns the ID created for each item key and an error for each item that could not be created.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      format: z.enum(BULK_INPUT_FORMATS).describe("The format of the input."),
+      input: z
+        .string()
+        .describe(
+          "The work items to create. JSON: an array of {key?, type, title, fields?, parent?, children?}, where parent is another item's key or an existing work item ID. CSV: a header row with 'key', 'parent', 'type' and 'title' columns and a column per field. Markdown: a list nested by indentation, one item per line as '- [Type] Title {Field: value, Other field: value}'. Items without a key are keyed by their position, starting at 1."
+        ),
+      types: z
+        .array(z.string())
+        .optional()
+        .describe("Work item types by nesting level, for items without a type, e.g. ['Epic', 'Feature', 'User Story', 'Task'] for an outline without [Type] prefixes."),
+      areaPath: z.string().optional().describe("The area path of items that do not set one."),
+      iterationPath: z.string().optional().describe("The iteration path of items that do not set one."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("creating work items in bulk", async ({ project, format, input, types, areaPath, iterationPath, dryRun }) => {
+      const items = parseBulkInput(format, input, types);
+      const connection = await connectionProvider();
+      const orgUrl = connection.serverUrl;
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      // Every item is validated before anything is created
+      const operationsByKey = new Map<string, FieldOperation[]>();
+      const issues: FieldValidationIssue[] = [];
+      for (const item of items) {
+        const fields: Record<string, FieldValue> = { ...item.fields, "System.Title": item.title };
+        if (areaPath && !hasField(fields, "System.AreaPath", "Area Path")) {
+          fields["System.AreaPath"] = areaPath;
+        }
+        if (iterationPath && !hasField(fields, "System.IterationPath", "Iteration Path")) {
+          fields["System.IterationPath"] = iterationPath;
+        }
+        const operations: FieldOperation[] = Object.entries(fields).map(([field, value]) => ({ op: "add", path: `/fields/${field}`, value }));
+        const result = await fieldValidator.validate(workItemApi, orgUrl, project, item.workItemType, operations, true);
+        operationsByKey.set(item.key, result.operations);
+        issues.push(...result.issues.map((issue) => ({ ...issue, key: item.key })));
+      }
+      if (issues.length > 0) {
+        throw new BadRequestError(formatFieldIssues(issues));
+      }
+
+      if (dryRun) {
+        return createDryRunResult({
+          workItems: items.map((item) => ({ key: item.key, parent: item.parent, workItemType: item.workItemType, title: item.title, patch: operationsByKey.get(item.key) })),
+        });
+      }
+
+      const authHeader = await authHeaderProvider();
+      const created: Record<string, number> = {};
+      const errors: { key: string; message: string }[] = [];
+      const failed = new Set<string>();
+
+      // Items get negative temporary IDs so children link to parents created in the same $batch.
+      // Items come parents first, so past BATCH_REQUEST_LIMIT a child links to the real ID of a parent from an earlier batch.
+      const temporaryIds = new Map(items.map((item, index) => [item.key, -(index + 1)]));
+      for (let index = 0; index < items.length; index += BATCH_REQUEST_LIMIT) {
+        const chunk = items.slice(index, index + BATCH_REQUEST_LIMIT);
+        const chunkKeys = new Set(chunk.map((item) => item.key));
+        const pending: { item: BulkItem; patch: PatchOperation[] }[] = [];
+        for (const item of chunk) {
+          if (typeof item.parent === "string" && failed.has(item.parent)) {
+            failed.add(item.key);
+            errors.push({ key: item.key, message: `Not created because its parent '${item.parent}' was not created` });
+            continue;
+          }
+          const parentId = typeof item.parent === "string" ? (chunkKeys.has(item.parent) ? temporaryIds.get(item.parent) : created[item.parent]) : item.parent;
+          const patch: PatchOperation[] = [{ op: "add", path: "/id", value: temporaryIds.get(item.key) }, ...(operationsByKey.get(item.key) ?? [])];
+          if (parentId !== undefined) {
+            patch.push({ op: "add", path: "/relations/-", value: { rel: "System.LinkTypes.Hierarchy-Reverse", url: `${orgUrl}/${project}/_apis/wit/workItems/${parentId}` } });
+          }
+          pending.push({ item, patch });
+        }
+        if (pending.length === 0) {
+          continue;
+        }
+
+        const body = pending.map(({ item, patch }) => ({
+          method: "PATCH",
+          uri: `/${encodeURIComponent(project)}/_apis/wit/workitems/$${encodeURIComponent(item.workItemType)}?api-version=${batchApiVersion}`,
+          headers: {
+            "Content-Type": "application/json-patch+json",
+          },
+          body: patch,
+        }));
+
+        const response = await fetchWithRetry(`${orgUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
+          method: "PATCH",
+          headers: {
+            "Authorization": authHeader,
+            "Content-Type": "application/json",
+            "User-Agent": `${userAgent}`,
+          },
+          body: JSON.stringify(body),
+        });
+
+        // Items created by earlier batches stay in the result, so a failed batch does not end the run
+        if (!response.ok) {
+          const error = await AzureDevOpsRequestError.fromResponse(response, "Failed to create work items in batch");
+          pending.forEach(({ item }) => failed.add(item.key));
+          errors.push(...pending.map(({ item }) => ({ key: item.key, message: error.message })));
+          continue;
+        }
+
+        const result: { value?: { code?: number; body?: string }[] } = await response.json();
+        pending.forEach(({ item }, pendingIndex) => {
+          const itemResult = result.value?.[pendingIndex];
+          if (itemResult?.code === 200) {
+            created[item.key] = JSON.parse(itemResult.body ?? "{}").id;
+            return;
+          }
+          failed.add(item.key);
+          // A child fails along with its parent in the same batch; its parent's error is the one that matters
+          const message =
+            typeof item.parent === "string" && failed.has(item.parent)
+              ? `Not created because its parent '${item.parent}' was not created`
+              : itemResult
+                ? getBatchItemError(itemResult)
+                : "No response for this item";
+          errors.push({ key: item.key, message });
+        });
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ created, errors }, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.list_link_types,
+    "List the link types that can connect work items in the organization, including custom and remote (cross-organization) link types.",
+    {},
+    withErrorHandling("listing link types", async () => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const linkTypes = await linkTypeResolver.list(workItemApi, connection.serverUrl);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(linkTypes, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.add_artifact_link,
+    "Link a work item to a commit, branch, pull request, build or wiki page.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      workItemId: z.number().describe("The ID of the work item to add the link to."),
+      artifactType: z.enum(ARTIFACT_TYPES).describe("The kind of artifact to link to."),
+      repository: z.string().optional().describe("The name or ID of the repository, for commit, branch and pullRequest links."),
+      commitId: z.string().optional().describe("The full SHA of the commit, for commit links."),
+      branch: z.string().optional().describe("The branch name, e.g. 'main' or 'refs/heads/main', for branch links."),
+      pullRequestId: z.number().optional().describe("The ID of the pull request, for pullRequest links."),
+      buildId: z.number().optional().describe("The ID of the build, for build links."),
+      wiki: z.string().optional().describe("The name or ID of the wiki, for wikiPage links."),
+      pagePath: z.string().optional().describe("The path of the wiki page, e.g. '/Release notes/2025', for wikiPage links."),
+      comment: z.string().optional().describe("Optional comment to include with the link."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("adding artifact link", async ({ project, workItemId, artifactType, repository, commitId, branch, pullRequestId, buildId, wiki, pagePath, comment, dryRun }) => {
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+
+      // Git and wiki artifacts are identified by IDs, so names are resolved first
+      let target: Parameters<typeof getArtifactUri>[1] = { projectId: project, commitId, branch, pullRequestId, buildId, pagePath };
+      if (artifactType === "commit" || artifactType === "branch" || artifactType === "pullRequest") {
+        if (!repository) {
+          throw new BadRequestError(`repository is required for ${artifactType} links`);
+        }
+        const gitApi = await connection.getGitApi();
+        const gitRepository = await gitApi.getRepository(repository, project);
+        target = { ...target, projectId: gitRepository.project?.id ?? project, repositoryId: gitRepository.id };
+      } else if (artifactType === "wikiPage") {
+        if (!wiki) {
+          throw new BadRequestError("wiki is required for wikiPage links");
+        }
+        const wikiApi = await connection.getWikiApi();
+        const wikiDetails = await wikiApi.getWiki(wiki, project);
+        target = { ...target, projectId: wikiDetails.projectId ?? project, wikiId: wikiDetails.id };
+      }
+
+      const patch = [
+        {
+          op: "add",
+          path: "/relations/-",
+          value: { rel: "ArtifactLink", url: getArtifactUri(artifactType, target), attributes: { name: ARTIFACT_LINK_NAMES[artifactType], comment: comment ?? "" } },
+        },
+      ];
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemUpdate(workItemApi, workItemId, patch, project)] });
+      }
+
+      const workItem = await workItemApi.updateWorkItem(null, patch, workItemId, project);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(workItem, null, 2) }],
+      };
+    })
+  );
+
+  server.tool(
+    WORKITEM_TOOLS.remove_work_item_link,
+    "Remove links from a work item, either by their index in the work item's relations or by the ID of the linked work item. Use wit_get_work_item with expand 'relations' to see the relations and their indexes.",
+    {
+      project: z.string().describe("The name or ID of the Azure DevOps project."),
+      id: z.number().describe("The ID of the work item to remove links from."),
+      relationIndexes: z.array(z.number().int().min(0)).optional().describe("Zero-based indexes of the relations to remove, as listed in the work item's relations."),
+      linkToId: z.number().optional().describe("Remove the links to this work item. Provide either relationIndexes or linkToId."),
+      type: z.string().optional().describe("With linkToId, only remove links of this type, e.g. 'related' or 'System.LinkTypes.Hierarchy-Reverse'. Defaults to links of any type."),
+      dryRun: dryRunParameter,
+    },
+    withErrorHandling("removing work item links", async ({ project, id, relationIndexes, linkToId, type, dryRun }) => {
+      if ((relationIndexes === undefined) === (linkToId === undefined)) {
+        throw new BadRequestError("Provide either relationIndexes or linkToId, but not both");
+      }
+      const connection = await connectionProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const workItem = await workItemApi.getWorkItem(id, undefined, undefined, WorkItemExpand.Relations, project);
+      const relations = workItem.relations ?? [];
+
+      let indexes: number[];
+      if (relationIndexes !== undefined) {
+        const outOfRange = relationIndexes.filter((index) => index >= relations.length);
+        if (outOfRange.length > 0) {
+          throw new BadRequestError(`Work item ${id} has ${relations.length} relation(s); no relation at index ${outOfRange.join(", ")}`);
+        }
+        indexes = relationIndexes;
+      } else {
+        const rel = type ? (await linkTypeResolver.resolve(workItemApi, connection.serverUrl, type)).referenceName : undefined;
+        indexes = relations.flatMap((relation, index) => (getLinkedWorkItemId(relation) === linkToId && (!rel || relation.rel === rel) ? [index] : []));
+        if (indexes.length === 0) {
+          throw new BadRequestError(`Work item ${id} has no ${type ? `'${type}' ` : ""}link to work item ${linkToId}`);
+        }
+      }
+
+      // Removing from the highest index down keeps the remaining indexes valid; the revision test fails if the work item changed meanwhile
+      const patch: PatchOperation[] = [
+        { op: "test", path: "/rev", value: workItem.rev },
+        ...Array.from(new Set(indexes))
+          .sort((a, b) => b - a)
+          .map((index) => ({ op: "remove", path: `/relations/${index}` })),
+      ];
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: [await previewWorkItemUpdate(workItemApi, id, patch, project)] });
+      }
+
+      const updatedWorkItem = await workItemApi.updateWorkItem(null, patch, id, project);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ id, rev: updatedWorkItem.rev, removed: indexes.map((index) => relations[index]) }, null, 2) }],
+      };
+    })
   );
 
   server.tool(
@@ -551,49 +1635,72 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
             id: z.number().describe("The ID of the work item to update."),
             linkToId: z.number().describe("The ID of the work item to link to."),
             type: z
-              .enum(["parent", "child", "duplicate", "duplicate of", "related", "successor", "predecessor", "tested by", "tests"])
+              .string()
               .default("related")
               .describe(
-                "Type of link to create between the work items. Options include 'parent', 'child', 'duplicate', 'duplicate of', 'related', 'successor', 'predecessor', 'tested by', 'tests', 'referenced by', and 'references'. Defaults to 'related'."
+                "Type of link to create between the work items: 'parent', 'child', 'duplicate', 'duplicate of', 'related', 'successor', 'predecessor', 'tested by', 'tests', 'referenced by', 'references', or the name or reference name of any other link type of the organization, including custom and remote ones (see wit_list_link_types). Defaults to 'related'."
               ),
+            linkToOrganization: z
+              .string()
+              .optional()
+              .describe("For remote link types only: the name or URL of the organization the linkToId work item belongs to, e.g. 'fabrikam' or 'https://dev.azure.com/fabrikam'."),
             comment: z.string().optional().describe("Optional comment to include with the link. This can be used to provide additional context for the link being created."),
           })
         )
         .describe(""),
+      dryRun: dryRunParameter,
     },
-    async ({ project, updates }) => {
+    withErrorHandling("linking work items", async ({ project, updates, dryRun }) => {
       const connection = await connectionProvider();
       const orgUrl = connection.serverUrl;
-      const accessToken = await tokenProvider();
+      const workItemApi = await connection.getWorkItemTrackingApi();
+      const authHeader = await authHeaderProvider();
+
+      const relations: { id: number; value: WorkItemRelation }[] = [];
+      for (const { id, linkToId, type, linkToOrganization, comment } of updates) {
+        const linkType = await linkTypeResolver.resolve(workItemApi, orgUrl, type);
+        if (linkType.remote !== (linkToOrganization !== undefined)) {
+          throw new BadRequestError(
+            linkType.remote ? `linkToOrganization is required for the remote link type '${linkType.name}'` : `linkToOrganization can only be used with remote link types, not '${linkType.name}'`
+          );
+        }
+        relations.push({
+          id,
+          value: {
+            rel: linkType.referenceName,
+            url: getWorkItemLinkUrl(orgUrl, project, linkToId, linkToOrganization),
+            attributes: {
+              comment: comment || "",
+            },
+          },
+        });
+      }
 
       // Extract unique IDs from the updates array
       const uniqueIds = Array.from(new Set(updates.map((update) => update.id)));
 
-      const body = uniqueIds.map((id) => ({
+      const patches = uniqueIds.map((id) => ({
+        id,
+        patch: relations.filter((relation) => relation.id === id).map(({ value }) => ({ op: "add", path: "/relations/-", value })),
+      }));
+
+      if (dryRun) {
+        return createDryRunResult({ workItems: await previewWorkItemUpdates(patches, project) });
+      }
+
+      const body = patches.map(({ id, patch }) => ({
         method: "PATCH",
         uri: `/_apis/wit/workitems/${id}?api-version=${batchApiVersion}`,
         headers: {
           "Content-Type": "application/json-patch+json",
         },
-        body: updates
-          .filter((update) => update.id === id)
-          .map(({ linkToId, type, comment }) => ({
-            op: "add",
-            path: "/relations/-",
-            value: {
-              rel: `${getLinkTypeFromName(type)}`,
-              url: `${orgUrl}/${project}/_apis/wit/workItems/${linkToId}`,
-              attributes: {
-                comment: comment || "",
-              },
-            },
-          })),
+        body: patch,
       }));
 
-      const response = await fetch(`${orgUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
+      const response = await fetchWithRetry(`${orgUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
         method: "PATCH",
         headers: {
-          "Authorization": `Bearer ${accessToken.token}`,
+          "Authorization": authHeader,
           "Content-Type": "application/json",
           "User-Agent": `${userAgent}`,
         },
@@ -601,7 +1708,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to update work items in batch: ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Failed to update work items in batch");
       }
 
       const result = await response.json();
@@ -609,7 +1716,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
-    }
+    })
   );
 
   server.tool(
@@ -620,17 +1727,14 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       duplicateIds: z.array(z.number()).describe("An array of IDs of the duplicate work items to close and link to the specified work item."),
       project: z.string().describe("The name or ID of the Azure DevOps project."),
       state: z.string().default("Removed").describe("The state to set for the duplicate work items. Defaults to 'Removed'."),
+      dryRun: dryRunParameter,
     },
-    async ({ id, duplicateIds, project, state }) => {
+    withErrorHandling("closing duplicate work items", async ({ id, duplicateIds, project, state, dryRun }) => {
       const connection = await connectionProvider();
 
-      const body = duplicateIds.map((duplicateId) => ({
-        method: "PATCH",
-        uri: `/_apis/wit/workitems/${duplicateId}?api-version=${batchApiVersion}`,
-        headers: {
-          "Content-Type": "application/json-patch+json",
-        },
-        body: [
+      const patches = duplicateIds.map((duplicateId) => ({
+        id: duplicateId,
+        patch: [
           {
             op: "add",
             path: "/fields/System.State",
@@ -647,12 +1751,25 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
         ],
       }));
 
-      const accessToken = await tokenProvider();
+      if (dryRun) {
+        return createDryRunResult({ workItems: await previewWorkItemUpdates(patches, project) });
+      }
+
+      const body = patches.map(({ id: duplicateId, patch }) => ({
+        method: "PATCH",
+        uri: `/_apis/wit/workitems/${duplicateId}?api-version=${batchApiVersion}`,
+        headers: {
+          "Content-Type": "application/json-patch+json",
+        },
+        body: patch,
+      }));
+
+      const authHeader = await authHeaderProvider();
 
-      const response = await fetch(`${connection.serverUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
+      const response = await fetchWithRetry(`${connection.serverUrl}/_apis/wit/$batch?api-version=${batchApiVersion}`, {
         method: "PATCH",
         headers: {
-          "Authorization": `Bearer ${accessToken.token}`,
+          "Authorization": authHeader,
           "Content-Type": "application/json",
           "User-Agent": `${userAgent}`,
         },
@@ -660,7 +1777,7 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to update work items in batch: ${response.statusText}`);
+        throw await AzureDevOpsRequestError.fromResponse(response, "Failed to update work items in batch");
       }
 
       const result = await response.json();
@@ -668,8 +1785,8 @@ function configureWorkItemTools(server: McpServer, tokenProvider: () => Promise<
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
-    }
+    })
   );
 }
 
-export { WORKITEM_TOOLS, configureWorkItemTools };
+export { WORKITEM_TOOLS, WORKITEM_TOOLSET, configureWorkItemTools };
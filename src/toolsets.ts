@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+interface ToolMetadata {
+  /** True when the tool never changes anything in Azure DevOps. */
+  readOnly: boolean;
+  /** True when the tool deletes, closes or overwrites existing data. */
+  destructive?: boolean;
+}
+
+interface Toolset {
+  /** Domain name used by --toolsets, e.g. "wit" or "repos". */
+  name: string;
+  tools: Record<string, ToolMetadata>;
+}
+
+interface ToolFilterOptions {
+  /** Only register tools from these toolsets. All toolsets are registered when omitted. */
+  toolsets?: string[];
+  /** Only register tools whose name matches one of these glob patterns. */
+  tools?: string[];
+  /** Never register tools whose name matches one of these glob patterns. */
+  excludeTools?: string[];
+  /** Skip every tool that is not read-only. */
+  readOnly?: boolean;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function matchesAnyGlob(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
+
+function findToolMetadata(toolsets: Toolset[], toolName: string): { toolset: Toolset; metadata: ToolMetadata } | undefined {
+  for (const toolset of toolsets) {
+    const metadata = toolset.tools[toolName];
+    if (metadata) {
+      return { toolset, metadata };
+    }
+  }
+  return undefined;
+}
+
+/*
+  Returns a predicate deciding whether a tool is registered. A tool must belong to an enabled toolset,
+  match the allow patterns when given, match none of the exclude patterns and, in read-only mode, be read-only.
+*/
+function createToolFilter(toolsets: Toolset[], options: ToolFilterOptions): (toolName: string) => boolean {
+  const knownToolsets = toolsets.map((toolset) => toolset.name);
+  const enabledToolsets = options.toolsets?.length ? options.toolsets : knownToolsets;
+  const unknownToolsets = enabledToolsets.filter((name) => !knownToolsets.includes(name));
+  if (unknownToolsets.length > 0) {
+    throw new Error(`Unknown toolset(s): ${unknownToolsets.join(", ")}. Available toolsets: ${knownToolsets.join(", ")}`);
+  }
+
+  return (toolName: string) => {
+    const match = findToolMetadata(toolsets, toolName);
+    if (!match) {
+      // Tools without metadata are treated as mutating tools outside every toolset
+      return false;
+    }
+    if (!enabledToolsets.includes(match.toolset.name)) {
+      return false;
+    }
+    if (options.tools?.length && !matchesAnyGlob(toolName, options.tools)) {
+      return false;
+    }
+    if (options.excludeTools?.length && matchesAnyGlob(toolName, options.excludeTools)) {
+      return false;
+    }
+    return !options.readOnly || match.metadata.readOnly;
+  };
+}
+
+function toToolAnnotations(metadata: ToolMetadata): ToolAnnotations {
+  return {
+    readOnlyHint: metadata.readOnly,
+    destructiveHint: metadata.readOnly ? undefined : (metadata.destructive ?? false),
+    openWorldHint: true,
+  };
+}
+
+/*
+  Wraps the server so that `server.tool(...)` calls from the tool modules only register the tools
+  allowed by the filter options, and publishes each tool's metadata to clients as MCP tool annotations.
+*/
+function createFilteredServer(server: McpServer, toolsets: Toolset[], options: ToolFilterOptions): McpServer {
+  const isToolEnabled = createToolFilter(toolsets, options);
+
+  const tool = (name: string, ...rest: unknown[]) => {
+    const match = findToolMetadata(toolsets, name);
+    if (!match) {
+      logger.warning("Skipping tool without toolset metadata", { tool: name });
+      return undefined;
+    }
+    if (!isToolEnabled(name)) {
+      logger.debug("Skipping tool excluded by toolset options", { tool: name });
+      return undefined;
+    }
+
+    // server.tool(name, description, paramsSchema, callback) -> server.tool(name, description, paramsSchema, annotations, callback)
+    if (rest.length === 3) {
+      const [description, paramsSchema, callback] = rest;
+      return (server.tool as (...args: unknown[]) => unknown)(name, description, paramsSchema, toToolAnnotations(match.metadata), callback);
+    }
+    return (server.tool as (...args: unknown[]) => unknown)(name, ...rest);
+  };
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      return property === "tool" ? tool : Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+function parseListOption(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+export { createFilteredServer, createToolFilter, matchesAnyGlob, parseListOption };
+export type { Toolset, ToolFilterOptions, ToolMetadata };
@@ -6,3 +6,17 @@ import { packageVersion } from "./version.js";
 export const apiVersion = "7.2-preview.1";
 export const batchApiVersion = "5.0";
 export const userAgent = `AzureDevOps.MCP/${packageVersion} (local)`;
+
+export function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Same heuristic as git: a NUL byte near the start means binary content
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
@@ -0,0 +1,32 @@
+import { BoardColumnType } from "azure-devops-node-api/interfaces/WorkInterfaces";
+
+const COLUMN_FIELD = "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column";
+const DONE_FIELD = "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column.Done";
+const LANE_FIELD = "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Lane";
+
+export const _mockBoard = {
+  id: "b1",
+  name: "Stories",
+  columns: [
+    { id: "c1", name: "New", itemLimit: 0, columnType: BoardColumnType.Incoming, isSplit: false, stateMappings: { "User Story": "New", "Bug": "New" } },
+    { id: "c2", name: "Active", itemLimit: 2, columnType: BoardColumnType.InProgress, isSplit: true, stateMappings: { "User Story": "Active", "Bug": "Active" } },
+    { id: "c3", name: "Review", itemLimit: 3, columnType: BoardColumnType.InProgress, isSplit: false, stateMappings: { "User Story": "Resolved", "Bug": "Resolved" } },
+    { id: "c4", name: "Closed", itemLimit: 0, columnType: BoardColumnType.Outgoing, isSplit: false, stateMappings: { "User Story": "Closed", "Bug": "Closed" } },
+  ],
+  rows: [
+    { id: "00000000-0000-0000-0000-000000000000", name: null },
+    { id: "r2", name: "Expedite" },
+  ],
+  fields: {
+    columnField: { referenceName: COLUMN_FIELD },
+    doneField: { referenceName: DONE_FIELD },
+    rowField: { referenceName: LANE_FIELD },
+  },
+};
+
+export const _mockBoardCards = [
+  { id: 1, fields: { "System.WorkItemType": "User Story", "System.Title": "Checkout", "System.State": "Active", [COLUMN_FIELD]: "Active", [DONE_FIELD]: false, [LANE_FIELD]: "" } },
+  { id: 2, fields: { "System.WorkItemType": "Bug", "System.Title": "Crash", "System.State": "Active", [COLUMN_FIELD]: "Active", [DONE_FIELD]: true, [LANE_FIELD]: "Expedite" } },
+  { id: 3, fields: { "System.WorkItemType": "User Story", "System.Title": "Search", "System.State": "Active", [COLUMN_FIELD]: "Active", [DONE_FIELD]: false } },
+  { id: 4, fields: { "System.WorkItemType": "User Story", "System.Title": "Wishlist", "System.State": "New", [COLUMN_FIELD]: "New" } },
+];
@@ -0,0 +1,98 @@
+// Responses recorded for a five-day sprint of the Fabrikam team, keyed by the day each snapshot was taken.
+
+function workItem(id: number, type: string, title: string, state: string, values: { points?: number; remainingWork?: number } = {}) {
+  return {
+    id,
+    fields: {
+      "System.Id": id,
+      "System.WorkItemType": type,
+      "System.Title": title,
+      "System.State": state,
+      "Microsoft.VSTS.Scheduling.StoryPoints": values.points,
+      "Microsoft.VSTS.Scheduling.RemainingWork": values.remainingWork,
+    },
+  };
+}
+
+export const _mockSprintIterations = [
+  {
+    id: "s1",
+    name: "Sprint 1",
+    path: "Fabrikam\\Sprint 1",
+    attributes: { startDate: new Date("2025-05-19T00:00:00Z"), finishDate: new Date("2025-05-30T00:00:00Z") },
+  },
+  {
+    id: "s2",
+    name: "Sprint 2",
+    path: "Fabrikam\\Sprint 2",
+    attributes: { startDate: new Date("2025-06-02T00:00:00Z"), finishDate: new Date("2025-06-06T00:00:00Z") },
+  },
+  {
+    id: "s3",
+    name: "Sprint 3",
+    path: "Fabrikam\\Sprint 3",
+    attributes: { startDate: new Date("2025-06-09T00:00:00Z"), finishDate: new Date("2025-06-20T00:00:00Z") },
+  },
+];
+
+// Sprint 2, one snapshot per working day: task 4 is added on day 2, story 3 re-estimated and story 6 moved out on day 3,
+// bug 5 removed on day 4; story 3 is still open at the end.
+export const _mockSprintSnapshots: Record<string, ReturnType<typeof workItem>[]> = {
+  "2025-06-02": [
+    workItem(1, "User Story", "Checkout", "Active", { points: 5 }),
+    workItem(2, "Task", "Build cart", "Active", { remainingWork: 8 }),
+    workItem(3, "User Story", "Search", "New", { points: 3 }),
+    workItem(5, "Bug", "Crash on login", "Active", { points: 2 }),
+    workItem(6, "User Story", "Wishlist", "New", { points: 8 }),
+  ],
+  "2025-06-03": [
+    workItem(1, "User Story", "Checkout", "Active", { points: 5 }),
+    workItem(2, "Task", "Build cart", "Active", { remainingWork: 4 }),
+    workItem(3, "User Story", "Search", "Active", { points: 3 }),
+    workItem(4, "Task", "Search index", "New", { remainingWork: 6 }),
+    workItem(5, "Bug", "Crash on login", "Active", { points: 2 }),
+    workItem(6, "User Story", "Wishlist", "New", { points: 8 }),
+  ],
+  "2025-06-04": [
+    workItem(1, "User Story", "Checkout", "Active", { points: 5 }),
+    workItem(2, "Task", "Build cart", "Closed", { remainingWork: 0 }),
+    workItem(3, "User Story", "Search", "Active", { points: 5 }),
+    workItem(4, "Task", "Search index", "Active", { remainingWork: 3 }),
+    workItem(5, "Bug", "Crash on login", "Active", { points: 2 }),
+  ],
+  "2025-06-05": [
+    workItem(1, "User Story", "Checkout", "Closed", { points: 5 }),
+    workItem(2, "Task", "Build cart", "Closed", { remainingWork: 0 }),
+    workItem(3, "User Story", "Search", "Active", { points: 5 }),
+    workItem(4, "Task", "Search index", "Active", { remainingWork: 2 }),
+    workItem(5, "Bug", "Crash on login", "Removed", { points: 2 }),
+  ],
+  "2025-06-06": [
+    workItem(1, "User Story", "Checkout", "Closed", { points: 5 }),
+    workItem(2, "Task", "Build cart", "Closed", { remainingWork: 0 }),
+    workItem(3, "User Story", "Search", "Active", { points: 5 }),
+    workItem(4, "Task", "Search index", "Closed", { remainingWork: 0 }),
+    workItem(5, "Bug", "Crash on login", "Removed", { points: 2 }),
+  ],
+  // The end of Sprint 1
+  "2025-05-30": [workItem(10, "User Story", "Sign in", "Closed", { points: 8 }), workItem(11, "User Story", "Sign out", "Active", { points: 5 })],
+};
+
+export const _mockWorkItemTypeStates: Record<string, { name: string; category: string }[]> = {
+  "User Story": [
+    { name: "New", category: "Proposed" },
+    { name: "Active", category: "InProgress" },
+    { name: "Closed", category: "Completed" },
+    { name: "Removed", category: "Removed" },
+  ],
+  "Task": [
+    { name: "New", category: "Proposed" },
+    { name: "Active", category: "InProgress" },
+    { name: "Closed", category: "Completed" },
+  ],
+  "Bug": [
+    { name: "Active", category: "InProgress" },
+    { name: "Closed", category: "Completed" },
+    { name: "Removed", category: "Removed" },
+  ],
+};
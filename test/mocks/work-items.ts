@@ -589,3 +589,43 @@ export const _mockQueryResults = {
     },
   ],
 };
+
+export const _mockWorkItemFields = [
+  { referenceName: "System.Id", name: "ID", type: 1, readOnly: true },
+  { referenceName: "System.Title", name: "Title", type: 0 },
+  { referenceName: "System.Description", name: "Description", type: 4 },
+  { referenceName: "System.AreaPath", name: "Area Path", type: 5 },
+  { referenceName: "System.State", name: "State", type: 0 },
+  { referenceName: "System.AssignedTo", name: "Assigned To", type: 10, isIdentity: true },
+  { referenceName: "System.Tags", name: "Tags", type: 3, isPicklistSuggested: true },
+  { referenceName: "Microsoft.VSTS.Common.Priority", name: "Priority", type: 1 },
+  { referenceName: "Microsoft.VSTS.Scheduling.StoryPoints", name: "Story Points", type: 7 },
+  { referenceName: "Microsoft.VSTS.Scheduling.DueDate", name: "Due Date", type: 2 },
+  { referenceName: "Microsoft.VSTS.CMMI.Blocked", name: "Blocked", type: 9 },
+];
+
+export const _mockWorkItemTypeFields = [
+  { referenceName: "System.Id", name: "ID", alwaysRequired: false },
+  { referenceName: "System.Title", name: "Title", alwaysRequired: true },
+  { referenceName: "System.Description", name: "Description", alwaysRequired: false },
+  { referenceName: "System.AreaPath", name: "Area Path", alwaysRequired: true, defaultValue: "Contoso" },
+  { referenceName: "System.State", name: "State", alwaysRequired: true, defaultValue: "New", allowedValues: ["New", "Active", "Closed"] },
+  { referenceName: "System.AssignedTo", name: "Assigned To", alwaysRequired: false },
+  { referenceName: "System.Tags", name: "Tags", alwaysRequired: false, allowedValues: ["frontend"] },
+  { referenceName: "Microsoft.VSTS.Common.Priority", name: "Priority", alwaysRequired: false, allowedValues: [1, 2, 3, 4] },
+  { referenceName: "Microsoft.VSTS.Scheduling.StoryPoints", name: "Story Points", alwaysRequired: false },
+  { referenceName: "Microsoft.VSTS.Scheduling.DueDate", name: "Due Date", alwaysRequired: false },
+  { referenceName: "Microsoft.VSTS.CMMI.Blocked", name: "Blocked", alwaysRequired: false },
+];
+
+export const _mockRelationTypes = [
+  { referenceName: "System.LinkTypes.Hierarchy-Forward", name: "Child", attributes: { usage: "workItemLink", enabled: true, topology: "tree" } },
+  { referenceName: "System.LinkTypes.Hierarchy-Reverse", name: "Parent", attributes: { usage: "workItemLink", enabled: true, topology: "tree" } },
+  { referenceName: "System.LinkTypes.Related", name: "Related", attributes: { usage: "workItemLink", enabled: true, topology: "network" } },
+  { referenceName: "System.LinkTypes.Duplicate-Reverse", name: "Duplicate Of", attributes: { usage: "workItemLink", enabled: true, topology: "tree" } },
+  { referenceName: "System.LinkTypes.Remote.Related", name: "Remote Related", attributes: { usage: "workItemLink", enabled: true, remote: true, topology: "network" } },
+  { referenceName: "Contoso.LinkTypes.Blocks-Forward", name: "Blocks", attributes: { usage: "workItemLink", enabled: true, topology: "dependency" } },
+  { referenceName: "Contoso.LinkTypes.Legacy", name: "Legacy", attributes: { usage: "workItemLink", enabled: false, topology: "network" } },
+  { referenceName: "AttachedFile", name: "Attached File", attributes: { usage: "resourceLink", enabled: true } },
+  { referenceName: "ArtifactLink", name: "Artifact Link", attributes: { usage: "resourceLink", enabled: true } },
+];
@@ -0,0 +1,140 @@
+import { AccessToken, TokenCredential } from "@azure/identity";
+import { describe, expect, it } from "@jest/globals";
+import { createAuthProvider, createCachedTokenProvider, getAuthOptionsFromEnv } from "../../src/auth";
+
+function createCredentialMock(tokens: AccessToken[]): TokenCredential & { getToken: jest.Mock } {
+  const getToken = jest.fn();
+  for (const token of tokens) {
+    getToken.mockResolvedValueOnce(token);
+  }
+  return { getToken };
+}
+
+describe("createAuthProvider", () => {
+  it("should use Basic authentication for a personal access token", async () => {
+    const provider = createAuthProvider({ pat: "my-pat" });
+
+    expect(provider.type).toBe("pat");
+    expect(await provider.getAuthorizationHeader()).toBe(`Basic ${Buffer.from(":my-pat").toString("base64")}`);
+  });
+
+  it("should select a service principal when client credentials are provided", () => {
+    const provider = createAuthProvider({ tenantId: "tenant", clientId: "client", clientSecret: "secret" });
+
+    expect(provider.type).toBe("service-principal");
+  });
+
+  it("should prefer an explicit authentication type over a personal access token", () => {
+    const provider = createAuthProvider({ type: "managed-identity", pat: "my-pat" });
+
+    expect(provider.type).toBe("managed-identity");
+  });
+
+  it("should throw when 'pat' authentication is requested without a token", () => {
+    expect(() => createAuthProvider({ type: "pat" })).toThrow("A personal access token is required");
+  });
+
+  it("should throw when service principal settings are incomplete", () => {
+    expect(() => createAuthProvider({ type: "service-principal", clientId: "client" })).toThrow("Service principal authentication requires");
+  });
+});
+
+describe("getAuthOptionsFromEnv", () => {
+  it("should read authentication settings from the environment", () => {
+    const options = getAuthOptionsFromEnv({
+      AZURE_DEVOPS_AUTH_TYPE: "Service-Principal",
+      AZURE_TENANT_ID: "tenant",
+      AZURE_CLIENT_ID: "client",
+      AZURE_CLIENT_SECRET: "secret",
+    });
+
+    expect(options).toEqual({ type: "service-principal", pat: undefined, tenantId: "tenant", clientId: "client", clientSecret: "secret" });
+  });
+
+  it("should prefer per-organization variables over the shared ones", () => {
+    const env = { AZURE_DEVOPS_PAT: "shared-pat", AZURE_DEVOPS_PAT_CONTOSO_EU: "contoso-pat", AZURE_DEVOPS_AUTH_TYPE_FABRIKAM: "entra" };
+
+    expect(getAuthOptionsFromEnv(env, "contoso-eu").pat).toBe("contoso-pat");
+    expect(getAuthOptionsFromEnv(env, "fabrikam")).toEqual(expect.objectContaining({ type: "entra", pat: "shared-pat" }));
+    expect(getAuthOptionsFromEnv(env).pat).toBe("shared-pat");
+  });
+
+  it("should use the command-line PAT only for organizations without credentials of their own", () => {
+    const env = { AZURE_DEVOPS_PAT: "shared-pat", AZURE_DEVOPS_PAT_CONTOSO: "contoso-pat", AZURE_CLIENT_ID_FABRIKAM: "client" };
+
+    expect(getAuthOptionsFromEnv(env, "contoso", "cli-pat").pat).toBe("contoso-pat");
+    expect(getAuthOptionsFromEnv(env, "fabrikam", "cli-pat").pat).toBe("shared-pat");
+    expect(getAuthOptionsFromEnv(env, "northwind", "cli-pat").pat).toBe("cli-pat");
+    expect(getAuthOptionsFromEnv(env, undefined, "cli-pat").pat).toBe("cli-pat");
+  });
+
+  it("should reject an unsupported authentication type", () => {
+    expect(() => getAuthOptionsFromEnv({ AZURE_DEVOPS_AUTH_TYPE: "kerberos" })).toThrow("Unsupported AZURE_DEVOPS_AUTH_TYPE 'kerberos'");
+  });
+});
+
+describe("createCachedTokenProvider", () => {
+  const hour = 60 * 60 * 1000;
+
+  it("should reuse a cached token until it is close to expiry", async () => {
+    let now = 0;
+    const credential = createCredentialMock([
+      { token: "first", expiresOnTimestamp: hour },
+      { token: "second", expiresOnTimestamp: 2 * hour },
+    ]);
+    const getToken = createCachedTokenProvider(credential, "scope", () => now);
+
+    expect((await getToken()).token).toBe("first");
+    now = hour / 2;
+    expect((await getToken()).token).toBe("first");
+    now = hour - 60 * 1000;
+    expect((await getToken()).token).toBe("second");
+    expect(credential.getToken).toHaveBeenCalledTimes(2);
+    expect(credential.getToken).toHaveBeenCalledWith("scope");
+  });
+
+  it("should honor refreshAfterTimestamp when the credential provides it", async () => {
+    let now = 0;
+    const credential = createCredentialMock([
+      { token: "first", expiresOnTimestamp: hour, refreshAfterTimestamp: 10 },
+      { token: "second", expiresOnTimestamp: hour },
+    ]);
+    const getToken = createCachedTokenProvider(credential, "scope", () => now);
+
+    await getToken();
+    now = 10;
+    expect((await getToken()).token).toBe("second");
+  });
+
+  it("should share a single request between concurrent callers", async () => {
+    const credential = createCredentialMock([{ token: "first", expiresOnTimestamp: hour }]);
+    const getToken = createCachedTokenProvider(credential, "scope", () => 0);
+
+    const tokens = await Promise.all([getToken(), getToken(), getToken()]);
+
+    expect(tokens.map((token) => token.token)).toEqual(["first", "first", "first"]);
+    expect(credential.getToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep using an unexpired token when the refresh fails", async () => {
+    let now = 0;
+    const credential = createCredentialMock([{ token: "first", expiresOnTimestamp: hour }]);
+    credential.getToken.mockRejectedValueOnce(new Error("refresh failed"));
+    const getToken = createCachedTokenProvider(credential, "scope", () => now);
+
+    await getToken();
+    now = hour - 60 * 1000;
+    expect((await getToken()).token).toBe("first");
+  });
+
+  it("should propagate refresh failures once the token has expired", async () => {
+    let now = 0;
+    const credential = createCredentialMock([{ token: "first", expiresOnTimestamp: hour }]);
+    credential.getToken.mockRejectedValueOnce(new Error("refresh failed"));
+    const getToken = createCachedTokenProvider(credential, "scope", () => now);
+
+    await getToken();
+    now = hour;
+    await expect(getToken()).rejects.toThrow("refresh failed");
+  });
+});
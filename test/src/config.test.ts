@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { createDefaultsServer, loadConfig } from "../../src/config";
+
+describe("loadConfig", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "ado-mcp-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("should return no defaults without a config file or environment variables", () => {
+    expect(loadConfig(undefined, {}, cwd)).toEqual({ path: undefined, defaults: {} });
+  });
+
+  it("should load ado-mcp.config.json from the working directory and let the environment override it", () => {
+    writeFileSync(join(cwd, "ado-mcp.config.json"), JSON.stringify({ defaults: { project: "Fabrikam", team: "Fabrikam Team" } }));
+
+    const config = loadConfig(undefined, { AZURE_DEVOPS_MCP_DEFAULT_TEAM: "Web", AZURE_DEVOPS_MCP_DEFAULT_ITERATION: " Fabrikam\\Sprint 1 " }, cwd);
+
+    expect(config).toEqual({
+      path: join(cwd, "ado-mcp.config.json"),
+      defaults: { project: "Fabrikam", team: "Web", iteration: "Fabrikam\\Sprint 1" },
+    });
+  });
+
+  it("should report every schema violation with its path", () => {
+    writeFileSync(join(cwd, "custom.json"), JSON.stringify({ defaults: { projct: "Fabrikam", team: "" } }));
+
+    expect(() => loadConfig("custom.json", {}, cwd)).toThrow(
+      `Invalid configuration file ${join(cwd, "custom.json")}:\n  - defaults.team: must not be empty\n  - defaults: Unrecognized key(s) in object: 'projct'`
+    );
+  });
+
+  it("should fail for malformed JSON and for a missing explicit config file", () => {
+    writeFileSync(join(cwd, "ado-mcp.config.json"), "{ defaults: ");
+
+    expect(() => loadConfig(undefined, {}, cwd)).toThrow(`Could not read configuration file ${join(cwd, "ado-mcp.config.json")}`);
+    expect(() => loadConfig("missing.json", {}, cwd)).toThrow(`Configuration file ${join(cwd, "missing.json")} does not exist`);
+  });
+});
+
+describe("createDefaultsServer", () => {
+  function registerTool(defaults: Record<string, string>, paramsSchema: Record<string, z.ZodTypeAny>, name = "some_tool"): Record<string, z.ZodTypeAny> {
+    const server = { tool: jest.fn() } as unknown as McpServer;
+    createDefaultsServer(server, defaults).tool(name, "Some tool", paramsSchema, jest.fn());
+    return (server.tool as jest.Mock).mock.calls[0][2] as Record<string, z.ZodTypeAny>;
+  }
+
+  it("should make required parameters optional and fill in the configured default", () => {
+    const schema = registerTool(
+      { project: "Fabrikam", repository: "web" },
+      {
+        project: z.string().describe("The name or ID of the Azure DevOps project."),
+        repositoryId: z.string().describe("The ID of the repository."),
+        id: z.number(),
+      }
+    );
+
+    expect(z.object(schema).parse({ id: 1 })).toEqual({ project: "Fabrikam", repositoryId: "web", id: 1 });
+    expect(z.object(schema).parse({ id: 1, project: "Other" }).project).toBe("Other");
+    expect(schema.project.description).toBe("The name or ID of the Azure DevOps project. Defaults to 'Fabrikam'.");
+  });
+
+  it("should only default optional parameters whose omission means the Azure DevOps default", () => {
+    const schema = registerTool(
+      { project: "Fabrikam", team: "Web", areaPath: "Fabrikam\\Web" },
+      {
+        project: z.string().optional().describe("If not provided, all wikis in the organization will be returned."),
+        team: z.string().optional(),
+        areaPath: z.string().optional(),
+      }
+    );
+
+    expect(z.object(schema).parse({})).toEqual({ team: "Web", areaPath: "Fabrikam\\Web" });
+  });
+
+  it("should default the optional project of tools that promise to use the default project", () => {
+    const schema = registerTool(
+      { project: "Fabrikam", team: "Web" },
+      {
+        id: z.string(),
+        project: z.string().optional().describe("If not provided, the default project will be used."),
+        team: z.string().optional(),
+      },
+      "wit_get_query_results_by_id"
+    );
+
+    expect(z.object(schema).parse({ id: "q1" })).toEqual({ id: "q1", project: "Fabrikam", team: "Web" });
+    expect(schema.project.description).toBe("If not provided, the default project will be used. Defaults to 'Fabrikam'.");
+  });
+
+  it("should leave non-string parameters and servers without defaults unchanged", () => {
+    const iteration = z.number().optional();
+    expect(registerTool({ iteration: "Fabrikam\\Sprint 1" }, { iteration }).iteration).toBe(iteration);
+
+    const server = { tool: jest.fn() } as unknown as McpServer;
+    expect(createDefaultsServer(server, {})).toBe(server);
+  });
+});
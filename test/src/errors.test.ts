@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { AzureDevOpsRequestError, BadRequestError, toErrorEnvelope, withErrorHandling } from "../../src/errors";
+import { logger } from "../../src/logger";
+
+function apiError(message: string, statusCode: number): Error {
+  // azure-devops-node-api attaches the HTTP status to the thrown error
+  return Object.assign(new Error(message), { statusCode });
+}
+
+describe("toErrorEnvelope", () => {
+  it.each([
+    [401, "unauthorized"],
+    [403, "forbidden"],
+    [404, "not_found"],
+    [409, "conflict"],
+    [412, "precondition_failed"],
+    [429, "rate_limited"],
+    [400, "bad_request"],
+    [503, "server_error"],
+    [418, "unknown"],
+  ])("should map HTTP %d to %s", (status, code) => {
+    const envelope = toErrorEnvelope(apiError("failed", status), "fetching projects");
+
+    expect(envelope.error.code).toBe(code);
+    expect(envelope.error.status).toBe(status);
+    expect(envelope.error.message).toBe("Error fetching projects: failed");
+  });
+
+  it("should add a remediation hint for known failures", () => {
+    expect(toErrorEnvelope(apiError("TF400813: not authorized", 401), "fetching wiki").error.hint).toContain("personal access token");
+    expect(toErrorEnvelope(apiError("VS402335: revision mismatch", 412), "updating work item").error.hint).toContain("latest version");
+  });
+
+  it("should handle errors without a status code", () => {
+    expect(toErrorEnvelope("boom", "running build")).toEqual({ error: { code: "unknown", message: "Error running build: boom" } });
+    expect(toErrorEnvelope({}, "running build").error.message).toBe("Error running build: Unknown error occurred");
+  });
+});
+
+describe("AzureDevOpsRequestError", () => {
+  it("should keep the status, service message and Retry-After of a failed response", async () => {
+    const response = new Response(JSON.stringify({ message: "Request was blocked due to exceeding usage of resource" }), {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "Retry-After": "30" },
+    });
+
+    const error = await AzureDevOpsRequestError.fromResponse(response, "Azure DevOps Code Search API error");
+
+    expect(error.message).toBe("Azure DevOps Code Search API error: 429 Request was blocked due to exceeding usage of resource");
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfterSeconds).toBe(30);
+    expect(toErrorEnvelope(error, "searching code").error).toEqual(expect.objectContaining({ code: "rate_limited", retryAfterSeconds: 30 }));
+  });
+
+  it("should fall back to the status text for empty bodies", async () => {
+    const error = await AzureDevOpsRequestError.fromResponse(new Response(null, { status: 403, statusText: "Forbidden" }), "Failed to update work items in batch");
+
+    expect(error.message).toBe("Failed to update work items in batch: 403 Forbidden");
+    expect(error.retryAfterSeconds).toBeUndefined();
+  });
+});
+
+describe("BadRequestError", () => {
+  it("should be reported as a bad request", () => {
+    const envelope = toErrorEnvelope(new BadRequestError("Duplicate key 'a'"), "creating work items");
+
+    expect(envelope.error).toEqual(expect.objectContaining({ code: "bad_request", status: 400, message: "Error creating work items: Duplicate key 'a'" }));
+  });
+});
+
+describe("withErrorHandling", () => {
+  beforeEach(() => {
+    jest.spyOn(logger, "error").mockImplementation(() => undefined);
+  });
+
+  it("should pass successful results through", async () => {
+    const handler = withErrorHandling("fetching builds", async (value: string) => ({ content: [{ type: "text" as const, text: value }] }));
+
+    expect(await handler("ok")).toEqual({ content: [{ type: "text", text: "ok" }] });
+  });
+
+  it("should turn exceptions into error results", async () => {
+    const handler = withErrorHandling("fetching builds", async () => {
+      throw apiError("Access denied", 403);
+    });
+
+    const result = await handler();
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text as string)).toEqual({
+      error: {
+        code: "forbidden",
+        status: 403,
+        message: "Error fetching builds: Access denied",
+        hint: expect.stringContaining("permission"),
+      },
+    });
+    expect(logger.error).toHaveBeenCalledWith("Error fetching builds", expect.any(Error));
+  });
+});
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { withErrorHandling } from "../../src/errors";
+import { WebApi } from "azure-devops-node-api";
+import { applyWebApiRequestPolicy, ConcurrencyLimiter, configureHttpClient, DEFAULT_HTTP_CLIENT_OPTIONS, fetchWithRetry, getRetryAfterMs, getWebApiRequestOptions } from "../../src/http";
+import { logger } from "../../src/logger";
+
+const URL = "https://dev.azure.com/contoso/_apis/wit/workitems/1";
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return new Response("{}", { status, headers });
+}
+
+describe("fetchWithRetry", () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    configureHttpClient({ ...DEFAULT_HTTP_CLIENT_OPTIONS, baseDelayMs: 1, maxDelayMs: 1000 });
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(logger, "warning").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    configureHttpClient(DEFAULT_HTTP_CLIENT_OPTIONS);
+    jest.restoreAllMocks();
+  });
+
+  it("should retry throttled requests of any method and honor Retry-After", async () => {
+    fetchMock.mockResolvedValueOnce(response(429, { "Retry-After": "0" })).mockResolvedValueOnce(response(200));
+
+    const result = await fetchWithRetry(URL, { method: "PATCH", body: "[]" });
+
+    expect(result.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenNthCalledWith(2, URL, { method: "PATCH", body: "[]" });
+  });
+
+  it("should retry transient failures of idempotent requests only", async () => {
+    fetchMock.mockResolvedValue(response(503));
+
+    const post = await fetchWithRetry(URL, { method: "POST" });
+    expect(post.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    const get = await fetchWithRetry(URL);
+    expect(get.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(DEFAULT_HTTP_CLIENT_OPTIONS.maxRetries + 1);
+
+    fetchMock.mockClear();
+    await fetchWithRetry(URL, { method: "POST" }, { idempotent: true });
+    expect(fetchMock).toHaveBeenCalledTimes(DEFAULT_HTTP_CLIENT_OPTIONS.maxRetries + 1);
+  });
+
+  it("should not retry client errors", async () => {
+    fetchMock.mockResolvedValue(response(404));
+
+    expect((await fetchWithRetry(URL)).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up when Retry-After exceeds the maximum delay", async () => {
+    fetchMock.mockResolvedValue(response(429, { "Retry-After": "3600" }));
+
+    expect((await fetchWithRetry(URL)).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cap concurrent requests per organization", async () => {
+    configureHttpClient({ maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+    fetchMock.mockImplementation(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return response(200);
+    });
+
+    await Promise.all(Array.from({ length: 6 }, (_, index) => fetchWithRetry(`${URL}${index}`)));
+    await fetchWithRetry("https://dev.azure.com/fabrikam/_apis/projects");
+
+    expect(peak).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(7);
+  });
+
+  it("should report throttling in the tool result", async () => {
+    fetchMock.mockResolvedValueOnce(response(429, { "Retry-After": "0", "X-RateLimit-Resource": "WorkItemTracking" })).mockResolvedValueOnce(response(200, { "X-RateLimit-Delay": "1.5" }));
+
+    const handler = withErrorHandling("updating work items", async () => {
+      await fetchWithRetry(URL, { method: "POST" });
+      return { content: [{ type: "text" as const, text: "done" }] };
+    });
+    const result = await handler();
+
+    expect(result.content).toEqual([
+      { type: "text", text: "done" },
+      {
+        type: "text",
+        text: "Azure DevOps rate limiting affected 2 request(s); 1 retried; 1.5s spent waiting; throttled resources: WorkItemTracking. Consider smaller batches or fewer parallel calls.",
+      },
+    ]);
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("should hand a finished task's slot to the next waiter before new callers get it", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let active = 0;
+    let peak = 0;
+    const track = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+    let release: () => void = () => undefined;
+
+    const first = limiter.run(() => new Promise<void>((resolve) => (release = resolve)));
+    const second = limiter.run(track);
+    release();
+    await Promise.resolve();
+    const third = limiter.run(track);
+    await Promise.all([first, second, third]);
+
+    expect(peak).toBe(1);
+  });
+});
+
+describe("applyWebApiRequestPolicy", () => {
+  beforeEach(() => {
+    configureHttpClient({ ...DEFAULT_HTTP_CLIENT_OPTIONS, baseDelayMs: 1, maxDelayMs: 1000, maxConcurrency: 1 });
+    jest.spyOn(logger, "warning").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    configureHttpClient(DEFAULT_HTTP_CLIENT_OPTIONS);
+    jest.restoreAllMocks();
+  });
+
+  function clientResponse(statusCode: number, headers: Record<string, string> = {}) {
+    return { message: { statusCode, headers }, readBody: jest.fn().mockResolvedValue("{}") };
+  }
+
+  function createConnection(request: jest.Mock) {
+    const client = () => ({ request });
+    return { rest: { client: client() }, getWorkApi: async () => ({ http: client(), rest: { client: client() } }) } as unknown as WebApi;
+  }
+
+  it("should retry throttled requests of the clients the connection creates", async () => {
+    const request = jest
+      .fn()
+      .mockResolvedValueOnce(clientResponse(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce(clientResponse(200));
+
+    const api = await applyWebApiRequestPolicy(createConnection(request)).getWorkApi();
+    const result = await api.http.request("PATCH", URL, "[]", {});
+
+    expect(result.message.statusCode).toBe(200);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should leave transient failures to the client's own retries", async () => {
+    const request = jest.fn().mockResolvedValue(clientResponse(503));
+
+    const api = await applyWebApiRequestPolicy(createConnection(request)).getWorkApi();
+    const result = await api.rest.client.request("GET", URL, "", {});
+
+    expect(result.message.statusCode).toBe(503);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share the organization's concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const slow = async <T>(result: T) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return result;
+    };
+    const request = jest.fn(() => slow(clientResponse(200)));
+    global.fetch = jest.fn(() => slow(response(200))) as unknown as typeof fetch;
+
+    const api = await applyWebApiRequestPolicy(createConnection(request)).getWorkApi();
+    await Promise.all([api.http.request("GET", URL, "", {}), api.rest.client.request("GET", URL, "", {}), fetchWithRetry(URL)]);
+
+    expect(peak).toBe(1);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  it("should read seconds, HTTP dates and X-RateLimit-Reset", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+
+    expect(getRetryAfterMs(response(429, { "Retry-After": "12" }), now)).toBe(12_000);
+    expect(getRetryAfterMs(response(503, { "Retry-After": "Wed, 01 Jan 2025 00:00:05 GMT" }), now)).toBe(5_000);
+    expect(getRetryAfterMs(response(429, { "X-RateLimit-Reset": String(now / 1000 + 7) }), now)).toBe(7_000);
+    expect(getRetryAfterMs(response(503), now)).toBeUndefined();
+  });
+});
+
+describe("getWebApiRequestOptions", () => {
+  afterEach(() => configureHttpClient(DEFAULT_HTTP_CLIENT_OPTIONS));
+
+  it("should enable the node API client's retries with the configured count", () => {
+    configureHttpClient({ maxRetries: 5 });
+    expect(getWebApiRequestOptions()).toEqual({ allowRetries: true, maxRetries: 5 });
+
+    configureHttpClient({ maxRetries: 0 });
+    expect(getWebApiRequestOptions()).toEqual({ allowRetries: false, maxRetries: 0 });
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { request } from "node:http";
+import { z } from "zod";
+import { HttpTransportHandle, startHttpTransport } from "../../src/httpTransport";
+
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  server.tool("echo", "Echo the input.", { text: z.string() }, async ({ text }) => ({
+    content: [{ type: "text", text }],
+  }));
+  return server;
+}
+
+describe("startHttpTransport", () => {
+  let handle: HttpTransportHandle;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    handle = await startHttpTransport(createTestServer, { port: 0, host: "127.0.0.1" });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it("should serve a health endpoint", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(expect.objectContaining({ status: "ok", sessions: 0 }));
+  });
+
+  it("should call tools over the Streamable HTTP transport", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+
+    const tools = await client.listTools();
+    const result = await client.callTool({ name: "echo", arguments: { text: "hello" } });
+
+    expect(tools.tools.map((tool) => tool.name)).toEqual(["echo"]);
+    expect(result.content).toEqual([{ type: "text", text: "hello" }]);
+    expect(transport.sessionId).toBeDefined();
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("should keep sessions separate", async () => {
+    const first = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const second = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const firstClient = new Client({ name: "first", version: "1.0.0" });
+    const secondClient = new Client({ name: "second", version: "1.0.0" });
+    await firstClient.connect(first);
+    await secondClient.connect(second);
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect(health.sessions).toBe(2);
+
+    await firstClient.close();
+    await secondClient.close();
+  });
+
+  it("should call tools over the legacy SSE transport", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const result = await client.callTool({ name: "echo", arguments: { text: "over sse" } });
+
+    expect(result.content).toEqual([{ type: "text", text: "over sse" }]);
+
+    await client.close();
+  });
+
+  it("should reject requests for an unknown session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream", "mcp-session-id": "unknown" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject non-initialize requests without a session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject requests from other origins and hosts", async () => {
+    const fromOrigin = await fetch(`${baseUrl}/health`, { headers: { Origin: "https://attacker.example" } });
+    const fromHost = await new Promise<number | undefined>((resolve, reject) => {
+      request({ host: "127.0.0.1", port: handle.port, path: "/health", headers: { Host: "attacker.example" } }, (response) => {
+        response.resume();
+        resolve(response.statusCode);
+      })
+        .on("error", reject)
+        .end();
+    });
+    const fromLoopback = await fetch(`${baseUrl}/health`, { headers: { Origin: "http://localhost:6274" } });
+
+    expect(fromOrigin.status).toBe(403);
+    expect(fromHost).toBe(403);
+    expect(fromLoopback.status).toBe(200);
+  });
+
+  it("should close sessions that stay idle", async () => {
+    const idleHandle = await startHttpTransport(createTestServer, { port: 0, host: "127.0.0.1", sessionIdleTimeoutMs: 50 });
+    const client = new Client({ name: "idle", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${idleHandle.port}/mcp`)));
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const health = await (await fetch(`http://127.0.0.1:${idleHandle.port}/health`)).json();
+
+    expect(health.sessions).toBe(0);
+
+    await client.close();
+    await idleHandle.close();
+  });
+
+  it("should close the server when initialization fails", async () => {
+    const server = createTestServer();
+    const close = jest.spyOn(server, "close");
+    jest.spyOn(server, "connect").mockRejectedValue(new Error("connect failed"));
+    const failingHandle = await startHttpTransport(() => server, { port: 0, host: "127.0.0.1" });
+
+    const response = await fetch(`http://127.0.0.1:${failingHandle.port}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } } }),
+    });
+
+    expect(response.status).toBe(500);
+    expect(close).toHaveBeenCalled();
+
+    await failingHandle.close();
+  });
+});
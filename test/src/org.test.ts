@@ -0,0 +1,85 @@
+import { describe, expect, it } from "@jest/globals";
+import { getIdentityBaseUrl, getOrganizationKey, getSearchBaseUrl, resolveOrganization } from "../../src/org";
+
+describe("resolveOrganization", () => {
+  it("should build a dev.azure.com URL from an organization name", () => {
+    expect(resolveOrganization("contoso")).toEqual({
+      name: "contoso",
+      url: "https://dev.azure.com/contoso",
+      searchUrl: "https://almsearch.dev.azure.com/contoso",
+      isHosted: true,
+    });
+  });
+
+  it("should accept a full dev.azure.com URL with a trailing slash", () => {
+    expect(resolveOrganization("https://dev.azure.com/contoso/")).toEqual({
+      name: "contoso",
+      url: "https://dev.azure.com/contoso",
+      searchUrl: "https://almsearch.dev.azure.com/contoso",
+      isHosted: true,
+    });
+  });
+
+  it("should accept a legacy visualstudio.com URL", () => {
+    expect(resolveOrganization("https://contoso.visualstudio.com")).toEqual({
+      name: "contoso",
+      url: "https://contoso.visualstudio.com",
+      searchUrl: "https://almsearch.dev.azure.com/contoso",
+      isHosted: true,
+    });
+  });
+
+  it("should accept an Azure DevOps Server collection URL", () => {
+    expect(resolveOrganization("https://tfs.contoso.local/tfs/DefaultCollection/")).toEqual({
+      name: "DefaultCollection",
+      url: "https://tfs.contoso.local/tfs/DefaultCollection",
+      searchUrl: "https://tfs.contoso.local/tfs/DefaultCollection",
+      isHosted: false,
+    });
+  });
+
+  it("should reject a collection URL without a collection name", () => {
+    expect(() => resolveOrganization("https://tfs.contoso.local")).toThrow("is missing the collection name");
+  });
+
+  it("should reject a dev.azure.com URL without an organization name", () => {
+    expect(() => resolveOrganization("https://dev.azure.com/")).toThrow("is missing the organization name");
+  });
+
+  it("should reject an organization name containing a path", () => {
+    expect(() => resolveOrganization("tfs.contoso.local/DefaultCollection")).toThrow("Invalid organization");
+  });
+});
+
+describe("getSearchBaseUrl", () => {
+  it("should use the almsearch host for Azure DevOps Services", () => {
+    expect(getSearchBaseUrl("https://dev.azure.com/contoso")).toBe("https://almsearch.dev.azure.com/contoso");
+  });
+
+  it("should use the collection URL for Azure DevOps Server", () => {
+    expect(getSearchBaseUrl("https://tfs.contoso.local/DefaultCollection")).toBe("https://tfs.contoso.local/DefaultCollection");
+  });
+});
+
+describe("getIdentityBaseUrl", () => {
+  it("should use the vssps host for Azure DevOps Services", () => {
+    expect(getIdentityBaseUrl("https://contoso.visualstudio.com")).toBe("https://vssps.dev.azure.com/contoso");
+  });
+
+  it("should use the collection URL for Azure DevOps Server", () => {
+    expect(getIdentityBaseUrl("https://tfs.contoso.local/DefaultCollection/")).toBe("https://tfs.contoso.local/DefaultCollection");
+  });
+});
+
+describe("getOrganizationKey", () => {
+  it("should group REST and search calls of a hosted organization", () => {
+    expect(getOrganizationKey("https://dev.azure.com/Contoso/Fabrikam/_apis/wit/workitems/1")).toBe("contoso");
+    expect(getOrganizationKey("https://almsearch.dev.azure.com/contoso/_apis/search/codesearchresults")).toBe("contoso");
+    expect(getOrganizationKey("https://vssps.dev.azure.com/contoso/_apis/identities")).toBe("contoso");
+    expect(getOrganizationKey("https://contoso.visualstudio.com/_apis/projects")).toBe("contoso");
+  });
+
+  it("should key Azure DevOps Server calls by collection", () => {
+    expect(getOrganizationKey("https://tfs.contoso.local/DefaultCollection/_apis/projects")).toBe("https://tfs.contoso.local/defaultcollection");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebApi } from "azure-devops-node-api";
+import { IRequestHandler } from "azure-devops-node-api/interfaces/common/VsoBaseInterfaces";
+import { AuthProvider } from "../../src/auth";
+import { BadRequestError } from "../../src/errors";
+import { resolveOrganization } from "../../src/org";
+import { createOrganizationRegistry, createOrganizationScopedServer, OrganizationRegistry, parseOrganizationList } from "../../src/organizations";
+
+function createAuthProviderMock(header: string): AuthProvider & { getAuthorizationHeader: jest.Mock } {
+  return {
+    type: "pat",
+    getAuthorizationHeader: jest.fn().mockResolvedValue(header),
+    getRequestHandler: jest.fn().mockResolvedValue({} as IRequestHandler),
+  };
+}
+
+function createRegistry(): { organizations: OrganizationRegistry; createConnection: jest.Mock; contoso: ReturnType<typeof createAuthProviderMock> } {
+  const contoso = createAuthProviderMock("Basic contoso");
+  const createConnection = jest.fn((url: string) => ({ serverUrl: url }) as unknown as WebApi);
+  const organizations = createOrganizationRegistry(
+    [
+      { info: resolveOrganization("contoso"), authProvider: contoso },
+      { info: resolveOrganization("https://tfs.fabrikam.local/DefaultCollection"), authProvider: createAuthProviderMock("Basic fabrikam") },
+    ],
+    createConnection
+  );
+  return { organizations, createConnection, contoso };
+}
+
+describe("createOrganizationRegistry", () => {
+  it("should list the configured organizations with the default first", () => {
+    const { organizations } = createRegistry();
+
+    expect(organizations.list()).toEqual([
+      expect.objectContaining({ name: "contoso", url: "https://dev.azure.com/contoso", authentication: "pat", isDefault: true }),
+      expect.objectContaining({ name: "DefaultCollection", url: "https://tfs.fabrikam.local/DefaultCollection", isDefault: false }),
+    ]);
+  });
+
+  it("should resolve organizations by name or URL and default to the first one", async () => {
+    const { organizations } = createRegistry();
+
+    expect(organizations.resolve().info.name).toBe("contoso");
+    expect(organizations.resolve("CONTOSO").info.name).toBe("contoso");
+    expect(organizations.resolve("https://tfs.fabrikam.local/DefaultCollection/").info.name).toBe("DefaultCollection");
+    expect(await organizations.getAuthorizationHeader("defaultcollection")).toBe("Basic fabrikam");
+    expect(() => organizations.resolve("unknown")).toThrow("Unknown organization 'unknown'. Configured organizations: contoso, DefaultCollection");
+    expect(() => organizations.resolve("unknown")).toThrow(BadRequestError);
+  });
+
+  it("should cache one connection per organization until the credentials change", async () => {
+    const { organizations, createConnection, contoso } = createRegistry();
+
+    const first = await organizations.getConnection();
+    const second = await organizations.getConnection("contoso");
+    const other = await organizations.getConnection("DefaultCollection");
+    contoso.getAuthorizationHeader.mockResolvedValue("Bearer refreshed");
+    const refreshed = await organizations.getConnection();
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+    expect(refreshed).not.toBe(first);
+    expect(createConnection).toHaveBeenCalledTimes(3);
+    expect(createConnection).toHaveBeenNthCalledWith(2, "https://tfs.fabrikam.local/DefaultCollection", {});
+  });
+
+  it("should reject duplicate organizations", () => {
+    const authProvider = createAuthProviderMock("Basic x");
+    expect(() =>
+      createOrganizationRegistry([
+        { info: resolveOrganization("contoso"), authProvider },
+        { info: resolveOrganization("https://dev.azure.com/contoso"), authProvider },
+      ])
+    ).toThrow("Organization 'contoso' is configured more than once");
+  });
+});
+
+describe("createOrganizationScopedServer", () => {
+  it("should add an organization argument and run the handler against that organization", async () => {
+    const { organizations } = createRegistry();
+    const server = { tool: jest.fn() } as unknown as McpServer;
+    const scoped = createOrganizationScopedServer(server, organizations);
+    const handler = jest.fn(async () => organizations.getAuthorizationHeader());
+
+    scoped.tool("core_list_projects", "List projects", {}, { readOnlyHint: true }, handler as never);
+
+    const [name, , schema, annotations, scopedHandler] = (server.tool as jest.Mock).mock.calls[0];
+    expect(name).toBe("core_list_projects");
+    expect(Object.keys(schema)).toEqual(["organization"]);
+    expect(annotations).toEqual({ readOnlyHint: true });
+    expect(await scopedHandler({ organization: "DefaultCollection" }, {})).toBe("Basic fabrikam");
+    expect(await scopedHandler({}, {})).toBe("Basic contoso");
+  });
+
+  it("should leave unscoped tools unchanged", () => {
+    const { organizations } = createRegistry();
+    const server = { tool: jest.fn() } as unknown as McpServer;
+    const handler = jest.fn();
+
+    createOrganizationScopedServer(server, organizations, ["core_list_organizations"]).tool("core_list_organizations", "List organizations", {}, handler);
+
+    expect((server.tool as jest.Mock).mock.calls[0]).toEqual(["core_list_organizations", "List organizations", {}, handler]);
+  });
+});
+
+describe("parseOrganizationList", () => {
+  it("should parse a comma-separated list of names and URLs", () => {
+    expect(parseOrganizationList("contoso, https://tfs.fabrikam.local/DefaultCollection,").map((organization) => organization.url)).toEqual([
+      "https://dev.azure.com/contoso",
+      "https://tfs.fabrikam.local/DefaultCollection",
+    ]);
+  });
+});
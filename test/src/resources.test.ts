@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebApi } from "azure-devops-node-api";
+import { GitVersionType } from "azure-devops-node-api/interfaces/GitInterfaces.js";
+import { Readable } from "node:stream";
+import { logger } from "../../src/logger";
+import { configureResources } from "../../src/resources";
+
+type ReadCallback = (uri: URL, variables: Record<string, string | string[]>) => Promise<{ contents: Record<string, unknown>[] }>;
+
+describe("configureResources", () => {
+  let server: McpServer;
+  let mockConnection: Record<string, jest.Mock>;
+  let mockWorkItemApi: { getWorkItem: jest.Mock };
+  let mockWorkApi: { getPredefinedQueryResults: jest.Mock };
+  let mockGitApi: { getItemContent: jest.Mock; getPullRequest: jest.Mock; getPullRequestsByProject: jest.Mock; getRepositories: jest.Mock };
+  let mockBuildApi: { getBuildLogLines: jest.Mock };
+
+  beforeEach(() => {
+    server = { resource: jest.fn() } as unknown as McpServer;
+    mockWorkItemApi = { getWorkItem: jest.fn() };
+    mockWorkApi = { getPredefinedQueryResults: jest.fn() };
+    mockGitApi = { getItemContent: jest.fn(), getPullRequest: jest.fn(), getPullRequestsByProject: jest.fn(), getRepositories: jest.fn() };
+    mockBuildApi = { getBuildLogLines: jest.fn() };
+    mockConnection = {
+      getWorkItemTrackingApi: jest.fn().mockResolvedValue(mockWorkItemApi),
+      getWorkApi: jest.fn().mockResolvedValue(mockWorkApi),
+      getGitApi: jest.fn().mockResolvedValue(mockGitApi),
+      getBuildApi: jest.fn().mockResolvedValue(mockBuildApi),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function configure(defaults = {}) {
+    configureResources(server, jest.fn().mockResolvedValue(mockConnection as unknown as WebApi), defaults);
+  }
+
+  function getResource(name: string): { template: ResourceTemplate; read: ReadCallback } {
+    const call = (server.resource as jest.Mock).mock.calls.find(([resourceName]) => resourceName === name);
+    if (!call) throw new Error(`${name} resource not registered`);
+    return { template: call[1] as ResourceTemplate, read: call[3] as ReadCallback };
+  }
+
+  async function read(name: string, uri: string) {
+    const { template, read } = getResource(name);
+    const variables = template.uriTemplate.match(uri);
+    if (!variables) throw new Error(`${uri} does not match ${template.uriTemplate}`);
+    return read(new URL(uri), variables);
+  }
+
+  it("should register a template for each kind of resource", () => {
+    configure();
+
+    expect((server.resource as jest.Mock).mock.calls.map(([name, template]) => [name, String((template as ResourceTemplate).uriTemplate)])).toEqual([
+      ["work_item", "ado://{project}/workitems/{id}"],
+      ["repository_file_at_ref", "ado://{project}/repos/{repo}/files/{+path}{?ref}"],
+      ["repository_file", "ado://{project}/repos/{repo}/files/{+path}"],
+      ["wiki_page", "ado://{project}/wikis/{wiki}/pages/{+path}"],
+      ["build_log", "ado://{project}/builds/{id}/logs/{logId}"],
+      ["pull_request", "ado://{project}/pullrequests/{repo}/{id}"],
+    ]);
+  });
+
+  it("should read a work item as JSON", async () => {
+    configure();
+    mockWorkItemApi.getWorkItem.mockResolvedValue({ id: 42, fields: { "System.Title": "Fix login" } });
+
+    const result = await read("work_item", "ado://Fabrikam%20Fiber/workitems/42");
+
+    expect(mockWorkItemApi.getWorkItem).toHaveBeenCalledWith(42, undefined, undefined, 1, "Fabrikam Fiber");
+    expect(result.contents).toEqual([{ uri: "ado://Fabrikam%20Fiber/workitems/42", mimeType: "application/json", text: JSON.stringify({ id: 42, fields: { "System.Title": "Fix login" } }, null, 2) }]);
+  });
+
+  it("should read a repository file at the given ref and return binary files as blobs", async () => {
+    configure();
+    mockGitApi.getItemContent.mockResolvedValueOnce(Readable.from([Buffer.from("export {};\n")])).mockResolvedValueOnce(Readable.from([Buffer.from([0x89, 0x50, 0x00, 0x47])]));
+
+    const text = await read("repository_file_at_ref", "ado://Fabrikam/repos/web/files/src/index.ts?ref=refs%2Ftags%2Fv1.0");
+    const binary = await read("repository_file", "ado://Fabrikam/repos/web/files/logo.png");
+
+    expect(mockGitApi.getItemContent).toHaveBeenNthCalledWith(1, "web", "/src/index.ts", "Fabrikam", undefined, undefined, false, false, false, {
+      version: "v1.0",
+      versionType: GitVersionType.Tag,
+    });
+    expect(mockGitApi.getItemContent).toHaveBeenNthCalledWith(2, "web", "/logo.png", "Fabrikam", undefined, undefined, false, false, false, undefined);
+    expect(text.contents[0]).toMatchObject({ mimeType: "text/plain", text: "export {};\n" });
+    expect(binary.contents[0]).toMatchObject({ mimeType: "application/octet-stream", blob: Buffer.from([0x89, 0x50, 0x00, 0x47]).toString("base64") });
+  });
+
+  it("should read build logs as plain text", async () => {
+    configure();
+    mockBuildApi.getBuildLogLines.mockResolvedValue(["Starting", "Done"]);
+
+    const result = await read("build_log", "ado://Fabrikam/builds/7/logs/3");
+
+    expect(mockBuildApi.getBuildLogLines).toHaveBeenCalledWith("Fabrikam", 7, 3);
+    expect(result.contents[0]).toMatchObject({ mimeType: "text/plain", text: "Starting\nDone" });
+  });
+
+  it("should list work items and pull requests of the default project only", async () => {
+    configure();
+    expect(await getResource("work_item").template.listCallback?.({} as never)).toEqual({ resources: [] });
+
+    (server.resource as jest.Mock).mockClear();
+    configure({ project: "Fabrikam Fiber" });
+    mockWorkApi.getPredefinedQueryResults.mockResolvedValue({ results: [{ id: 42, fields: { "System.WorkItemType": "Bug", "System.Title": "Fix login" } }] });
+    mockGitApi.getPullRequestsByProject.mockResolvedValue([{ pullRequestId: 5, title: "Add login", repository: { name: "web" } }]);
+
+    expect(await getResource("work_item").template.listCallback?.({} as never)).toEqual({
+      resources: [{ uri: "ado://Fabrikam%20Fiber/workitems/42", name: "Bug 42: Fix login", mimeType: "application/json" }],
+    });
+    expect(await getResource("pull_request").template.listCallback?.({} as never)).toEqual({
+      resources: [{ uri: "ado://Fabrikam%20Fiber/pullrequests/web/5", name: "PR 5: Add login", mimeType: "application/json" }],
+    });
+    expect(mockWorkApi.getPredefinedQueryResults).toHaveBeenCalledWith("Fabrikam Fiber", "assignedtome", 50);
+  });
+
+  it("should report failures with the tool error message", async () => {
+    configure();
+    jest.spyOn(logger, "error").mockImplementation(() => undefined);
+    mockGitApi.getPullRequest.mockRejectedValue(Object.assign(new Error("TF401180: The requested pull request was not found."), { statusCode: 404 }));
+
+    await expect(read("pull_request", "ado://Fabrikam/pullrequests/web/5")).rejects.toThrow("Error reading pull request: TF401180: The requested pull request was not found.");
+    await expect(read("work_item", "ado://Fabrikam/workitems/abc")).rejects.toThrow("Error reading work item: 'id' must be a number, got 'abc'");
+  });
+});
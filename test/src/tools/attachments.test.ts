@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BadRequestError } from "../../../src/errors";
+import { configureAttachments, createAttachmentContentResult, getAttachmentId, readAttachmentSource, toAttachmentInfo } from "../../../src/tools/attachments";
+
+describe("attachments", () => {
+  afterEach(() => configureAttachments({ allowAnyPath: true }));
+
+  it("should read attachments from a local file or base64 content", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "attachments-"));
+    writeFileSync(join(directory, "repro.log"), "Stack trace");
+
+    await expect(readAttachmentSource(join(directory, "repro.log"), undefined, undefined)).resolves.toEqual({ fileName: "repro.log", content: Buffer.from("Stack trace") });
+    await expect(readAttachmentSource(undefined, Buffer.from("Hello").toString("base64"), "hello.txt")).resolves.toEqual({ fileName: "hello.txt", content: Buffer.from("Hello") });
+  });
+
+  it("should reject ambiguous or invalid sources", async () => {
+    await expect(readAttachmentSource(undefined, undefined, "a.txt")).rejects.toThrow("Provide either filePath or content, but not both");
+    await expect(readAttachmentSource("a.txt", "SGVsbG8=", undefined)).rejects.toThrow("Provide either filePath or content, but not both");
+    await expect(readAttachmentSource(undefined, "SGVsbG8=", undefined)).rejects.toThrow("fileName is required when uploading content");
+    await expect(readAttachmentSource(undefined, "not base64!", "a.txt")).rejects.toThrow("content must be base64 encoded");
+    await expect(readAttachmentSource(undefined, "not base64!", "a.txt")).rejects.toBeInstanceOf(BadRequestError);
+  });
+
+  it("should only upload local files from the attachment directory", async () => {
+    const root = mkdtempSync(join(tmpdir(), "attachments-"));
+    const directory = join(root, "uploads");
+    mkdirSync(directory);
+    writeFileSync(join(directory, "repro.log"), "Stack trace");
+    writeFileSync(join(root, "secret.env"), "PAT=secret");
+    symlinkSync(join(root, "secret.env"), join(directory, "link.env"));
+    configureAttachments({ directory, allowAnyPath: false });
+
+    await expect(readAttachmentSource("repro.log", undefined, undefined)).resolves.toEqual({ fileName: "repro.log", content: Buffer.from("Stack trace") });
+    await expect(readAttachmentSource(join(root, "secret.env"), undefined, undefined)).rejects.toThrow("is outside the attachment directory");
+    await expect(readAttachmentSource("../secret.env", undefined, undefined)).rejects.toThrow("is outside the attachment directory");
+    await expect(readAttachmentSource("link.env", undefined, undefined)).rejects.toThrow("is outside the attachment directory");
+  });
+
+  it("should refuse local files without an attachment directory when any path is not allowed", async () => {
+    configureAttachments({ allowAnyPath: false });
+
+    await expect(readAttachmentSource("/etc/hostname", undefined, undefined)).rejects.toThrow("Uploading local files is disabled on this server");
+    await expect(readAttachmentSource(undefined, "SGVsbG8=", "hello.txt")).resolves.toEqual({ fileName: "hello.txt", content: Buffer.from("Hello") });
+  });
+
+  it("should describe attachment relations", () => {
+    const url = "https://dev.azure.com/contoso/_apis/wit/attachments/0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0";
+
+    expect(getAttachmentId(`${url}?fileName=repro.log`)).toBe("0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0");
+    expect(getAttachmentId("0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0")).toBe("0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0");
+    expect(toAttachmentInfo({ rel: "AttachedFile", url, attributes: { name: "repro.log", resourceSize: 11, comment: "", resourceCreatedDate: "2025-01-31T10:00:00Z" } })).toEqual({
+      id: "0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0",
+      name: "repro.log",
+      size: 11,
+      comment: undefined,
+      createdDate: "2025-01-31T10:00:00Z",
+      url,
+    });
+  });
+
+  it("should return text inline and binary content as an embedded resource", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a]);
+
+    expect(createAttachmentContentResult("https://example/log", "repro.log", Buffer.from("Stack trace")).content).toEqual([{ type: "text", text: "Stack trace" }]);
+    expect(createAttachmentContentResult("https://example/shot", "shot.png", png).content).toEqual([
+      { type: "text", text: "shot.png (image/png, 6 bytes)" },
+      { type: "resource", resource: { uri: "https://example/shot", mimeType: "image/png", blob: png.toString("base64") } },
+    ]);
+  });
+});
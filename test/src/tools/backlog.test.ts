@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import { IWorkApi } from "azure-devops-node-api/WorkApi";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { getBacklogOrder, getBacklogParentId, getRankedBacklog, planReorder } from "../../../src/tools/backlog";
+
+const ORG = "https://dev.azure.com/fabrikam/_apis/wit/workItems";
+
+function backlog(...ids: number[]) {
+  return { workItems: ids.map((id) => ({ target: { id, url: `${ORG}/${id}` } })) };
+}
+
+describe("planReorder", () => {
+  const order = [1, 2, 3, 4, 5];
+
+  it("should find the neighbours for each position", () => {
+    expect(planReorder(order, [4], "top")).toEqual({ previousId: 0, nextId: 1, order: [4, 1, 2, 3, 5] });
+    expect(planReorder(order, [1, 2], "bottom")).toEqual({ previousId: 5, nextId: 0, order: [3, 4, 5, 1, 2] });
+    expect(planReorder(order, [5, 1], "above", 3)).toEqual({ previousId: 2, nextId: 3, order: [2, 5, 1, 3, 4] });
+    expect(planReorder(order, [2], "below", 4)).toEqual({ previousId: 4, nextId: 5, order: [1, 3, 4, 2, 5] });
+  });
+
+  it("should reject items that are not on the backlog and moves relative to a moved item", () => {
+    expect(() => planReorder(order, [9, 2], "top")).toThrow("Work items 9 are not on this backlog");
+    expect(() => planReorder(order, [2], "above")).toThrow("relativeTo is required to move work items above another one");
+    expect(() => planReorder(order, [2, 3], "below", 3)).toThrow("Work item 3 cannot be moved below itself");
+    expect(() => planReorder(order, [2], "below", 9)).toThrow("Work item 9 is not on this backlog");
+  });
+});
+
+describe("getBacklogParentId", () => {
+  const links = { workItems: [{ target: { id: 1 } }, { source: { id: 10 }, target: { id: 2 } }, { source: { id: 10 }, target: { id: 3 } }] };
+
+  it("should return the shared parent of the moved items, or 0 for items without one", () => {
+    expect(getBacklogParentId(links, [2, 3])).toBe(10);
+    expect(getBacklogParentId(links, [1])).toBe(0);
+  });
+
+  it("should reject items with different parents, relative to an item of another parent or not on the backlog", () => {
+    expect(() => getBacklogParentId(links, [1, 2])).toThrow("Work items 1, 2 have different parents (0, 10); move the children of one parent at a time");
+    expect(() => getBacklogParentId(links, [2], 1)).toThrow("Work item 1 has a different parent (0) than the moved work items (10)");
+    expect(() => getBacklogParentId(links, [2, 9])).toThrow("Work items 9 are not on this backlog");
+  });
+
+  it("should order only the children of a parent when one is given", () => {
+    expect(getBacklogOrder(links, 10)).toEqual([2, 3]);
+    expect(getBacklogOrder(links, 0)).toEqual([1]);
+  });
+});
+
+describe("getRankedBacklog", () => {
+  it("should return the backlog in rank order with parents from the backlog or fetched separately", async () => {
+    const workApi = { getBacklogLevelWorkItems: jest.fn().mockResolvedValue(backlog(3, 1, 2, 3)) };
+    const parentOf = (id: number) => [{ rel: "System.LinkTypes.Hierarchy-Reverse", url: `${ORG}/${id}` }];
+    const workItemApi = {
+      getWorkItemsBatch: jest
+        .fn()
+        .mockResolvedValueOnce([
+          { id: 3, fields: { "System.WorkItemType": "User Story", "System.Title": "Search", "System.State": "Active", "Microsoft.VSTS.Common.StackRank": 10 }, relations: parentOf(100) },
+          {
+            id: 1,
+            fields: { "System.WorkItemType": "Bug", "System.Title": "Crash", "System.State": "New", "Microsoft.VSTS.Common.BacklogPriority": 20, "System.AssignedTo": { displayName: "Jane Doe" } },
+          },
+          null,
+        ])
+        .mockResolvedValueOnce([{ id: 100, fields: { "System.WorkItemType": "Feature", "System.Title": "Discovery" } }]),
+    };
+
+    const ranked = await getRankedBacklog(workApi as unknown as IWorkApi, workItemApi as unknown as IWorkItemTrackingApi, { project: "Fabrikam", team: "Web" }, "Microsoft.RequirementCategory", 3);
+
+    expect(getBacklogOrder(backlog(3, 1, 2, 3))).toEqual([3, 1, 2]);
+    expect(workItemApi.getWorkItemsBatch.mock.calls[1][0].ids).toEqual([100]);
+    expect(ranked).toEqual([
+      { rank: 1, id: 3, workItemType: "User Story", title: "Search", state: "Active", order: 10, parent: { id: 100, workItemType: "Feature", title: "Discovery" } },
+      { rank: 2, id: 1, workItemType: "Bug", title: "Crash", state: "New", assignedTo: "Jane Doe", order: 20 },
+      { rank: 3, id: 2 },
+    ]);
+  });
+});
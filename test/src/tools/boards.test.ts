@@ -0,0 +1,59 @@
+import { describe, expect, it } from "@jest/globals";
+import { Board } from "azure-devops-node-api/interfaces/WorkInterfaces";
+import { getCardMovePatch, getCardPosition, summarizeBoard } from "../../../src/tools/boards";
+import { _mockBoard, _mockBoardCards } from "../../mocks/boards";
+
+const board = _mockBoard as unknown as Board;
+const COLUMN_FIELD = "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column";
+
+describe("summarizeBoard", () => {
+  it("should list columns with WIP limits and splits, lanes and the Kanban fields", () => {
+    const summary = summarizeBoard(board);
+
+    expect(summary.columns.map(({ name, type, wipLimit, isSplit }) => ({ name, type, wipLimit, isSplit }))).toEqual([
+      { name: "New", type: "incoming", wipLimit: undefined, isSplit: false },
+      { name: "Active", type: "inProgress", wipLimit: 2, isSplit: true },
+      { name: "Review", type: "inProgress", wipLimit: 3, isSplit: false },
+      { name: "Closed", type: "outgoing", wipLimit: undefined, isSplit: false },
+    ]);
+    expect(summary.lanes).toEqual(["(default lane)", "Expedite"]);
+    expect(summary.fields).toEqual({
+      column: COLUMN_FIELD,
+      done: "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column.Done",
+      lane: "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Lane",
+    });
+  });
+});
+
+describe("getCardPosition", () => {
+  it("should read the column, split and lane of a card", () => {
+    expect(_mockBoardCards.map((card) => getCardPosition(board, card))).toEqual([
+      { id: 1, workItemType: "User Story", title: "Checkout", state: "Active", column: "Active", split: "Doing", lane: "(default lane)" },
+      { id: 2, workItemType: "Bug", title: "Crash", state: "Active", column: "Active", split: "Done", lane: "Expedite" },
+      { id: 3, workItemType: "User Story", title: "Search", state: "Active", column: "Active", split: "Doing", lane: "(default lane)" },
+      { id: 4, workItemType: "User Story", title: "Wishlist", state: "New", column: "New", split: undefined, lane: "(default lane)" },
+    ]);
+  });
+});
+
+describe("getCardMovePatch", () => {
+  it("should set the mapped state, the column, the split and the lane", () => {
+    expect(getCardMovePatch(board, "User Story", "New", { column: "active", lane: "expedite", done: true })).toEqual([
+      { op: "add", path: "/fields/System.State", value: "Active" },
+      { op: "add", path: `/fields/${COLUMN_FIELD}`, value: "Active" },
+      { op: "add", path: "/fields/WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column.Done", value: true },
+      { op: "add", path: "/fields/WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Lane", value: "Expedite" },
+    ]);
+    expect(getCardMovePatch(board, "Bug", "Resolved", { column: "Review", lane: "(default lane)" })).toEqual([
+      { op: "add", path: `/fields/${COLUMN_FIELD}`, value: "Review" },
+      { op: "add", path: "/fields/WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Lane", value: "" },
+    ]);
+  });
+
+  it("should reject columns, lanes and splits the board does not have", () => {
+    expect(() => getCardMovePatch(board, "User Story", "New", { column: "Testing" })).toThrow("The board 'Stories' has no column 'Testing'. Columns: New, Active, Review, Closed");
+    expect(() => getCardMovePatch(board, "Task", "New", { column: "Active" })).toThrow("Work items of type 'Task' are not on the board 'Stories'");
+    expect(() => getCardMovePatch(board, "User Story", "New", { column: "Review", done: true })).toThrow("The column 'Review' is not split into Doing and Done");
+    expect(() => getCardMovePatch(board, "User Story", "New", { column: "Review", lane: "Urgent" })).toThrow("The board 'Stories' has no lane 'Urgent'. Lanes: (default lane), Expedite");
+  });
+});
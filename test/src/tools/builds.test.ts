@@ -1,4 +1,3 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it, beforeEach } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
@@ -10,18 +9,18 @@ import { mockUpdateBuildStageResponse } from "../../mocks/builds";
 // Mock fetch globally
 global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 
 describe("configureBuildTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: { getBuildApi: jest.Mock; serverUrl: string };
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
     mockConnection = {
       getBuildApi: jest.fn(),
       serverUrl: "https://dev.azure.com/test-org",
@@ -32,25 +31,25 @@ describe("configureBuildTools", () => {
 
   describe("tool registration", () => {
     it("registers build tools on the server", () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       expect(server.tool as jest.Mock).toHaveBeenCalled();
     });
   });
 
   describe("update_build_stage tool", () => {
     it("should update build stage with correct parameters and return the expected result", async () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "build_update_build_stage");
       if (!call) throw new Error("build_update_build_stage tool not registered");
       const [, , , handler] = call;
 
-      // Mock the token provider
-      const mockToken = { token: "mock-token" };
-      (tokenProvider as jest.Mock).mockResolvedValue(mockToken);
+      // Mock the authorization header provider
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Bearer mock-token");
 
       // Mock successful fetch response
       const mockResponse = {
         ok: true,
+        headers: new Headers(),
         text: jest.fn().mockResolvedValue(JSON.stringify(mockUpdateBuildStageResponse)),
       };
       (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse as unknown as Response);
@@ -81,19 +80,19 @@ describe("configureBuildTools", () => {
     });
 
     it("should handle HTTP errors correctly", async () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "build_update_build_stage");
       if (!call) throw new Error("build_update_build_stage tool not registered");
       const [, , , handler] = call;
 
-      // Mock the token provider
-      const mockToken = { token: "mock-token" };
-      (tokenProvider as jest.Mock).mockResolvedValue(mockToken);
+      // Mock the authorization header provider
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Bearer mock-token");
 
       // Mock failed fetch response
       const mockResponse = {
         ok: false,
         status: 404,
+        headers: new Headers(),
         text: jest.fn().mockResolvedValue("Build stage not found"),
       };
       (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse as unknown as Response);
@@ -106,7 +105,17 @@ describe("configureBuildTools", () => {
         forceRetryAllJobs: false,
       };
 
-      await expect(handler(params)).rejects.toThrow("Failed to update build stage: 404 Build stage not found");
+      const result = await handler(params);
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        error: {
+          code: "not_found",
+          status: 404,
+          message: "Error updating build stage: Failed to update build stage: 404 Build stage not found",
+          hint: expect.stringContaining("not found"),
+        },
+      });
 
       expect(global.fetch).toHaveBeenCalledWith(`https://dev.azure.com/test-org/test-project/_apis/build/builds/999/stages/NonExistentStage?api-version=${apiVersion}`, {
         method: "PATCH",
@@ -122,14 +131,13 @@ describe("configureBuildTools", () => {
     });
 
     it("should handle network errors correctly", async () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "build_update_build_stage");
       if (!call) throw new Error("build_update_build_stage tool not registered");
       const [, , , handler] = call;
 
-      // Mock the token provider
-      const mockToken = { token: "mock-token" };
-      (tokenProvider as jest.Mock).mockResolvedValue(mockToken);
+      // Mock the authorization header provider
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Bearer mock-token");
 
       // Mock network error
       const networkError = new Error("Network connection failed");
@@ -143,7 +151,10 @@ describe("configureBuildTools", () => {
         forceRetryAllJobs: false,
       };
 
-      await expect(handler(params)).rejects.toThrow("Network connection failed");
+      const result = await handler(params);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Error updating build stage: Network connection failed");
 
       expect(global.fetch).toHaveBeenCalledWith(`https://dev.azure.com/test-org/test-project/_apis/build/builds/123/stages/Build?api-version=${apiVersion}`, {
         method: "PATCH",
@@ -158,15 +169,15 @@ describe("configureBuildTools", () => {
       });
     });
 
-    it("should handle token provider errors correctly", async () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+    it("should handle authorization header provider errors correctly", async () => {
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "build_update_build_stage");
       if (!call) throw new Error("build_update_build_stage tool not registered");
       const [, , , handler] = call;
 
-      // Mock token provider error
+      // Mock authorization header provider error
       const tokenError = new Error("Failed to get access token");
-      (tokenProvider as jest.Mock).mockRejectedValue(tokenError);
+      (authHeaderProvider as jest.Mock).mockRejectedValue(tokenError);
 
       const params = {
         project: "test-project",
@@ -176,23 +187,26 @@ describe("configureBuildTools", () => {
         forceRetryAllJobs: false,
       };
 
-      await expect(handler(params)).rejects.toThrow("Failed to get access token");
+      const result = await handler(params);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Failed to get access token");
 
-      // Should not call fetch if token provider fails
+      // Should not call fetch if the authorization header provider fails
       expect(global.fetch).not.toHaveBeenCalled();
     });
 
     it("should handle different StageUpdateType values correctly", async () => {
-      configureBuildTools(server, tokenProvider, connectionProvider);
+      configureBuildTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "build_update_build_stage");
       if (!call) throw new Error("build_update_build_stage tool not registered");
       const [, , , handler] = call;
 
-      const mockToken = { token: "mock-token" };
-      (tokenProvider as jest.Mock).mockResolvedValue(mockToken);
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Bearer mock-token");
 
       const mockResponse = {
         ok: true,
+        headers: new Headers(),
         text: jest.fn().mockResolvedValue(JSON.stringify(mockUpdateBuildStageResponse)),
       };
       (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse as unknown as Response);
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "@jest/globals";
+import { parseBulkInput } from "../../../src/tools/bulk";
+
+describe("parseBulkInput", () => {
+  it("should parse nested JSON and parents given by key or work item ID", () => {
+    const items = parseBulkInput(
+      "json",
+      JSON.stringify([
+        { key: "login", type: "Feature", title: "Login", children: [{ type: "User Story", title: "Sign in with email", fields: { "Story Points": 3 } }] },
+        { type: "Task", title: "Write tests", parent: "2" },
+        { type: "Bug", title: "Fix crash", parent: 42 },
+      ])
+    );
+
+    expect(items).toEqual([
+      { key: "login", parent: undefined, workItemType: "Feature", title: "Login", fields: {}, level: 0 },
+      { key: "4", parent: 42, workItemType: "Bug", title: "Fix crash", fields: {}, level: 0 },
+      { key: "2", parent: "login", workItemType: "User Story", title: "Sign in with email", fields: { "Story Points": 3 }, level: 1 },
+      { key: "3", parent: "2", workItemType: "Task", title: "Write tests", fields: {}, level: 2 },
+    ]);
+  });
+
+  it("should parse CSV with quoted values and treat other columns as fields", () => {
+    const items = parseBulkInput("csv", 'key,parent,Work Item Type,Title,Priority,Description\nf1,,Feature,"Login, SSO",1,\ns1,f1,User Story,"Say ""hi""",,"Two\nlines"\n');
+
+    expect(items).toEqual([
+      { key: "f1", parent: undefined, workItemType: "Feature", title: "Login, SSO", fields: { Priority: "1" }, level: 0 },
+      { key: "s1", parent: "f1", workItemType: "User Story", title: 'Say "hi"', fields: { Description: "Two\nlines" }, level: 1 },
+    ]);
+  });
+
+  it("should parse a markdown outline with types by level and inline fields", () => {
+    const items = parseBulkInput(
+      "markdown",
+      ["# Release 1", "", "- Checkout", "  - Pay by card {Story Points: 5, Priority: 2}", "    - [Bug] Card declined twice", "  - Pay by invoice", "- Search"].join("\n"),
+      ["Feature", "User Story", "Task"]
+    );
+
+    expect(items.map(({ key, parent, workItemType, title, fields }) => ({ key, parent, workItemType, title, fields }))).toEqual([
+      { key: "1", parent: undefined, workItemType: "Feature", title: "Checkout", fields: {} },
+      { key: "5", parent: undefined, workItemType: "Feature", title: "Search", fields: {} },
+      { key: "2", parent: "1", workItemType: "User Story", title: "Pay by card", fields: { "Story Points": "5", "Priority": "2" } },
+      { key: "4", parent: "1", workItemType: "User Story", title: "Pay by invoice", fields: {} },
+      { key: "3", parent: "2", workItemType: "Bug", title: "Card declined twice", fields: {} },
+    ]);
+  });
+
+  it("should reject input it cannot turn into work items", () => {
+    expect(() => parseBulkInput("json", "{}")).toThrow("JSON input must be an array of work items");
+    expect(() => parseBulkInput("json", '[{"type": "Task", "title": "A", "Priority": 1}]')).toThrow("[0] has unknown properties: Priority. Put field values under 'fields'.");
+    expect(() => parseBulkInput("json", '[{"key": "a", "type": "Task", "title": "A", "parent": "b"}, {"key": "b", "type": "Task", "title": "B", "parent": "a"}]')).toThrow(
+      "Item 'a' is its own ancestor"
+    );
+    expect(() => parseBulkInput("csv", "type,title\nTask,A\nTask,B,extra")).toThrow("CSV row 3 has 3 values but the header has 2 columns");
+    expect(() => parseBulkInput("markdown", "- Untyped")).toThrow("Item '1' has no work item type; give it one or pass the types by level");
+    expect(() => parseBulkInput("markdown", "Nothing to see")).toThrow("The input does not describe any work items");
+  });
+});
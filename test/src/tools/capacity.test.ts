@@ -0,0 +1,76 @@
+import { describe, expect, it } from "@jest/globals";
+import { DayOfWeek } from "azure-devops-node-api/interfaces/common/System";
+import { summarizeCapacity, toDateRanges } from "../../../src/tools/capacity";
+
+const weekdays = [DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday];
+const sprint = { id: "i1", name: "Sprint 2", path: "Fabrikam\\Sprint 2", attributes: { startDate: new Date("2025-06-02T00:00:00Z"), finishDate: new Date("2025-06-13T00:00:00Z") } };
+const jane = { id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com" };
+const bob = { id: "u2", displayName: "Bob Smith", uniqueName: "bob@contoso.com" };
+
+function task(id: number, remainingWork: number, assignedTo?: object, activity?: string) {
+  return { id, fields: { "System.AssignedTo": assignedTo, "Microsoft.VSTS.Scheduling.RemainingWork": remainingWork, "Microsoft.VSTS.Common.Activity": activity } };
+}
+
+describe("summarizeCapacity", () => {
+  const input = {
+    iteration: sprint,
+    workingDays: weekdays,
+    teamDaysOff: [{ start: new Date("2025-06-09T00:00:00Z"), end: new Date("2025-06-09T00:00:00Z") }],
+    capacities: [
+      { teamMember: jane, activities: [{ name: "Development", capacityPerDay: 6 }], daysOff: [{ start: new Date("2025-06-12T00:00:00Z"), end: new Date("2025-06-13T00:00:00Z") }] },
+      {
+        teamMember: bob,
+        activities: [
+          { name: "Testing", capacityPerDay: 4 },
+          { name: "", capacityPerDay: 1 },
+        ],
+        daysOff: [],
+      },
+    ],
+    workItems: [
+      task(1, 20, jane, "Development"),
+      task(2, 16, { displayName: "Jane Doe", uniqueName: "JANE@contoso.com" }, "Development"),
+      task(3, 10, bob, "Testing"),
+      task(4, 3, { id: "u3", displayName: "Carol White", uniqueName: "carol@contoso.com" }),
+      task(5, 5, undefined, "Development"),
+    ],
+    asOf: new Date("2025-06-04T15:30:00Z"),
+  };
+
+  it("should count capacity from asOf, less team and personal days off, and flag overcommitted members", () => {
+    const summary = summarizeCapacity(input);
+
+    expect(summary.iteration).toEqual({ id: "i1", name: "Sprint 2", path: "Fabrikam\\Sprint 2", startDate: "2025-06-02", finishDate: "2025-06-13" });
+    expect(summary.asOf).toBe("2025-06-04");
+    expect(summary.workingDays).toBe(7);
+    expect(summary.members).toEqual([
+      { id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com", capacityPerDay: 6, daysOff: 2, availableDays: 5, capacity: 30, remainingWork: 36, workItems: 2, overcommitted: true },
+      { id: "u2", displayName: "Bob Smith", uniqueName: "bob@contoso.com", capacityPerDay: 5, daysOff: 0, availableDays: 7, capacity: 35, remainingWork: 10, workItems: 1, overcommitted: false },
+      { id: "u3", displayName: "Carol White", uniqueName: "carol@contoso.com", capacityPerDay: 0, daysOff: 0, availableDays: 7, capacity: 0, remainingWork: 3, workItems: 1, overcommitted: true },
+    ]);
+    expect(summary.unassigned).toEqual({ remainingWork: 5, workItems: 1 });
+    expect(summary.team).toEqual({ capacity: 65, remainingWork: 54, overcommitted: false });
+    expect(summary.byActivity).toEqual({
+      Development: { capacity: 30, remainingWork: 41 },
+      Testing: { capacity: 28, remainingWork: 10 },
+      Unassigned: { capacity: 7, remainingWork: 3 },
+    });
+  });
+
+  it("should count the whole iteration before it starts and nothing after it ends", () => {
+    expect(summarizeCapacity({ ...input, asOf: new Date("2025-05-20T00:00:00Z") }).workingDays).toBe(9);
+    expect(summarizeCapacity({ ...input, asOf: new Date("2025-06-20T00:00:00Z") }).team.capacity).toBe(0);
+  });
+
+  it("should reject iterations without dates", () => {
+    expect(() => summarizeCapacity({ ...input, iteration: { ...sprint, attributes: {} } })).toThrow("The iteration 'Fabrikam\\Sprint 2' has no start and finish dates");
+  });
+});
+
+describe("toDateRanges", () => {
+  it("should parse ISO dates and reject ranges that cannot be used", () => {
+    expect(toDateRanges([{ start: "2025-06-02", end: "2025-06-03" }])).toEqual([{ start: new Date("2025-06-02T00:00:00Z"), end: new Date("2025-06-03T00:00:00Z") }]);
+    expect(() => toDateRanges([{ start: "June 2nd", end: "2025-06-03" }])).toThrow("Invalid day-off range June 2nd - 2025-06-03; use ISO dates such as 2025-06-02");
+    expect(() => toDateRanges([{ start: "2025-06-03", end: "2025-06-02" }])).toThrow("The day-off range 2025-06-03 - 2025-06-02 ends before it starts");
+  });
+});
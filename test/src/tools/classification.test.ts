@@ -0,0 +1,93 @@
+import { describe, expect, it } from "@jest/globals";
+import { WorkItemClassificationNode } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
+import { countDescendants, toClassificationTree, toItemPath, toIterationDates, toNodePath } from "../../../src/tools/classification";
+
+const tree: WorkItemClassificationNode = {
+  id: 1,
+  name: "Fabrikam",
+  path: "\\Fabrikam\\Iteration",
+  hasChildren: true,
+  children: [
+    {
+      id: 2,
+      name: "Release 1",
+      path: "\\Fabrikam\\Iteration\\Release 1",
+      hasChildren: true,
+      children: [
+        {
+          id: 3,
+          name: "Sprint 1",
+          path: "\\Fabrikam\\Iteration\\Release 1\\Sprint 1",
+          hasChildren: false,
+          attributes: { startDate: new Date("2025-06-02T00:00:00Z"), finishDate: new Date("2025-06-13T00:00:00Z") },
+        },
+      ],
+    },
+    { id: 4, name: "Release 2", path: "\\Fabrikam\\Iteration\\Release 2", hasChildren: true },
+  ],
+};
+
+describe("toNodePath", () => {
+  it("should accept paths with or without the project name and structure", () => {
+    expect(toNodePath("Fabrikam", "areas", "Fabrikam\\Web\\Checkout")).toBe("Web/Checkout");
+    expect(toNodePath("Fabrikam", "areas", "\\Fabrikam\\Area\\Web")).toBe("Web");
+    expect(toNodePath("Fabrikam", "iterations", "Release 1/Sprint 1")).toBe("Release 1/Sprint 1");
+  });
+
+  it("should return an empty path for the root", () => {
+    expect(toNodePath("Fabrikam", "areas", undefined)).toBe("");
+    expect(toNodePath("fabrikam", "iterations", "\\Fabrikam\\Iteration")).toBe("");
+  });
+});
+
+describe("toItemPath", () => {
+  it("should drop the structure segment the API adds", () => {
+    expect(toItemPath("\\Fabrikam\\Area\\Web\\Checkout")).toBe("Fabrikam\\Web\\Checkout");
+    expect(toItemPath("\\Fabrikam\\Area")).toBe("Fabrikam");
+  });
+});
+
+describe("toClassificationTree", () => {
+  it("should keep dates and flag children below the fetched depth", () => {
+    const result = toClassificationTree(tree);
+
+    expect(result.path).toBe("Fabrikam");
+    expect(result.children?.[0].children).toEqual([
+      {
+        id: 3,
+        identifier: undefined,
+        name: "Sprint 1",
+        path: "Fabrikam\\Release 1\\Sprint 1",
+        startDate: new Date("2025-06-02T00:00:00Z"),
+        finishDate: new Date("2025-06-13T00:00:00Z"),
+        children: undefined,
+        hasMoreChildren: undefined,
+      },
+    ]);
+    expect(result.children?.[1].hasMoreChildren).toBe(true);
+  });
+});
+
+describe("countDescendants", () => {
+  it("should count the nodes at every level below a node", () => {
+    expect(countDescendants(tree)).toBe(3);
+    expect(countDescendants(tree.children?.[1] as WorkItemClassificationNode)).toBe(0);
+  });
+});
+
+describe("toIterationDates", () => {
+  it("should parse both dates and keep a current one that is left out", () => {
+    expect(toIterationDates(undefined, undefined)).toBeUndefined();
+    expect(toIterationDates("2025-06-02", "2025-06-13")).toEqual({ startDate: new Date("2025-06-02"), finishDate: new Date("2025-06-13") });
+    expect(toIterationDates(undefined, "2025-06-20", { startDate: new Date("2025-06-02"), finishDate: new Date("2025-06-13") })).toEqual({
+      startDate: new Date("2025-06-02"),
+      finishDate: new Date("2025-06-20"),
+    });
+  });
+
+  it("should reject invalid, missing or reversed dates", () => {
+    expect(() => toIterationDates("next week", "2025-06-13")).toThrow("Invalid startDate 'next week'; use an ISO date such as 2025-06-02");
+    expect(() => toIterationDates("2025-06-02", undefined)).toThrow("finishDate is required along with startDate");
+    expect(() => toIterationDates("2025-06-13", "2025-06-02")).toThrow("The iteration finishes (2025-06-02T00:00:00.000Z) before it starts (2025-06-13T00:00:00.000Z)");
+  });
+});
@@ -1,10 +1,9 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { configureCoreTools } from "../../../src/tools/core";
 import { WebApi } from "azure-devops-node-api";
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 
 interface CoreApiMock {
@@ -14,14 +13,14 @@ interface CoreApiMock {
 
 describe("configureCoreTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: { getCoreApi: jest.Mock };
   let mockCoreApi: CoreApiMock;
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
 
     mockCoreApi = {
       getProjects: jest.fn(),
@@ -37,14 +36,37 @@ describe("configureCoreTools", () => {
 
   describe("tool registration", () => {
     it("registers core tools on the server", () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
       expect(server.tool as jest.Mock).toHaveBeenCalled();
     });
   });
 
+  describe("list_organizations tool", () => {
+    it("should only be registered when an organizations provider is given", () => {
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
+
+      expect((server.tool as jest.Mock).mock.calls.map(([toolName]) => toolName)).not.toContain("core_list_organizations");
+    });
+
+    it("should return the configured organizations", async () => {
+      const organizations = [
+        { name: "contoso", url: "https://dev.azure.com/contoso", searchUrl: "https://almsearch.dev.azure.com/contoso", isHosted: true, authentication: "pat" as const, isDefault: true },
+      ];
+      configureCoreTools(server, authHeaderProvider, connectionProvider, () => organizations);
+
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_organizations");
+      if (!call) throw new Error("core_list_organizations tool not registered");
+      const [, , , handler] = call;
+
+      const result = await handler({});
+
+      expect(JSON.parse(result.content[0].text)).toEqual(organizations);
+    });
+  });
+
   describe("list_projects tool", () => {
     it("should call getProjects API with the correct parameters and return the expected result", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_projects");
 
@@ -117,7 +139,7 @@ describe("configureCoreTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_projects");
 
@@ -142,7 +164,7 @@ describe("configureCoreTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_projects");
 
@@ -168,7 +190,7 @@ describe("configureCoreTools", () => {
 
   describe("list_project_teams tool", () => {
     it("should call getTeams API with the correct parameters and return the expected result", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_project_teams");
 
@@ -229,7 +251,7 @@ describe("configureCoreTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_project_teams");
 
@@ -254,7 +276,7 @@ describe("configureCoreTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureCoreTools(server, tokenProvider, connectionProvider);
+      configureCoreTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "core_list_project_teams");
 
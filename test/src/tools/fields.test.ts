@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { createFieldValidator, FieldValidator, formatFieldIssues } from "../../../src/tools/fields";
+import { _mockWorkItemFields, _mockWorkItemTypeFields } from "../../mocks/work-items";
+
+const ORG = "https://dev.azure.com/contoso";
+
+describe("createFieldValidator", () => {
+  let validator: FieldValidator;
+  let workItemApi: { getFields: jest.Mock; getWorkItemTypeFieldsWithReferences: jest.Mock };
+
+  beforeEach(() => {
+    validator = createFieldValidator();
+    workItemApi = {
+      getFields: jest.fn().mockResolvedValue(_mockWorkItemFields),
+      getWorkItemTypeFieldsWithReferences: jest.fn().mockResolvedValue(_mockWorkItemTypeFields),
+    };
+  });
+
+  function validate(operations: Parameters<FieldValidator["validate"]>[4], creating = false) {
+    return validator.validate(workItemApi as unknown as IWorkItemTrackingApi, ORG, "Contoso", "Bug", operations, creating);
+  }
+
+  it("should convert values to the field types and normalize field names", async () => {
+    const result = await validate([
+      { op: "add", path: "/fields/Story Points", value: "5" },
+      { op: "add", path: "/fields/microsoft.vsts.common.priority", value: 2 },
+      { op: "replace", path: "/fields/Microsoft.VSTS.Scheduling.DueDate", value: "2025-01-31" },
+      { op: "add", path: "/fields/Microsoft.VSTS.CMMI.Blocked", value: "TRUE" },
+      { op: "add", path: "/fields/System.AssignedTo", value: { uniqueName: "jane@contoso.com", displayName: "Jane Doe" } },
+      { op: "add", path: "/fields/System.State", value: "active" },
+      { op: "add", path: "/fields/System.Tags", value: "backend" },
+      { op: "add", path: "/relations/-", value: null },
+    ]);
+
+    expect(result.issues).toEqual([]);
+    expect(result.operations).toEqual([
+      { op: "add", path: "/fields/Microsoft.VSTS.Scheduling.StoryPoints", value: 5 },
+      { op: "add", path: "/fields/Microsoft.VSTS.Common.Priority", value: 2 },
+      { op: "replace", path: "/fields/Microsoft.VSTS.Scheduling.DueDate", value: "2025-01-31T00:00:00.000Z" },
+      { op: "add", path: "/fields/Microsoft.VSTS.CMMI.Blocked", value: true },
+      { op: "add", path: "/fields/System.AssignedTo", value: "jane@contoso.com" },
+      { op: "add", path: "/fields/System.State", value: "Active" },
+      { op: "add", path: "/fields/System.Tags", value: "backend" },
+      { op: "add", path: "/relations/-", value: null },
+    ]);
+  });
+
+  it("should report every invalid operation", async () => {
+    const result = await validate([
+      { op: "add", path: "/fields/System.Titel", value: "Fix login" },
+      { op: "add", path: "/fields/System.Id", value: 5 },
+      { op: "add", path: "/fields/Microsoft.VSTS.Common.Priority", value: 7 },
+      { op: "add", path: "/fields/Story Points", value: "five" },
+      { op: "add", path: "/fields/Microsoft.VSTS.Scheduling.DueDate", value: "next week" },
+      { op: "remove", path: "/fields/System.Title" },
+      { op: "replace", path: "/fields/System.Description" },
+    ]);
+
+    expect(result.issues).toEqual([
+      { path: "/fields/System.Titel", message: "'System.Titel' is not a field of work item type 'Bug'. Did you mean 'System.Title'?" },
+      { path: "/fields/System.Id", message: "'System.Id' is read-only" },
+      { path: "/fields/Microsoft.VSTS.Common.Priority", message: "7 is not an allowed value of 'Microsoft.VSTS.Common.Priority'. Allowed values: 1, 2, 3, 4" },
+      { path: "/fields/Microsoft.VSTS.Scheduling.StoryPoints", message: `'Microsoft.VSTS.Scheduling.StoryPoints' expects a number, got "five"` },
+      { path: "/fields/Microsoft.VSTS.Scheduling.DueDate", message: `'Microsoft.VSTS.Scheduling.DueDate' expects a date, such as 2025-01-31 or 2025-01-31T17:00:00Z, got "next week"` },
+      { path: "/fields/System.Title", message: "'System.Title' is required and cannot be removed" },
+      { path: "/fields/System.Description", message: "A value is required for 'replace' operations" },
+    ]);
+  });
+
+  it("should require fields without a default value when creating", async () => {
+    const result = await validate([{ op: "add", path: "/fields/System.Description", value: "<p>Steps</p>" }], true);
+
+    expect(result.issues).toEqual([{ path: "/fields/System.Title", message: "'System.Title' is required for work item type 'Bug'" }]);
+  });
+
+  it("should fetch field definitions once per project and work item type", async () => {
+    await validate([{ op: "add", path: "/fields/System.Title", value: "One" }]);
+    await validate([{ op: "add", path: "/fields/System.Title", value: "Two" }]);
+    await validator.validate(workItemApi as unknown as IWorkItemTrackingApi, ORG, "Contoso", "Task", [], false);
+
+    expect(workItemApi.getFields).toHaveBeenCalledTimes(1);
+    expect(workItemApi.getWorkItemTypeFieldsWithReferences).toHaveBeenCalledTimes(2);
+    expect(workItemApi.getWorkItemTypeFieldsWithReferences).toHaveBeenCalledWith("Contoso", "Bug", 1);
+  });
+});
+
+describe("formatFieldIssues", () => {
+  it("should list the issues", () => {
+    expect(formatFieldIssues([{ id: 7, path: "/fields/System.Id", message: "'System.Id' is read-only" }])).toBe(
+      "1 field operation(s) failed validation:\n- #7 /fields/System.Id: 'System.Id' is read-only"
+    );
+  });
+});
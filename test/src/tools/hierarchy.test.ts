@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { WorkItem } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
+import { getWorkItemTree } from "../../../src/tools/hierarchy";
+
+const ORG = "https://dev.azure.com/contoso/_apis/wit/workItems";
+
+function workItem(id: number, type: string, state: string, options: { parent?: number; children?: number[]; assignedTo?: string; remainingWork?: number } = {}): WorkItem {
+  return {
+    id,
+    fields: {
+      "System.WorkItemType": type,
+      "System.Title": `${type} ${id}`,
+      "System.State": state,
+      "System.AssignedTo": options.assignedTo ? { displayName: options.assignedTo } : undefined,
+      "Microsoft.VSTS.Scheduling.RemainingWork": options.remainingWork,
+    },
+    relations: [
+      ...(options.parent ? [{ rel: "System.LinkTypes.Hierarchy-Reverse", url: `${ORG}/${options.parent}` }] : []),
+      ...(options.children ?? []).map((child) => ({ rel: "System.LinkTypes.Hierarchy-Forward", url: `${ORG}/${child}` })),
+      { rel: "System.LinkTypes.Related", url: `${ORG}/99` },
+    ],
+  };
+}
+
+describe("getWorkItemTree", () => {
+  const workItems = new Map<number, WorkItem>(
+    [
+      workItem(1, "Epic", "Active", { children: [2] }),
+      workItem(2, "Feature", "Active", { parent: 1, children: [3, 4] }),
+      workItem(3, "User Story", "Active", { parent: 2, children: [5, 6] }),
+      workItem(4, "User Story", "New", { parent: 2 }),
+      workItem(5, "Task", "Active", { parent: 3, assignedTo: "Jane Doe", remainingWork: 4 }),
+      // Points back at its parent to check that cycles are not followed
+      workItem(6, "Task", "Closed", { parent: 3, children: [3], remainingWork: 0 }),
+    ].map((item) => [item.id as number, item])
+  );
+  let workItemApi: { getWorkItemsBatch: jest.Mock };
+
+  beforeEach(() => {
+    workItemApi = {
+      getWorkItemsBatch: jest.fn().mockImplementation(async ({ ids }: { ids: number[] }) => ids.map((id) => workItems.get(id) ?? null)),
+    };
+  });
+
+  it("should nest descendants level by level with rollups and the parent chain", async () => {
+    const tree = await getWorkItemTree(workItemApi as unknown as IWorkItemTrackingApi, "Contoso", 2, 5, true);
+
+    expect(workItemApi.getWorkItemsBatch.mock.calls.map(([request]) => (request as { ids: number[] }).ids)).toEqual([[2], [3, 4], [5, 6], [1]]);
+    expect(workItemApi.getWorkItemsBatch).toHaveBeenCalledWith({ ids: [2], $expand: 1, errorPolicy: 2 }, "Contoso");
+    expect(tree.ancestors).toEqual([{ id: 1, workItemType: "Epic", title: "Epic 1", state: "Active" }]);
+    expect(tree.root).toMatchObject({
+      id: 2,
+      rollup: { descendants: 4, byState: { Active: 2, New: 1, Closed: 1 }, byAssignee: { "(unassigned)": 3, "Jane Doe": 1 }, remainingWork: 4 },
+      children: [
+        {
+          id: 3,
+          rollup: { descendants: 2, byState: { Active: 1, Closed: 1 }, remainingWork: 4 },
+          children: [
+            { id: 5, assignedTo: "Jane Doe", remainingWork: 4, children: [] },
+            { id: 6, children: [] },
+          ],
+        },
+        { id: 4, children: [] },
+      ],
+    });
+    expect(tree.root.children[1].rollup).toBeUndefined();
+  });
+
+  it("should stop at the requested depth and flag nodes with unfetched children", async () => {
+    const tree = await getWorkItemTree(workItemApi as unknown as IWorkItemTrackingApi, "Contoso", 1, 2, false, ["System.State"]);
+
+    expect(tree.ancestors).toBeUndefined();
+    expect(tree.root.children[0]).toMatchObject({ id: 2, fields: { "System.State": "Active" } });
+    expect(tree.root.children[0].children.map((child) => [child.id, child.hasMoreChildren])).toEqual([
+      [3, true],
+      [4, undefined],
+    ]);
+  });
+
+  it("should report a missing root as not found", async () => {
+    await expect(getWorkItemTree(workItemApi as unknown as IWorkItemTrackingApi, "Contoso", 42, 3, true)).rejects.toMatchObject({
+      statusCode: 404,
+      message: "Work item 42 does not exist or is not readable",
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { createLinkTypeResolver, getArtifactUri, getWorkItemLinkUrl, LinkTypeResolver } from "../../../src/tools/links";
+import { _mockRelationTypes } from "../../mocks/work-items";
+
+const ORG = "https://dev.azure.com/contoso";
+
+describe("createLinkTypeResolver", () => {
+  let resolver: LinkTypeResolver;
+  let workItemApi: { getRelationTypes: jest.Mock };
+
+  beforeEach(() => {
+    resolver = createLinkTypeResolver();
+    workItemApi = { getRelationTypes: jest.fn().mockResolvedValue(_mockRelationTypes) };
+  });
+
+  function resolve(name: string) {
+    return resolver.resolve(workItemApi as unknown as IWorkItemTrackingApi, ORG, name);
+  }
+
+  it("should list only work item link types, once per organization", async () => {
+    const types = await resolver.list(workItemApi as unknown as IWorkItemTrackingApi, ORG);
+    await resolver.list(workItemApi as unknown as IWorkItemTrackingApi, ORG);
+
+    expect(workItemApi.getRelationTypes).toHaveBeenCalledTimes(1);
+    expect(types.map((type) => type.name)).toEqual(["Child", "Parent", "Related", "Duplicate Of", "Remote Related", "Blocks", "Legacy"]);
+    expect(types[4]).toEqual({ referenceName: "System.LinkTypes.Remote.Related", name: "Remote Related", remote: true, enabled: true, topology: "network" });
+  });
+
+  it("should resolve names, reference names and aliases ignoring case", async () => {
+    expect((await resolve("duplicate of")).referenceName).toBe("System.LinkTypes.Duplicate-Reverse");
+    expect((await resolve("contoso.linktypes.blocks-forward")).name).toBe("Blocks");
+    expect((await resolve("Blocks")).referenceName).toBe("Contoso.LinkTypes.Blocks-Forward");
+    expect((await resolve("remote related")).remote).toBe(true);
+  });
+
+  it("should reject unknown and disabled link types", async () => {
+    await expect(resolve("tested by")).rejects.toMatchObject({
+      statusCode: 400,
+      message: "Unknown link type: tested by. Available link types: Child, Parent, Related, Duplicate Of, Remote Related, Blocks, Legacy",
+    });
+    await expect(resolve("legacy")).rejects.toThrow("The link type 'Legacy' is disabled in this organization");
+  });
+});
+
+describe("link URLs", () => {
+  it("should point remote links at the other organization", () => {
+    expect(getWorkItemLinkUrl(ORG, "Contoso", 5)).toBe(`${ORG}/Contoso/_apis/wit/workItems/5`);
+    expect(getWorkItemLinkUrl(ORG, "Contoso", 5, "fabrikam")).toBe("https://dev.azure.com/fabrikam/_apis/wit/workItems/5");
+    expect(getWorkItemLinkUrl(ORG, "Contoso", 5, "https://fabrikam.visualstudio.com/")).toBe("https://fabrikam.visualstudio.com/_apis/wit/workItems/5");
+  });
+
+  it("should build artifact URIs", () => {
+    const target = { projectId: "p1", repositoryId: "r1", commitId: "abc123", branch: "refs/heads/feature/login", buildId: 77, wikiId: "w1", pagePath: "Release notes" };
+
+    expect(getArtifactUri("commit", target)).toBe("vstfs:///Git/Commit/p1%2Fr1%2Fabc123");
+    expect(getArtifactUri("branch", target)).toBe("vstfs:///Git/Ref/p1%2Fr1%2FGBfeature%2Flogin");
+    expect(getArtifactUri("build", target)).toBe("vstfs:///Build/Build/77");
+    expect(getArtifactUri("wikiPage", target)).toBe("vstfs:///Wiki/WikiPage/p1%2Fw1%2F%2FRelease%20notes");
+    expect(() => getArtifactUri("pullRequest", target)).toThrow("pullRequestId is required for pullRequest links");
+  });
+});
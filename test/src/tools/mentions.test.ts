@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { resolveMentions } from "../../../src/tools/mentions";
+
+const ORG = "https://dev.azure.com/contoso";
+
+function identityResponse(...identities: { id: string; name: string; mail: string }[]) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: async () => ({ value: identities.map(({ id, name, mail }) => ({ id, providerDisplayName: name, properties: { Mail: { $value: mail } } })) }),
+  };
+}
+
+describe("resolveMentions", () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it("should leave text without mentions alone", async () => {
+    expect(await resolveMentions("Email me at jane@contoso.com", "html", ORG, "Basic token")).toEqual({ text: "Email me at jane@contoso.com", mentions: [] });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should look up each distinct mention once and format it", async () => {
+    fetchMock.mockResolvedValueOnce(identityResponse({ id: "u1", name: "Jane <Doe>", mail: "jane@contoso.com" }));
+
+    const result = await resolveMentions("@jane@contoso.com, see (@jane@contoso.com)", "html", ORG, "Basic token");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.text).toBe('<a href="#" data-vss-mention="version:2.0,u1">@Jane &lt;Doe&gt;</a>, see (<a href="#" data-vss-mention="version:2.0,u1">@Jane &lt;Doe&gt;</a>)');
+  });
+
+  it("should prefer an exact match over partial ones", async () => {
+    fetchMock.mockResolvedValueOnce(identityResponse({ id: "u1", name: "Jane Doe", mail: "jane@contoso.com" }, { id: "u2", name: "Jane Doerr", mail: "jdoerr@contoso.com" }));
+
+    const result = await resolveMentions('Ask @"jane doe"', "markdown", ORG, "Basic token");
+
+    expect(result).toEqual({ text: "Ask @<u1>", mentions: [{ id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com" }] });
+  });
+
+  it("should reject mentions that match no one or several people", async () => {
+    fetchMock.mockResolvedValueOnce(identityResponse());
+    await expect(resolveMentions('@"Nobody"', "markdown", ORG, "Basic token")).rejects.toMatchObject({ statusCode: 400, message: "No user found for the mention '@Nobody'" });
+
+    fetchMock.mockResolvedValueOnce(identityResponse({ id: "u1", name: "Jane Doe", mail: "jane@contoso.com" }, { id: "u2", name: "Jane Doe", mail: "jane.doe@fabrikam.com" }));
+    await expect(resolveMentions('@"Jane"', "markdown", ORG, "Basic token")).rejects.toThrow(
+      "The mention '@Jane' matches several users: Jane Doe <jane@contoso.com>, Jane Doe <jane.doe@fabrikam.com>. Mention them by email instead."
+    );
+  });
+});
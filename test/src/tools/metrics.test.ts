@@ -0,0 +1,134 @@
+import { describe, expect, it } from "@jest/globals";
+import { DayOfWeek } from "azure-devops-node-api/interfaces/common/System";
+import { IWorkApi } from "azure-devops-node-api/WorkApi";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { computeBurndown, computeVelocity, getSprintMetrics, Snapshot, StateCategories } from "../../../src/tools/metrics";
+import { _mockSprintIterations, _mockSprintSnapshots, _mockWorkItemTypeStates } from "../../mocks/sprint-metrics";
+
+const categories: StateCategories = Object.fromEntries(
+  Object.entries(_mockWorkItemTypeStates).map(([type, states]) => [type, Object.fromEntries(states.map((state) => [state.name, state.category]))])
+);
+
+function toSnapshot(date: string): Snapshot {
+  return {
+    date,
+    workItems: _mockSprintSnapshots[date].map(({ id, fields }) => ({
+      id,
+      workItemType: fields["System.WorkItemType"],
+      title: fields["System.Title"],
+      state: fields["System.State"],
+      remainingWork: fields["Microsoft.VSTS.Scheduling.RemainingWork"],
+      storyPoints: fields["Microsoft.VSTS.Scheduling.StoryPoints"],
+    })),
+  };
+}
+
+const sprintDays = ["2025-06-02", "2025-06-03", "2025-06-04", "2025-06-05", "2025-06-06"];
+
+describe("computeBurndown", () => {
+  it("should build the burndown series, scope changes and carry-over from daily snapshots", () => {
+    const { burndown, scopeChanges, carryOver } = computeBurndown(sprintDays.map(toSnapshot), categories);
+
+    expect(burndown).toEqual([
+      { date: "2025-06-02", workItems: 5, remainingWork: 8, idealRemainingWork: 8, storyPoints: 18, completedStoryPoints: 0, remainingStoryPoints: 18 },
+      { date: "2025-06-03", workItems: 6, remainingWork: 10, idealRemainingWork: 6, storyPoints: 18, completedStoryPoints: 0, remainingStoryPoints: 18 },
+      { date: "2025-06-04", workItems: 5, remainingWork: 3, idealRemainingWork: 4, storyPoints: 12, completedStoryPoints: 0, remainingStoryPoints: 12 },
+      { date: "2025-06-05", workItems: 4, remainingWork: 2, idealRemainingWork: 2, storyPoints: 10, completedStoryPoints: 5, remainingStoryPoints: 5 },
+      { date: "2025-06-06", workItems: 4, remainingWork: 0, idealRemainingWork: 0, storyPoints: 10, completedStoryPoints: 5, remainingStoryPoints: 5 },
+    ]);
+    expect(scopeChanges).toEqual([
+      { date: "2025-06-03", id: 4, title: "Search index", change: "added" },
+      { date: "2025-06-04", id: 3, title: "Search", change: "reestimated", storyPointsBefore: 3, storyPointsAfter: 5 },
+      { date: "2025-06-04", id: 6, title: "Wishlist", change: "removed", storyPointsBefore: 8 },
+      { date: "2025-06-05", id: 5, title: "Crash on login", change: "removed", storyPointsBefore: 2 },
+    ]);
+    expect(carryOver).toEqual([{ id: 3, workItemType: "User Story", title: "Search", state: "Active", storyPoints: 5 }]);
+  });
+
+  it("should return empty results without snapshots", () => {
+    expect(computeBurndown([], categories)).toEqual({ burndown: [], scopeChanges: [], carryOver: [] });
+  });
+});
+
+describe("computeVelocity", () => {
+  it("should average completed story points over finished iterations only", () => {
+    const velocity = computeVelocity(
+      [
+        { id: "s1", name: "Sprint 1", finishDate: "2025-05-30", finished: true, workItems: toSnapshot("2025-05-30").workItems },
+        { id: "s2", name: "Sprint 2", finishDate: "2025-06-06", finished: true, workItems: toSnapshot("2025-06-06").workItems },
+        { id: "s3", name: "Sprint 3", finishDate: "2025-06-20", finished: false, workItems: [] },
+      ],
+      categories
+    );
+
+    expect(velocity.iterations.map(({ name, plannedStoryPoints, completedStoryPoints }) => ({ name, plannedStoryPoints, completedStoryPoints }))).toEqual([
+      { name: "Sprint 1", plannedStoryPoints: 13, completedStoryPoints: 8 },
+      { name: "Sprint 2", plannedStoryPoints: 10, completedStoryPoints: 5 },
+      { name: "Sprint 3", plannedStoryPoints: 0, completedStoryPoints: 0 },
+    ]);
+    expect(velocity.average).toBe(6.5);
+  });
+});
+
+describe("getSprintMetrics", () => {
+  it("should take a snapshot per working day and one at the end of each earlier iteration", async () => {
+    const workApi = {
+      getTeamIteration: jest.fn().mockResolvedValue(_mockSprintIterations[1]),
+      getTeamSettings: jest.fn().mockResolvedValue({ workingDays: [DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday] }),
+      getTeamDaysOff: jest.fn().mockResolvedValue({ daysOff: [] }),
+      getTeamIterations: jest.fn().mockResolvedValue(_mockSprintIterations),
+    };
+    const workItemApi = {
+      queryByWiql: jest.fn().mockImplementation(async ({ query }: { query: string }) => {
+        const date = /ASOF '(\d{4}-\d{2}-\d{2})/.exec(query)?.[1] as string;
+        return { workItems: _mockSprintSnapshots[date].map(({ id }) => ({ id })) };
+      }),
+      getWorkItemsBatch: jest.fn().mockImplementation(async ({ asOf }: { asOf: Date }) => _mockSprintSnapshots[asOf.toISOString().substring(0, 10)]),
+      getWorkItemTypeStates: jest.fn().mockImplementation(async (_project: string, type: string) => _mockWorkItemTypeStates[type]),
+    };
+
+    const metrics = await getSprintMetrics(workApi as unknown as IWorkApi, workItemApi as unknown as IWorkItemTrackingApi, { project: "Fabrikam", team: "Fabrikam Team" }, "s2", {
+      now: new Date("2025-06-10T12:00:00Z"),
+    });
+
+    expect(workItemApi.queryByWiql).toHaveBeenCalledTimes(6);
+    expect(workItemApi.queryByWiql).toHaveBeenCalledWith(
+      { query: "SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [System.IterationPath] UNDER 'Fabrikam\\Sprint 2' ASOF '2025-06-02T23:59:59.000Z'" },
+      { project: "Fabrikam", team: "Fabrikam Team" }
+    );
+    expect(workItemApi.getWorkItemTypeStates).toHaveBeenCalledTimes(3);
+    expect(metrics.iteration).toEqual({ id: "s2", name: "Sprint 2", path: "Fabrikam\\Sprint 2", startDate: "2025-06-02", finishDate: "2025-06-06" });
+    expect(metrics.burndown.map((point) => point.remainingWork)).toEqual([8, 10, 3, 2, 0]);
+    expect(metrics.carryOver.map((item) => item.id)).toEqual([3]);
+    expect(metrics.velocity).toEqual({
+      iterations: [
+        { id: "s1", name: "Sprint 1", finishDate: "2025-05-30", finished: true, plannedStoryPoints: 13, completedStoryPoints: 8 },
+        { id: "s2", name: "Sprint 2", finishDate: "2025-06-06", finished: true, plannedStoryPoints: 10, completedStoryPoints: 5 },
+      ],
+      average: 6.5,
+    });
+  });
+
+  it("should only count days up to today in a running iteration", async () => {
+    const workApi = {
+      getTeamIteration: jest.fn().mockResolvedValue(_mockSprintIterations[1]),
+      getTeamSettings: jest.fn().mockResolvedValue({ workingDays: [DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday] }),
+      getTeamDaysOff: jest.fn().mockResolvedValue({ daysOff: [{ start: new Date("2025-06-03T00:00:00Z"), end: new Date("2025-06-03T00:00:00Z") }] }),
+      getTeamIterations: jest.fn().mockResolvedValue(_mockSprintIterations),
+    };
+    const workItemApi = {
+      queryByWiql: jest.fn().mockResolvedValue({ workItems: [] }),
+      getWorkItemsBatch: jest.fn(),
+      getWorkItemTypeStates: jest.fn(),
+    };
+
+    const metrics = await getSprintMetrics(workApi as unknown as IWorkApi, workItemApi as unknown as IWorkItemTrackingApi, { project: "Fabrikam", team: "Fabrikam Team" }, "s2", {
+      velocityIterations: 1,
+      now: new Date("2025-06-04T09:00:00Z"),
+    });
+
+    expect(metrics.burndown.map((point) => point.date)).toEqual(["2025-06-02", "2025-06-04"]);
+    expect(workItemApi.queryByWiql.mock.calls[1][0].query).toContain("ASOF '2025-06-04T09:00:00.000Z'");
+    expect(metrics.velocity).toEqual({ iterations: [{ id: "s2", name: "Sprint 2", finishDate: "2025-06-06", finished: false, plannedStoryPoints: 0, completedStoryPoints: 0 }], average: undefined });
+  });
+});
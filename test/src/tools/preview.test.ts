@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
+import { createDryRunResult, previewWorkItemCreate, previewWorkItemUpdate } from "../../../src/tools/preview";
+
+describe("work item previews", () => {
+  let workItemApi: { getWorkItem: jest.Mock; updateWorkItem: jest.Mock; createWorkItem: jest.Mock };
+
+  beforeEach(() => {
+    workItemApi = { getWorkItem: jest.fn(), updateWorkItem: jest.fn(), createWorkItem: jest.fn() };
+  });
+
+  it("should diff fields and relations against the current work item and validate without saving", async () => {
+    workItemApi.getWorkItem.mockResolvedValue({
+      id: 7,
+      fields: { "System.WorkItemType": "Bug", "System.Title": "Fix login", "System.State": "New", "System.AssignedTo": { displayName: "Jane Doe", uniqueName: "jane@contoso.com" } },
+      relations: [{ rel: "System.LinkTypes.Related", url: "https://dev.azure.com/contoso/_apis/wit/workItems/3" }],
+    });
+    const patch = [
+      { op: "replace", path: "/fields/System.State", value: "Active" },
+      { op: "remove", path: "/fields/System.AssignedTo" },
+      { op: "remove", path: "/relations/0" },
+      { op: "add", path: "/relations/-", value: { rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/_apis/wit/workItems/1" } },
+    ];
+
+    const preview = await previewWorkItemUpdate(workItemApi as unknown as IWorkItemTrackingApi, 7, patch, "Contoso");
+
+    expect(workItemApi.getWorkItem).toHaveBeenCalledWith(7, undefined, undefined, 1, "Contoso");
+    expect(workItemApi.updateWorkItem).toHaveBeenCalledWith(null, patch, 7, "Contoso", true);
+    expect(preview).toEqual({
+      id: 7,
+      workItemType: "Bug",
+      title: "Fix login",
+      patch,
+      changes: [
+        { field: "System.State", before: "New", after: "Active" },
+        { field: "System.AssignedTo", before: "Jane Doe", after: undefined },
+      ],
+      relationsAdded: [{ rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/_apis/wit/workItems/1" }],
+      relationsRemoved: [{ rel: "System.LinkTypes.Related", url: "https://dev.azure.com/contoso/_apis/wit/workItems/3" }],
+      validation: { valid: true },
+    });
+  });
+
+  it("should report validation failures instead of throwing", async () => {
+    workItemApi.createWorkItem.mockRejectedValue(new Error("TF401320: Rule Error for field Area Path."));
+
+    const preview = await previewWorkItemCreate(workItemApi as unknown as IWorkItemTrackingApi, "Contoso", "Task", [{ op: "add", path: "/fields/System.Title", value: "Write docs" }]);
+
+    expect(workItemApi.createWorkItem).toHaveBeenCalledWith(null, [{ op: "add", path: "/fields/System.Title", value: "Write docs" }], "Contoso", "Task", true);
+    expect(preview).toMatchObject({
+      workItemType: "Task",
+      changes: [{ field: "System.Title", before: undefined, after: "Write docs" }],
+      validation: { valid: false, message: "TF401320: Rule Error for field Area Path." },
+    });
+  });
+
+  it("should mark results as dry runs", () => {
+    expect(JSON.parse(createDryRunResult({ workItems: [] }).content[0].text as string)).toEqual({ dryRun: true, workItems: [] });
+  });
+});
@@ -1,4 +1,3 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
@@ -6,12 +5,12 @@ import { configureTestPlanTools } from "../../../src/tools/testplans";
 import { ITestPlanApi } from "azure-devops-node-api/TestPlanApi";
 import { ITestResultsApi } from "azure-devops-node-api/TestResultsApi";
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 
 describe("configureTestPlanTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: {
     getTestPlanApi: () => Promise<ITestPlanApi>;
@@ -22,7 +21,7 @@ describe("configureTestPlanTools", () => {
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
     mockTestPlanApi = {
       getTestPlans: jest.fn(),
       createTestPlan: jest.fn(),
@@ -41,7 +40,7 @@ describe("configureTestPlanTools", () => {
 
   describe("tool registration", () => {
     it("registers test plan tools on the server", () => {
-      configureTestPlanTools(server, tokenProvider, connectionProvider);
+      configureTestPlanTools(server, authHeaderProvider, connectionProvider);
       expect((server.tool as jest.Mock).mock.calls.map((call) => call[0])).toEqual(
         expect.arrayContaining(["testplan_list_test_plans", "testplan_create_test_plan", "testplan_add_test_cases_to_suite", "testplan_list_test_cases", "testplan_show_test_results_from_build_id"])
       );
@@ -50,7 +49,7 @@ describe("configureTestPlanTools", () => {
 
   describe("list_test_plans tool", () => {
     it("should call getTestPlans with the correct parameters and return the expected result", async () => {
-      configureTestPlanTools(server, tokenProvider, connectionProvider);
+      configureTestPlanTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "testplan_list_test_plans");
       if (!call) throw new Error("testplan_list_test_plans tool not registered");
       const [, , , handler] = call;
@@ -71,7 +70,7 @@ describe("configureTestPlanTools", () => {
 
   describe("create_test_plan tool", () => {
     it("should call createTestPlan with the correct parameters and return the expected result", async () => {
-      configureTestPlanTools(server, tokenProvider, connectionProvider);
+      configureTestPlanTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "testplan_create_test_plan");
       if (!call) throw new Error("testplan_create_test_plan tool not registered");
       const [, , , handler] = call;
@@ -105,7 +104,7 @@ describe("configureTestPlanTools", () => {
 
   describe("list_test_cases tool", () => {
     it("should call getTestCaseList with the correct parameters and return the expected result", async () => {
-      configureTestPlanTools(server, tokenProvider, connectionProvider);
+      configureTestPlanTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "testplan_list_test_cases");
       if (!call) throw new Error("testplan_list_test_cases tool not registered");
       const [, , , handler] = call;
@@ -125,7 +124,7 @@ describe("configureTestPlanTools", () => {
 
   describe("test_results_from_build_id tool", () => {
     it("should call getTestResultDetailsForBuild with the correct parameters and return the expected result", async () => {
-      configureTestPlanTools(server, tokenProvider, connectionProvider);
+      configureTestPlanTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "testplan_show_test_results_from_build_id");
       if (!call) throw new Error("testplan_show_test_results_from_build_id tool not registered");
       const [, , , handler] = call;
@@ -1,10 +1,9 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebApi } from "azure-devops-node-api";
 import { configureWikiTools } from "../../../src/tools/wiki";
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 interface WikiApiMock {
   getWiki: jest.Mock;
@@ -15,14 +14,14 @@ interface WikiApiMock {
 
 describe("configureWikiTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: { getWikiApi: jest.Mock };
   let mockWikiApi: WikiApiMock;
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
     mockWikiApi = {
       getWiki: jest.fn(),
       getAllWikis: jest.fn(),
@@ -37,14 +36,14 @@ describe("configureWikiTools", () => {
 
   describe("tool registration", () => {
     it("registers wiki tools on the server", () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       expect(server.tool as jest.Mock).toHaveBeenCalled();
     });
   });
 
   describe("get_wiki tool", () => {
     it("should call getWiki with the correct parameters and return the expected result", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_wiki");
       if (!call) throw new Error("wiki_get_wiki tool not registered");
       const [, , , handler] = call;
@@ -65,7 +64,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_wiki");
       if (!call) throw new Error("wiki_get_wiki tool not registered");
       const [, , , handler] = call;
@@ -86,7 +85,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_wiki");
       if (!call) throw new Error("wiki_get_wiki tool not registered");
       const [, , , handler] = call;
@@ -108,7 +107,7 @@ describe("configureWikiTools", () => {
 
   describe("list_wikis tool", () => {
     it("should call getAllWikis with the correct parameters and return the expected result", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_wikis");
       if (!call) throw new Error("wiki_list_wikis tool not registered");
       const [, , , handler] = call;
@@ -131,7 +130,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_wikis");
       if (!call) throw new Error("wiki_list_wikis tool not registered");
       const [, , , handler] = call;
@@ -151,7 +150,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_wikis");
       if (!call) throw new Error("wiki_list_wikis tool not registered");
       const [, , , handler] = call;
@@ -172,7 +171,7 @@ describe("configureWikiTools", () => {
 
   describe("list_wiki_pages tool", () => {
     it("should call getPagesBatch with the correct parameters and return the expected result", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_pages");
       if (!call) throw new Error("wiki_list_pages tool not registered");
       const [, , , handler] = call;
@@ -202,7 +201,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_pages");
       if (!call) throw new Error("wiki_list_pages tool not registered");
       const [, , , handler] = call;
@@ -224,7 +223,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_list_pages");
       if (!call) throw new Error("wiki_list_pages tool not registered");
       const [, , , handler] = call;
@@ -247,7 +246,7 @@ describe("configureWikiTools", () => {
 
   describe("get_page_content tool", () => {
     it("should call getPageText with the correct parameters and return the expected result", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_page_content");
       if (!call) throw new Error("wiki_get_page_content tool not registered");
       const [, , , handler] = call;
@@ -281,7 +280,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_page_content");
       if (!call) throw new Error("wiki_get_page_content tool not registered");
       const [, , , handler] = call;
@@ -303,7 +302,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_page_content");
       if (!call) throw new Error("wiki_get_page_content tool not registered");
       const [, , , handler] = call;
@@ -324,7 +323,7 @@ describe("configureWikiTools", () => {
     });
 
     it("should handle stream errors correctly", async () => {
-      configureWikiTools(server, tokenProvider, connectionProvider);
+      configureWikiTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wiki_get_page_content");
       if (!call) throw new Error("wiki_get_page_content tool not registered");
       const [, , , handler] = call;
@@ -1,25 +1,46 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { configureWorkTools } from "../../../src/tools/work";
 import { WebApi } from "azure-devops-node-api";
 import { TreeStructureGroup } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
+import { DayOfWeek } from "azure-devops-node-api/interfaces/common/System";
+import { _mockBoard, _mockBoardCards } from "../../mocks/boards";
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 
 interface WorkApiMock {
   getTeamIterations: jest.Mock;
   postTeamIteration: jest.Mock;
+  getTeamIteration: jest.Mock;
+  getTeamSettings: jest.Mock;
+  getTeamDaysOff: jest.Mock;
+  updateTeamDaysOff: jest.Mock;
+  getCapacitiesWithIdentityRefAndTotals: jest.Mock;
+  updateCapacityWithIdentityRef: jest.Mock;
+  getIterationWorkItems: jest.Mock;
+  getBoard: jest.Mock;
+  getColumns: jest.Mock;
+  getWorkItemColumns: jest.Mock;
+  updateWorkItemColumn: jest.Mock;
+  getTeamFieldValues: jest.Mock;
+  updateTeamFieldValues: jest.Mock;
 }
 
 interface WorkItemTrackingApiMock {
   createOrUpdateClassificationNode: jest.Mock;
+  getWorkItemsBatch: jest.Mock;
+  getWorkItem: jest.Mock;
+  updateWorkItem: jest.Mock;
+  queryByWiql: jest.Mock;
+  getClassificationNode: jest.Mock;
+  updateClassificationNode: jest.Mock;
+  deleteClassificationNode: jest.Mock;
 }
 
 describe("configureWorkTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: { getWorkApi: jest.Mock; getWorkItemTrackingApi: jest.Mock };
   let mockWorkApi: WorkApiMock;
@@ -27,15 +48,35 @@ describe("configureWorkTools", () => {
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
 
     mockWorkApi = {
       getTeamIterations: jest.fn(),
       postTeamIteration: jest.fn(),
+      getTeamIteration: jest.fn(),
+      getTeamSettings: jest.fn(),
+      getTeamDaysOff: jest.fn(),
+      updateTeamDaysOff: jest.fn(),
+      getCapacitiesWithIdentityRefAndTotals: jest.fn(),
+      updateCapacityWithIdentityRef: jest.fn(),
+      getIterationWorkItems: jest.fn(),
+      getBoard: jest.fn(),
+      getColumns: jest.fn(),
+      getWorkItemColumns: jest.fn(),
+      updateWorkItemColumn: jest.fn(),
+      getTeamFieldValues: jest.fn(),
+      updateTeamFieldValues: jest.fn(),
     };
 
     mockWorkItemTrackingApi = {
       createOrUpdateClassificationNode: jest.fn(),
+      getWorkItemsBatch: jest.fn(),
+      getWorkItem: jest.fn(),
+      updateWorkItem: jest.fn(),
+      queryByWiql: jest.fn(),
+      getClassificationNode: jest.fn(),
+      updateClassificationNode: jest.fn(),
+      deleteClassificationNode: jest.fn(),
     };
 
     mockConnection = {
@@ -48,14 +89,14 @@ describe("configureWorkTools", () => {
 
   describe("tool registration", () => {
     it("registers core tools on the server", () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
       expect(server.tool as jest.Mock).toHaveBeenCalled();
     });
   });
 
   describe("list_team_iterations tool", () => {
     it("should call getTeamIterations API with the correct parameters and return the expected result", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_list_team_iterations");
       if (!call) throw new Error("work_list_team_iterations tool not registered");
@@ -103,7 +144,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_list_team_iterations");
       if (!call) throw new Error("work_list_team_iterations tool not registered");
@@ -126,7 +167,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_list_team_iterations");
       if (!call) throw new Error("work_list_team_iterations tool not registered");
@@ -150,7 +191,7 @@ describe("configureWorkTools", () => {
 
   describe("assign_iterations", () => {
     it("should call postTeamIteration API with the correct parameters and return the expected result", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_assign_iterations");
 
@@ -213,7 +254,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_assign_iterations");
 
@@ -242,7 +283,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_assign_iterations");
 
@@ -272,7 +313,7 @@ describe("configureWorkTools", () => {
 
   describe("create_iterations", () => {
     it("should call createOrUpdateClassificationNode API with the correct parameters and return the expected result", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_create_iterations");
 
@@ -350,7 +391,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle API errors correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_create_iterations");
 
@@ -379,7 +420,7 @@ describe("configureWorkTools", () => {
     });
 
     it("should handle null API results correctly", async () => {
-      configureWorkTools(server, tokenProvider, connectionProvider);
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "work_create_iterations");
 
@@ -406,4 +447,274 @@ describe("configureWorkTools", () => {
       expect(result.content[0].text).toBe("No iterations were created");
     });
   });
+
+  describe("capacity tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    const teamContext = { project: "Fabrikam", team: "Fabrikam Team" };
+    const jane = { id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com" };
+
+    it("should update only the given parts of a member's capacity", async () => {
+      mockWorkApi.updateCapacityWithIdentityRef.mockResolvedValue({ teamMember: jane, activities: [{ name: "Development", capacityPerDay: 6 }] });
+
+      await getHandler("work_update_team_member_capacity")({ ...teamContext, iterationId: "i1", teamMemberId: "u1", activities: [{ name: "Development", capacityPerDay: 6 }] });
+
+      expect(mockWorkApi.updateCapacityWithIdentityRef).toHaveBeenCalledWith({ activities: [{ name: "Development", capacityPerDay: 6 }] }, teamContext, "i1", "u1");
+    });
+
+    it("should preview a capacity change without saving it", async () => {
+      mockWorkApi.getCapacitiesWithIdentityRefAndTotals.mockResolvedValue({ teamMembers: [{ teamMember: jane, activities: [{ name: "Development", capacityPerDay: 4 }], daysOff: [] }] });
+
+      const result = await getHandler("work_update_team_member_capacity")({
+        ...teamContext,
+        iterationId: "i1",
+        teamMemberId: "u1",
+        activities: [{ name: "Development", capacityPerDay: 6 }],
+        daysOff: [{ start: "2025-06-12", end: "2025-06-13" }],
+        dryRun: true,
+      });
+
+      expect(mockWorkApi.updateCapacityWithIdentityRef).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        teamMember: "Jane Doe",
+        changes: [
+          { field: "activities", before: [{ name: "Development", capacityPerDay: 4 }], after: [{ name: "Development", capacityPerDay: 6 }] },
+          { field: "daysOff", before: [], after: [{ start: "2025-06-12T00:00:00.000Z", end: "2025-06-13T00:00:00.000Z" }] },
+        ],
+      });
+    });
+
+    it("should replace the team days off and reject unusable ranges", async () => {
+      mockWorkApi.updateTeamDaysOff.mockResolvedValue({ daysOff: [] });
+
+      await getHandler("work_update_team_days_off")({ ...teamContext, iterationId: "i1", daysOff: [{ start: "2025-06-09", end: "2025-06-09" }] });
+      const invalid = await getHandler("work_update_team_days_off")({ ...teamContext, iterationId: "i1", daysOff: [{ start: "2025-06-10", end: "2025-06-09" }] });
+
+      expect(mockWorkApi.updateTeamDaysOff).toHaveBeenCalledTimes(1);
+      expect(mockWorkApi.updateTeamDaysOff).toHaveBeenCalledWith({ daysOff: [{ start: new Date("2025-06-09"), end: new Date("2025-06-09") }] }, teamContext, "i1");
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain("The day-off range 2025-06-10 - 2025-06-09 ends before it starts");
+    });
+
+    it("should summarize capacity against the remaining work of the iteration's work items", async () => {
+      mockWorkApi.getTeamIteration.mockResolvedValue({ id: "i1", name: "Sprint 2", attributes: { startDate: new Date("2025-06-02T00:00:00Z"), finishDate: new Date("2025-06-06T00:00:00Z") } });
+      mockWorkApi.getTeamSettings.mockResolvedValue({ workingDays: [DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday] });
+      mockWorkApi.getTeamDaysOff.mockResolvedValue({ daysOff: [] });
+      mockWorkApi.getCapacitiesWithIdentityRefAndTotals.mockResolvedValue({ teamMembers: [{ teamMember: jane, activities: [{ name: "Development", capacityPerDay: 6 }] }] });
+      mockWorkApi.getIterationWorkItems.mockResolvedValue({ workItemRelations: [{ target: { id: 1 } }, { source: { id: 1 }, target: { id: 2 } }] });
+      mockWorkItemTrackingApi.getWorkItemsBatch.mockResolvedValue([
+        { id: 1, fields: { "System.AssignedTo": jane } },
+        { id: 2, fields: { "System.AssignedTo": jane, "Microsoft.VSTS.Scheduling.RemainingWork": 32 } },
+      ]);
+
+      const result = await getHandler("work_get_capacity_summary")({ ...teamContext, iterationId: "i1", asOf: "2025-06-02" });
+
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch).toHaveBeenCalledWith(expect.objectContaining({ ids: [1, 2] }), "Fabrikam");
+      const summary = JSON.parse(result.content[0].text);
+      expect(summary.members).toEqual([
+        { id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com", capacityPerDay: 6, daysOff: 0, availableDays: 5, capacity: 30, remainingWork: 32, workItems: 2, overcommitted: true },
+      ]);
+      expect(summary.team).toEqual({ capacity: 30, remainingWork: 32, overcommitted: true });
+    });
+  });
+
+  describe("board tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    const teamContext = { project: "Fabrikam", team: "Fabrikam Team" };
+    const columnField = "WEF_6CB513B6E70E43499D9FC94E5BBFB784_Kanban.Column";
+
+    beforeEach(() => {
+      mockWorkApi.getBoard.mockResolvedValue(_mockBoard);
+    });
+
+    it("should find the cards on the board and count them against WIP limits", async () => {
+      mockWorkItemTrackingApi.queryByWiql.mockResolvedValue({ workItems: [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }] });
+      mockWorkItemTrackingApi.getWorkItemsBatch.mockResolvedValue(_mockBoardCards);
+
+      const result = await getHandler("work_get_board_cards")({ ...teamContext, board: "Stories" });
+
+      expect(mockWorkItemTrackingApi.queryByWiql).toHaveBeenCalledWith(
+        {
+          query: `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [${columnField}] <> '' AND [${columnField}] <> 'Closed' AND [System.State] <> 'Removed' ORDER BY [System.Id]`,
+        },
+        teamContext,
+        undefined,
+        1001
+      );
+      expect(JSON.parse(result.content[0].text).truncated).toBe(false);
+      expect(JSON.parse(result.content[0].text).columns).toEqual([
+        { name: "New", count: 1, overLimit: false },
+        { name: "Active", wipLimit: 2, count: 3, overLimit: true },
+        { name: "Review", wipLimit: 3, count: 0, overLimit: false },
+        { name: "Closed", count: 0, overLimit: false },
+      ]);
+    });
+
+    it("should fetch cards in batches and flag a board with more cards than the limit", async () => {
+      mockWorkItemTrackingApi.queryByWiql.mockResolvedValue({ workItems: Array.from({ length: 1001 }, (_, index) => ({ id: index + 1 })) });
+      mockWorkItemTrackingApi.getWorkItemsBatch.mockResolvedValue(_mockBoardCards);
+
+      const result = await getHandler("work_get_board_cards")({ ...teamContext, board: "Stories" });
+
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch).toHaveBeenCalledTimes(5);
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch.mock.calls[4][0].ids).toEqual(Array.from({ length: 200 }, (_, index) => index + 801));
+      expect(JSON.parse(result.content[0].text).truncated).toBe(true);
+    });
+
+    it("should move a card by updating the state and Kanban fields", async () => {
+      mockWorkItemTrackingApi.getWorkItem.mockResolvedValue({ id: 4, fields: { "System.WorkItemType": "User Story", "System.State": "New" } });
+      mockWorkItemTrackingApi.updateWorkItem.mockResolvedValue({ id: 4, fields: { "System.WorkItemType": "User Story", "System.State": "Resolved", [columnField]: "Review" } });
+
+      const result = await getHandler("work_move_board_card")({ ...teamContext, board: "Stories", id: 4, column: "Review" });
+
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(
+        null,
+        [
+          { op: "add", path: "/fields/System.State", value: "Resolved" },
+          { op: "add", path: `/fields/${columnField}`, value: "Review" },
+        ],
+        4,
+        "Fabrikam"
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual({ id: 4, workItemType: "User Story", state: "Resolved", column: "Review", lane: "(default lane)" });
+    });
+
+    it("should move a taskboard item to an existing column only", async () => {
+      mockWorkApi.getColumns.mockResolvedValue({ columns: [{ name: "To Do" }, { name: "In Progress" }, { name: "Done" }] });
+
+      const moved = await getHandler("work_move_taskboard_item")({ ...teamContext, iterationId: "i1", id: 7, column: "in progress" });
+      const unknown = await getHandler("work_move_taskboard_item")({ ...teamContext, iterationId: "i1", id: 7, column: "Blocked" });
+
+      expect(mockWorkApi.updateWorkItemColumn).toHaveBeenCalledTimes(1);
+      expect(mockWorkApi.updateWorkItemColumn).toHaveBeenCalledWith({ newColumn: "In Progress" }, teamContext, "i1", 7);
+      expect(moved.content[0].text).toBe("Work item 7 moved to the 'In Progress' column");
+      expect(unknown.content[0].text).toContain("The taskboard has no column 'Blocked'. Columns: To Do, In Progress, Done");
+    });
+  });
+
+  describe("classification tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    const web = { id: 12, identifier: "a-12", name: "Web", path: "\\Fabrikam\\Area\\Web", hasChildren: true };
+
+    it("should get the tree under a path down to the given depth", async () => {
+      mockWorkItemTrackingApi.getClassificationNode.mockResolvedValue({ ...web, children: [{ id: 13, name: "Checkout", path: "\\Fabrikam\\Area\\Web\\Checkout", hasChildren: true }] });
+
+      const result = await getHandler("work_get_classification_tree")({ project: "Fabrikam", structure: "areas", path: "Fabrikam\\Web", depth: 1 });
+
+      expect(mockWorkItemTrackingApi.getClassificationNode).toHaveBeenCalledWith("Fabrikam", TreeStructureGroup.Areas, "Web", 1);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        id: 12,
+        identifier: "a-12",
+        name: "Web",
+        path: "Fabrikam\\Web",
+        children: [{ id: 13, name: "Checkout", path: "Fabrikam\\Web\\Checkout", hasMoreChildren: true }],
+      });
+    });
+
+    it("should create a nested iteration with dates", async () => {
+      mockWorkItemTrackingApi.createOrUpdateClassificationNode.mockResolvedValue({ id: 30, name: "Sprint 1", path: "\\Fabrikam\\Iteration\\Release 1\\Sprint 1" });
+
+      await getHandler("work_create_classification_node")({
+        project: "Fabrikam",
+        structure: "iterations",
+        name: "Sprint 1",
+        parentPath: "Fabrikam\\Release 1",
+        startDate: "2025-06-02",
+        finishDate: "2025-06-13",
+      });
+
+      expect(mockWorkItemTrackingApi.createOrUpdateClassificationNode).toHaveBeenCalledWith(
+        { name: "Sprint 1", attributes: { startDate: new Date("2025-06-02"), finishDate: new Date("2025-06-13") } },
+        "Fabrikam",
+        TreeStructureGroup.Iterations,
+        "Release 1"
+      );
+    });
+
+    it("should refuse an iteration with only one or an invalid date", async () => {
+      const handler = getHandler("work_create_classification_node");
+
+      const oneDate = await handler({ project: "Fabrikam", structure: "iterations", name: "Sprint 1", startDate: "2025-06-02" });
+      mockWorkItemTrackingApi.getClassificationNode.mockResolvedValue({ id: 30, name: "Sprint 1", attributes: { startDate: new Date("2025-06-02"), finishDate: new Date("2025-06-13") } });
+      const invalid = await getHandler("work_update_classification_node")({ project: "Fabrikam", structure: "iterations", path: "Sprint 1", finishDate: "soon" });
+
+      expect(JSON.parse(oneDate.content[0].text).error.code).toBe("bad_request");
+      expect(oneDate.content[0].text).toContain("finishDate is required along with startDate");
+      expect(JSON.parse(invalid.content[0].text).error.code).toBe("bad_request");
+      expect(invalid.content[0].text).toContain("Invalid finishDate 'soon'");
+      expect(mockWorkItemTrackingApi.createOrUpdateClassificationNode).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.updateClassificationNode).not.toHaveBeenCalled();
+    });
+
+    it("should rename a node and move it under another parent", async () => {
+      mockWorkItemTrackingApi.getClassificationNode.mockResolvedValue(web);
+      mockWorkItemTrackingApi.updateClassificationNode.mockResolvedValue({ ...web, name: "Website" });
+      mockWorkItemTrackingApi.createOrUpdateClassificationNode.mockResolvedValue({ ...web, name: "Website", path: "\\Fabrikam\\Area\\Online\\Website" });
+
+      const result = await getHandler("work_update_classification_node")({ project: "Fabrikam", structure: "areas", path: "Web", name: "Website", parentPath: "Fabrikam\\Online" });
+
+      expect(mockWorkItemTrackingApi.updateClassificationNode).toHaveBeenCalledWith({ name: "Website", attributes: undefined }, "Fabrikam", TreeStructureGroup.Areas, "Web");
+      expect(mockWorkItemTrackingApi.createOrUpdateClassificationNode).toHaveBeenCalledWith({ id: 12 }, "Fabrikam", TreeStructureGroup.Areas, "Online");
+      expect(JSON.parse(result.content[0].text).path).toBe("Fabrikam\\Online\\Website");
+    });
+
+    it("should preview a move and refuse to move a node under itself", async () => {
+      mockWorkItemTrackingApi.getClassificationNode.mockResolvedValue(web);
+
+      const preview = await getHandler("work_update_classification_node")({ project: "Fabrikam", structure: "areas", path: "Web", parentPath: "Online", dryRun: true });
+      const invalid = await getHandler("work_update_classification_node")({ project: "Fabrikam", structure: "areas", path: "Web", parentPath: "Web\\Checkout" });
+
+      expect(JSON.parse(preview.content[0].text)).toEqual({
+        dryRun: true,
+        node: { id: 12, changes: [{ field: "path", before: "Fabrikam\\Web", after: "Fabrikam\\Online\\Web" }] },
+      });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain("'Web' cannot be moved under itself");
+      expect(mockWorkItemTrackingApi.updateClassificationNode).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.createOrUpdateClassificationNode).not.toHaveBeenCalled();
+    });
+
+    it("should delete a node and reclassify its work items", async () => {
+      mockWorkItemTrackingApi.getClassificationNode.mockResolvedValue({ id: 1, name: "Fabrikam", path: "\\Fabrikam\\Area" });
+
+      await getHandler("work_delete_classification_node")({ project: "Fabrikam", structure: "areas", path: "Fabrikam\\Web", reclassifyPath: "Fabrikam" });
+      const invalid = await getHandler("work_delete_classification_node")({ project: "Fabrikam", structure: "areas", path: "Web", reclassifyPath: "Web\\Checkout" });
+
+      expect(mockWorkItemTrackingApi.getClassificationNode).toHaveBeenCalledWith("Fabrikam", TreeStructureGroup.Areas, undefined, 0);
+      expect(mockWorkItemTrackingApi.deleteClassificationNode).toHaveBeenCalledTimes(1);
+      expect(mockWorkItemTrackingApi.deleteClassificationNode).toHaveBeenCalledWith("Fabrikam", TreeStructureGroup.Areas, "Web", 1);
+      expect(invalid.isError).toBe(true);
+    });
+
+    it("should set the team's areas and reject a default area outside them", async () => {
+      const teamContext = { project: "Fabrikam", team: "Web Team" };
+      mockWorkApi.updateTeamFieldValues.mockResolvedValue({ defaultValue: "Fabrikam\\Web\\Checkout" });
+
+      await getHandler("work_update_team_area_settings")({ ...teamContext, defaultArea: "Fabrikam\\Web\\Checkout", areas: [{ path: "Fabrikam\\Web", includeSubAreas: true }] });
+      const invalid = await getHandler("work_update_team_area_settings")({ ...teamContext, defaultArea: "Fabrikam\\Web\\Checkout", areas: [{ path: "Fabrikam\\Web", includeSubAreas: false }] });
+
+      expect(mockWorkApi.updateTeamFieldValues).toHaveBeenCalledTimes(1);
+      expect(mockWorkApi.updateTeamFieldValues).toHaveBeenCalledWith({ defaultValue: "Fabrikam\\Web\\Checkout", values: [{ value: "Fabrikam\\Web", includeChildren: true }] }, teamContext);
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain("is not one of the team's areas");
+    });
+  });
 });
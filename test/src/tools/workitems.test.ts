@@ -1,21 +1,25 @@
-import { AccessToken } from "@azure/identity";
 import { describe, expect, it } from "@jest/globals";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { configureWorkItemTools } from "../../../src/tools/workitems";
 import { WebApi } from "azure-devops-node-api";
+import { Readable } from "node:stream";
+import { CommentReactionType, CommentSortOrder } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
 import {
   _mockBacklogs,
   _mockQuery,
   _mockQueryResults,
+  _mockRelationTypes,
   _mockWorkItem,
   _mockWorkItemComment,
   _mockWorkItemComments,
+  _mockWorkItemFields,
   _mockWorkItems,
   _mockWorkItemsForIteration,
   _mockWorkItemType,
+  _mockWorkItemTypeFields,
 } from "../../mocks/work-items";
 
-type TokenProviderMock = () => Promise<AccessToken>;
+type AuthHeaderProviderMock = () => Promise<string>;
 type ConnectionProviderMock = () => Promise<WebApi>;
 
 interface WorkApiMock {
@@ -24,6 +28,7 @@ interface WorkApiMock {
   getPredefinedQueryResults: jest.Mock;
   getTeamIterations: jest.Mock;
   getIterationWorkItems: jest.Mock;
+  reorderBacklogWorkItems: jest.Mock;
 }
 
 interface WorkItemTrackingApiMock {
@@ -36,11 +41,27 @@ interface WorkItemTrackingApiMock {
   getWorkItemType: jest.Mock;
   getQuery: jest.Mock;
   queryById: jest.Mock;
+  queryByWiql: jest.Mock;
+  createQuery: jest.Mock;
+  updateQuery: jest.Mock;
+  deleteQuery: jest.Mock;
+  getUpdates: jest.Mock;
+  getFields: jest.Mock;
+  getWorkItemTypeFieldsWithReferences: jest.Mock;
+  createAttachment: jest.Mock;
+  getAttachmentContent: jest.Mock;
+  getRelationTypes: jest.Mock;
+  getComment: jest.Mock;
+  updateComment: jest.Mock;
+  deleteComment: jest.Mock;
+  getCommentReactions: jest.Mock;
+  createCommentReaction: jest.Mock;
+  deleteCommentReaction: jest.Mock;
 }
 
 describe("configureWorkItemTools", () => {
   let server: McpServer;
-  let tokenProvider: TokenProviderMock;
+  let authHeaderProvider: AuthHeaderProviderMock;
   let connectionProvider: ConnectionProviderMock;
   let mockConnection: {
     getWorkApi: jest.Mock;
@@ -51,7 +72,7 @@ describe("configureWorkItemTools", () => {
 
   beforeEach(() => {
     server = { tool: jest.fn() } as unknown as McpServer;
-    tokenProvider = jest.fn();
+    authHeaderProvider = jest.fn();
 
     mockWorkApi = {
       getBacklogs: jest.fn(),
@@ -59,6 +80,7 @@ describe("configureWorkItemTools", () => {
       getPredefinedQueryResults: jest.fn(),
       getTeamIterations: jest.fn(),
       getIterationWorkItems: jest.fn(),
+      reorderBacklogWorkItems: jest.fn(),
     };
 
     mockWorkItemTrackingApi = {
@@ -71,6 +93,22 @@ describe("configureWorkItemTools", () => {
       getWorkItemType: jest.fn(),
       getQuery: jest.fn(),
       queryById: jest.fn(),
+      queryByWiql: jest.fn(),
+      createQuery: jest.fn(),
+      updateQuery: jest.fn(),
+      deleteQuery: jest.fn(),
+      getUpdates: jest.fn(),
+      getFields: jest.fn().mockResolvedValue(_mockWorkItemFields),
+      getWorkItemTypeFieldsWithReferences: jest.fn().mockResolvedValue(_mockWorkItemTypeFields),
+      createAttachment: jest.fn(),
+      getAttachmentContent: jest.fn(),
+      getRelationTypes: jest.fn().mockResolvedValue(_mockRelationTypes),
+      getComment: jest.fn(),
+      updateComment: jest.fn(),
+      deleteComment: jest.fn(),
+      getCommentReactions: jest.fn(),
+      createCommentReaction: jest.fn(),
+      deleteCommentReaction: jest.fn(),
     };
 
     mockConnection = {
@@ -83,14 +121,14 @@ describe("configureWorkItemTools", () => {
 
   describe("tool registration", () => {
     it("registers core tools on the server", () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
       expect(server.tool as jest.Mock).toHaveBeenCalled();
     });
   });
 
   describe("list_backlogs tool", () => {
     it("should call getBacklogs API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_list_backlogs");
       if (!call) throw new Error("wit_list_backlogs tool not registered");
@@ -116,7 +154,7 @@ describe("configureWorkItemTools", () => {
 
   describe("list_backlog_work_items tool", () => {
     it("should call getBacklogLevelWorkItems API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_list_backlog_work_items");
       if (!call) throw new Error("wit_list_backlog_work_items tool not registered");
@@ -184,7 +222,7 @@ describe("configureWorkItemTools", () => {
 
   describe("my_work_items tool", () => {
     it("should call getPredefinedQueryResults API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_my_work_items");
       if (!call) throw new Error("wit_my_work_items tool not registered");
@@ -259,7 +297,7 @@ describe("configureWorkItemTools", () => {
 
   describe("getWorkItemsBatch tool", () => {
     it("should call workItemApi.getWorkItemsBatch API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_work_items_batch_by_ids");
 
@@ -289,7 +327,7 @@ describe("configureWorkItemTools", () => {
 
   describe("get_work_item tool", () => {
     it("should call workItemApi.getWorkItem API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_work_item");
 
@@ -316,7 +354,7 @@ describe("configureWorkItemTools", () => {
 
   describe("list_work_item_comments tool", () => {
     it("should call workItemApi.getComments API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_list_work_item_comments");
 
@@ -333,7 +371,7 @@ describe("configureWorkItemTools", () => {
 
       const result = await handler(params);
 
-      expect(mockWorkItemTrackingApi.getComments).toHaveBeenCalledWith(params.project, params.workItemId, params.top);
+      expect(mockWorkItemTrackingApi.getComments).toHaveBeenCalledWith(params.project, params.workItemId, params.top, undefined, undefined, undefined, CommentSortOrder.Desc);
 
       expect(result.content[0].text).toBe(JSON.stringify([_mockWorkItemComments], null, 2));
     });
@@ -341,7 +379,7 @@ describe("configureWorkItemTools", () => {
 
   describe("add_work_item_comment tool", () => {
     it("should call workItemApi.addComment API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_add_work_item_comment");
 
@@ -366,7 +404,7 @@ describe("configureWorkItemTools", () => {
 
   describe("add_child_work_item tool", () => {
     it("should call workItemApi.add_child_work_item API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_add_child_work_item");
 
@@ -422,11 +460,25 @@ describe("configureWorkItemTools", () => {
 
       expect(result.content[0].text).toBe(JSON.stringify([_mockWorkItem], null, 2));
     });
+
+    it("should report missing required fields without creating the work item", async () => {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_create_work_item");
+      if (!call) throw new Error("wit_create_work_item tool not registered");
+      const [, , , handler] = call;
+
+      const result = await handler({ project: "Contoso", workItemType: "Task", fields: { "System.Description": "No title" } });
+
+      expect(mockWorkItemTrackingApi.createWorkItem).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("'System.Title' is required for work item type 'Task'");
+    });
   });
 
   describe("link_work_item_to_pull_request tool", () => {
     it("should call workItemApi.updateWorkItem API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_link_work_item_to_pull_request");
 
@@ -477,7 +529,7 @@ describe("configureWorkItemTools", () => {
     });
 
     it("should handle errors from updateWorkItem and return a descriptive error", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_link_work_item_to_pull_request");
 
       if (!call) throw new Error("wit_link_work_item_to_pull_request tool not registered");
@@ -498,7 +550,7 @@ describe("configureWorkItemTools", () => {
     });
 
     it("should encode special characters in project and repositoryId for vstfsUrl", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_link_work_item_to_pull_request");
       if (!call) throw new Error("wit_link_work_item_to_pull_request tool not registered");
 
@@ -533,7 +585,7 @@ describe("configureWorkItemTools", () => {
 
   describe("get_work_items_for_iteration tool", () => {
     it("should call workApi.getIterationWorkItems API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_work_items_for_iteration");
 
@@ -564,13 +616,14 @@ describe("configureWorkItemTools", () => {
 
   describe("update_work_item tool", () => {
     it("should call workItemApi.updateWorkItem API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_update_work_item");
 
       if (!call) throw new Error("wit_update_work_item tool not registered");
       const [, , , handler] = call;
 
+      (mockWorkItemTrackingApi.getWorkItem as jest.Mock).mockResolvedValue({ id: 131489, fields: { "System.TeamProject": "Contoso", "System.WorkItemType": "Task" } });
       (mockWorkItemTrackingApi.updateWorkItem as jest.Mock).mockResolvedValue([_mockWorkItem]);
 
       const params = {
@@ -586,15 +639,70 @@ describe("configureWorkItemTools", () => {
 
       const result = await handler(params);
 
+      expect(mockWorkItemTrackingApi.getWorkItem).toHaveBeenCalledWith(params.id, ["System.TeamProject", "System.WorkItemType"]);
+      expect(mockWorkItemTrackingApi.getWorkItemTypeFieldsWithReferences).toHaveBeenCalledWith("Contoso", "Task", 1);
       expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(null, params.updates, params.id);
 
       expect(result.content[0].text).toBe(JSON.stringify([_mockWorkItem], null, 2));
     });
+
+    it("should send typed values and not update the work item when validation fails", async () => {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_update_work_item");
+      if (!call) throw new Error("wit_update_work_item tool not registered");
+      const [, , , handler] = call;
+
+      (mockWorkItemTrackingApi.getWorkItem as jest.Mock).mockResolvedValue({ id: 131489, fields: { "System.TeamProject": "Contoso", "System.WorkItemType": "Task" } });
+
+      await handler({ id: 131489, updates: [{ op: "replace", path: "/fields/Story Points", value: "3" }] });
+      const result = await handler({ id: 131489, updates: [{ op: "replace", path: "/fields/System.State", value: "Resolved" }] });
+
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledTimes(1);
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(null, [{ op: "replace", path: "/fields/Microsoft.VSTS.Scheduling.StoryPoints", value: 3 }], 131489);
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toMatchObject({
+        code: "bad_request",
+        message: `Error updating work item: 1 field operation(s) failed validation:\n- /fields/System.State: "Resolved" is not an allowed value of 'System.State'. Allowed values: New, Active, Closed`,
+      });
+    });
+
+    it("should preview the update without saving it when dryRun is set", async () => {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_update_work_item");
+      if (!call) throw new Error("wit_update_work_item tool not registered");
+      const [, , , handler] = call;
+
+      (mockWorkItemTrackingApi.getWorkItem as jest.Mock).mockResolvedValue({
+        id: 131489,
+        fields: { "System.TeamProject": "Contoso", "System.WorkItemType": "Task", "System.Title": "Sample Task", "Microsoft.VSTS.Scheduling.StoryPoints": 2 },
+      });
+
+      const result = await handler({ id: 131489, updates: [{ op: "replace", path: "/fields/Story Points", value: "3" }], dryRun: true });
+
+      const operations = [{ op: "replace", path: "/fields/Microsoft.VSTS.Scheduling.StoryPoints", value: 3 }];
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledTimes(1);
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(null, operations, 131489, undefined, true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        workItems: [
+          {
+            id: 131489,
+            workItemType: "Task",
+            title: "Sample Task",
+            patch: operations,
+            changes: [{ field: "Microsoft.VSTS.Scheduling.StoryPoints", before: 2, after: 3 }],
+            validation: { valid: true },
+          },
+        ],
+      });
+    });
   });
 
   describe("get_work_item_type tool", () => {
     it("should call workItemApi.getWorkItemType API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_work_item_type");
 
@@ -618,7 +726,7 @@ describe("configureWorkItemTools", () => {
 
   describe("create_work_item tool", () => {
     it("should call workItemApi.createWorkItem API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_create_work_item");
 
@@ -630,7 +738,7 @@ describe("configureWorkItemTools", () => {
       const params = {
         project: "Contoso",
         workItemType: "Task",
-        fields: ["System.Title", "Hello World!", "System.Description", "This is a sample task", "System.AreaPath", "Contoso\\Development"],
+        fields: { "System.Title": "Hello World!", "System.Description": "This is a sample task", "System.AreaPath": "Contoso\\Development" },
       };
 
       const document = Object.entries(params.fields).map(([key, value]) => ({
@@ -645,11 +753,102 @@ describe("configureWorkItemTools", () => {
 
       expect(result.content[0].text).toBe(JSON.stringify([_mockWorkItem], null, 2));
     });
+
+    it("should report missing required fields without creating the work item", async () => {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_create_work_item");
+      if (!call) throw new Error("wit_create_work_item tool not registered");
+      const [, , , handler] = call;
+
+      const result = await handler({ project: "Contoso", workItemType: "Task", fields: { "System.Description": "No title" } });
+
+      expect(mockWorkItemTrackingApi.createWorkItem).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("'System.Title' is required for work item type 'Task'");
+    });
+  });
+
+  describe("update_work_items_batch tool", () => {
+    function getHandler() {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_update_work_items_batch");
+      if (!call) throw new Error("wit_update_work_items_batch tool not registered");
+      return call[3];
+    }
+
+    beforeEach(() => {
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Basic token");
+      Object.assign(mockConnection, { serverUrl: "https://dev.azure.com/contoso" });
+      mockWorkItemTrackingApi.getWorkItemsBatch.mockResolvedValue([
+        { id: 1, fields: { "System.TeamProject": "Contoso", "System.WorkItemType": "Bug" } },
+        { id: 2, fields: { "System.TeamProject": "Contoso", "System.WorkItemType": "Task" } },
+      ]);
+    });
+
+    it("should send the validated updates of each work item in one batch request", async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, headers: new Headers(), json: async () => ({ count: 2 }) });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      await getHandler()({
+        updates: [
+          { op: "replace", id: 1, path: "/fields/Priority", value: "1" },
+          { op: "add", id: 2, path: "/fields/System.AssignedTo", value: "jane@contoso.com" },
+        ],
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(fetchMock.mock.calls[0][0]).toBe("https://dev.azure.com/contoso/_apis/wit/$batch?api-version=5.0");
+      expect(body.map((request: { body: unknown }) => request.body)).toEqual([
+        [{ op: "replace", path: "/fields/Microsoft.VSTS.Common.Priority", value: 1 }],
+        [{ op: "add", path: "/fields/System.AssignedTo", value: "jane@contoso.com" }],
+      ]);
+    });
+
+    it("should reject the whole batch when any update is invalid", async () => {
+      const fetchMock = jest.fn();
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler()({
+        updates: [
+          { op: "replace", id: 1, path: "/fields/System.Title", value: "Valid" },
+          { op: "replace", id: 2, path: "/fields/System.Id", value: 3 },
+          { op: "replace", id: 3, path: "/fields/System.Title", value: "Missing" },
+        ],
+      });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain("#2 /fields/System.Id: 'System.Id' is read-only");
+      expect(result.content[0].text).toContain("#3: Work item 3 does not exist or is not readable");
+    });
+
+    it("should preview each work item instead of sending the batch when dryRun is set", async () => {
+      const fetchMock = jest.fn();
+      global.fetch = fetchMock as unknown as typeof fetch;
+      mockWorkItemTrackingApi.getWorkItem.mockImplementation(async (id: number) => ({ id, fields: { "System.Title": `Item ${id}`, "Microsoft.VSTS.Common.Priority": 3 } }));
+
+      const result = await getHandler()({
+        updates: [
+          { op: "replace", id: 1, path: "/fields/Priority", value: "1" },
+          { op: "replace", id: 2, path: "/fields/Priority", value: 2 },
+        ],
+        dryRun: true,
+      });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(null, [{ op: "replace", path: "/fields/Microsoft.VSTS.Common.Priority", value: 1 }], 1, undefined, true);
+      const preview = JSON.parse(result.content[0].text);
+      expect(preview.dryRun).toBe(true);
+      expect(preview.workItems.map((workItem: { id: number; changes: unknown[] }) => [workItem.id, workItem.changes])).toEqual([
+        [1, [{ field: "Microsoft.VSTS.Common.Priority", before: 3, after: 1 }]],
+        [2, [{ field: "Microsoft.VSTS.Common.Priority", before: 3, after: 2 }]],
+      ]);
+    });
   });
 
   describe("get_query tool", () => {
     it("should call workItemApi.getQuery API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_query");
 
@@ -677,7 +876,7 @@ describe("configureWorkItemTools", () => {
 
   describe("get_query_results_by_id tool", () => {
     it("should call workItemApi.getQueryById API with the correct parameters and return the expected result", async () => {
-      configureWorkItemTools(server, tokenProvider, connectionProvider);
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
 
       const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_query_results_by_id");
 
@@ -701,4 +900,705 @@ describe("configureWorkItemTools", () => {
       expect(result.content[0].text).toBe(JSON.stringify([_mockQueryResults], null, 2));
     });
   });
+
+  describe("query_wiql tool", () => {
+    const wiql = "SELECT [System.Id], [System.Title] FROM WorkItems WHERE [System.State] = 'Active'";
+
+    function getHandler() {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_query_wiql");
+      if (!call) throw new Error("wit_query_wiql tool not registered");
+      return call[3];
+    }
+
+    beforeEach(() => {
+      mockWorkItemTrackingApi.getWorkItemsBatch.mockImplementation(async ({ ids }: { ids: number[] }) => ids.map((id) => ({ id, rev: 1, fields: { "System.Title": `Item ${id}` } })));
+    });
+
+    it("should hydrate flat query results in batches of 200 with the query columns", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.queryByWiql.mockResolvedValue({
+        queryType: 1,
+        columns: [{ referenceName: "System.Id" }, { referenceName: "System.Title" }],
+        workItems: Array.from({ length: 450 }, (_, index) => ({ id: index + 1 })),
+      });
+
+      const result = await handler({ project: "Contoso", team: "Fabrikam", wiql, pageSize: 450 });
+      const response = JSON.parse(result.content[0].text);
+
+      expect(mockWorkItemTrackingApi.queryByWiql).toHaveBeenCalledWith({ query: wiql }, { project: "Contoso", team: "Fabrikam" }, undefined);
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch.mock.calls.map(([request]) => request.ids.length)).toEqual([200, 200, 50]);
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch).toHaveBeenCalledWith(expect.objectContaining({ fields: ["System.Id", "System.Title"], errorPolicy: 2 }), "Contoso");
+      expect(response).toMatchObject({ queryType: "flat", totalCount: 450 });
+      expect(response.workItems).toHaveLength(450);
+      expect(response.continuationToken).toBeUndefined();
+    });
+
+    it("should page large results with a continuation token", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.queryByWiql.mockResolvedValue({ queryType: 1, columns: [], workItems: Array.from({ length: 5 }, (_, index) => ({ id: index + 1 })) });
+
+      const first = JSON.parse((await handler({ project: "Contoso", wiql, fields: ["System.State"], pageSize: 2 })).content[0].text);
+      const second = JSON.parse((await handler({ project: "Contoso", wiql, fields: ["System.State"], pageSize: 2, continuationToken: first.continuationToken })).content[0].text);
+
+      expect(first.workItems.map((workItem: { id: number }) => workItem.id)).toEqual([1, 2]);
+      expect(second.workItems.map((workItem: { id: number }) => workItem.id)).toEqual([3, 4]);
+      expect(second.continuationToken).toBeDefined();
+
+      const mismatch = await handler({ project: "Contoso", wiql: "SELECT [System.Id] FROM WorkItems", pageSize: 2, continuationToken: first.continuationToken });
+      expect(mismatch.isError).toBe(true);
+      expect(JSON.parse(mismatch.content[0].text).error.code).toBe("bad_request");
+      expect(mismatch.content[0].text).toContain("The continuationToken does not belong to this query");
+    });
+
+    it("should return the links of tree queries and hydrate both ends", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.queryByWiql.mockResolvedValue({
+        queryType: 2,
+        columns: [{ referenceName: "System.Title" }, { referenceName: "System.Links.LinkType" }],
+        workItemRelations: [
+          { target: { id: 1 } },
+          { source: { id: 1 }, target: { id: 2 }, rel: "System.LinkTypes.Hierarchy-Forward" },
+          { source: { id: 1 }, target: { id: 3 }, rel: "System.LinkTypes.Hierarchy-Forward" },
+        ],
+      });
+
+      const response = JSON.parse((await handler({ project: "Contoso", wiql, pageSize: 200 })).content[0].text);
+
+      expect(mockWorkItemTrackingApi.getWorkItemsBatch).toHaveBeenCalledWith(expect.objectContaining({ ids: [1, 2, 3], fields: ["System.Title"] }), "Contoso");
+      expect(response.queryType).toBe("tree");
+      expect(response.relations).toEqual([
+        { targetId: 1 },
+        { sourceId: 1, targetId: 2, rel: "System.LinkTypes.Hierarchy-Forward" },
+        { sourceId: 1, targetId: 3, rel: "System.LinkTypes.Hierarchy-Forward" },
+      ]);
+      expect(response.totalCount).toBe(3);
+    });
+  });
+
+  describe("saved query tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    it("should create a query in a folder", async () => {
+      const handler = getHandler("wit_create_query");
+      mockWorkItemTrackingApi.createQuery.mockResolvedValue(_mockQuery);
+
+      const result = await handler({ project: "Contoso", folder: "Shared Queries/Triage", name: "Untriaged bugs", wiql: "SELECT [System.Id] FROM WorkItems", isFolder: false, validateOnly: false });
+
+      expect(mockWorkItemTrackingApi.createQuery).toHaveBeenCalledWith({ name: "Untriaged bugs", wiql: "SELECT [System.Id] FROM WorkItems" }, "Contoso", "Shared Queries/Triage", false);
+      expect(result.content[0].text).toBe(JSON.stringify(_mockQuery, null, 2));
+    });
+
+    it("should create folders without WIQL and require WIQL for queries", async () => {
+      const handler = getHandler("wit_create_query");
+
+      await handler({ project: "Contoso", folder: "Shared Queries", name: "Triage", isFolder: true, validateOnly: false });
+      const missingWiql = await handler({ project: "Contoso", folder: "Shared Queries", name: "Triage", isFolder: false, validateOnly: false });
+
+      expect(mockWorkItemTrackingApi.createQuery).toHaveBeenCalledWith({ name: "Triage", isFolder: true }, "Contoso", "Shared Queries", false);
+      expect(missingWiql.isError).toBe(true);
+      expect(JSON.parse(missingWiql.content[0].text).error).toMatchObject({ code: "bad_request", message: "Error creating query: wiql is required when creating a query" });
+    });
+
+    it("should rename a query", async () => {
+      const handler = getHandler("wit_update_query");
+      mockWorkItemTrackingApi.updateQuery.mockResolvedValue(_mockQuery);
+
+      await handler({ project: "Contoso", query: "My Queries/Bugs", name: "Open bugs" });
+
+      expect(mockWorkItemTrackingApi.updateQuery).toHaveBeenCalledWith({ name: "Open bugs", wiql: undefined }, "Contoso", "My Queries/Bugs");
+    });
+
+    it("should move a query by posting its ID to the destination folder", async () => {
+      const handler = getHandler("wit_move_query");
+      mockWorkItemTrackingApi.getQuery.mockResolvedValue({ id: "342f0f44-4069-46b1-a940-3d0468979ceb" });
+      mockWorkItemTrackingApi.createQuery.mockResolvedValue(_mockQuery);
+
+      await handler({ project: "Contoso", query: "My Queries/Bugs", folder: "Shared Queries" });
+
+      expect(mockWorkItemTrackingApi.getQuery).toHaveBeenCalledWith("Contoso", "My Queries/Bugs");
+      expect(mockWorkItemTrackingApi.createQuery).toHaveBeenCalledWith({ id: "342f0f44-4069-46b1-a940-3d0468979ceb" }, "Contoso", "Shared Queries");
+    });
+
+    it("should delete a query", async () => {
+      const handler = getHandler("wit_delete_query");
+
+      const result = await handler({ project: "Contoso", query: "Shared Queries/Old" });
+
+      expect(mockWorkItemTrackingApi.deleteQuery).toHaveBeenCalledWith("Contoso", "Shared Queries/Old");
+      expect(result.content[0].text).toBe("Query 'Shared Queries/Old' deleted");
+    });
+
+    it("should show the before and after of a query change without saving it when dryRun is set", async () => {
+      const handler = getHandler("wit_update_query");
+      mockWorkItemTrackingApi.getQuery.mockResolvedValue({ id: "342f0f44-4069-46b1-a940-3d0468979ceb", name: "Bugs", path: "My Queries/Bugs", wiql: "SELECT [System.Id] FROM WorkItems" });
+      mockWorkItemTrackingApi.createQuery.mockRejectedValue(new Error("TF51005: The query references a field that does not exist."));
+
+      const result = await handler({ project: "Contoso", query: "My Queries/Bugs", name: "Open bugs", wiql: "SELECT [System.Nope] FROM WorkItems", dryRun: true });
+
+      expect(mockWorkItemTrackingApi.updateQuery).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.createQuery).toHaveBeenCalledWith({ name: "Open bugs", wiql: "SELECT [System.Nope] FROM WorkItems" }, "Contoso", "My Queries", true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        query: { id: "342f0f44-4069-46b1-a940-3d0468979ceb", path: "My Queries/Bugs" },
+        changes: [
+          { field: "name", before: "Bugs", after: "Open bugs" },
+          { field: "wiql", before: "SELECT [System.Id] FROM WorkItems", after: "SELECT [System.Nope] FROM WorkItems" },
+        ],
+        validation: { valid: false, message: "TF51005: The query references a field that does not exist." },
+      });
+    });
+
+    it("should list what a folder deletion would remove when dryRun is set", async () => {
+      const handler = getHandler("wit_delete_query");
+      mockWorkItemTrackingApi.getQuery.mockResolvedValue({
+        id: "1",
+        path: "Shared Queries/Old",
+        isFolder: true,
+        children: [{ path: "Shared Queries/Old/Bugs" }, { path: "Shared Queries/Old/Archive", children: [{ path: "Shared Queries/Old/Archive/2019" }] }],
+      });
+
+      const result = await handler({ project: "Contoso", query: "Shared Queries/Old", dryRun: true });
+
+      expect(mockWorkItemTrackingApi.deleteQuery).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.getQuery).toHaveBeenCalledWith("Contoso", "Shared Queries/Old", 0, 2);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        delete: { id: "1", path: "Shared Queries/Old", isFolder: true },
+        alsoDeletes: ["Shared Queries/Old/Bugs", "Shared Queries/Old/Archive", "Shared Queries/Old/Archive/2019"],
+      });
+    });
+  });
+
+  describe("get_work_item_history tool", () => {
+    const updates = [
+      {
+        rev: 1,
+        revisedBy: { displayName: "Jane Doe" },
+        fields: {
+          "System.State": { newValue: "New" },
+          "System.Title": { newValue: "Fix login" },
+          "System.ChangedDate": { newValue: "2025-01-01T09:00:00Z" },
+        },
+      },
+      {
+        rev: 2,
+        revisedBy: { displayName: "John Smith" },
+        fields: {
+          "System.State": { oldValue: "New", newValue: "Active" },
+          "System.AssignedTo": { newValue: { displayName: "John Smith", uniqueName: "john@contoso.com" } },
+          "System.Rev": { oldValue: 1, newValue: 2 },
+          "System.ChangedDate": { oldValue: "2025-01-01T09:00:00Z", newValue: "2025-01-05T10:00:00Z" },
+        },
+        relations: { added: [{ rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/_apis/wit/workItems/7" }] },
+      },
+      { rev: 3, revisedBy: { displayName: "John Smith" }, fields: { "System.Rev": { oldValue: 2, newValue: 3 } } },
+    ];
+
+    function getHandler() {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_get_work_item_history");
+      if (!call) throw new Error("wit_get_work_item_history tool not registered");
+      return call[3];
+    }
+
+    it("should return field-level changes without bookkeeping fields", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.getUpdates.mockResolvedValue(updates);
+
+      const result = await handler({ id: 42, project: "Contoso", includeSystemFields: false, format: "json" });
+
+      expect(mockWorkItemTrackingApi.getUpdates).toHaveBeenCalledWith(42, 200, 0, "Contoso");
+      expect(JSON.parse(result.content[0].text)).toEqual([
+        {
+          rev: 1,
+          changedBy: "Jane Doe",
+          changedDate: "2025-01-01T09:00:00.000Z",
+          changes: [
+            { field: "System.State", newValue: "New" },
+            { field: "System.Title", newValue: "Fix login" },
+          ],
+        },
+        {
+          rev: 2,
+          changedBy: "John Smith",
+          changedDate: "2025-01-05T10:00:00.000Z",
+          changes: [
+            { field: "System.State", oldValue: "New", newValue: "Active" },
+            { field: "System.AssignedTo", newValue: "John Smith" },
+          ],
+          linksAdded: ["System.LinkTypes.Hierarchy-Reverse https://dev.azure.com/contoso/_apis/wit/workItems/7"],
+        },
+      ]);
+    });
+
+    it("should filter by field and date and render a markdown timeline", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.getUpdates.mockResolvedValue(updates);
+
+      const result = await handler({ id: 42, project: "Contoso", fields: ["system.state"], since: new Date("2025-01-02"), includeSystemFields: false, format: "markdown" });
+
+      expect(result.content[0].text).toBe("## Work item 42 history\n\n### Rev 2 · 2025-01-05T10:00:00.000Z · John Smith\n- **System.State**: New → Active");
+    });
+
+    it("should include the whole day of a date-only until", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.getUpdates.mockResolvedValue(updates);
+
+      const dateOnly = await handler({ id: 42, project: "Contoso", until: "2025-01-05", includeSystemFields: false, format: "json" });
+      const dateTime = await handler({ id: 42, project: "Contoso", until: "2025-01-05T09:00:00Z", includeSystemFields: false, format: "json" });
+
+      expect(JSON.parse(dateOnly.content[0].text).map((entry: { rev: number }) => entry.rev)).toEqual([1, 2]);
+      expect(JSON.parse(dateTime.content[0].text).map((entry: { rev: number }) => entry.rev)).toEqual([1]);
+    });
+
+    it("should page through all updates", async () => {
+      const handler = getHandler();
+      mockWorkItemTrackingApi.getUpdates.mockResolvedValueOnce(Array.from({ length: 200 }, (_, index) => ({ rev: index + 1 }))).mockResolvedValueOnce([]);
+
+      await handler({ id: 42, project: "Contoso", includeSystemFields: false, format: "json" });
+
+      expect(mockWorkItemTrackingApi.getUpdates).toHaveBeenNthCalledWith(2, 42, 200, 200, "Contoso");
+    });
+  });
+
+  describe("attachment tools", () => {
+    const attachmentUrl = "https://dev.azure.com/contoso/_apis/wit/attachments/0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0";
+
+    function getHandler(toolName: string) {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    it("should upload base64 content and attach it to the work item", async () => {
+      mockWorkItemTrackingApi.createAttachment.mockResolvedValue({ id: "0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0", url: attachmentUrl });
+      mockWorkItemTrackingApi.updateWorkItem.mockResolvedValue({ id: 42, rev: 4 });
+
+      const result = await getHandler("wit_add_attachment")({ project: "Contoso", workItemId: 42, content: Buffer.from("Stack trace").toString("base64"), fileName: "repro.log", comment: "Repro" });
+
+      expect(mockWorkItemTrackingApi.createAttachment).toHaveBeenCalledWith({}, expect.anything(), "repro.log", undefined, "Contoso");
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(
+        null,
+        [{ op: "add", path: "/relations/-", value: { rel: "AttachedFile", url: attachmentUrl, attributes: { comment: "Repro" } } }],
+        42,
+        "Contoso"
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        workItemId: 42,
+        rev: 4,
+        attachment: { id: "0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0", url: attachmentUrl, fileName: "repro.log", mimeType: "text/plain", size: 11 },
+      });
+    });
+
+    it("should not upload anything when dryRun is set", async () => {
+      mockWorkItemTrackingApi.getWorkItem.mockResolvedValue({ id: 42, fields: { "System.WorkItemType": "Bug", "System.Title": "Login fails" } });
+
+      const result = await getHandler("wit_add_attachment")({ project: "Contoso", workItemId: 42, content: "iVBORw0KGgo=", fileName: "shot.png", dryRun: true });
+
+      expect(mockWorkItemTrackingApi.createAttachment).not.toHaveBeenCalled();
+      expect(mockWorkItemTrackingApi.updateWorkItem).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        workItems: [{ id: 42, workItemType: "Bug", title: "Login fails" }],
+        attachment: { fileName: "shot.png", mimeType: "image/png", size: 8 },
+      });
+    });
+
+    it("should list only attachment relations", async () => {
+      mockWorkItemTrackingApi.getWorkItem.mockResolvedValue({
+        id: 42,
+        relations: [
+          { rel: "System.LinkTypes.Related", url: "https://dev.azure.com/contoso/_apis/wit/workItems/7" },
+          { rel: "AttachedFile", url: attachmentUrl, attributes: { name: "repro.log", resourceSize: 11, comment: "Repro" } },
+        ],
+      });
+
+      const result = await getHandler("wit_list_attachments")({ project: "Contoso", workItemId: 42 });
+
+      expect(mockWorkItemTrackingApi.getWorkItem).toHaveBeenCalledWith(42, undefined, undefined, 1, "Contoso");
+      expect(JSON.parse(result.content[0].text)).toEqual([{ id: "0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0", name: "repro.log", size: 11, comment: "Repro", url: attachmentUrl }]);
+    });
+
+    it("should download an attachment by URL and return binary content as an embedded resource", async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]);
+      Object.assign(mockConnection, { serverUrl: "https://dev.azure.com/contoso" });
+      mockWorkItemTrackingApi.getAttachmentContent.mockResolvedValue(Readable.from([png]));
+
+      const result = await getHandler("wit_get_attachment")({ project: "Contoso", attachment: `${attachmentUrl}?fileName=shot.png` });
+
+      expect(mockWorkItemTrackingApi.getAttachmentContent).toHaveBeenCalledWith("0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0", "shot.png", "Contoso", true);
+      expect(result.content[1]).toEqual({
+        type: "resource",
+        resource: { uri: `${attachmentUrl.replace("/_apis", "/Contoso/_apis")}?fileName=shot.png`, mimeType: "image/png", blob: png.toString("base64") },
+      });
+    });
+  });
+
+  describe("link tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    beforeEach(() => {
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Basic token");
+      Object.assign(mockConnection, { serverUrl: "https://dev.azure.com/contoso" });
+    });
+
+    it("should link with custom and remote link types of the organization", async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, headers: new Headers(), json: async () => ({ count: 1 }) });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      await getHandler("wit_work_items_link")({
+        project: "Contoso",
+        updates: [
+          { id: 1, linkToId: 2, type: "Blocks" },
+          { id: 1, linkToId: 300, type: "remote related", linkToOrganization: "fabrikam", comment: "Same bug" },
+        ],
+      });
+
+      const [, request] = fetchMock.mock.calls[0];
+      expect(JSON.parse(request.body)[0].body).toEqual([
+        { op: "add", path: "/relations/-", value: { rel: "Contoso.LinkTypes.Blocks-Forward", url: "https://dev.azure.com/contoso/Contoso/_apis/wit/workItems/2", attributes: { comment: "" } } },
+        { op: "add", path: "/relations/-", value: { rel: "System.LinkTypes.Remote.Related", url: "https://dev.azure.com/fabrikam/_apis/wit/workItems/300", attributes: { comment: "Same bug" } } },
+      ]);
+    });
+
+    it("should require an organization for remote link types only", async () => {
+      const fetchMock = jest.fn();
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const remote = await getHandler("wit_work_items_link")({ project: "Contoso", updates: [{ id: 1, linkToId: 300, type: "Remote Related" }] });
+      const local = await getHandler("wit_work_items_link")({ project: "Contoso", updates: [{ id: 1, linkToId: 2, type: "related", linkToOrganization: "fabrikam" }] });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(remote.content[0].text).toContain("linkToOrganization is required for the remote link type 'Remote Related'");
+      expect(local.content[0].text).toContain("linkToOrganization can only be used with remote link types, not 'Related'");
+    });
+
+    it("should link a commit by resolving the repository and project IDs", async () => {
+      const mockGitApi = { getRepository: jest.fn().mockResolvedValue({ id: "r1", project: { id: "p1" } }) };
+      Object.assign(mockConnection, { getGitApi: jest.fn().mockResolvedValue(mockGitApi) });
+      mockWorkItemTrackingApi.updateWorkItem.mockResolvedValue(_mockWorkItem);
+
+      await getHandler("wit_add_artifact_link")({ project: "Contoso", workItemId: 42, artifactType: "commit", repository: "web", commitId: "abc123" });
+
+      expect(mockGitApi.getRepository).toHaveBeenCalledWith("web", "Contoso");
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(
+        null,
+        [{ op: "add", path: "/relations/-", value: { rel: "ArtifactLink", url: "vstfs:///Git/Commit/p1%2Fr1%2Fabc123", attributes: { name: "Fixed in Commit", comment: "" } } }],
+        42,
+        "Contoso"
+      );
+    });
+
+    it("should remove every link to a work item, highest index first, guarded by the revision", async () => {
+      mockWorkItemTrackingApi.getWorkItem.mockResolvedValue({
+        id: 1,
+        rev: 9,
+        relations: [
+          { rel: "System.LinkTypes.Related", url: "https://dev.azure.com/contoso/_apis/wit/workItems/2" },
+          { rel: "AttachedFile", url: "https://dev.azure.com/contoso/_apis/wit/attachments/a1" },
+          { rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/_apis/wit/workItems/2" },
+        ],
+      });
+      mockWorkItemTrackingApi.updateWorkItem.mockResolvedValue({ id: 1, rev: 10 });
+
+      const result = await getHandler("wit_remove_work_item_link")({ project: "Contoso", id: 1, linkToId: 2 });
+
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledWith(
+        null,
+        [
+          { op: "test", path: "/rev", value: 9 },
+          { op: "remove", path: "/relations/2" },
+          { op: "remove", path: "/relations/0" },
+        ],
+        1,
+        "Contoso"
+      );
+      expect(JSON.parse(result.content[0].text).removed.map((relation: { rel: string }) => relation.rel)).toEqual(["System.LinkTypes.Related", "System.LinkTypes.Hierarchy-Reverse"]);
+    });
+
+    it("should filter removed links by type and reject indexes out of range", async () => {
+      mockWorkItemTrackingApi.getWorkItem.mockResolvedValue({
+        id: 1,
+        rev: 9,
+        relations: [
+          { rel: "System.LinkTypes.Related", url: "https://dev.azure.com/contoso/_apis/wit/workItems/2" },
+          { rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/_apis/wit/workItems/2" },
+        ],
+      });
+
+      await getHandler("wit_remove_work_item_link")({ project: "Contoso", id: 1, linkToId: 2, type: "parent" });
+      const outOfRange = await getHandler("wit_remove_work_item_link")({ project: "Contoso", id: 1, relationIndexes: [5] });
+
+      expect(mockWorkItemTrackingApi.updateWorkItem).toHaveBeenCalledTimes(1);
+      expect(mockWorkItemTrackingApi.updateWorkItem.mock.calls[0][1]).toEqual([
+        { op: "test", path: "/rev", value: 9 },
+        { op: "remove", path: "/relations/1" },
+      ]);
+      expect(outOfRange.content[0].text).toContain("Work item 1 has 2 relation(s); no relation at index 5");
+    });
+  });
+
+  describe("bulk_create tool", () => {
+    function getHandler() {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([toolName]) => toolName === "wit_bulk_create");
+      if (!call) throw new Error("wit_bulk_create tool not registered");
+      return call[3];
+    }
+
+    function batchResponse(...items: { code: number; body: object }[]) {
+      return { ok: true, status: 200, headers: new Headers(), json: async () => ({ count: items.length, value: items.map(({ code, body }) => ({ code, body: JSON.stringify(body) })) }) };
+    }
+
+    beforeEach(() => {
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Basic token");
+      Object.assign(mockConnection, { serverUrl: "https://dev.azure.com/contoso" });
+    });
+
+    it("should create items and link children to their parents' temporary IDs in one batch", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(batchResponse({ code: 200, body: { id: 100 } }, { code: 200, body: { id: 101 } }, { code: 400, body: { message: "TF401320: Rule Error for field Title." } }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler()({
+        project: "Contoso",
+        format: "markdown",
+        input: "- [Bug] Login fails\n  - [Task] Fix the form {Story Points: 2}\n  - [Task] Add a test",
+        areaPath: "Contoso\\Web",
+      });
+
+      const batch = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toBe("https://dev.azure.com/contoso/_apis/wit/$batch?api-version=5.0");
+      expect(batch[0]).toEqual({
+        method: "PATCH",
+        uri: "/Contoso/_apis/wit/workitems/$Bug?api-version=5.0",
+        headers: { "Content-Type": "application/json-patch+json" },
+        body: [
+          { op: "add", path: "/id", value: -1 },
+          { op: "add", path: "/fields/System.Title", value: "Login fails" },
+          { op: "add", path: "/fields/System.AreaPath", value: "Contoso\\Web" },
+        ],
+      });
+      expect(batch.slice(1).map((request: { uri: string }) => request.uri)).toEqual(["/Contoso/_apis/wit/workitems/$Task?api-version=5.0", "/Contoso/_apis/wit/workitems/$Task?api-version=5.0"]);
+      expect(batch[1].body).toContainEqual({ op: "add", path: "/id", value: -2 });
+      expect(batch[1].body).toContainEqual({ op: "add", path: "/fields/Microsoft.VSTS.Scheduling.StoryPoints", value: 2 });
+      expect(batch[1].body).toContainEqual({
+        op: "add",
+        path: "/relations/-",
+        value: { rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/Contoso/_apis/wit/workItems/-1" },
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual({ created: { "1": 100, "2": 101 }, errors: [{ key: "3", message: "TF401320: Rule Error for field Title." }] });
+    });
+
+    it("should link children in later batches to the real IDs of their parents", async () => {
+      const children = Array.from({ length: 200 }, (_, index) => ({ type: "Task", title: `Task ${index + 1}` }));
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(batchResponse(...Array.from({ length: 200 }, (_, index) => ({ code: 200, body: { id: 100 + index } }))))
+        .mockResolvedValueOnce(batchResponse({ code: 200, body: { id: 300 } }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler()({ project: "Contoso", format: "json", input: JSON.stringify([{ key: "bug", type: "Bug", title: "A", children }]) });
+
+      const secondBatch = JSON.parse(fetchMock.mock.calls[1][1].body);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(secondBatch).toHaveLength(1);
+      expect(secondBatch[0].body).toContainEqual({
+        op: "add",
+        path: "/relations/-",
+        value: { rel: "System.LinkTypes.Hierarchy-Reverse", url: "https://dev.azure.com/contoso/Contoso/_apis/wit/workItems/100" },
+      });
+      expect(JSON.parse(result.content[0].text).created["201"]).toBe(300);
+    });
+
+    it("should report the children of items that failed", async () => {
+      const fetchMock = jest.fn().mockResolvedValueOnce(batchResponse({ code: 500, body: { message: "Server error" } }, { code: 400, body: { message: "Invalid parent" } }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler()({ project: "Contoso", format: "json", input: JSON.stringify([{ key: "bug", type: "Bug", title: "A", children: [{ type: "Task", title: "B" }] }]) });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(result.content[0].text).errors).toEqual([
+        { key: "bug", message: "Server error" },
+        { key: "2", message: "Not created because its parent 'bug' was not created" },
+      ]);
+    });
+
+    it("should validate every item before creating any", async () => {
+      const fetchMock = jest.fn();
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler()({ project: "Contoso", format: "csv", input: "key,type,title,State\na,Bug,A,Resolved\nb,Task,B," });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(`- 'a' /fields/System.State: \\"Resolved\\" is not an allowed value of 'System.State'`);
+    });
+  });
+
+  describe("comment tools", () => {
+    function getHandler(toolName: string) {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    const identities = { value: [{ id: "u1", providerDisplayName: "Jane Doe", properties: { Mail: { $value: "jane@contoso.com" } } }] };
+
+    beforeEach(() => {
+      (authHeaderProvider as jest.Mock).mockResolvedValue("Basic token");
+      Object.assign(mockConnection, { serverUrl: "https://dev.azure.com/contoso" });
+    });
+
+    it("should page through comments with a continuation token", async () => {
+      mockWorkItemTrackingApi.getComments.mockResolvedValue(_mockWorkItemComments);
+
+      await getHandler("wit_list_work_item_comments")({ project: "Contoso", workItemId: 299, top: 200, continuationToken: "next", includeDeleted: true, order: "asc" });
+
+      expect(mockWorkItemTrackingApi.getComments).toHaveBeenCalledWith("Contoso", 299, 200, "next", true, undefined, CommentSortOrder.Asc);
+    });
+
+    it("should post markdown comments with resolved mentions", async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => identities })
+        .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({ id: 7 }) });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const result = await getHandler("wit_add_work_item_comment")({ project: "Contoso", workItemId: 299, comment: "Thanks @jane@contoso.com!", format: "markdown" });
+
+      expect(fetchMock.mock.calls[0][0]).toContain("https://vssps.dev.azure.com/contoso/_apis/identities?searchFilter=General&filterValue=jane%40contoso.com");
+      expect(fetchMock.mock.calls[1][0]).toBe("https://dev.azure.com/contoso/Contoso/_apis/wit/workItems/299/comments?format=markdown&api-version=7.2-preview.4");
+      expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: "POST", body: JSON.stringify({ text: "Thanks @<u1>!" }) });
+      expect(mockWorkItemTrackingApi.addComment).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({ id: 7 });
+    });
+
+    it("should preview an HTML comment update with the mention resolved", async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, headers: new Headers(), json: async () => identities }) as unknown as typeof fetch;
+      mockWorkItemTrackingApi.getComment.mockResolvedValue({ id: 7, text: "Old text" });
+
+      const result = await getHandler("wit_update_work_item_comment")({ project: "Contoso", workItemId: 299, commentId: 7, comment: 'Over to @"Jane Doe"', format: "html", dryRun: true });
+
+      expect(mockWorkItemTrackingApi.updateComment).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        comment: {
+          workItemId: 299,
+          commentId: 7,
+          changes: [{ field: "text", before: "Old text", after: 'Over to <a href="#" data-vss-mention="version:2.0,u1">@Jane Doe</a>' }],
+          mentions: [{ id: "u1", displayName: "Jane Doe", uniqueName: "jane@contoso.com" }],
+        },
+      });
+    });
+
+    it("should update and delete comments", async () => {
+      mockWorkItemTrackingApi.updateComment.mockResolvedValue({ id: 7, text: "New text" });
+
+      await getHandler("wit_update_work_item_comment")({ project: "Contoso", workItemId: 299, commentId: 7, comment: "New text", format: "html" });
+      const deleted = await getHandler("wit_delete_work_item_comment")({ project: "Contoso", workItemId: 299, commentId: 7 });
+
+      expect(mockWorkItemTrackingApi.updateComment).toHaveBeenCalledWith({ text: "New text" }, "Contoso", 299, 7);
+      expect(mockWorkItemTrackingApi.deleteComment).toHaveBeenCalledWith("Contoso", 299, 7);
+      expect(deleted.content[0].text).toBe("Comment 7 deleted from work item 299");
+    });
+
+    it("should add and remove reactions", async () => {
+      mockWorkItemTrackingApi.createCommentReaction.mockResolvedValue({ type: CommentReactionType.Heart, count: 1 });
+
+      await getHandler("wit_add_comment_reaction")({ project: "Contoso", workItemId: 299, commentId: 7, reaction: "heart" });
+      await getHandler("wit_remove_comment_reaction")({ project: "Contoso", workItemId: 299, commentId: 7, reaction: "like" });
+
+      expect(mockWorkItemTrackingApi.createCommentReaction).toHaveBeenCalledWith("Contoso", 299, 7, CommentReactionType.Heart);
+      expect(mockWorkItemTrackingApi.deleteCommentReaction).toHaveBeenCalledWith("Contoso", 299, 7, CommentReactionType.Like);
+    });
+  });
+
+  describe("reorder_backlog tool", () => {
+    function getHandler(toolName: string) {
+      configureWorkItemTools(server, authHeaderProvider, connectionProvider);
+      const call = (server.tool as jest.Mock).mock.calls.find(([name]) => name === toolName);
+      if (!call) throw new Error(`${toolName} tool not registered`);
+      return call[3];
+    }
+
+    const params = { project: "Fabrikam", team: "Web", backlogId: "Microsoft.RequirementCategory" };
+
+    beforeEach(() => {
+      mockWorkApi.getBacklogLevelWorkItems.mockResolvedValue({ workItems: [1, 2, 3, 4].map((id) => ({ target: { id } })) });
+    });
+
+    it("should reorder through the reorder API with the neighbours of the new position", async () => {
+      mockWorkApi.reorderBacklogWorkItems.mockResolvedValue([{ id: 4, order: 1500 }]);
+
+      const result = await getHandler("wit_reorder_backlog")({ ...params, ids: [4], position: "above", relativeTo: 2 });
+
+      expect(mockWorkApi.reorderBacklogWorkItems).toHaveBeenCalledWith({ ids: [4], previousId: 1, nextId: 2, parentId: 0 }, { project: "Fabrikam", team: "Web" });
+      expect(JSON.parse(result.content[0].text)).toEqual([{ id: 4, order: 1500 }]);
+    });
+
+    it("should pass the common parent of the moved items", async () => {
+      mockWorkApi.getBacklogLevelWorkItems.mockResolvedValue({ workItems: [1, 2, 3].map((id) => ({ source: { id: 10 }, target: { id } })) });
+
+      await getHandler("wit_reorder_backlog")({ ...params, ids: [3], position: "top" });
+
+      expect(mockWorkApi.reorderBacklogWorkItems).toHaveBeenCalledWith({ ids: [3], previousId: 0, nextId: 1, parentId: 10 }, { project: "Fabrikam", team: "Web" });
+    });
+
+    it("should only rank items among the children of their parent", async () => {
+      mockWorkApi.getBacklogLevelWorkItems.mockResolvedValue({
+        workItems: [
+          { source: { id: 10 }, target: { id: 1 } },
+          { source: { id: 20 }, target: { id: 2 } },
+          { source: { id: 10 }, target: { id: 3 } },
+          { source: { id: 20 }, target: { id: 4 } },
+        ],
+      });
+
+      await getHandler("wit_reorder_backlog")({ ...params, ids: [3], position: "top" });
+      const result = await getHandler("wit_reorder_backlog")({ ...params, ids: [3], position: "below", relativeTo: 2 });
+
+      expect(mockWorkApi.reorderBacklogWorkItems).toHaveBeenCalledWith({ ids: [3], previousId: 0, nextId: 1, parentId: 10 }, { project: "Fabrikam", team: "Web" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Work item 2 has a different parent (20) than the moved work items (10)");
+    });
+
+    it("should preview the ranks before and after a move", async () => {
+      const result = await getHandler("wit_reorder_backlog")({ ...params, ids: [1, 2], position: "bottom", dryRun: true });
+
+      expect(mockWorkApi.reorderBacklogWorkItems).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dryRun: true,
+        parentId: 0,
+        previousId: 4,
+        nextId: 0,
+        moves: [
+          { id: 1, rankBefore: 1, rankAfter: 3 },
+          { id: 2, rankBefore: 2, rankAfter: 4 },
+        ],
+      });
+    });
+
+    it("should report items that are not on the backlog", async () => {
+      const result = await getHandler("wit_reorder_backlog")({ ...params, ids: [7], position: "top" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Work items 7 are not on this backlog");
+    });
+  });
 });
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../../src/logger";
+import { resolveOrganization } from "../../src/org";
+import { createOrganizationRegistry } from "../../src/organizations";
+import { ALL_TOOLSETS, configureAllTools } from "../../src/tools";
+import { createFilteredServer, createToolFilter, matchesAnyGlob, parseListOption, Toolset } from "../../src/toolsets";
+
+const TEST_TOOLSETS: Toolset[] = [
+  { name: "core", tools: { core_list_projects: { readOnly: true } } },
+  {
+    name: "wit",
+    tools: {
+      wit_get_work_item: { readOnly: true },
+      wit_update_work_item: { readOnly: false, destructive: true },
+      wit_add_work_item_comment: { readOnly: false },
+    },
+  },
+];
+
+function registeredToolNames(server: McpServer): string[] {
+  return (server.tool as jest.Mock).mock.calls.map(([name]) => name as string);
+}
+
+describe("createToolFilter", () => {
+  it("should enable every tool with metadata by default", () => {
+    const isEnabled = createToolFilter(TEST_TOOLSETS, {});
+
+    expect(isEnabled("core_list_projects")).toBe(true);
+    expect(isEnabled("wit_update_work_item")).toBe(true);
+    expect(isEnabled("unknown_tool")).toBe(false);
+  });
+
+  it("should only enable the selected toolsets", () => {
+    const isEnabled = createToolFilter(TEST_TOOLSETS, { toolsets: ["core"] });
+
+    expect(isEnabled("core_list_projects")).toBe(true);
+    expect(isEnabled("wit_get_work_item")).toBe(false);
+  });
+
+  it("should reject unknown toolsets", () => {
+    expect(() => createToolFilter(TEST_TOOLSETS, { toolsets: ["core", "boards"] })).toThrow("Unknown toolset(s): boards. Available toolsets: core, wit");
+  });
+
+  it("should apply allow and deny globs", () => {
+    const isEnabled = createToolFilter(TEST_TOOLSETS, { tools: ["wit_*"], excludeTools: ["*_update_*"] });
+
+    expect(isEnabled("core_list_projects")).toBe(false);
+    expect(isEnabled("wit_get_work_item")).toBe(true);
+    expect(isEnabled("wit_update_work_item")).toBe(false);
+  });
+
+  it("should only enable read-only tools in read-only mode", () => {
+    const isEnabled = createToolFilter(TEST_TOOLSETS, { readOnly: true });
+
+    expect(isEnabled("wit_get_work_item")).toBe(true);
+    expect(isEnabled("wit_add_work_item_comment")).toBe(false);
+    expect(isEnabled("wit_update_work_item")).toBe(false);
+  });
+});
+
+describe("createFilteredServer", () => {
+  it("should register only enabled tools and attach annotations", () => {
+    const server = { tool: jest.fn(), name: "inner" } as unknown as McpServer;
+    const filtered = createFilteredServer(server, TEST_TOOLSETS, { excludeTools: ["wit_get_*"] });
+    const handler = jest.fn();
+
+    filtered.tool("wit_get_work_item", "Get", {}, handler);
+    filtered.tool("wit_update_work_item", "Update", {}, handler);
+    filtered.tool("not_in_any_toolset", "Unknown", {}, handler);
+
+    expect(registeredToolNames(server)).toEqual(["wit_update_work_item"]);
+    expect((server.tool as jest.Mock).mock.calls[0]).toEqual(["wit_update_work_item", "Update", {}, { readOnlyHint: false, destructiveHint: true, openWorldHint: true }, handler]);
+    expect((filtered as unknown as { name: string }).name).toBe("inner");
+  });
+});
+
+describe("ALL_TOOLSETS", () => {
+  const organizations = createOrganizationRegistry([{ info: resolveOrganization("contoso"), authProvider: { type: "pat", getAuthorizationHeader: jest.fn(), getRequestHandler: jest.fn() } }]);
+
+  it("should describe every tool the server registers", () => {
+    const warning = jest.spyOn(logger, "warning").mockImplementation(() => undefined);
+    const server = { tool: jest.fn() } as unknown as McpServer;
+
+    configureAllTools(server, organizations);
+
+    expect(warning).not.toHaveBeenCalled();
+    expect(registeredToolNames(server).sort()).toEqual(ALL_TOOLSETS.flatMap((toolset) => Object.keys(toolset.tools)).sort());
+    warning.mockRestore();
+  });
+
+  it("should register only read-only tools in read-only mode", () => {
+    const server = { tool: jest.fn() } as unknown as McpServer;
+
+    configureAllTools(server, organizations, { readOnly: true });
+
+    const names = registeredToolNames(server);
+    expect(names).toContain("core_list_projects");
+    expect(names).not.toContain("wit_update_work_item");
+    expect((server.tool as jest.Mock).mock.calls.every(([, , , annotations]) => annotations.readOnlyHint === true)).toBe(true);
+  });
+});
+
+describe("matchesAnyGlob", () => {
+  it("should match case-insensitive wildcards", () => {
+    expect(matchesAnyGlob("repo_list_pull_requests", ["REPO_*"])).toBe(true);
+    expect(matchesAnyGlob("repo_list_pull_requests", ["repo_?et_*"])).toBe(false);
+  });
+});
+
+describe("parseListOption", () => {
+  it("should split comma separated values", () => {
+    expect(parseListOption(" core, wit ,,repos")).toEqual(["core", "wit", "repos"]);
+    expect(parseListOption("")).toBeUndefined();
+    expect(parseListOption(undefined)).toBeUndefined();
+  });
+});